@@ -3,11 +3,13 @@ import Landing from './pages/Landing'
 import UniversityDashboard from './pages/UniversityDashboard'
 import StudentDashboard from './pages/StudentDashboard'
 import EmployerVerification from './pages/EmployerVerification'
+import AdminDashboard from './pages/AdminDashboard'
+import AccreditorDashboard from './pages/AccreditorDashboard'
 import Navigation from './components/Navigation'
 import { MidnightProvider, useMidnightSDK } from './utils/MidnightProvider'
 import { MidnightConfig } from './utils/midnightSDKIntegration'
 
-type UserRole = 'landing' | 'university' | 'student' | 'employer'
+type UserRole = 'landing' | 'university' | 'student' | 'employer' | 'admin' | 'accreditor'
 
 // Midnight Network Configuration
 const midnightConfig: MidnightConfig = {
@@ -23,7 +25,19 @@ function AppContent() {
     isConnected: false,
   })
   
-  const { initializeSDK, connected } = useMidnightSDK()
+  const { initializeSDK, connected, ledger, accreditors } = useMidnightSDK()
+  const [contractOwner, setContractOwner] = useState<string | null>(null)
+
+  // The admin console is only reachable by the on-ledger contract owner
+  useEffect(() => {
+    ledger.getContractOwner()
+      .then(setContractOwner)
+      .catch(err => console.error('Failed to read contract owner:', err))
+  }, [ledger])
+  const isOwner = userInfo.isConnected && !!contractOwner && userInfo.address === contractOwner
+  // Likewise the accreditor console, for accreditors the owner appointed
+  const isAccreditor =
+    userInfo.isConnected && accreditors.some(a => a.accreditorAddress === userInfo.address)
 
   // Auto-initialize SDK when wallet connects
   useEffect(() => {
@@ -65,6 +79,8 @@ function AppContent() {
           currentRole={currentRole} 
           onRoleChange={handleRoleChange}
           userAddress={userInfo.address}
+          isOwner={isOwner}
+          isAccreditor={isAccreditor}
           onDisconnect={handleDisconnect}
         />
       )}
@@ -84,6 +100,14 @@ function AppContent() {
       {currentRole === 'employer' && userInfo.isConnected && (
         <EmployerVerification userAddress={userInfo.address} />
       )}
+
+      {currentRole === 'admin' && isOwner && (
+        <AdminDashboard userAddress={userInfo.address} />
+      )}
+
+      {currentRole === 'accreditor' && isAccreditor && (
+        <AccreditorDashboard userAddress={userInfo.address} />
+      )}
     </div>
   )
 }
@@ -0,0 +1,77 @@
+import { ChevronRight, Landmark, ShieldCheck, ShieldOff } from 'lucide-react'
+import IssuerBadge from './IssuerBadge'
+import type { AccreditationChain } from '../utils/ledgerBackend'
+
+interface AccreditationChainViewProps {
+  chain: AccreditationChain
+}
+
+const shortAddress = (address: string) =>
+  address.length > 20 ? `${address.slice(0, 10)}...${address.slice(-6)}` : address
+
+/**
+ * Where an issuer's authority comes from
+ * Contract owner → accreditor → university, or owner → university for
+ * universities the owner authorized directly. A suspended accreditation or a
+ * removed accreditor breaks the chain and is shown as such.
+ */
+export default function AccreditationChainView({ chain }: AccreditationChainViewProps) {
+  const { accreditation, accreditor } = chain
+
+  let problem: string | null = null
+  if (accreditation && !accreditor) {
+    problem = 'The accrediting body was removed by the contract owner'
+  } else if (accreditation?.status === 'suspended') {
+    problem = `Suspended by ${accreditor?.name ?? 'its accreditor'} on ${new Date(
+      accreditation.updatedAt * 1000
+    ).toLocaleDateString()}`
+  } else if (!chain.authorized) {
+    problem = 'Not authorized by the contract owner or any accreditor'
+  }
+
+  return (
+    <div className="text-sm">
+      <div className="flex flex-wrap items-center gap-1 text-gray-300">
+        <span className="inline-flex items-center gap-1" title={chain.contractOwner}>
+          <Landmark size={14} className="text-cyan-400" />
+          Contract owner
+          <span className="text-xs text-gray-500 font-mono">{shortAddress(chain.contractOwner)}</span>
+        </span>
+        {accreditation && (
+          <>
+            <ChevronRight size={14} className="text-gray-500" />
+            <span className="inline-flex items-center gap-1" title={accreditation.accreditorAddress}>
+              {accreditor ? (
+                <>
+                  <span className="text-white">{accreditor.name}</span>
+                  <span className="text-xs text-gray-400">({accreditor.jurisdiction})</span>
+                </>
+              ) : (
+                <span className="text-yellow-300">
+                  Removed accreditor {shortAddress(accreditation.accreditorAddress)}
+                </span>
+              )}
+            </span>
+          </>
+        )}
+        <ChevronRight size={14} className="text-gray-500" />
+        <IssuerBadge address={chain.issuerAddress} />
+      </div>
+      {problem ? (
+        <p className="mt-2 flex items-center gap-1 text-xs text-red-300">
+          <ShieldOff size={14} />
+          {problem}
+        </p>
+      ) : (
+        <p className="mt-2 flex items-center gap-1 text-xs text-green-400">
+          <ShieldCheck size={14} />
+          {accreditation
+            ? `Accredited in ${accreditation.jurisdiction} since ${new Date(
+                accreditation.accreditedAt * 1000
+              ).toLocaleDateString()}`
+            : 'Authorized directly by the contract owner'}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,229 @@
+import { useState } from 'react'
+import { Network, X, AlertCircle, Loader, UserMinus } from 'lucide-react'
+import { sha256 } from '../utils/crypto'
+import { delegationStatus, type DelegationRequest, type IssuerDelegation } from '../utils/ledgerBackend'
+
+interface DelegationManagerProps {
+  /** Delegations this university granted, including revoked and expired ones */
+  delegations: IssuerDelegation[]
+  onGrant: (request: DelegationRequest) => Promise<void>
+  onRevoke: (delegate: string) => Promise<void>
+  onClose: () => void
+}
+
+const STATUS_STYLES = {
+  active: 'text-green-400',
+  expired: 'text-gray-400',
+  revoked: 'text-red-300',
+} as const
+
+// Comma- or newline-separated names, trimmed and de-duplicated
+const parseNames = (value: string) =>
+  Array.from(new Set(value.split(/[,\n]/).map(name => name.trim()).filter(Boolean)))
+
+const scopeLabel = (names: string[] | undefined, hashes: string[], any: string) =>
+  hashes.length === 0 ? any : names?.join(', ') ?? `${hashes.length} hashed value(s)`
+
+/**
+ * Delegate scoped issuing rights to department addresses
+ * A department issues in the university's name, only for the listed
+ * departments and degree types and until the delegation expires. Names are
+ * hashed exactly as the issuance form hashes them, so they must be entered
+ * the same way there.
+ */
+export default function DelegationManager({
+  delegations,
+  onGrant,
+  onRevoke,
+  onClose,
+}: DelegationManagerProps) {
+  const [delegate, setDelegate] = useState('')
+  const [departments, setDepartments] = useState('')
+  const [degreeTypes, setDegreeTypes] = useState('')
+  const [expiryDate, setExpiryDate] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState<string | null>(null)
+
+  const handleGrant = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    const departmentNames = parseNames(departments)
+    const degreeTypeNames = parseNames(degreeTypes)
+    if (!delegate.trim()) {
+      setError('Department address is required')
+      return
+    }
+    if (departmentNames.length === 0) {
+      setError('Name at least one department the delegate may issue for')
+      return
+    }
+    if (!expiryDate) {
+      setError('Delegations must have an expiry date')
+      return
+    }
+
+    setBusy(delegate.trim())
+    try {
+      await onGrant({
+        delegateAddress: delegate.trim(),
+        departmentHashes: await Promise.all(departmentNames.map(name => sha256(name))),
+        degreeTypeHashes: await Promise.all(degreeTypeNames.map(name => sha256(name))),
+        // End of the chosen day, UTC, like diploma expiry
+        expiresAt: Math.floor(Date.parse(`${expiryDate}T23:59:59Z`) / 1000),
+        departments: departmentNames,
+        degreeTypes: degreeTypeNames,
+      })
+      setDelegate('')
+      setDepartments('')
+      setDegreeTypes('')
+      setExpiryDate('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to grant delegation')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleRevoke = async (address: string) => {
+    setError(null)
+    setBusy(address)
+    try {
+      await onRevoke(address)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke delegation')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  return (
+    <div className="card p-6 mb-8">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-2">
+          <Network size={24} className="text-cyan-400" />
+          <h3 className="text-xl font-bold text-white">Department Issuers</h3>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" title="Close">
+          <X size={20} />
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-400 mb-4">
+        Let a faculty or department wallet issue diplomas in your name, limited to the departments
+        and degree types you list. You can revoke any diploma a department issued; the department
+        can only manage its own, and only while its delegation is in force.
+      </p>
+
+      {error && (
+        <div className="error-message text-sm mb-4 flex items-center gap-2">
+          <AlertCircle size={16} className="flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleGrant} className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <div className="md:col-span-2">
+          <label className="block text-sm text-gray-300 mb-1">Department wallet address</label>
+          <input
+            type="text"
+            value={delegate}
+            onChange={e => setDelegate(e.target.value)}
+            className="input-field w-full font-mono text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Departments (comma-separated)</label>
+          <input
+            type="text"
+            value={departments}
+            onChange={e => setDepartments(e.target.value)}
+            placeholder="Department of Computer Science"
+            className="input-field w-full"
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Degree types (empty = any)</label>
+          <input
+            type="text"
+            value={degreeTypes}
+            onChange={e => setDegreeTypes(e.target.value)}
+            placeholder="Bachelor of Science in Computer Science"
+            className="input-field w-full"
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Expires</label>
+          <input
+            type="date"
+            value={expiryDate}
+            onChange={e => setExpiryDate(e.target.value)}
+            className="input-field w-full"
+          />
+        </div>
+        <div className="flex items-end justify-end">
+          <button type="submit" disabled={busy !== null} className="btn-primary flex items-center gap-2">
+            {busy === delegate.trim() && <Loader size={16} className="animate-spin" />}
+            Grant Delegation
+          </button>
+        </div>
+      </form>
+
+      {delegations.length === 0 ? (
+        <p className="text-gray-400 text-sm">No departments hold a delegation yet.</p>
+      ) : (
+        <table className="w-full text-sm text-left">
+          <thead className="text-gray-400 text-xs">
+            <tr>
+              <th className="p-2">Department</th>
+              <th className="p-2">Scope</th>
+              <th className="p-2">Status</th>
+              <th className="p-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {delegations.map(delegation => {
+              const status = delegationStatus(delegation)
+              return (
+                <tr key={delegation.delegateAddress} className="border-t border-white border-opacity-5 align-top">
+                  <td className="p-2 font-mono text-xs text-white break-all">{delegation.delegateAddress}</td>
+                  <td className="p-2 text-gray-300">
+                    <p>{scopeLabel(delegation.departments, delegation.departmentHashes, 'Any department')}</p>
+                    <p className="text-xs text-gray-400">
+                      {scopeLabel(delegation.degreeTypes, delegation.degreeTypeHashes, 'Any degree type')}
+                    </p>
+                  </td>
+                  <td className="p-2">
+                    <span className={STATUS_STYLES[status]}>
+                      {status === 'active' ? 'Active' : status === 'expired' ? 'Expired' : 'Revoked'}
+                    </span>
+                    <p className="text-xs text-gray-500">
+                      {status === 'revoked'
+                        ? `on ${new Date(delegation.revokedAt! * 1000).toLocaleDateString()}`
+                        : `until ${new Date(delegation.expiresAt * 1000).toLocaleDateString()}`}
+                    </p>
+                  </td>
+                  <td className="p-2 text-right">
+                    {status !== 'revoked' && (
+                      <button
+                        onClick={() => handleRevoke(delegation.delegateAddress)}
+                        disabled={busy !== null}
+                        className="btn-secondary text-xs inline-flex items-center gap-1"
+                      >
+                        {busy === delegation.delegateAddress ? (
+                          <Loader size={14} className="animate-spin" />
+                        ) : (
+                          <UserMinus size={14} />
+                        )}
+                        Revoke
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
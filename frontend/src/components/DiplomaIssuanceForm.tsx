@@ -1,10 +1,26 @@
 import { useState } from 'react'
-import { Send, X, CheckCircle2, Clock, Zap } from 'lucide-react'
+import { Send, X, CheckCircle2, Clock, Zap, Plus } from 'lucide-react'
 
 interface DiplomaIssuanceFormProps {
   onSubmit: (data: any) => void
   onCancel: () => void
   universityAddress: string
+  /** Certificate hash of the diploma being corrected; issues an amendment */
+  amending?: string
+  /** Prefilled fields, e.g. from the diploma being amended */
+  initialValues?: {
+    studentId?: string
+    degreeType?: string
+    studentPublicKey?: string
+    expiryDate?: string
+  }
+}
+
+/** One transcript row as typed; see transcriptProofs */
+interface CourseRow {
+  course: string
+  credits: string
+  mark: string
 }
 
 type TransactionStep = 'idle' | 'committing' | 'proof-generation' | 'broadcasting' | 'confirmed'
@@ -34,6 +50,8 @@ export default function DiplomaIssuanceForm({
   onSubmit,
   onCancel,
   universityAddress,
+  amending,
+  initialValues,
 }: DiplomaIssuanceFormProps) {
   const [isLoading, setIsLoading] = useState(false)
   const [transactionStatus, setTransactionStatus] = useState<TransactionStatus | null>(null)
@@ -42,11 +60,12 @@ export default function DiplomaIssuanceForm({
     studentName: '',
     degreeType: '',
     department: '',
-    marks: {
-      subject1: '0',
-      subject2: '0',
-      subject3: '0',
-    },
+    grade: '',
+    gpa: '',
+    studentPublicKey: '',
+    expiryDate: '',
+    ...initialValues,
+    courses: [] as CourseRow[],
   })
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
@@ -57,6 +76,21 @@ export default function DiplomaIssuanceForm({
     }))
   }
 
+  const handleCourseChange = (idx: number, field: keyof CourseRow, value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      courses: prev.courses.map((row, i) => (i === idx ? { ...row, [field]: value } : row)),
+    }))
+  }
+
+  const addCourse = () => {
+    setFormData((prev) => ({ ...prev, courses: [...prev.courses, { course: '', credits: '', mark: '' }] }))
+  }
+
+  const removeCourse = (idx: number) => {
+    setFormData((prev) => ({ ...prev, courses: prev.courses.filter((_, i) => i !== idx) }))
+  }
+
   const simulateTransactionStep = async (
     step: TransactionStep,
     duration: number,
@@ -104,11 +138,11 @@ export default function DiplomaIssuanceForm({
           studentName: '',
           degreeType: '',
           department: '',
-          marks: {
-            subject1: '0',
-            subject2: '0',
-            subject3: '0',
-          },
+          grade: '',
+          gpa: '',
+          studentPublicKey: '',
+          expiryDate: '',
+          courses: [],
         })
         setTransactionStatus(null)
         setIsLoading(false)
@@ -232,6 +266,14 @@ export default function DiplomaIssuanceForm({
       {/* Show form only when not processing */}
       {!isLoading && (
         <>
+          {amending && (
+            <div className="info-message text-xs">
+              ✏️ Correcting <code className="break-all">{amending.slice(0, 18)}...</code>. The
+              current diploma will be marked superseded and point to the corrected one;
+              re-enter every field as it should read.
+            </div>
+          )}
+
           {/* Student ID */}
           <div>
             <label className="block text-sm font-medium text-gray-300 mb-2">
@@ -311,6 +353,138 @@ export default function DiplomaIssuanceForm({
             />
           </div>
 
+          {/* Honours and GPA */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Honours / Classification
+              </label>
+              <input
+                type="text"
+                name="grade"
+                value={formData.grade}
+                onChange={handleInputChange}
+                placeholder="First Class"
+                className="input-field"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                GPA (optional)
+              </label>
+              <input
+                type="text"
+                name="gpa"
+                value={formData.gpa}
+                onChange={handleInputChange}
+                placeholder="3.8"
+                className="input-field"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 -mt-2">
+            🔍 Committed one by one, so the student can later reveal either on its own
+          </p>
+
+          {/* Transcript */}
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Transcript (optional)
+            </label>
+            <div className="space-y-2">
+              {formData.courses.map((row, idx) => (
+                <div key={idx} className="grid grid-cols-12 gap-2 items-center">
+                  <input
+                    type="text"
+                    value={row.course}
+                    onChange={(e) => handleCourseChange(idx, 'course', e.target.value)}
+                    placeholder="Algorithms"
+                    className="input-field col-span-6"
+                    required
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={row.credits}
+                    onChange={(e) => handleCourseChange(idx, 'credits', e.target.value)}
+                    placeholder="Credits"
+                    className="input-field col-span-2"
+                    required
+                  />
+                  <input
+                    type="text"
+                    value={row.mark}
+                    onChange={(e) => handleCourseChange(idx, 'mark', e.target.value)}
+                    placeholder="92"
+                    className="input-field col-span-3"
+                    required
+                  />
+                  <button
+                    type="button"
+                    onClick={() => removeCourse(idx)}
+                    className="text-gray-400 hover:text-white col-span-1"
+                    aria-label="Remove course"
+                  >
+                    <X size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={addCourse}
+              className="btn-secondary text-sm mt-2 flex items-center gap-1"
+            >
+              <Plus size={14} />
+              Add course
+            </button>
+            <p className="text-xs text-gray-500 mt-1">
+              📚 Each course, its credits and its mark (0–100, or a grade such as "Pass")
+              are committed separately, so the student can reveal one course or prove a
+              minimum mark in it
+            </p>
+          </div>
+
+          {/* Expiry */}
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Expiry Date (optional)
+            </label>
+            <input
+              type="date"
+              name="expiryDate"
+              value={formData.expiryDate}
+              onChange={handleInputChange}
+              min={new Date().toISOString().split('T')[0]}
+              className="input-field"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              ⏳ Leave empty for a degree that never expires; set it for time-limited
+              certificates. Recorded on-chain.
+            </p>
+          </div>
+
+          {/* Student Public Key */}
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Student Public Key
+            </label>
+            <input
+              type="text"
+              name="studentPublicKey"
+              value={formData.studentPublicKey}
+              onChange={handleInputChange}
+              placeholder="Holder key from the student's dashboard"
+              className="input-field font-mono text-xs"
+              required
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              🔑 The commitment opening package is encrypted to this key, and only
+              proofs signed with it will verify
+            </p>
+          </div>
+
           {/* Divider */}
           <div className="border-t border-white border-opacity-20 my-4"></div>
 
@@ -320,7 +494,7 @@ export default function DiplomaIssuanceForm({
             className="btn-primary w-full flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <Send size={18} />
-            Issue Diploma
+            {amending ? 'Issue Correction' : 'Issue Diploma'}
           </button>
 
           {/* Cancel Button */}
@@ -1,5 +1,12 @@
 import { useState } from 'react'
-import { Trash2, Eye, Copy, CheckCircle, Clock, XCircle } from 'lucide-react'
+import { Trash2, Eye, Copy, CheckCircle, Clock, XCircle, RotateCcw, Pencil, RefreshCw } from 'lucide-react'
+import {
+  REVOCATION_REASON_LABELS,
+  type DiplomaStatusChange,
+  type RevocationReason,
+  type RevocationRequest,
+} from '../utils/ledgerBackend'
+import IssuerBadge from './IssuerBadge'
 
 interface Diploma {
   id: string
@@ -8,23 +15,64 @@ interface Diploma {
   certificateHash: string
   degreeType: string
   issuanceDate: string
-  status: 'valid' | 'revoked' | 'pending'
+  expiryDate: string | null
+  status: 'valid' | 'revoked' | 'superseded' | 'pending'
   studentDataCommitment: string
+  /** Shown through the issuer registry when set */
+  issuerAddress?: string
+  /** Issuance, revocations and reinstatements, oldest first */
+  statusHistory?: DiplomaStatusChange[]
+  /** Certificate this one corrects */
+  supersedes?: string
+  /** Correction that replaced this certificate */
+  supersededBy?: string
+  /** Department that issued it under the university's delegation */
+  issuedBy?: string
 }
 
 interface DiplomaListProps {
   diplomas: Diploma[]
-  onRevoke: (id: string) => void
+  onRevoke: (id: string, revocation: RevocationRequest) => void
+  onReinstate?: (id: string) => void
+  onAmend?: (id: string) => void
   userRole: 'university' | 'student' | 'employer'
 }
 
+const formatTimestamp = (seconds: number) => new Date(seconds * 1000).toISOString().split('T')[0]
+
 export default function DiplomaList({
   diplomas,
   onRevoke,
+  onReinstate,
+  onAmend,
   userRole,
 }: DiplomaListProps) {
   const [expandedId, setExpandedId] = useState<string | null>(null)
   const [copiedHash, setCopiedHash] = useState<string | null>(null)
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+  const [revocationReason, setRevocationReason] = useState<RevocationReason>('clerical-error')
+  const [effectiveDate, setEffectiveDate] = useState('')
+
+  const openRevokeForm = (id: string) => {
+    setRevokingId(revokingId === id ? null : id)
+    setRevocationReason('clerical-error')
+    setEffectiveDate('')
+  }
+
+  const submitRevocation = (diploma: Diploma) => {
+    // Start of the chosen day, UTC, but never before issuance; no date means now
+    const issuedAt = diploma.statusHistory?.[0]?.effectiveAt ?? 0
+    onRevoke(diploma.id, {
+      reason: revocationReason,
+      effectiveAt: effectiveDate
+        ? Math.max(Math.floor(Date.parse(`${effectiveDate}T00:00:00Z`) / 1000), issuedAt)
+        : undefined,
+    })
+    setRevokingId(null)
+  }
+
+  const latestRevocation = (diploma: Diploma) =>
+    [...(diploma.statusHistory ?? [])].reverse().find(change => change.status === 'revoked')
 
   const copyToClipboard = (text: string, id: string) => {
     navigator.clipboard.writeText(text)
@@ -38,6 +86,7 @@ export default function DiplomaList({
         return 'text-green-400'
       case 'revoked':
         return 'text-red-400'
+      case 'superseded':
       case 'pending':
         return 'text-yellow-400'
       default:
@@ -51,6 +100,8 @@ export default function DiplomaList({
         return <CheckCircle size={18} />
       case 'revoked':
         return <XCircle size={18} />
+      case 'superseded':
+        return <RefreshCw size={18} />
       case 'pending':
         return <Clock size={18} />
       default:
@@ -99,7 +150,7 @@ export default function DiplomaList({
                     {diploma.degreeType}
                   </p>
                   <p className="text-xs text-gray-500">
-                    Issued: {diploma.issuanceDate}
+                    Issued: {diploma.issuanceDate} · Expires: {diploma.expiryDate ?? 'Never'}
                   </p>
                 </div>
 
@@ -116,21 +167,100 @@ export default function DiplomaList({
                   >
                     <Eye size={18} className="text-cyan-400" />
                   </button>
+                  {userRole === 'university' && diploma.status === 'valid' && onAmend && (
+                    <button
+                      onClick={() => onAmend(diploma.id)}
+                      className="p-2 hover:bg-white hover:bg-opacity-10 rounded-lg transition"
+                      title="Amend diploma"
+                    >
+                      <Pencil size={18} className="text-cyan-400" />
+                    </button>
+                  )}
                   {userRole === 'university' && diploma.status === 'valid' && (
                     <button
-                      onClick={() => onRevoke(diploma.id)}
+                      onClick={() => openRevokeForm(diploma.id)}
                       className="p-2 hover:bg-red-500 hover:bg-opacity-20 rounded-lg transition"
                       title="Revoke diploma"
                     >
                       <Trash2 size={18} className="text-red-400" />
                     </button>
                   )}
+                  {userRole === 'university' &&
+                    diploma.status === 'revoked' &&
+                    onReinstate &&
+                    latestRevocation(diploma)?.reason !== 'superseded' && (
+                      <button
+                        onClick={() => onReinstate(diploma.id)}
+                        className="p-2 hover:bg-green-500 hover:bg-opacity-20 rounded-lg transition"
+                        title="Reinstate diploma"
+                      >
+                        <RotateCcw size={18} className="text-green-400" />
+                      </button>
+                    )}
                 </div>
               </div>
 
+              {/* Revocation Form */}
+              {revokingId === diploma.id && (
+                <div className="mt-4 pt-4 border-t border-white border-opacity-20 space-y-3 animate-fade-in">
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">Reason</label>
+                    <select
+                      value={revocationReason}
+                      onChange={e => setRevocationReason(e.target.value as RevocationReason)}
+                      className="input-field"
+                    >
+                      {(Object.keys(REVOCATION_REASON_LABELS) as RevocationReason[]).map(reason => (
+                        <option key={reason} value={reason}>
+                          {REVOCATION_REASON_LABELS[reason]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">
+                      Effective Date (optional)
+                    </label>
+                    <input
+                      type="date"
+                      value={effectiveDate}
+                      onChange={e => setEffectiveDate(e.target.value)}
+                      min={diploma.issuanceDate}
+                      max={new Date().toISOString().split('T')[0]}
+                      className="input-field"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Backdate to when the diploma stopped being valid; leave empty for now.
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button onClick={() => submitRevocation(diploma)} className="btn-primary">
+                      Revoke Diploma
+                    </button>
+                    <button onClick={() => setRevokingId(null)} className="btn-secondary">
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+
               {/* Expanded Details */}
               {expandedId === diploma.id && (
                 <div className="mt-4 pt-4 border-t border-white border-opacity-20 space-y-3 animate-fade-in">
+                  {diploma.issuerAddress && (
+                    <div>
+                      <p className="text-xs text-gray-500 mb-1">Issued By:</p>
+                      <div className="text-sm">
+                        <IssuerBadge address={diploma.issuerAddress} />
+                      </div>
+                      {diploma.issuedBy && (
+                        <p className="text-xs text-gray-400 mt-1">
+                          through department{' '}
+                          <span className="font-mono break-all">{diploma.issuedBy}</span>
+                        </p>
+                      )}
+                    </div>
+                  )}
                   <div>
                     <p className="text-xs text-gray-500 mb-1">
                       Certificate Hash:
@@ -186,10 +316,57 @@ export default function DiplomaList({
                     </div>
                   </div>
 
+                  {(diploma.supersedes || diploma.supersededBy) && (
+                    <div className="space-y-1 text-xs">
+                      {diploma.supersedes && (
+                        <p className="text-gray-400">
+                          Corrects:{' '}
+                          <code className="text-cyan-400 break-all">{diploma.supersedes}</code>
+                        </p>
+                      )}
+                      {diploma.supersededBy && (
+                        <p className="text-gray-400">
+                          Superseded by:{' '}
+                          <code className="text-cyan-400 break-all">{diploma.supersededBy}</code>
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {diploma.statusHistory && diploma.statusHistory.length > 0 && (
+                    <div>
+                      <p className="text-xs text-gray-500 mb-1">Status History:</p>
+                      <ul className="space-y-1">
+                        {diploma.statusHistory.map((change, idx) => (
+                          <li
+                            key={idx}
+                            className="bg-black bg-opacity-30 px-3 py-2 rounded text-xs text-gray-300"
+                          >
+                            <span className={`capitalize font-semibold ${getStatusColor(change.status)}`}>
+                              {idx === 0
+                                ? 'Issued'
+                                : change.status === 'revoked'
+                                  ? 'Revoked'
+                                  : change.status === 'superseded'
+                                    ? 'Superseded'
+                                    : 'Reinstated'}
+                            </span>
+                            {change.reason && <> · {REVOCATION_REASON_LABELS[change.reason]}</>}
+                            {' · '}Effective {formatTimestamp(change.effectiveAt)}
+                            {change.recordedAt !== change.effectiveAt && (
+                              <> · Recorded {formatTimestamp(change.recordedAt)}</>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
                   {userRole === 'university' && (
                     <div className="info-message text-xs">
-                      ⚠️ Only the issuer can revoke this diploma. Once revoked, it cannot be
-                      verified.
+                      ⚠️ Only the issuer can amend, revoke or reinstate this diploma. A revoked
+                      diploma cannot be verified until it is reinstated; once amended, only the
+                      correction verifies.
                     </div>
                   )}
                 </div>
@@ -0,0 +1,73 @@
+import { useMemo } from 'react'
+import { BadgeCheck, ShieldAlert, ShieldQuestion } from 'lucide-react'
+import { useMidnightSDK } from '../utils/MidnightProvider'
+import { isIssuerProfileVerified } from '../utils/issuerRegistry'
+
+interface IssuerBadgeProps {
+  /** Issuer address as recorded on the ledger */
+  address: string
+  /** Also show accreditation id, website and the address */
+  detailed?: boolean
+}
+
+const shortAddress = (address: string) =>
+  address.length > 20 ? `${address.slice(0, 10)}...${address.slice(-6)}` : address
+
+/**
+ * Who issued a credential, from the on-chain issuer registry
+ * Only owner-approved metadata with a valid issuer signature is shown as the
+ * issuer's name; anything else is labelled unverified.
+ */
+export default function IssuerBadge({ address, detailed = false }: IssuerBadgeProps) {
+  const { issuerProfiles } = useMidnightSDK()
+
+  const profile = useMemo(
+    () => issuerProfiles.find(p => p.issuerAddress === address) ?? null,
+    [issuerProfiles, address]
+  )
+  const verified = useMemo(() => isIssuerProfileVerified(profile), [profile])
+
+  if (!profile || !verified) {
+    const Icon = profile ? ShieldQuestion : ShieldAlert
+    return (
+      <span className="inline-flex flex-col">
+        <span className="inline-flex items-center gap-1 text-yellow-300">
+          <Icon size={14} className="flex-shrink-0" />
+          <span>
+            Unverified issuer{profile?.status === 'pending' ? ' (approval pending)' : ''}
+          </span>
+        </span>
+        <span className="text-xs text-gray-500 font-mono break-all">
+          {detailed ? address : shortAddress(address)}
+        </span>
+      </span>
+    )
+  }
+
+  const { metadata } = profile
+  return (
+    <span className="inline-flex flex-col">
+      <span className="inline-flex items-center gap-1">
+        <BadgeCheck size={14} className="text-green-400 flex-shrink-0" />
+        <span className="text-white">{metadata.name}</span>
+        <span className="text-gray-400 text-xs">· {metadata.country}</span>
+      </span>
+      {detailed && (
+        <>
+          <span className="text-xs text-gray-400">Accreditation: {metadata.accreditationId}</span>
+          {metadata.website && (
+            <a
+              href={metadata.website}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-xs text-cyan-400 hover:underline break-all"
+            >
+              {metadata.website}
+            </a>
+          )}
+          <span className="text-xs text-gray-500 font-mono break-all">{address}</span>
+        </>
+      )}
+    </span>
+  )
+}
@@ -0,0 +1,293 @@
+import { useEffect, useState } from 'react'
+import { Building2, X, AlertCircle, BadgeCheck, Clock, Loader, Globe, Download } from 'lucide-react'
+import { configLoader } from '../utils/config'
+import { credentialVault } from '../utils/credentialVault'
+import { toHex } from '../utils/crypto'
+import {
+  WELL_KNOWN_PATH,
+  checkDomainLinkage,
+  createDomainLinkageDocument,
+  localWellKnownHost,
+  type DomainLinkageResult,
+} from '../utils/domainLinkage'
+import { ISSUER_METADATA_LABELS, issuerMetadataErrors } from '../utils/issuerRegistry'
+import type { IssuerMetadata, IssuerProfile } from '../utils/ledgerBackend'
+import VaultUnlock from './VaultUnlock'
+
+interface IssuerProfileFormProps {
+  universityAddress: string
+  /** Current registry entry, if the university registered before */
+  profile: IssuerProfile | null
+  /** Sign the metadata and register it on the ledger */
+  onSubmit: (metadata: IssuerMetadata) => Promise<void>
+  onClose: () => void
+}
+
+const EMPTY_METADATA: IssuerMetadata = {
+  name: '',
+  country: '',
+  accreditationId: '',
+  logoHash: '',
+  website: '',
+}
+
+export default function IssuerProfileForm({
+  universityAddress,
+  profile,
+  onSubmit,
+  onClose,
+}: IssuerProfileFormProps) {
+  const [metadata, setMetadata] = useState<IssuerMetadata>(profile?.metadata ?? EMPTY_METADATA)
+  const [errors, setErrors] = useState<string[]>([])
+  const [submitting, setSubmitting] = useState(false)
+  const [linkage, setLinkage] = useState<DomainLinkageResult | null>(null)
+  const [linkageBusy, setLinkageBusy] = useState(false)
+  const [vaultUnlocked, setVaultUnlocked] = useState(credentialVault.isUnlocked(universityAddress))
+
+  // The issuer key is sealed under the vault key; signing needs it unlocked
+  useEffect(() => {
+    const sync = () => setVaultUnlocked(credentialVault.isUnlocked(universityAddress))
+    sync()
+    return credentialVault.onChange(sync)
+  }, [universityAddress])
+
+  // Check the registered website's well-known document as a verifier would
+  const recheckLinkage = () => {
+    if (profile) checkDomainLinkage(profile).then(setLinkage)
+  }
+  useEffect(() => {
+    if (profile) checkDomainLinkage(profile).then(setLinkage)
+  }, [profile])
+
+  const registeredWebsite = profile?.metadata.website ?? ''
+  // On simulated ledgers the document can be served by the local web host
+  const canPublishLocally = configLoader.getLedgerBackendKind() !== 'production'
+
+  const handleDownloadLinkage = async () => {
+    setLinkageBusy(true)
+    try {
+      const linkageDocument = await createDomainLinkageDocument(universityAddress, registeredWebsite)
+      const dataBlob = new Blob([JSON.stringify(linkageDocument, null, 2)], { type: 'application/json' })
+      const url = URL.createObjectURL(dataBlob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = 'privatediploma.json'
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+    } finally {
+      setLinkageBusy(false)
+    }
+  }
+
+  const handlePublishLinkage = async () => {
+    setLinkageBusy(true)
+    try {
+      localWellKnownHost.publish(await createDomainLinkageDocument(universityAddress, registeredWebsite))
+      recheckLinkage()
+    } finally {
+      setLinkageBusy(false)
+    }
+  }
+
+  const update = (field: keyof IssuerMetadata, value: string) =>
+    setMetadata(current => ({ ...current, [field]: value }))
+
+  // The logo itself stays off-chain; only its digest is signed
+  const handleLogo = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer())
+    update('logoHash', toHex(new Uint8Array(digest)))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const normalized: IssuerMetadata = {
+      name: metadata.name.trim(),
+      country: metadata.country.trim().toUpperCase(),
+      accreditationId: metadata.accreditationId.trim(),
+      logoHash: metadata.logoHash.trim().toLowerCase(),
+      website: metadata.website.trim(),
+    }
+    const problems = issuerMetadataErrors(normalized)
+    setErrors(problems)
+    if (problems.length > 0) return
+
+    setSubmitting(true)
+    try {
+      await onSubmit(normalized)
+      setMetadata(normalized)
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Failed to register issuer profile'])
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="card p-6 mb-8">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-2">
+          <Building2 size={24} className="text-cyan-400" />
+          <h3 className="text-xl font-bold text-white">Issuer Profile</h3>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" title="Close">
+          <X size={20} />
+        </button>
+      </div>
+
+      {profile ? (
+        profile.status === 'approved' ? (
+          <div className="info-message text-sm mb-4 flex items-center gap-2">
+            <BadgeCheck size={16} className="text-green-400" />
+            Approved by the contract owner. Verifiers see this name on your diplomas; saving
+            changes sends the profile back for approval.
+          </div>
+        ) : (
+          <div className="info-message text-sm mb-4 flex items-center gap-2">
+            <Clock size={16} className="text-yellow-400" />
+            Awaiting approval by the contract owner. Until then your diplomas show as issued by
+            an unverified issuer.
+          </div>
+        )
+      ) : (
+        <p className="text-sm text-gray-400 mb-4">
+          Register who you are so employers and students can see which university issued a
+          diploma. The profile is signed with your issuer key and must be approved by the
+          contract owner.
+        </p>
+      )}
+
+      {!vaultUnlocked && (
+        <div className="mb-6">
+          <p className="text-sm text-gray-400 mb-3">
+            Your issuer key is kept in your credential vault. Unlock it to sign your profile or a
+            domain linkage document.
+          </p>
+          <VaultUnlock owner={universityAddress} />
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <div className="error-message text-sm mb-4 space-y-1">
+          {errors.map(problem => (
+            <p key={problem} className="flex items-center gap-2">
+              <AlertCircle size={16} className="flex-shrink-0" />
+              {problem}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">{ISSUER_METADATA_LABELS.name}</label>
+          <input
+            type="text"
+            value={metadata.name}
+            onChange={e => update('name', e.target.value)}
+            placeholder="University of Example"
+            className="input-field w-full"
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">{ISSUER_METADATA_LABELS.country}</label>
+          <input
+            type="text"
+            value={metadata.country}
+            onChange={e => update('country', e.target.value)}
+            placeholder="GB"
+            maxLength={2}
+            className="input-field w-full uppercase"
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">
+            {ISSUER_METADATA_LABELS.accreditationId}
+          </label>
+          <input
+            type="text"
+            value={metadata.accreditationId}
+            onChange={e => update('accreditationId', e.target.value)}
+            className="input-field w-full"
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">{ISSUER_METADATA_LABELS.website}</label>
+          <input
+            type="url"
+            value={metadata.website}
+            onChange={e => update('website', e.target.value)}
+            placeholder="https://www.example.ac.uk"
+            className="input-field w-full"
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-sm text-gray-300 mb-1">{ISSUER_METADATA_LABELS.logoHash}</label>
+          <div className="flex flex-col md:flex-row gap-2">
+            <input
+              type="text"
+              value={metadata.logoHash}
+              onChange={e => update('logoHash', e.target.value)}
+              placeholder="Optional"
+              className="input-field flex-1 font-mono text-xs"
+            />
+            <input type="file" accept="image/*" onChange={handleLogo} className="input-field" />
+          </div>
+        </div>
+        <div className="md:col-span-2 flex items-center justify-between gap-4">
+          <p className="text-xs text-gray-500 font-mono break-all">Signed by {universityAddress}</p>
+          <button
+            type="submit"
+            disabled={submitting || !vaultUnlocked}
+            className="btn-primary flex items-center gap-2 flex-shrink-0"
+          >
+            {submitting && <Loader size={16} className="animate-spin" />}
+            Sign &amp; Register
+          </button>
+        </div>
+      </form>
+
+      {/* Domain Linkage */}
+      {profile && registeredWebsite && (
+        <div className="mt-6 pt-6 border-t border-white border-opacity-20">
+          <div className="flex items-center gap-2 mb-2">
+            <Globe size={18} className="text-cyan-400" />
+            <h4 className="font-semibold text-white">Domain Linkage</h4>
+          </div>
+          <p className="text-sm text-gray-400 mb-3">
+            Prove you control {registeredWebsite} by serving the signed document at{' '}
+            <code className="text-cyan-400">{WELL_KNOWN_PATH}</code>. Verifiers then see your
+            diplomas as domain verified.
+          </p>
+          {linkage && (
+            <p className={`text-sm mb-3 ${linkage.status === 'verified' ? 'text-green-400' : 'text-yellow-400'}`}>
+              {linkage.status === 'verified' ? `✓ Verified for ${linkage.origin}` : `✗ ${linkage.reason}`}
+            </p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={handleDownloadLinkage}
+              disabled={linkageBusy || !vaultUnlocked}
+              className="btn-secondary flex items-center gap-2"
+            >
+              <Download size={16} />
+              Download privatediploma.json
+            </button>
+            {canPublishLocally && (
+              <button
+                onClick={handlePublishLinkage}
+                disabled={linkageBusy || !vaultUnlocked}
+                className="btn-secondary"
+              >
+                Publish to Local Web Host
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,10 +1,14 @@
-import { Menu, LogOut, Shield, Zap } from 'lucide-react'
+import { Menu, LogOut, Shield, ShieldCheck, Landmark, Zap } from 'lucide-react'
 import { useState } from 'react'
 
 interface NavigationProps {
-  currentRole: 'university' | 'student' | 'employer'
+  currentRole: 'university' | 'student' | 'employer' | 'admin' | 'accreditor'
   onRoleChange: (role: any) => void
   userAddress: string
+  /** Connected address is the contract owner; shows the admin console link */
+  isOwner: boolean
+  /** Connected address is an appointed accreditor; shows the accreditor console link */
+  isAccreditor: boolean
   onDisconnect: () => void
 }
 
@@ -12,6 +16,8 @@ export default function Navigation({
   currentRole,
   onRoleChange,
   userAddress,
+  isOwner,
+  isAccreditor,
   onDisconnect,
 }: NavigationProps) {
   const [isOpen, setIsOpen] = useState(false)
@@ -24,6 +30,10 @@ export default function Navigation({
         return 'Student Portal'
       case 'employer':
         return '🏢 Employer Verification'
+      case 'admin':
+        return 'Contract Admin'
+      case 'accreditor':
+        return 'Accreditor'
       default:
         return 'PrivateDiploma'
     }
@@ -37,6 +47,10 @@ export default function Navigation({
         return 'from-purple-500 to-pink-500'
       case 'employer':
         return 'from-orange-500 to-red-500'
+      case 'admin':
+        return 'from-emerald-500 to-teal-500'
+      case 'accreditor':
+        return 'from-amber-500 to-yellow-500'
       default:
         return 'from-cyan-500 to-blue-500'
     }
@@ -76,6 +90,28 @@ export default function Navigation({
               </span>
             </div>
 
+            {/* Admin Console */}
+            {isOwner && currentRole !== 'admin' && (
+              <button
+                onClick={() => onRoleChange('admin')}
+                className="flex items-center gap-2 px-4 py-2 bg-slate-800 bg-opacity-60 hover:bg-opacity-90 border border-slate-700 text-emerald-300 rounded-xl font-semibold transition-all duration-300"
+              >
+                <ShieldCheck size={16} />
+                <span className="hidden lg:inline">Admin</span>
+              </button>
+            )}
+
+            {/* Accreditor Console */}
+            {isAccreditor && currentRole !== 'accreditor' && (
+              <button
+                onClick={() => onRoleChange('accreditor')}
+                className="flex items-center gap-2 px-4 py-2 bg-slate-800 bg-opacity-60 hover:bg-opacity-90 border border-slate-700 text-amber-300 rounded-xl font-semibold transition-all duration-300"
+              >
+                <Landmark size={16} />
+                <span className="hidden lg:inline">Accreditor</span>
+              </button>
+            )}
+
             {/* Address */}
             <div className="px-4 py-2 bg-slate-800 bg-opacity-60 rounded-xl border border-slate-700 border-opacity-50 backdrop-blur-md hover:border-opacity-100 transition-all duration-300">
               <div className="flex items-center gap-2">
@@ -125,6 +161,32 @@ export default function Navigation({
               </div>
             </div>
 
+            {isOwner && currentRole !== 'admin' && (
+              <button
+                onClick={() => {
+                  onRoleChange('admin')
+                  setIsOpen(false)
+                }}
+                className="flex items-center gap-2 w-full px-4 py-2.5 bg-slate-800 bg-opacity-60 border border-slate-700 text-emerald-300 rounded-xl font-semibold transition-all duration-300"
+              >
+                <ShieldCheck size={16} />
+                Admin Console
+              </button>
+            )}
+
+            {isAccreditor && currentRole !== 'accreditor' && (
+              <button
+                onClick={() => {
+                  onRoleChange('accreditor')
+                  setIsOpen(false)
+                }}
+                className="flex items-center gap-2 w-full px-4 py-2.5 bg-slate-800 bg-opacity-60 border border-slate-700 text-amber-300 rounded-xl font-semibold transition-all duration-300"
+              >
+                <Landmark size={16} />
+                Accreditor Console
+              </button>
+            )}
+
             <button
               onClick={() => {
                 onDisconnect()
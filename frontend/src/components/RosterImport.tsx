@@ -0,0 +1,430 @@
+import { useRef, useState } from 'react'
+import { Upload, X, Pause, Play, Download, CheckCircle2, XCircle, AlertCircle, Loader } from 'lucide-react'
+import {
+  DEFAULT_BATCH_SIZE,
+  ROSTER_FIELD_LABELS,
+  applyColumnMapping,
+  buildRosterReport,
+  checkColumnMapping,
+  parseRoster,
+  rosterJobId,
+  rosterJobs,
+  rosterReportCsv,
+  runRosterBatchImport,
+  runRosterImport,
+  suggestColumnMapping,
+  validateRoster,
+  type ColumnMapping,
+  type IssuedDiplomaKey,
+  type RosterField,
+  type RosterImportJob,
+  type RosterRow,
+  type RosterRowCheck,
+  type RosterRowResult,
+  type RosterTable,
+} from '../utils/rosterImport'
+
+interface RosterImportProps {
+  universityAddress: string
+  /** The issuer's diplomas on the ledger, for duplicate detection */
+  issued: IssuedDiplomaKey[]
+  /** Issue one row through the transaction layer */
+  onIssueRow: (row: RosterRow) => Promise<{ certificateHash: string; transactionHash: string }>
+  /** Issue all rows under one anchored Merkle root */
+  onIssueBatch: (rows: RosterRow[]) => Promise<{ certificateHashes: string[]; transactionHash: string }>
+  onClose: () => void
+}
+
+type Step = 'select' | 'map' | 'preview' | 'submitting' | 'report'
+
+/** One ledger transaction per diploma, or one Merkle root for the cohort */
+type IssueMode = 'individual' | 'merkle'
+
+const STATUS_STYLES: Record<RosterRowCheck['status'] | RosterRowResult['status'], string> = {
+  ready: 'text-cyan-400',
+  invalid: 'text-red-400',
+  duplicate: 'text-yellow-400',
+  issued: 'text-green-400',
+  failed: 'text-red-400',
+  skipped: 'text-gray-400',
+}
+
+// Rows shown in the preview and report tables; the downloaded report has all
+const VISIBLE_ROWS = 200
+
+export default function RosterImport({
+  universityAddress,
+  issued,
+  onIssueRow,
+  onIssueBatch,
+  onClose,
+}: RosterImportProps) {
+  const [step, setStep] = useState<Step>('select')
+  const [error, setError] = useState<string | null>(null)
+  const [fileName, setFileName] = useState('')
+  const [table, setTable] = useState<RosterTable | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [job, setJob] = useState<RosterImportJob | null>(null)
+  const [checks, setChecks] = useState<RosterRowCheck[]>([])
+  const [batchSize, setBatchSize] = useState(DEFAULT_BATCH_SIZE)
+  const [mode, setMode] = useState<IssueMode>('individual')
+  const [progress, setProgress] = useState({ done: 0, failed: 0, total: 0 })
+  const [report, setReport] = useState<RosterRowResult[]>([])
+  const pauseRequested = useRef(false)
+  const [pausing, setPausing] = useState(false)
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setError(null)
+
+    try {
+      const text = await file.text()
+      const parsed = parseRoster(text)
+      if (parsed.rows.length === 0) {
+        throw new Error('Roster has no student rows')
+      }
+      const jobId = await rosterJobId(universityAddress, text)
+
+      setFileName(file.name)
+      setTable(parsed)
+      setMapping(suggestColumnMapping(parsed.headers))
+      setJob(rosterJobs.open(jobId, universityAddress, file.name, parsed.rows.length))
+      setStep('map')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read roster')
+    }
+  }
+
+  const mappingErrors = checkColumnMapping(mapping)
+
+  const handleValidate = async () => {
+    if (!table || !job) return
+    setError(null)
+    try {
+      setChecks(await validateRoster(applyColumnMapping(table, mapping), issued, rosterJobs.get(job.jobId)))
+      setStep('preview')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to validate roster')
+    }
+  }
+
+  const finish = () => {
+    const latest = job ? rosterJobs.get(job.jobId) : null
+    setJob(latest)
+    setReport(buildRosterReport(checks, latest))
+    setStep('report')
+  }
+
+  const handleSubmit = async () => {
+    if (!job) return
+    const rows = checks.filter(c => c.status === 'ready').map(c => c.row)
+
+    pauseRequested.current = false
+    setPausing(false)
+    setProgress({ done: 0, failed: 0, total: rows.length })
+    setStep('submitting')
+
+    const onResult = (result: RosterRowResult) =>
+      setProgress(p => ({
+        ...p,
+        done: p.done + 1,
+        failed: p.failed + (result.status === 'failed' ? 1 : 0),
+      }))
+
+    if (mode === 'merkle') {
+      await runRosterBatchImport({ jobId: job.jobId, rows, issueBatch: onIssueBatch, onResult })
+    } else {
+      await runRosterImport({
+        jobId: job.jobId,
+        rows,
+        batchSize,
+        issueRow: onIssueRow,
+        onResult,
+        shouldStop: () => pauseRequested.current,
+      })
+    }
+    finish()
+  }
+
+  const handlePause = () => {
+    pauseRequested.current = true
+    setPausing(true)
+  }
+
+  // Re-validate against the current ledger and job, then continue
+  const handleResume = async () => {
+    await handleValidate()
+  }
+
+  const handleDownloadReport = () => {
+    const dataBlob = new Blob([rosterReportCsv(report)], { type: 'text/csv' })
+    const url = URL.createObjectURL(dataBlob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `roster-report-${fileName.replace(/\.[^.]+$/, '')}-${Date.now()}.csv`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
+  const counts = checks.reduce<Record<string, number>>(
+    (acc, c) => ({ ...acc, [c.status]: (acc[c.status] ?? 0) + 1 }),
+    {}
+  )
+  const reportCounts = report.reduce<Record<string, number>>(
+    (acc, r) => ({ ...acc, [r.status]: (acc[r.status] ?? 0) + 1 }),
+    {}
+  )
+  const previouslyIssued = job?.results.filter(r => r.status === 'issued').length ?? 0
+
+  return (
+    <div className="card p-6 mb-8">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-2">
+          <Upload size={24} className="text-cyan-400" />
+          <h3 className="text-xl font-bold text-white">Import Graduation Roster</h3>
+        </div>
+        {step !== 'submitting' && (
+          <button onClick={onClose} className="text-gray-400 hover:text-white" title="Close">
+            <X size={20} />
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="error-message text-sm mb-4 flex items-center gap-2">
+          <AlertCircle size={16} />
+          {error}
+        </div>
+      )}
+
+      {step === 'select' && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-300">
+            Upload a CSV with a header row, or a JSON array of objects. Each row needs a student
+            ID, name, degree type, department and the student's holder public key; grade, expiry
+            date and per-subject mark columns are optional.
+          </p>
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={handleFile}
+            className="input-field"
+          />
+          <p className="text-xs text-gray-500">
+            💡 Re-open the same file to resume an interrupted import; rows already issued are
+            skipped.
+          </p>
+        </div>
+      )}
+
+      {step === 'map' && table && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-300">
+            <span className="text-white font-semibold">{fileName}</span>: {table.rows.length} rows.
+            Map each column to a diploma field.
+          </p>
+          {previouslyIssued > 0 && (
+            <div className="info-message text-xs">
+              Resuming an earlier import of this roster: {previouslyIssued} rows already issued.
+            </div>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {table.headers.map(header => (
+              <div key={header}>
+                <label className="block text-sm font-medium text-gray-300 mb-1">{header}</label>
+                <select
+                  value={mapping[header]}
+                  onChange={e => setMapping({ ...mapping, [header]: e.target.value as RosterField })}
+                  className="input-field"
+                >
+                  {(Object.keys(ROSTER_FIELD_LABELS) as RosterField[]).map(field => (
+                    <option key={field} value={field}>
+                      {ROSTER_FIELD_LABELS[field]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          {mappingErrors.length > 0 && (
+            <ul className="text-xs text-red-400 space-y-1">
+              {mappingErrors.map(message => (
+                <li key={message}>✗ {message}</li>
+              ))}
+            </ul>
+          )}
+          <div className="flex gap-3">
+            <button onClick={handleValidate} disabled={mappingErrors.length > 0} className="btn-primary">
+              Validate Rows
+            </button>
+            <button onClick={() => setStep('select')} className="btn-secondary">
+              Back
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'preview' && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-4 text-sm">
+            <span className="text-cyan-400">{counts.ready ?? 0} ready</span>
+            <span className="text-red-400">{counts.invalid ?? 0} invalid</span>
+            <span className="text-yellow-400">{counts.duplicate ?? 0} duplicate</span>
+            <span className="text-green-400">{counts.issued ?? 0} already issued</span>
+          </div>
+          <div className="max-h-96 overflow-auto border border-white border-opacity-10 rounded-lg">
+            <table className="w-full text-xs text-left">
+              <thead className="text-gray-400 sticky top-0 bg-gray-900">
+                <tr>
+                  <th className="p-2">Row</th>
+                  <th className="p-2">Student ID</th>
+                  <th className="p-2">Degree</th>
+                  <th className="p-2">Status</th>
+                  <th className="p-2">Problems</th>
+                </tr>
+              </thead>
+              <tbody>
+                {checks.slice(0, VISIBLE_ROWS).map(check => (
+                  <tr key={check.row.rowNumber} className="border-t border-white border-opacity-5">
+                    <td className="p-2 text-gray-400">{check.row.rowNumber}</td>
+                    <td className="p-2 text-white">{check.row.studentId || '—'}</td>
+                    <td className="p-2 text-gray-300">{check.row.degreeType || '—'}</td>
+                    <td className={`p-2 font-semibold ${STATUS_STYLES[check.status]}`}>{check.status}</td>
+                    <td className="p-2 text-gray-400">{check.errors.join('; ')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {checks.length > VISIBLE_ROWS && (
+            <p className="text-xs text-gray-500">
+              Showing the first {VISIBLE_ROWS} of {checks.length} rows.
+            </p>
+          )}
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="text-sm text-gray-300">
+              Issue as
+              <select
+                value={mode}
+                onChange={e => setMode(e.target.value as IssueMode)}
+                className="input-field w-auto ml-2 inline-block"
+              >
+                <option value="individual">One transaction per diploma</option>
+                <option value="merkle">One Merkle batch (single anchor)</option>
+              </select>
+            </label>
+            {mode === 'individual' && (
+              <label className="text-sm text-gray-300">
+                Batch size
+                <input
+                  type="number"
+                  min={1}
+                  max={500}
+                  value={batchSize}
+                  onChange={e => setBatchSize(Math.max(1, Number(e.target.value) || 1))}
+                  className="input-field w-24 ml-2 inline-block"
+                />
+              </label>
+            )}
+            <button onClick={handleSubmit} disabled={!counts.ready} className="btn-primary">
+              Issue {counts.ready ?? 0} Diplomas
+            </button>
+            <button onClick={finish} className="btn-secondary">
+              View Report
+            </button>
+            <button onClick={() => setStep('map')} className="btn-secondary">
+              Back
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'submitting' && (
+        <div className="space-y-4">
+          <div className="flex items-center gap-3 text-white">
+            <Loader size={20} className="animate-spin text-cyan-400" />
+            Issuing {progress.done} / {progress.total}
+            {progress.failed > 0 && <span className="text-red-400">({progress.failed} failed)</span>}
+          </div>
+          <div className="w-full bg-white bg-opacity-10 rounded-full h-2">
+            <div
+              className="bg-cyan-400 h-2 rounded-full transition-all"
+              style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+          {mode === 'individual' ? (
+            <button onClick={handlePause} disabled={pausing} className="btn-secondary flex items-center gap-2">
+              <Pause size={16} />
+              {pausing ? 'Pausing after this batch...' : 'Pause'}
+            </button>
+          ) : (
+            <p className="text-xs text-gray-400">
+              Anchoring the cohort's Merkle root. Batch members cannot be revoked or
+              amended individually.
+            </p>
+          )}
+        </div>
+      )}
+
+      {step === 'report' && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-4 text-sm">
+            <span className="text-green-400 flex items-center gap-1">
+              <CheckCircle2 size={16} /> {reportCounts.issued ?? 0} issued
+            </span>
+            <span className="text-red-400 flex items-center gap-1">
+              <XCircle size={16} /> {reportCounts.failed ?? 0} failed
+            </span>
+            <span className="text-gray-400">{reportCounts.skipped ?? 0} skipped</span>
+          </div>
+          <div className="max-h-96 overflow-auto border border-white border-opacity-10 rounded-lg">
+            <table className="w-full text-xs text-left">
+              <thead className="text-gray-400 sticky top-0 bg-gray-900">
+                <tr>
+                  <th className="p-2">Row</th>
+                  <th className="p-2">Student ID</th>
+                  <th className="p-2">Result</th>
+                  <th className="p-2">Certificate / Error</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.slice(0, VISIBLE_ROWS).map(result => (
+                  <tr key={result.rowNumber} className="border-t border-white border-opacity-5">
+                    <td className="p-2 text-gray-400">{result.rowNumber}</td>
+                    <td className="p-2 text-white">{result.studentId || '—'}</td>
+                    <td className={`p-2 font-semibold ${STATUS_STYLES[result.status]}`}>{result.status}</td>
+                    <td className="p-2 text-gray-400 break-all">
+                      {result.certificateHash ? (
+                        <code className="text-cyan-400">{result.certificateHash.slice(0, 18)}...</code>
+                      ) : (
+                        result.error
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex flex-wrap gap-3">
+            <button onClick={handleDownloadReport} className="btn-primary flex items-center gap-2">
+              <Download size={16} />
+              Download Report (CSV)
+            </button>
+            {(reportCounts.failed ?? 0) + report.filter(r => r.error === 'Not submitted').length > 0 && (
+              <button onClick={handleResume} className="btn-secondary flex items-center gap-2">
+                <Play size={16} />
+                Retry Remaining Rows
+              </button>
+            )}
+            <button onClick={onClose} className="btn-secondary">
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,13 +1,16 @@
-import { CheckCircle, Clock, XCircle } from 'lucide-react'
+import { CheckCircle, Clock, RefreshCw, XCircle } from 'lucide-react'
+import IssuerBadge from './IssuerBadge'
 
 interface Credential {
   id: string
   degree: string
+  /** Issuer address; shown through the issuer registry */
   issuer: string
   certificateHash: string
   issuanceDate: string
-  expiryDate: string
-  status: 'valid' | 'revoked'
+  expiryDate: string | null
+  status: 'valid' | 'revoked' | 'superseded'
+  holderBound: boolean
 }
 
 interface StudentCredentialCardProps {
@@ -27,12 +30,16 @@ export default function StudentCredentialCard({
         return <CheckCircle size={20} className="text-green-400" />
       case 'revoked':
         return <XCircle size={20} className="text-red-400" />
+      case 'superseded':
+        return <RefreshCw size={20} className="text-yellow-400" />
       default:
         return <Clock size={20} className="text-yellow-400" />
     }
   }
 
-  const isExpired = new Date(credential.expiryDate) < new Date()
+  // Ledger expiry is the end of the given day, UTC
+  const isExpired =
+    credential.expiryDate !== null && new Date(`${credential.expiryDate}T23:59:59Z`) < new Date()
 
   return (
     <button
@@ -48,17 +55,27 @@ export default function StudentCredentialCard({
           <h4 className="font-semibold text-white mb-1 truncate">
             {credential.degree}
           </h4>
-          <p className="text-sm text-gray-400 mb-2">{credential.issuer}</p>
+          <div className="text-sm text-gray-400 mb-2">
+            <IssuerBadge address={credential.issuer} />
+          </div>
           <div className="flex items-center gap-2 text-xs text-gray-500">
             <span>
               {credential.issuanceDate.split('-').reverse().join('/')}
             </span>
-            {isExpired && (
-              <span className="text-red-400">
-                (Expired {credential.expiryDate.split('-').reverse().join('/')})
+            {credential.expiryDate && (
+              <span className={isExpired ? 'text-red-400' : undefined}>
+                ({isExpired ? 'Expired' : 'Expires'} {credential.expiryDate.split('-').reverse().join('/')})
               </span>
             )}
           </div>
+          {credential.status === 'superseded' && (
+            <p className="text-xs text-yellow-400 mt-1">Replaced by a corrected version</p>
+          )}
+          {!credential.holderBound && (
+            <p className="text-xs text-yellow-400 mt-1">
+              Not bound to your holder key; ask your university to amend it before proving it
+            </p>
+          )}
         </div>
 
         {/* Status */}
@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react'
+import { Lock, Unlock, Loader, AlertCircle } from 'lucide-react'
+import { credentialVault } from '../utils/credentialVault'
+
+interface VaultUnlockProps {
+  owner: string
+}
+
+export default function VaultUnlock({ owner }: VaultUnlockProps) {
+  const [vaultExists, setVaultExists] = useState<boolean | null>(null)
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    credentialVault.exists(owner).then(setVaultExists)
+  }, [owner])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (!vaultExists && passphrase !== confirmation) {
+      setError('Passphrases do not match')
+      return
+    }
+
+    setIsWorking(true)
+    try {
+      if (vaultExists) {
+        await credentialVault.unlock(owner, passphrase)
+      } else {
+        await credentialVault.create(owner, passphrase)
+      }
+      setPassphrase('')
+      setConfirmation('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open vault')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  if (vaultExists === null) {
+    return (
+      <div className="card p-8 flex justify-center">
+        <Loader size={24} className="text-cyan-400 animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="card p-8 max-w-md mx-auto space-y-4">
+      <div className="flex items-center gap-3">
+        <Lock size={28} className="text-cyan-400" />
+        <div>
+          <h3 className="text-xl font-bold text-white">
+            {vaultExists ? 'Unlock Your Vault' : 'Create Your Vault'}
+          </h3>
+          <p className="text-gray-400 text-sm">
+            {vaultExists
+              ? 'Your credentials are encrypted on this device'
+              : 'Choose a passphrase to encrypt your credentials on this device'}
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-900/50 border border-red-700 rounded-lg flex gap-2">
+          <AlertCircle className="text-red-400 flex-shrink-0" size={18} />
+          <p className="text-red-300 text-sm">{error}</p>
+        </div>
+      )}
+
+      <input
+        type="password"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        placeholder="Passphrase"
+        className="input-field"
+        autoComplete={vaultExists ? 'current-password' : 'new-password'}
+        required
+      />
+
+      {!vaultExists && (
+        <input
+          type="password"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          placeholder="Confirm passphrase"
+          className="input-field"
+          autoComplete="new-password"
+          required
+        />
+      )}
+
+      <button
+        type="submit"
+        disabled={isWorking}
+        className="btn-primary w-full flex items-center justify-center gap-2 disabled:opacity-50"
+      >
+        {isWorking ? (
+          <>
+            <Loader size={18} className="animate-spin" />
+            Deriving key...
+          </>
+        ) : (
+          <>
+            <Unlock size={18} />
+            {vaultExists ? 'Unlock' : 'Create Vault'}
+          </>
+        )}
+      </button>
+
+      <p className="text-xs text-gray-500">
+        The vault locks automatically after a few minutes of inactivity. Your
+        passphrase cannot be recovered.
+      </p>
+    </form>
+  )
+}
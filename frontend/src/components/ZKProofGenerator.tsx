@@ -1,23 +1,21 @@
 import { useState } from 'react'
-import { X, Copy, Download, Lock, CheckCircle2, Zap, Clock } from 'lucide-react'
-
-// Simple hash function for browser environment
-async function sha256(message: string): Promise<string> {
-  const msgBuffer = new TextEncoder().encode(message)
-  const hashBuffer = await crypto.subtle.digest('SHA-256', msgBuffer)
-  const hashArray = Array.from(new Uint8Array(hashBuffer))
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('')
-}
-
-// Generate transaction hash
-function generateTransactionHash(): string {
-  const chars = '0123456789abcdef'
-  let hash = '0x'
-  for (let i = 0; i < 64; i++) {
-    hash += chars.charAt(Math.floor(Math.random() * chars.length))
-  }
-  return hash
-}
+import { X, Copy, Download, Lock, CheckCircle2, Zap, Clock, Eye, EyeOff } from 'lucide-react'
+import { verifyOpening, type CommitmentOpening } from '../utils/openingPackage'
+import { describePredicate, predicateHolds } from '../utils/predicateProofs'
+import {
+  ATTRIBUTE_LABELS,
+  DISCLOSABLE_ATTRIBUTES,
+  diplomaAttributes,
+  formatAttributeValue,
+  requestedAttributes,
+} from '../utils/selectiveDisclosure'
+import { courseHolds, describeCoursePredicate, formatCourse, normalizeCourseName } from '../utils/transcriptProofs'
+import {
+  createProofEnvelope,
+  serializeProofEnvelope,
+  type ProofEnvelope,
+} from '../utils/proofEnvelope'
+import type { VerificationRequest } from '../utils/verificationSession'
 
 interface Credential {
   id: string
@@ -25,20 +23,15 @@ interface Credential {
   issuer: string
   certificateHash: string
   issuanceDate: string
-  expiryDate: string
-  status: 'valid' | 'revoked'
-}
-
-interface StudentData {
-  name: string
-  email: string
-  studentId: string
-  marks: Record<string, number>
+  expiryDate: string | null
+  status: 'valid' | 'revoked' | 'superseded'
 }
 
 interface ZKProofGeneratorProps {
   credential: Credential
-  studentData: StudentData
+  opening: CommitmentOpening
+  holderAddress: string
+  request: VerificationRequest | null
   onClose: () => void
 }
 
@@ -46,56 +39,59 @@ type ProofStep = 'confirm' | 'hashing' | 'computing-commitment' | 'generating-nu
 
 export default function ZKProofGenerator({
   credential,
-  studentData,
+  opening,
+  holderAddress,
+  request,
   onClose,
 }: ZKProofGeneratorProps) {
   const [step, setStep] = useState<ProofStep>('confirm')
-  const [proof, setProof] = useState<any>(null)
+  const [proof, setProof] = useState<ProofEnvelope | null>(null)
+  const [error, setError] = useState<string | null>(null)
   const [copiedFields, setCopiedFields] = useState<Set<string>>(new Set())
   const [proofStep, setProofStep] = useState<ProofStep | null>(null)
 
+  // Only the attributes the employer asked for leave the device
+  const disclosed = request ? requestedAttributes(request.requestedClaims) : []
+  const attributeValues = diplomaAttributes(opening.fields)
+  const canDisclose = disclosed.length === 0 || (opening.version >= 2 && !!opening.attributeSalts)
+  const predicates = request?.predicates ?? []
+  const canProve = predicates.length === 0 || (opening.version >= 3 && !!opening.predicateSecret)
+  const courses = request?.courses ?? []
+  const coursePredicates = request?.coursePredicates ?? []
+  const transcript = opening.version === 4 ? opening.transcript : undefined
+  const canUseTranscript = courses.length + coursePredicates.length === 0 || !!transcript
+
   const generateProof = async () => {
+    if (!request) {
+      setError('Paste the employer\'s verification request before generating a proof')
+      return
+    }
+    setError(null)
     setStep('hashing')
     setProofStep('hashing')
 
     try {
       // Step 1: Hash student data - 2 seconds
       await new Promise((resolve) => setTimeout(resolve, 2000))
-      const dataString = JSON.stringify(studentData)
-      const studentDataHash = await sha256(dataString)
 
-      // Step 2: Computing commitment - 2 seconds
+      // Step 2: Re-open the on-chain commitment from the vault copy - 2 seconds
       setProofStep('computing-commitment')
       await new Promise((resolve) => setTimeout(resolve, 2000))
-      const proofCommitment = await sha256(dataString + Date.now())
+      if (!(await verifyOpening(opening))) {
+        throw new Error('The opening package in your vault does not match this credential')
+      }
 
-      // Step 3: Generating nullifier - 2 seconds
+      // Step 3: Generating nullifier and signing - 2 seconds
       setProofStep('generating-nullifier')
       await new Promise((resolve) => setTimeout(resolve, 2000))
-      const nullifier = Array.from(crypto.getRandomValues(new Uint8Array(32)))
-        .map(b => b.toString(16).padStart(2, '0'))
-        .join('')
-      
-      const nonce = Array.from(crypto.getRandomValues(new Uint8Array(32)))
-        .map(b => b.toString(16).padStart(2, '0'))
-        .join('')
-
-      const newProof = {
-        certificateHash: credential.certificateHash,
-        transactionHash: generateTransactionHash(),
-        proofCommitment,
-        nullifier,
-        nonce,
-        timestamp: new Date().toISOString(),
-        studentDataHash,
-        status: 'generated',
-      }
+      const envelope = await createProofEnvelope({ opening, holderAddress, request })
 
-      setProof(newProof)
+      setProof(envelope)
       setStep('result')
       setProofStep(null)
     } catch (error) {
       console.error('Error generating proof:', error)
+      setError(error instanceof Error ? error.message : 'Failed to generate proof')
       setStep('confirm')
       setProofStep(null)
     }
@@ -114,7 +110,8 @@ export default function ZKProofGenerator({
   }
 
   const downloadProof = () => {
-    const proofData = JSON.stringify(proof, null, 2)
+    if (!proof) return
+    const proofData = serializeProofEnvelope(proof)
     const element = document.createElement('a')
     element.setAttribute(
       'href',
@@ -171,6 +168,10 @@ export default function ZKProofGenerator({
                   <p className="text-sm text-gray-500">Issuance Date:</p>
                   <p className="text-white">{credential.issuanceDate}</p>
                 </div>
+                <div>
+                  <p className="text-sm text-gray-500">Expires:</p>
+                  <p className="text-white">{credential.expiryDate ?? 'Never'}</p>
+                </div>
                 <div>
                   <p className="text-sm text-gray-500">Status:</p>
                   <p className="text-green-400">{credential.status.toUpperCase()}</p>
@@ -178,6 +179,90 @@ export default function ZKProofGenerator({
               </div>
             </div>
 
+            {/* Selective Disclosure */}
+            <div className="bg-white bg-opacity-5 p-6 rounded-lg border border-white border-opacity-20 mb-6">
+              <h3 className="text-lg font-semibold text-white mb-4">
+                What the Employer Will See
+              </h3>
+              {!canDisclose && (
+                <div className="error-message text-sm mb-4">
+                  This diploma was issued before attributes could be disclosed one by one, so
+                  it cannot answer a request for {disclosed.map(name => ATTRIBUTE_LABELS[name]).join(', ')}.
+                </div>
+              )}
+              <ul className="space-y-2 text-sm">
+                {DISCLOSABLE_ATTRIBUTES.map(name => {
+                  const revealed = disclosed.includes(name)
+                  return (
+                    <li key={name} className="flex items-center gap-3">
+                      {revealed ? (
+                        <Eye size={16} className="text-cyan-400 flex-shrink-0" />
+                      ) : (
+                        <EyeOff size={16} className="text-gray-500 flex-shrink-0" />
+                      )}
+                      <span className="text-gray-400 w-48">{ATTRIBUTE_LABELS[name]}</span>
+                      <span className={revealed ? 'text-white' : 'text-gray-500'}>
+                        {revealed ? formatAttributeValue(attributeValues[name]) : 'Stays private'}
+                      </span>
+                    </li>
+                  )
+                })}
+              </ul>
+              {courses.length > 0 && (
+                <ul className="space-y-2 text-sm mt-2">
+                  {courses.map(name => {
+                    const course = transcript?.find(c => c.course === normalizeCourseName(name))
+                    return (
+                      <li key={name} className="flex items-center gap-3">
+                        <Eye size={16} className="text-cyan-400 flex-shrink-0" />
+                        <span className="text-gray-400 w-48">Course: {name}</span>
+                        <span className={course ? 'text-white' : 'text-red-400'}>
+                          {course ? formatCourse(course) : 'Not on your transcript'}
+                        </span>
+                      </li>
+                    )
+                  })}
+                </ul>
+              )}
+              {!canUseTranscript && (
+                <div className="error-message text-sm mt-4">
+                  This diploma was issued before course marks were committed one by one, so it
+                  cannot answer a request about individual courses.
+                </div>
+              )}
+              {predicates.length + coursePredicates.length > 0 && (
+                <div className="mt-4">
+                  <p className="text-sm text-gray-300 mb-2">Proven without revealing the values:</p>
+                  {!canProve && (
+                    <div className="error-message text-sm mb-2">
+                      This diploma was issued before conditions could be proven over it.
+                    </div>
+                  )}
+                  <ul className="space-y-1 text-sm">
+                    {predicates.map((predicate, idx) => {
+                      const holds = predicateHolds(attributeValues, predicate)
+                      return (
+                        <li key={idx} className={holds ? 'text-white' : 'text-red-400'}>
+                          {holds ? '✓' : '✗'} {describePredicate(predicate)}
+                        </li>
+                      )
+                    })}
+                    {coursePredicates.map((predicate, idx) => {
+                      const holds = !!transcript && courseHolds(transcript, predicate)
+                      return (
+                        <li key={`course-${idx}`} className={holds ? 'text-white' : 'text-red-400'}>
+                          {holds ? '✓' : '✗'} {describeCoursePredicate(predicate)}
+                        </li>
+                      )
+                    })}
+                  </ul>
+                </div>
+              )}
+              <p className="text-xs text-gray-500 mt-3">
+                Your name, student ID and other courses and marks are never disclosed.
+              </p>
+            </div>
+
             {/* What Will Happen */}
             <div className="bg-white bg-opacity-5 p-6 rounded-lg border border-white border-opacity-20 mb-6">
               <h3 className="text-lg font-semibold text-white mb-4">
@@ -187,7 +272,7 @@ export default function ZKProofGenerator({
                 {[
                   'Your credential data will be hashed locally (not sent anywhere)',
                   'A cryptographic commitment will be created',
-                  'A unique nullifier will be generated (prevents reuse)',
+                  'A nullifier for this employer and week is derived from your holder key (one proof per employer per week)',
                   'You can share this proof with employers',
                   'They verify it on-chain without learning your identity',
                 ].map((item, idx) => (
@@ -201,10 +286,13 @@ export default function ZKProofGenerator({
               </ol>
             </div>
 
+            {error && <div className="error-message mb-6">{error}</div>}
+
             {/* Generate Button */}
             <button
               onClick={generateProof}
-              className="btn-primary w-full mb-3"
+              disabled={!canDisclose || !canProve || !canUseTranscript}
+              className="btn-primary w-full mb-3 disabled:opacity-50"
             >
               Generate Proof Locally
             </button>
@@ -278,7 +366,7 @@ export default function ZKProofGenerator({
                   Step 3: Generating Nullifier
                 </p>
                 <p className="text-xs text-gray-400 mt-1">
-                  Creating unique identifier to prevent proof reuse...
+                  Deriving this employer's nullifier for the current epoch...
                 </p>
               </div>
             </div>
@@ -316,14 +404,14 @@ export default function ZKProofGenerator({
               </h4>
               <div className="space-y-2 text-sm">
                 <div>
-                  <p className="text-gray-500 mb-1">Proof Transaction Hash:</p>
+                  <p className="text-gray-500 mb-1">Certificate Hash:</p>
                   <code className="text-xs text-cyan-400 bg-black bg-opacity-50 p-2 rounded block break-all">
-                    {proof.transactionHash}
+                    {proof.certificateHash}
                   </code>
                 </div>
                 <div>
                   <p className="text-gray-500 mb-1">Generated At:</p>
-                  <p className="text-gray-300">{proof.timestamp}</p>
+                  <p className="text-gray-300">{proof.createdAt}</p>
                 </div>
                 <div>
                   <p className="text-gray-500 mb-1">Status:</p>
@@ -338,11 +426,11 @@ export default function ZKProofGenerator({
                 <p className="text-sm text-gray-500 mb-2">Proof Commitment:</p>
                 <div className="flex items-center gap-2">
                   <code className="flex-1 bg-black bg-opacity-50 px-3 py-2 rounded text-xs text-cyan-400 overflow-x-auto">
-                    {proof.proofCommitment}
+                    {proof.commitment}
                   </code>
                   <button
                     onClick={() =>
-                      copyToClipboard(proof.proofCommitment, 'commitment')
+                      copyToClipboard(proof.commitment, 'commitment')
                     }
                     className="p-2 hover:bg-white hover:bg-opacity-10 rounded transition flex-shrink-0"
                   >
@@ -359,7 +447,9 @@ export default function ZKProofGenerator({
               </div>
 
               <div>
-                <p className="text-sm text-gray-500 mb-2">Nullifier (Prevents Reuse):</p>
+                <p className="text-sm text-gray-500 mb-2">
+                  Nullifier (Scoped to This Employer, Epoch {proof.epoch}):
+                </p>
                 <div className="flex items-center gap-2">
                   <code className="flex-1 bg-black bg-opacity-50 px-3 py-2 rounded text-xs text-purple-400 overflow-x-auto">
                     {proof.nullifier}
@@ -152,7 +152,7 @@ async function exampleEmployerChecksDiplomaValidity() {
   const certificateHash =
     "abc123def456abc123def456abc123def456abc123def456abc123def456ab"
 
-  // Check if diploma is still valid (not revoked, within validity period)
+  // Check if diploma is still valid (not revoked, not expired)
   const isValid = await client.checkDiplomaValidity(certificateHash)
 
   console.log(`\n  Diploma Validity Check:`)
@@ -272,12 +272,17 @@ async function exampleHashGeneration() {
   console.log(`  ${degreeTypeHash}`)
   console.log(`  (Hashed to save space)\n`)
 
-  // Generate random nullifier (prevents replay attacks)
-  const nullifier = HashingUtility.generateNullifier()
+  // Derive the nullifier for one employer (prevents replay attacks)
+  const holderSecretKey = "..." // Private scalar of the student's holder key (hex)
+  const { nullifier } = HashingUtility.generateNullifier(
+    holderSecretKey,
+    await certHash,
+    "employer-verifier-id"
+  )
 
   console.log(`Nullifier (Prevents Replay Attacks):`)
   console.log(`  ${nullifier}`)
-  console.log(`  (Random, unique for each verification)\n`)
+  console.log(`  (Same for this employer all epoch, unrelated for other employers)\n`)
 
   console.log(`📌 Privacy Summary:`)
   console.log(`  ✓ Student name: Hashed and committed`)
@@ -30,6 +30,28 @@
 // } from "@midnight-ntwrk/midnight-js-sdk"
 // import { FetcherError, Wallet } from "@midnight-ntwrk/wallet"
 
+import { canonicalize, normalizeMarks } from './utils/canonical'
+import { sha256Sync } from './utils/crypto'
+import { holderPresentationMessage } from './utils/holderSignature'
+import type { BatchInclusionProof } from './utils/ledgerBackend'
+import { envelopeFromVerificationProof, type ProofEnvelope } from './utils/proofEnvelope'
+import type { AttributeDisclosure } from './utils/selectiveDisclosure'
+import {
+  discloseCoursesFromOpening,
+  proveCoursesFromOpening,
+  proveFromOpening,
+  type CommitmentOpening,
+} from './utils/openingPackage'
+import type { Predicate, PredicateProof } from './utils/predicateProofs'
+import type { CourseDisclosure, CoursePredicate, CourseProof } from './utils/transcriptProofs'
+import {
+  verificationFailed,
+  verificationPassed,
+  type VerificationOutcome,
+} from './utils/verificationOutcome'
+import { requestNonce, type VerificationRequest } from './utils/verificationSession'
+import { deriveVerifierNullifier, nullifierEpoch, type VerifierNullifier } from './utils/verifierNullifier'
+
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
@@ -45,6 +67,8 @@ interface DiplomaRecord {
   studentDataCommitment: string
   degreeTypeHash: string
   departmentHash: string
+  holderPublicKey: string // Student's P-256 key; presentations must be signed with it
+  expiresAt: number // Unix seconds; 0 = never expires
 }
 
 /**
@@ -53,8 +77,12 @@ interface DiplomaRecord {
 interface VerificationProof {
   certificateHash: string
   proofCommitment: string
-  nullifier: string
-  nonce: string
+  nullifier: string // H(holder secret, certificateHash, verifierId, epoch)
+  nonce: string // Derived from the verifier's request (see verificationSession)
+  holderSignature: string // Holder key signature over all fields above
+  verifierId: string // Verifier the nullifier is scoped to
+  epoch: number // Nullifier epoch (see verifierNullifier)
+  nullifierProof: string // Lets the contract check the nullifier against the holder key
 }
 
 /**
@@ -70,8 +98,7 @@ interface PrivateDiplomaConfig {
 /**
  * Response from diploma verification
  */
-interface VerificationResult {
-  isValid: boolean
+interface VerificationResult extends VerificationOutcome {
   diplomaAge: number
   issuerAddress: string
   timestamp: number
@@ -86,6 +113,8 @@ interface IssuanceTxPayload {
   degreeTypeHash: string
   departmentHash: string
   issuanceTimestamp: number
+  holderPublicKey: string
+  expiresAt: number
   estimatedGas: number
 }
 
@@ -143,7 +172,7 @@ class HashingUtility {
     marks: Record<string, number>,
     metadata: Record<string, string>
   ): Promise<string> {
-    const dataString = JSON.stringify({ studentName, marks, metadata })
+    const dataString = canonicalize({ studentName, marks: normalizeMarks(marks), metadata })
     return this.sha256(dataString)
   }
 
@@ -166,13 +195,23 @@ class HashingUtility {
   }
 
   /**
-   * Create a random nullifier for ZKP (prevents replay attacks)
-   * @returns - Random 32-byte hexadecimal string
+   * Derive the nullifier of a proof for one verifier (prevents replay attacks)
+   * Deterministic: the same holder, diploma, verifier and epoch always give
+   * the same nullifier, so a verifier accepts one proof per epoch, while
+   * other verifiers see unrelated values.
+   * @param holderSecretKey - Private scalar of the diploma's holder key (hex)
+   * @param certificateHash - The diploma's certificate hash
+   * @param verifierId - Verifier id from the verification request
+   * @param epoch - Nullifier epoch, the current one by default
+   * @returns - Nullifier with the proof the contract checks it by
    */
-  static generateNullifier(): string {
-    const arr = new Uint8Array(32)
-    crypto.getRandomValues(arr)
-    return Array.from(arr).map(b => b.toString(16).padStart(2, '0')).join('')
+  static generateNullifier(
+    holderSecretKey: string,
+    certificateHash: string,
+    verifierId: string,
+    epoch: number = nullifierEpoch()
+  ): VerifierNullifier {
+    return deriveVerifierNullifier(holderSecretKey, { certificateHash, verifierId, epoch })
   }
 
   /**
@@ -214,7 +253,10 @@ class ZKProofGenerator {
    * @param certificateHash - The diploma's certificate hash
    * @param studentDataCommitment - Hash of student's private data
    * @param studentPrivateData - Student's actual private data (name, marks)
-   * @returns - Proof object ready for on-chain verification
+   * @param nonce - Nonce of the verifier's request (requestNonce)
+   * @param verifierId - Verifier id of the same request
+   * @param holderSecretKey - Private scalar of the holder key, for the nullifier
+   * @returns - Unsigned proof; the holder signs it before submission
    */
   static generateVerificationProof(
     certificateHash: string,
@@ -223,27 +265,35 @@ class ZKProofGenerator {
       name: string
       marks: Record<string, number>
       metadata: Record<string, string>
-    }
+    },
+    nonce: string,
+    verifierId: string,
+    holderSecretKey: string
   ): VerificationProof {
     // In a production system, this would use actual ZKP circuits (like zk-SNARKs)
     // For now, we create a commitment-based proof
 
-    const nullifier = HashingUtility.generateNullifier()
-    const nonce = HashingUtility.generateNonce()
+    const epoch = nullifierEpoch()
+    const { nullifier, nullifierProof } = HashingUtility.generateNullifier(
+      holderSecretKey,
+      certificateHash,
+      verifierId,
+      epoch
+    )
 
     // Create proof commitment by hashing the student data
-    const proofInput = JSON.stringify(studentPrivateData)
-    // NOTE: In browser, use Web Crypto API instead of Node.js crypto.createHash
-    const encoder = new TextEncoder()
-    const data = encoder.encode(proofInput)
-    const hashBuffer = crypto.subtle ? null : null // Placeholder - use proper async hashing
-    const proofCommitment = HashingUtility.hashData(proofInput) // Use our utility instead
+    const proofInput = canonicalize({ ...studentPrivateData, marks: normalizeMarks(studentPrivateData.marks) })
+    const proofCommitment = sha256Sync(proofInput)
 
     return {
       certificateHash,
       proofCommitment,
       nullifier,
       nonce,
+      holderSignature: "",
+      verifierId,
+      epoch,
+      nullifierProof,
     }
   }
 
@@ -263,17 +313,113 @@ class ZKProofGenerator {
       metadata: Record<string, string>
     }
   ): boolean {
-    const dataString = JSON.stringify(studentData)
-    const expectedCommitment = HashingUtility.hashData(dataString)
+    const dataString = canonicalize({ ...studentData, marks: normalizeMarks(studentData.marks) })
+    const expectedCommitment = sha256Sync(dataString)
 
     return proof.proofCommitment === expectedCommitment
   }
+
+  /**
+   * Prove conditions over committed attributes without disclosing them
+   *
+   * generateVerificationProof only shows the whole commitment opens; these
+   * proofs show e.g. "GPA at least 3.5" against the same commitment, so the
+   * contract's verifyPredicate can check them alongside verifyDegree.
+   *
+   * @param opening - The student's opening package (version 3)
+   * @param predicates - Conditions from the verifier's request
+   * @returns - One proof per predicate; throws if one does not hold
+   */
+  static generatePredicateProofs(
+    opening: CommitmentOpening,
+    predicates: Predicate[]
+  ): Promise<PredicateProof[]> {
+    return proveFromOpening(opening, predicates)
+  }
+
+  /**
+   * Reveal single transcript courses (name, credits and mark)
+   *
+   * Each disclosure opens one course leaf of the transcript tree and the
+   * transcript leaf of the commitment; the rest of the transcript stays
+   * hidden.
+   *
+   * @param opening - The student's opening package (version 4)
+   * @param courses - Course names from the verifier's request
+   * @returns - One disclosure per course; throws if one is not on the transcript
+   */
+  static discloseCourses(
+    opening: CommitmentOpening,
+    courses: string[]
+  ): Promise<CourseDisclosure[]> {
+    return discloseCoursesFromOpening(opening, courses)
+  }
+
+  /**
+   * Prove bounds on course marks without disclosing them
+   *
+   * e.g. "Algorithms mark at least 90"; the contract's verifyCoursePredicate
+   * checks each proof against the same commitment as verifyDegree.
+   *
+   * @param opening - The student's opening package (version 4)
+   * @param predicates - Course bounds from the verifier's request
+   * @returns - One proof per bound; throws if one does not hold
+   */
+  static generateCourseProofs(
+    opening: CommitmentOpening,
+    predicates: CoursePredicate[]
+  ): Promise<CourseProof[]> {
+    return proveCoursesFromOpening(opening, predicates)
+  }
+
+  /**
+   * Wrap a signed proof in the shareable proof file format
+   *
+   * @param proof - Proof signed by the holder
+   * @param issuerAddress - Address of the issuing university
+   * @param request - Verification request the proof answers
+   * @param batch - Leaf and Merkle path of a batch-issued diploma
+   * @param disclosures - Attributes the request asks to reveal (see discloseFromOpening)
+   * @param predicateProofs - Proofs of the request's predicates (see generatePredicateProofs)
+   * @param courseDisclosures - Courses the request asks to reveal (see discloseCourses)
+   * @param courseProofs - Proofs of the request's course bounds (see generateCourseProofs)
+   * @returns - Envelope to hand to the verifier (see serializeProofEnvelope)
+   */
+  static toProofEnvelope(
+    proof: VerificationProof,
+    issuerAddress: string,
+    request: VerificationRequest,
+    batch?: BatchInclusionProof,
+    disclosures?: AttributeDisclosure[],
+    predicateProofs?: PredicateProof[],
+    courseDisclosures?: CourseDisclosure[],
+    courseProofs?: CourseProof[]
+  ): ProofEnvelope {
+    return envelopeFromVerificationProof(proof, issuerAddress, {
+      requestId: request.requestId,
+      batch,
+      disclosures,
+      predicateProofs,
+      courseDisclosures,
+      courseProofs,
+    })
+  }
 }
 
 // Type placeholders for Midnight SDK (install packages to use actual types)
 type ContractAddress = string
 type Wallet = any
 
+// Function placeholders for Midnight SDK: each fails like issueDiploma does
+// until the SDK imports above are restored
+function requiresSdk(name: string): never {
+  throw new Error(`${name} requires @midnight-ntwrk/midnight-js-sdk package`)
+}
+const createTransaction = (_options: Record<string, unknown>): any => requiresSdk("createTransaction")
+const witnessTransaction = async (_options: Record<string, unknown>): Promise<any> => requiresSdk("witnessTransaction")
+const createNetworkEnvironment = (_rpcUrl: string): any => requiresSdk("createNetworkEnvironment")
+const joinNetwork = async (_options: Record<string, unknown>): Promise<any> => requiresSdk("joinNetwork")
+
 // ============================================================================
 // MAIN SDK CLIENT CLASS (Reference Implementation)
 // ============================================================================
@@ -332,6 +478,8 @@ class PrivateDiplomaClient {
    * @param marks - Student's marks (hashed on-chain)
    * @param degreeType - Degree type (e.g., "Bachelor of Science in CS")
    * @param department - Department name
+   * @param holderPublicKey - Student's holder key (hex, see holderKeyFor)
+   * @param expiresAt - Unix seconds after which the diploma stops verifying (0 = never)
    * @returns - Transaction hash on blockchain
    *
    * @example
@@ -341,7 +489,8 @@ class PrivateDiplomaClient {
    *   "John Doe",
    *   { "Math": 95, "CS": 98, "Physics": 92 },
    *   "Bachelor of Science in Computer Science",
-   *   "Department of Computer Science"
+   *   "Department of Computer Science",
+   *   "04ab...holder key"
    * )
    */
   async issueDiploma(
@@ -350,7 +499,9 @@ class PrivateDiplomaClient {
     studentName: string,
     marks: Record<string, number>,
     degreeType: string,
-    department: string
+    department: string,
+    holderPublicKey: string,
+    expiresAt: number = 0
   ): Promise<string> {
     try {
       // Step 1: Create hashes for privacy
@@ -381,6 +532,8 @@ class PrivateDiplomaClient {
         degreeTypeHash,
         departmentHash,
         issuanceTimestamp: currentTimestamp,
+        holderPublicKey,
+        expiresAt,
         estimatedGas: 250000, // Typical gas for diploma issuance
       }
 
@@ -397,6 +550,8 @@ class PrivateDiplomaClient {
           payload.degreeTypeHash,
           payload.departmentHash,
           payload.issuanceTimestamp.toString(),
+          payload.holderPublicKey,
+          payload.expiresAt.toString(),
         ],
         signer: this.wallet,
         gasLimit: payload.estimatedGas,
@@ -438,6 +593,9 @@ class PrivateDiplomaClient {
    *
    * @param studentPrivateData - Student's private data (for proof generation)
    * @param certificateHash - The certificate hash to verify
+   * @param request - Verification request issued by the employer
+   * @param holderSecretKey - Private scalar of the holder key bound at issuance
+   * @param signPresentation - Signs with the same key
    * @returns - Verification result with diploma validity status
    *
    * @example
@@ -447,7 +605,10 @@ class PrivateDiplomaClient {
    *     marks: { "Math": 95, "CS": 98 },
    *     metadata: { studentId: "STU001" }
    *   },
-   *   "abc123...hash"
+   *   "abc123...hash",
+   *   requestFromEmployer,
+   *   await holderKeys.getNullifierSecretKey(studentAddress),
+   *   (message) => holderKeys.sign(studentAddress, message)
    * )
    * 
    * if (result.isValid) {
@@ -461,15 +622,22 @@ class PrivateDiplomaClient {
       marks: Record<string, number>
       metadata: Record<string, string>
     },
-    certificateHash: string
+    certificateHash: string,
+    request: VerificationRequest,
+    holderSecretKey: string,
+    signPresentation: (message: string) => Promise<string>
   ): Promise<VerificationResult> {
     try {
-      // Step 1: Generate zero-knowledge proof
+      // Step 1: Generate zero-knowledge proof and bind it to the holder
       const proof = ZKProofGenerator.generateVerificationProof(
         certificateHash,
         "", // In real system, would retrieve from ledger
-        studentPrivateData
+        studentPrivateData,
+        await requestNonce(request),
+        request.verifierId,
+        holderSecretKey
       )
+      proof.holderSignature = await signPresentation(holderPresentationMessage(proof))
 
       // Step 2: Validate proof locally before sending
       const proofValid = ZKProofGenerator.validateProofOffChain(
@@ -490,6 +658,10 @@ class PrivateDiplomaClient {
           proof.proofCommitment,
           proof.nullifier,
           proof.nonce,
+          proof.holderSignature,
+          proof.verifierId,
+          proof.epoch,
+          proof.nullifierProof,
         ],
         signer: this.wallet,
         gasLimit: 200000,
@@ -514,7 +686,11 @@ class PrivateDiplomaClient {
       console.log(`  Age: ${diplomaAge} seconds`)
 
       return {
-        isValid: diplomaRecord.status === 1,
+        ...(diplomaRecord.status !== 1
+          ? verificationFailed("REVOKED", certificateHash)
+          : diplomaRecord.expiresAt !== 0 && now >= diplomaRecord.expiresAt
+            ? verificationFailed("EXPIRED", certificateHash)
+            : verificationPassed(certificateHash)),
         diplomaAge,
         issuerAddress: diplomaRecord.issuerAddress,
         timestamp: diplomaRecord.issuanceTimestamp,
@@ -532,18 +708,23 @@ class PrivateDiplomaClient {
   /**
    * Revoke a diploma (for misconduct, errors, etc.)
    *
-   * Currently not implemented - would require additional contract setup
-   * to allow only the issuing university to revoke their diplomas
+   * Only the issuing university can revoke its diplomas
    *
    * @param certificateHash - Certificate to revoke
+   * @param reason - 1 misconduct, 2 clerical error, 3 superseded, 4 accreditation withdrawn
+   * @param effectiveAt - When the revocation takes effect (defaults to now)
    * @returns - Transaction hash
    */
-  async revokeDiploma(certificateHash: string): Promise<string> {
+  async revokeDiploma(
+    certificateHash: string,
+    reason: 1 | 2 | 3 | 4,
+    effectiveAt: number = Math.floor(Date.now() / 1000)
+  ): Promise<string> {
     try {
       const tx = createTransaction({
         contractAddress: this.contractAddress,
         functionName: "revokeDiploma",
-        arguments: [certificateHash],
+        arguments: [certificateHash, reason, effectiveAt],
         signer: this.wallet,
         gasLimit: 150000,
       })
@@ -563,6 +744,39 @@ class PrivateDiplomaClient {
     }
   }
 
+  /**
+   * Reinstate a revoked diploma
+   *
+   * The contract refuses diplomas revoked as superseded
+   *
+   * @param certificateHash - Certificate to reinstate
+   * @returns - Transaction hash
+   */
+  async reinstateDiploma(certificateHash: string): Promise<string> {
+    try {
+      const tx = createTransaction({
+        contractAddress: this.contractAddress,
+        functionName: "reinstateDiploma",
+        arguments: [certificateHash],
+        signer: this.wallet,
+        gasLimit: 150000,
+      })
+
+      const witnessedTx = await witnessTransaction({
+        transaction: tx,
+        prover: this.wallet,
+      })
+
+      const txHash = await this.submitTransaction(witnessedTx)
+
+      console.log(`✓ Diploma reinstated: ${txHash}`)
+      return txHash
+    } catch (error) {
+      console.error("Error reinstating diploma:", error)
+      throw error
+    }
+  }
+
   // ========================================================================
   // QUERY FUNCTIONS (Read-only)
   // ========================================================================
@@ -586,6 +800,8 @@ class PrivateDiplomaClient {
         studentDataCommitment: "", // Hash only, not actual data
         degreeTypeHash: "",
         departmentHash: "",
+        holderPublicKey: "",
+        expiresAt: 0,
       }
 
       return record
@@ -600,7 +816,7 @@ class PrivateDiplomaClient {
    *
    * Checks:
    * - Diploma hasn't been revoked
-   * - Diploma is within validity period
+   * - Diploma has not passed its expiry (if it has one)
    * - Diploma exists on-chain
    *
    * @param certificateHash - Certificate to check
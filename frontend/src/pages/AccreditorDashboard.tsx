@@ -0,0 +1,193 @@
+import { useState } from 'react'
+import { Landmark, UserPlus, PauseCircle, PlayCircle, AlertCircle, Loader } from 'lucide-react'
+import IssuerBadge from '../components/IssuerBadge'
+import { useMidnightSDK } from '../utils/MidnightProvider'
+import type { AccreditationChange } from '../utils/ledgerBackend'
+
+interface AccreditorDashboardProps {
+  /** Connected address; App only renders this page for appointed accreditors */
+  userAddress: string
+}
+
+const CHANGE_APPLIED_LABELS: Record<AccreditationChange, string> = {
+  accredit: 'Accredited',
+  suspend: 'Suspended',
+}
+
+export default function AccreditorDashboard({ userAddress }: AccreditorDashboardProps) {
+  const { accreditors, accreditations, issuerProfiles, ledgerDiplomas, changeLedgerAccreditation } =
+    useMidnightSDK()
+
+  const [newUniversity, setNewUniversity] = useState('')
+  const [busy, setBusy] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  const accreditor = accreditors.find(a => a.accreditorAddress === userAddress)
+  const ours = accreditations.filter(a => a.accreditorAddress === userAddress)
+
+  const change = async (kind: AccreditationChange, university: string) => {
+    setError(null)
+    setSuccess(null)
+    if (!university) return
+    // The ledger checks this too; catching it here saves a rejected transaction
+    const profile = issuerProfiles.find(p => p.issuerAddress === university)
+    if (accreditor && profile && profile.metadata.country !== accreditor.jurisdiction) {
+      setError(
+        `${profile.metadata.name} is registered in ${profile.metadata.country}, outside your jurisdiction (${accreditor.jurisdiction})`
+      )
+      return
+    }
+
+    setBusy(university)
+    try {
+      await changeLedgerAccreditation(kind, university, userAddress)
+      if (kind === 'accredit') setNewUniversity('')
+      setSuccess(`✅ ${CHANGE_APPLIED_LABELS[kind]} ${profile?.metadata.name ?? university}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change accreditation')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const issuedCount = (issuer: string) => ledgerDiplomas.filter(d => d.issuerAddress === issuer).length
+
+  if (!accreditor) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-pink-900 py-8 px-4">
+        <div className="max-w-3xl mx-auto card p-6 text-gray-300">
+          This wallet is no longer an appointed accreditor.
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-pink-900 py-8 px-4">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-white mb-2">Accreditor Console</h1>
+          <p className="text-gray-300">
+            Authorize and suspend the universities in {accreditor.jurisdiction} that may issue
+            diplomas under this contract
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-900/50 border border-red-700 rounded-lg flex gap-3">
+            <AlertCircle className="text-red-400 flex-shrink-0" size={20} />
+            <p className="text-red-300 text-sm">{error}</p>
+          </div>
+        )}
+        {success && (
+          <div className="mb-6 p-4 bg-green-900/40 border border-green-700 rounded-lg">
+            <p className="text-green-300 text-sm">{success}</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-1 space-y-6">
+            {/* Accredit University */}
+            <div className="card p-6">
+              <div className="flex items-center gap-2 mb-6">
+                <UserPlus size={24} className="text-cyan-400" />
+                <h3 className="text-xl font-bold text-white">Accredit University</h3>
+              </div>
+              <input
+                type="text"
+                value={newUniversity}
+                onChange={e => setNewUniversity(e.target.value)}
+                placeholder="University wallet address"
+                className="input-field w-full mb-4 font-mono text-sm"
+              />
+              <button
+                onClick={() => change('accredit', newUniversity.trim())}
+                disabled={busy !== null || !newUniversity.trim()}
+                className="btn-primary w-full flex items-center justify-center gap-2"
+              >
+                {busy === newUniversity.trim() && <Loader size={16} className="animate-spin" />}
+                Accredit
+              </button>
+              <p className="text-xs text-gray-400 mt-4">
+                An accredited university can issue diplomas until you suspend it. Universities
+                whose issuer profile names another country are rejected.
+              </p>
+            </div>
+
+            <div className="card p-6">
+              <div className="flex items-center gap-2 mb-2">
+                <Landmark size={18} className="text-amber-400" />
+                <p className="text-white font-semibold">{accreditor.name}</p>
+              </div>
+              <p className="text-gray-400 text-sm">Jurisdiction: {accreditor.jurisdiction}</p>
+              <p className="text-gray-400 text-sm">
+                Appointed {new Date(accreditor.appointedAt * 1000).toLocaleDateString()}
+              </p>
+              <p className="text-white font-mono text-xs break-all mt-2">{userAddress}</p>
+            </div>
+          </div>
+
+          {/* Accredited Universities */}
+          <div className="lg:col-span-2">
+            <div className="card p-6">
+              <h3 className="text-lg font-bold text-white mb-4">Accredited Universities ({ours.length})</h3>
+              {ours.length === 0 ? (
+                <p className="text-gray-400 text-sm">You have not accredited any universities yet.</p>
+              ) : (
+                <table className="w-full text-sm text-left">
+                  <thead className="text-gray-400 text-xs">
+                    <tr>
+                      <th className="p-2">University</th>
+                      <th className="p-2">Status</th>
+                      <th className="p-2">Diplomas</th>
+                      <th className="p-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {ours.map(accreditation => {
+                      const active = accreditation.status === 'active'
+                      return (
+                        <tr key={accreditation.issuerAddress} className="border-t border-white border-opacity-5">
+                          <td className="p-2">
+                            <IssuerBadge address={accreditation.issuerAddress} detailed />
+                          </td>
+                          <td className="p-2">
+                            <span className={active ? 'text-green-400' : 'text-red-300'}>
+                              {active ? 'Active' : 'Suspended'}
+                            </span>
+                            <p className="text-xs text-gray-500">
+                              since {new Date(accreditation.updatedAt * 1000).toLocaleDateString()}
+                            </p>
+                          </td>
+                          <td className="p-2 text-gray-300">{issuedCount(accreditation.issuerAddress)}</td>
+                          <td className="p-2 text-right">
+                            <button
+                              onClick={() => change(active ? 'suspend' : 'accredit', accreditation.issuerAddress)}
+                              disabled={busy !== null}
+                              className="btn-secondary text-xs inline-flex items-center gap-1"
+                            >
+                              {busy === accreditation.issuerAddress ? (
+                                <Loader size={14} className="animate-spin" />
+                              ) : active ? (
+                                <PauseCircle size={14} />
+                              ) : (
+                                <PlayCircle size={14} />
+                              )}
+                              {active ? 'Suspend' : 'Re-accredit'}
+                            </button>
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
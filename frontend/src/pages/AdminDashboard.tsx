@@ -0,0 +1,547 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { ShieldCheck, UserPlus, UserMinus, Clock, CheckCircle, XCircle, AlertCircle, Loader, Building2, Landmark } from 'lucide-react'
+import IssuerBadge from '../components/IssuerBadge'
+import { useMidnightSDK } from '../utils/MidnightProvider'
+import { configLoader } from '../utils/config'
+import { TransactionResult } from '../utils/transactionManager'
+import { issuerChanges, issuerChangeError, type IssuerChangeEntry } from '../utils/issuerChanges'
+import { ISSUER_METADATA_LABELS, isIssuerProfileSigned } from '../utils/issuerRegistry'
+import type { IssuerChange, IssuerMetadata, IssuerProfile } from '../utils/ledgerBackend'
+
+interface AdminDashboardProps {
+  /** Connected address; App only renders this page for the contract owner */
+  userAddress: string
+}
+
+const CHANGE_LABELS: Record<IssuerChange, string> = {
+  add: 'Authorize',
+  remove: 'Deauthorize',
+}
+
+const CHANGE_APPLIED_LABELS: Record<IssuerChange, string> = {
+  add: 'Authorized',
+  remove: 'Deauthorized',
+}
+
+export default function AdminDashboard({ userAddress }: AdminDashboardProps) {
+  const {
+    ledger,
+    ledgerDiplomas,
+    connected,
+    changeLedgerIssuer,
+    submitIssuerChangeTransaction,
+    monitorTransaction,
+    issuerProfiles,
+    approveLedgerIssuerProfile,
+    accreditors,
+    accreditations,
+    appointLedgerAccreditor,
+    removeLedgerAccreditor,
+  } = useMidnightSDK()
+
+  const [issuers, setIssuers] = useState<string[]>([])
+  const [changes, setChanges] = useState<IssuerChangeEntry[]>(() => issuerChanges.list())
+  const [newIssuer, setNewIssuer] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [approving, setApproving] = useState<string | null>(null)
+  const [newAccreditor, setNewAccreditor] = useState({ address: '', name: '', jurisdiction: '' })
+  const [accreditorBusy, setAccreditorBusy] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  // Unsubscribe functions of the transactions being monitored, by tx hash
+  const monitored = useRef(new Map<string, () => void>())
+
+  // Authorized issuers come from the ledger, never from local state
+  useEffect(() => {
+    const loadIssuers = () =>
+      ledger.listAuthorizedIssuers()
+        .then(list => setIssuers([...list].sort()))
+        .catch(err => console.error('❌ Failed to load issuers:', err))
+    loadIssuers()
+    return ledger.onChange(loadIssuers)
+  }, [ledger])
+
+  /**
+   * Apply a change to the ledger once its transaction confirms
+   */
+  const watch = useCallback(
+    (entry: IssuerChangeEntry) => {
+      if (monitored.current.has(entry.txHash)) return
+
+      const unsubscribe = monitorTransaction(entry.txHash, async (status: TransactionResult) => {
+        if (status.status === 'pending') return
+        monitored.current.get(entry.txHash)?.()
+        monitored.current.delete(entry.txHash)
+
+        if (status.status === 'confirmed') {
+          try {
+            await changeLedgerIssuer(entry.change, entry.university, entry.submittedBy)
+            issuerChanges.settle(entry.txHash, 'applied')
+            setSuccess(`✅ ${CHANGE_APPLIED_LABELS[entry.change]} ${entry.university} (block ${status.blockNumber})`)
+          } catch (err) {
+            issuerChanges.settle(
+              entry.txHash,
+              'failed',
+              err instanceof Error ? err.message : 'Ledger rejected the change'
+            )
+          }
+        } else {
+          issuerChanges.settle(entry.txHash, 'failed', 'Transaction failed on-chain')
+          setError(`❌ ${CHANGE_LABELS[entry.change]} ${entry.university}: transaction failed`)
+        }
+        setChanges(issuerChanges.list())
+      })
+      monitored.current.set(entry.txHash, unsubscribe)
+    },
+    [monitorTransaction, changeLedgerIssuer]
+  )
+
+  // Resume monitoring changes left pending by an earlier session
+  useEffect(() => {
+    if (!connected) return
+    issuerChanges.pending().forEach(watch)
+    const subscriptions = monitored.current
+    return () => {
+      subscriptions.forEach(unsubscribe => unsubscribe())
+      subscriptions.clear()
+    }
+  }, [connected, watch])
+
+  const pending = changes.filter(c => c.status === 'pending')
+  const settled = changes.filter(c => c.status !== 'pending').slice(0, 10)
+
+  const submitChange = async (change: IssuerChange, university: string) => {
+    setError(null)
+    setSuccess(null)
+    const problem = issuerChangeError(change, university, issuers, pending)
+    if (problem) {
+      setError(problem)
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const txResult = await submitIssuerChangeTransaction(change, university)
+      const entry = issuerChanges.add({
+        change,
+        university,
+        txHash: txResult.txHash,
+        submittedBy: userAddress,
+        submittedAt: Date.now(),
+      })
+      setChanges(issuerChanges.list())
+      watch(entry)
+      if (change === 'add') setNewIssuer('')
+      setSuccess(`⏳ ${CHANGE_LABELS[change]} submitted. TX Hash: ${txResult.txHash.slice(0, 16)}...`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit issuer change')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const approveProfile = async (profile: IssuerProfile) => {
+    setError(null)
+    setSuccess(null)
+    setApproving(profile.issuerAddress)
+    try {
+      // Approves the hash reviewed here; a profile edited since is rejected
+      await approveLedgerIssuerProfile(profile.issuerAddress, profile.metadataHash, userAddress)
+      setSuccess(`✅ Approved issuer profile of ${profile.metadata.name}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to approve issuer profile')
+    } finally {
+      setApproving(null)
+    }
+  }
+
+  const pendingProfiles = issuerProfiles.filter(p => p.status === 'pending')
+
+  const appointAccreditor = async () => {
+    setError(null)
+    setSuccess(null)
+    const address = newAccreditor.address.trim()
+    const name = newAccreditor.name.trim()
+    const jurisdiction = newAccreditor.jurisdiction.trim().toUpperCase()
+    if (!address || !name) {
+      setError('Accreditor address and name are required')
+      return
+    }
+    if (!/^[A-Z]{2}$/.test(jurisdiction)) {
+      setError('Jurisdiction must be a two-letter ISO country code (e.g. GB)')
+      return
+    }
+
+    setAccreditorBusy(address)
+    try {
+      await appointLedgerAccreditor(address, name, jurisdiction, userAddress)
+      setNewAccreditor({ address: '', name: '', jurisdiction: '' })
+      setSuccess(`✅ Appointed ${name} as accreditor for ${jurisdiction}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to appoint accreditor')
+    } finally {
+      setAccreditorBusy(null)
+    }
+  }
+
+  const removeAccreditor = async (accreditor: string, name: string) => {
+    setError(null)
+    setSuccess(null)
+    setAccreditorBusy(accreditor)
+    try {
+      await removeLedgerAccreditor(accreditor, userAddress)
+      setSuccess(`✅ Removed accreditor ${name}; the universities it accredited can no longer issue`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove accreditor')
+    } finally {
+      setAccreditorBusy(null)
+    }
+  }
+
+  // Accredited universities answer to their accreditor, not to the owner's set
+  const accreditationOf = (issuer: string) => accreditations.find(a => a.issuerAddress === issuer)
+  const accreditorName = (accreditor: string) =>
+    accreditors.find(a => a.accreditorAddress === accreditor)?.name ?? 'Removed accreditor'
+  const accreditedCount = (accreditor: string) =>
+    accreditations.filter(a => a.accreditorAddress === accreditor && a.status === 'active').length
+
+  // Dev ledgers may authorize new issuing wallets on first use
+  const { autoAuthorizeIssuers } = configLoader.getContractParameters()
+
+  const issuedCount = (issuer: string) => ledgerDiplomas.filter(d => d.issuerAddress === issuer).length
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-pink-900 py-8 px-4">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-white mb-2">Contract Admin Console</h1>
+          <p className="text-gray-300">
+            Authorize the universities that may issue diplomas under this contract
+          </p>
+        </div>
+
+        {autoAuthorizeIssuers && (
+          <div className="mb-6 info-message">
+            Auto-authorization is on: any new wallet that issues a diploma is authorized on
+            first use. Issuers you deauthorize here stay deauthorized. Unset
+            VITE_AUTO_AUTHORIZE_ISSUERS to manage issuers from this console only.
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-900/50 border border-red-700 rounded-lg flex gap-3">
+            <AlertCircle className="text-red-400 flex-shrink-0" size={20} />
+            <p className="text-red-300 text-sm">{error}</p>
+          </div>
+        )}
+        {success && (
+          <div className="mb-6 p-4 bg-green-900/40 border border-green-700 rounded-lg">
+            <p className="text-green-300 text-sm">{success}</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Add Issuer */}
+          <div className="lg:col-span-1 space-y-6">
+            <div className="card p-6">
+              <div className="flex items-center gap-2 mb-6">
+                <UserPlus size={24} className="text-cyan-400" />
+                <h3 className="text-xl font-bold text-white">Authorize Issuer</h3>
+              </div>
+              <input
+                type="text"
+                value={newIssuer}
+                onChange={e => setNewIssuer(e.target.value)}
+                placeholder="University wallet address"
+                className="input-field w-full mb-4 font-mono text-sm"
+              />
+              <button
+                onClick={() => submitChange('add', newIssuer.trim())}
+                disabled={submitting || !newIssuer.trim()}
+                className="btn-primary w-full flex items-center justify-center gap-2"
+              >
+                {submitting && <Loader size={16} className="animate-spin" />}
+                Sign &amp; Submit
+              </button>
+              <p className="text-xs text-gray-400 mt-4">
+                Changes are signed by the owner wallet and take effect on the ledger once
+                the transaction confirms.
+              </p>
+            </div>
+
+            {/* Appoint Accreditor */}
+            <div className="card p-6">
+              <div className="flex items-center gap-2 mb-6">
+                <Landmark size={24} className="text-amber-400" />
+                <h3 className="text-xl font-bold text-white">Appoint Accreditor</h3>
+              </div>
+              <div className="space-y-3 mb-4">
+                <input
+                  type="text"
+                  value={newAccreditor.address}
+                  onChange={e => setNewAccreditor(current => ({ ...current, address: e.target.value }))}
+                  placeholder="Accreditor wallet address"
+                  className="input-field w-full font-mono text-sm"
+                />
+                <input
+                  type="text"
+                  value={newAccreditor.name}
+                  onChange={e => setNewAccreditor(current => ({ ...current, name: e.target.value }))}
+                  placeholder="Accrediting body, e.g. Office for Students"
+                  className="input-field w-full text-sm"
+                />
+                <input
+                  type="text"
+                  value={newAccreditor.jurisdiction}
+                  onChange={e => setNewAccreditor(current => ({ ...current, jurisdiction: e.target.value }))}
+                  placeholder="Jurisdiction (GB)"
+                  maxLength={2}
+                  className="input-field w-full text-sm uppercase"
+                />
+              </div>
+              <button
+                onClick={appointAccreditor}
+                disabled={accreditorBusy !== null || !newAccreditor.address.trim()}
+                className="btn-primary w-full flex items-center justify-center gap-2"
+              >
+                {accreditorBusy === newAccreditor.address.trim() && <Loader size={16} className="animate-spin" />}
+                Appoint
+              </button>
+              <p className="text-xs text-gray-400 mt-4">
+                Accreditors authorize and suspend universities in their own jurisdiction.
+                Appointing an existing accreditor again updates its name.
+              </p>
+            </div>
+
+            <div className="card p-6">
+              <p className="text-gray-400 text-sm mb-1">Contract Owner:</p>
+              <p className="text-white font-mono text-xs break-all">{userAddress}</p>
+            </div>
+          </div>
+
+          <div className="lg:col-span-2 space-y-6">
+            {/* Pending Changes */}
+            <div className="card p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <Clock size={20} className="text-yellow-400" />
+                <h3 className="text-lg font-bold text-white">Pending Changes ({pending.length})</h3>
+              </div>
+              {pending.length === 0 ? (
+                <p className="text-gray-400 text-sm">No changes awaiting confirmation.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {pending.map(entry => (
+                    <li
+                      key={entry.txHash}
+                      className="flex items-center gap-3 p-3 rounded-lg bg-yellow-500 bg-opacity-10 border border-yellow-400 border-opacity-30"
+                    >
+                      <Loader size={16} className="animate-spin text-yellow-400 flex-shrink-0" />
+                      <div className="min-w-0">
+                        <p className="text-white text-sm">
+                          {CHANGE_LABELS[entry.change]}{' '}
+                          <span className="font-mono text-xs break-all">{entry.university}</span>
+                        </p>
+                        <p className="text-gray-400 text-xs font-mono">
+                          {entry.txHash.slice(0, 18)}... · submitted{' '}
+                          {new Date(entry.submittedAt).toLocaleTimeString()}
+                        </p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Issuer Profiles */}
+            <div className="card p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <Building2 size={20} className="text-cyan-400" />
+                <h3 className="text-lg font-bold text-white">
+                  Profiles Awaiting Approval ({pendingProfiles.length})
+                </h3>
+              </div>
+              {pendingProfiles.length === 0 ? (
+                <p className="text-gray-400 text-sm">No issuer profiles awaiting approval.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {pendingProfiles.map(profile => {
+                    const signed = isIssuerProfileSigned(profile)
+                    return (
+                      <li
+                        key={profile.issuerAddress}
+                        className="p-4 rounded-lg bg-white bg-opacity-5 border border-white border-opacity-10"
+                      >
+                        <div className="flex items-start justify-between gap-4">
+                          <dl className="grid grid-cols-3 gap-x-3 gap-y-1 text-sm min-w-0">
+                            {(Object.keys(ISSUER_METADATA_LABELS) as (keyof IssuerMetadata)[]).map(field => (
+                              <div key={field} className="contents">
+                                <dt className="text-gray-400">{ISSUER_METADATA_LABELS[field]}</dt>
+                                <dd className="col-span-2 text-white break-all">
+                                  {profile.metadata[field] || '—'}
+                                </dd>
+                              </div>
+                            ))}
+                            <dt className="text-gray-400">Address</dt>
+                            <dd className="col-span-2 text-white font-mono text-xs break-all">
+                              {profile.issuerAddress}
+                            </dd>
+                          </dl>
+                          <button
+                            onClick={() => approveProfile(profile)}
+                            disabled={!signed || approving !== null}
+                            className="btn-primary text-sm flex items-center gap-2 flex-shrink-0"
+                          >
+                            {approving === profile.issuerAddress && <Loader size={14} className="animate-spin" />}
+                            Approve
+                          </button>
+                        </div>
+                        <p className={`text-xs mt-2 ${signed ? 'text-green-400' : 'text-red-400'}`}>
+                          {signed
+                            ? '✓ Signed by the issuer'
+                            : '✗ Signature does not match the metadata; ask the issuer to register again'}
+                          {' · '}
+                          <span className="text-gray-500">
+                            submitted {new Date(profile.submittedAt * 1000).toLocaleString()}
+                          </span>
+                        </p>
+                      </li>
+                    )
+                  })}
+                </ul>
+              )}
+            </div>
+
+            {/* Accreditors */}
+            <div className="card p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <Landmark size={20} className="text-amber-400" />
+                <h3 className="text-lg font-bold text-white">Accreditors ({accreditors.length})</h3>
+              </div>
+              {accreditors.length === 0 ? (
+                <p className="text-gray-400 text-sm">
+                  No accreditors appointed; only universities you authorize directly can issue.
+                </p>
+              ) : (
+                <table className="w-full text-sm text-left">
+                  <thead className="text-gray-400 text-xs">
+                    <tr>
+                      <th className="p-2">Accreditor</th>
+                      <th className="p-2">Jurisdiction</th>
+                      <th className="p-2">Universities</th>
+                      <th className="p-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {accreditors.map(accreditor => (
+                      <tr key={accreditor.accreditorAddress} className="border-t border-white border-opacity-5">
+                        <td className="p-2">
+                          <p className="text-white">{accreditor.name}</p>
+                          <p className="text-xs text-gray-500 font-mono break-all">{accreditor.accreditorAddress}</p>
+                        </td>
+                        <td className="p-2 text-gray-300">{accreditor.jurisdiction}</td>
+                        <td className="p-2 text-gray-300">{accreditedCount(accreditor.accreditorAddress)}</td>
+                        <td className="p-2 text-right">
+                          <button
+                            onClick={() => removeAccreditor(accreditor.accreditorAddress, accreditor.name)}
+                            disabled={accreditorBusy !== null}
+                            className="btn-secondary text-xs inline-flex items-center gap-1"
+                          >
+                            <UserMinus size={14} />
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            {/* Authorized Issuers */}
+            <div className="card p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <ShieldCheck size={20} className="text-cyan-400" />
+                <h3 className="text-lg font-bold text-white">Authorized Issuers ({issuers.length})</h3>
+              </div>
+              {issuers.length === 0 ? (
+                <p className="text-gray-400 text-sm">No universities are authorized yet.</p>
+              ) : (
+                <table className="w-full text-sm text-left">
+                  <thead className="text-gray-400 text-xs">
+                    <tr>
+                      <th className="p-2">Issuer</th>
+                      <th className="p-2">Authorized Via</th>
+                      <th className="p-2">Diplomas</th>
+                      <th className="p-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {issuers.map(issuer => {
+                      const isPending = pending.some(p => p.university === issuer)
+                      const accreditation = accreditationOf(issuer)
+                      return (
+                        <tr key={issuer} className="border-t border-white border-opacity-5">
+                          <td className="p-2">
+                            <IssuerBadge address={issuer} detailed />
+                          </td>
+                          <td className="p-2 text-gray-300">
+                            {accreditation
+                              ? `${accreditorName(accreditation.accreditorAddress)} (${accreditation.jurisdiction})`
+                              : 'Owner'}
+                          </td>
+                          <td className="p-2 text-gray-300">{issuedCount(issuer)}</td>
+                          <td className="p-2 text-right">
+                            {/* Only the accreditor can suspend a university it accredited */}
+                            {!accreditation && (
+                              <button
+                                onClick={() => submitChange('remove', issuer)}
+                                disabled={submitting || isPending}
+                                className="btn-secondary text-xs inline-flex items-center gap-1"
+                              >
+                                <UserMinus size={14} />
+                                {isPending ? 'Pending' : 'Remove'}
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            {/* Recent Changes */}
+            {settled.length > 0 && (
+              <div className="card p-6">
+                <h3 className="text-lg font-bold text-white mb-4">Recent Changes</h3>
+                <ul className="space-y-2">
+                  {settled.map(entry => (
+                    <li key={entry.txHash} className="flex items-start gap-3 text-sm">
+                      {entry.status === 'applied' ? (
+                        <CheckCircle size={16} className="text-green-400 flex-shrink-0 mt-0.5" />
+                      ) : (
+                        <XCircle size={16} className="text-red-400 flex-shrink-0 mt-0.5" />
+                      )}
+                      <div className="min-w-0">
+                        <p className="text-gray-200">
+                          {CHANGE_LABELS[entry.change]}{' '}
+                          <span className="font-mono text-xs break-all">{entry.university}</span>
+                        </p>
+                        <p className="text-gray-500 text-xs">
+                          {entry.settledAt ? new Date(entry.settledAt).toLocaleString() : ''}
+                          {entry.error ? ` · ${entry.error}` : ''}
+                        </p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
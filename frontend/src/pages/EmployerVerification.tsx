@@ -1,34 +1,187 @@
-import { useState } from 'react'
-import { CheckCircle2, AlertCircle, Upload, Search, Clock, Loader } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { CheckCircle2, AlertCircle, Upload, Search, Clock, Loader, KeyRound, RefreshCw, Layers, Globe, Eye, EyeOff, Scale } from 'lucide-react'
+import AccreditationChainView from '../components/AccreditationChainView'
+import IssuerBadge from '../components/IssuerBadge'
 import { useMidnightSDK } from '../utils/MidnightProvider'
+import {
+  isAnonymousPresentationReceipt,
+  toVerificationProof,
+  validateProofEnvelope,
+} from '../utils/proofEnvelope'
+import {
+  DEFAULT_REQUEST_TTL_MS,
+  REQUESTED_CLAIM_LABELS,
+  verificationSessions,
+  type RequestedClaim,
+  type VerificationSession,
+} from '../utils/verificationSession'
+import {
+  VERIFICATION_REASONS,
+  verificationFailed,
+  verificationPassed,
+  type VerificationOutcome,
+  type VerificationReasonCategory,
+} from '../utils/verificationOutcome'
+import { checkDomainLinkage, type DomainLinkageResult } from '../utils/domainLinkage'
+import {
+  DEGREE_CATEGORIES,
+  DEGREE_CATEGORY_LABELS,
+  describePredicate,
+  predicateId,
+  predicateProofErrors,
+  type DegreeCategory,
+  type Predicate,
+} from '../utils/predicateProofs'
+import {
+  ATTRIBUTE_LABELS,
+  DISCLOSABLE_ATTRIBUTES,
+  disclosureErrors,
+  formatAttributeValue,
+  requestedAttributes,
+  type AttributeDisclosure,
+} from '../utils/selectiveDisclosure'
+import {
+  courseDisclosureErrors,
+  coursePredicateId,
+  courseProofErrors,
+  describeCoursePredicate,
+  formatCourse,
+  normalizeCourseName,
+  type CoursePredicate,
+  type TranscriptCourse,
+} from '../utils/transcriptProofs'
+import {
+  resolveAmendmentChain,
+  type AccreditationChain,
+  type AnonymousPresentationRecord,
+  type BatchAnchorRecord,
+  type DiplomaStatus,
+} from '../utils/ledgerBackend'
 
 interface EmployerVerificationProps {
   userAddress: string
 }
 
-interface VerificationResult {
-  isValid: boolean
-  diplomaHash: string
-  message: string
-  verifiedAt: number
+/** Where the verified certificate sits in its issuer's correction chain */
+interface AmendmentInfo {
+  /** Earlier certificate the verified one corrects */
+  corrects?: string
+  /** Latest correction of a superseded certificate */
+  currentVersion?: { certificateHash: string; status: DiplomaStatus }
+}
+
+interface VerificationResult extends VerificationOutcome {
   employerVerified: string
-  issuerAddress?: string
+  amendment?: AmendmentInfo
+  /** Anchor of the batch a batch-issued diploma was proven against */
+  batch?: BatchAnchorRecord
+  /** How the issuer's authority traces back to the contract owner */
+  accreditation?: AccreditationChain
+  /** Attributes the candidate revealed; only set when verification succeeded */
+  disclosures?: Pick<AttributeDisclosure, 'name' | 'value'>[]
+  /** Conditions proven without disclosure; only set when verification succeeded */
+  predicates?: Predicate[]
+  /** Transcript courses the candidate revealed; only set when verification succeeded */
+  courses?: TranscriptCourse[]
+  /** Course mark bounds proven without disclosure; only set when verification succeeded */
+  coursePredicates?: CoursePredicate[]
+  /** Set for an anonymous presentation, which names no certificate or issuer */
+  anonymous?: AnonymousPresentationRecord
+}
+
+const REASON_CATEGORY_LABELS: Record<VerificationReasonCategory, string> = {
+  credential: 'The diploma itself is not valid',
+  replay: 'A genuine proof presented again or to the wrong verifier',
+  proof: 'The proof is invalid or was not made by the diploma holder',
+}
+
+/** Requested transcript courses missing from what was disclosed */
+function missingCourses(requested: string[], disclosed: TranscriptCourse[]): string[] {
+  return requested
+    .filter(name => !disclosed.some(course => course.course === normalizeCourseName(name)))
+    .map(name => `Course ${name} was requested but not disclosed`)
+}
+
+/** Requested course bounds missing from what was proven */
+function unprovenCoursePredicates(requested: CoursePredicate[], proven: CoursePredicate[]): string[] {
+  return requested
+    .filter(predicate => !proven.some(p => coursePredicateId(p) === coursePredicateId(predicate)))
+    .map(predicate => `"${describeCoursePredicate(predicate)}" was requested but not proven`)
 }
 
 export default function EmployerVerification({ userAddress }: EmployerVerificationProps) {
   const { 
-    verifyDiploma, 
     isLoading: sdkLoading, 
     error: sdkError,
-    ledgerDiplomas,
+    ledger,
   } = useMidnightSDK()
   
   const [step, setStep] = useState<'upload' | 'verifying' | 'result'>('upload')
-  const [proof, setProof] = useState<any>(null)
+  const [proof, setProof] = useState<unknown>(null)
   const [result, setResult] = useState<VerificationResult | null>(null)
   const [manualInput, setManualInput] = useState('')
   const [useManual, setUseManual] = useState(false)
   const [verificationError, setVerificationError] = useState<string | null>(null)
+  const [domainLinkage, setDomainLinkage] = useState<DomainLinkageResult | null>(null)
+  const [sessions, setSessions] = useState<VerificationSession[]>(() =>
+    verificationSessions.list(userAddress)
+  )
+  const [requestedClaims, setRequestedClaims] = useState<RequestedClaim[]>([
+    'diploma-valid',
+    'issuer-authorized',
+  ])
+  const [requestTtl, setRequestTtl] = useState(DEFAULT_REQUEST_TTL_MS)
+  // Conditions to prove without disclosure; empty inputs ask for nothing
+  const [minGpa, setMinGpa] = useState('')
+  const [graduatedFrom, setGraduatedFrom] = useState('')
+  const [graduatedTo, setGraduatedTo] = useState('')
+  const [degreeCategories, setDegreeCategories] = useState<DegreeCategory[]>([])
+  // Transcript courses to disclose (comma separated) and one mark to bound
+  const [requestCourses, setRequestCourses] = useState('')
+  const [boundCourse, setBoundCourse] = useState('')
+  const [minCourseMark, setMinCourseMark] = useState('')
+
+  const refreshSessions = () => setSessions(verificationSessions.list(userAddress))
+
+  const requestPredicates = (): Predicate[] => [
+    ...(minGpa ? [{ attribute: 'gpa', op: 'gte', value: Number(minGpa) } as const] : []),
+    ...(graduatedFrom ? [{ attribute: 'graduationYear', op: 'gte', value: Number(graduatedFrom) } as const] : []),
+    ...(graduatedTo ? [{ attribute: 'graduationYear', op: 'lte', value: Number(graduatedTo) } as const] : []),
+    ...(degreeCategories.length ? [{ attribute: 'degreeCategory', op: 'in', value: degreeCategories } as const] : []),
+  ]
+
+  const requestTranscript = () => ({
+    courses: requestCourses.split(',').map(normalizeCourseName).filter(Boolean),
+    coursePredicates:
+      boundCourse.trim() && minCourseMark
+        ? [{ course: normalizeCourseName(boundCourse), op: 'gte', value: Number(minCourseMark) } as const]
+        : [],
+  })
+
+  const handleCreateRequest = async () => {
+    await verificationSessions.create(
+      userAddress,
+      requestedClaims,
+      requestTtl,
+      requestPredicates(),
+      requestTranscript()
+    )
+    refreshSessions()
+  }
+
+  const toggleCategory = (category: DegreeCategory) => {
+    setDegreeCategories(categories =>
+      categories.includes(category)
+        ? categories.filter(c => c !== category)
+        : DEGREE_CATEGORIES.filter(c => c === category || categories.includes(c))
+    )
+  }
+
+  const toggleClaim = (claim: RequestedClaim) => {
+    setRequestedClaims(claims =>
+      claims.includes(claim) ? claims.filter(c => c !== claim) : [...claims, claim]
+    )
+  }
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
@@ -49,6 +202,24 @@ export default function EmployerVerification({ userAddress }: EmployerVerificati
     reader.readAsText(file)
   }
 
+  // Does the issuer control the website in its registry profile?
+  useEffect(() => {
+    setDomainLinkage(null)
+    const issuer = result?.issuerAddress
+    if (!issuer) return
+    let cancelled = false
+    ledger
+      .getIssuerProfile(issuer)
+      .then(profile => (profile ? checkDomainLinkage(profile) : null))
+      .then(linkage => {
+        if (!cancelled) setDomainLinkage(linkage)
+      })
+      .catch(err => console.error('❌ Domain linkage check failed:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [ledger, result?.issuerAddress])
+
   const handleManualSubmit = () => {
     try {
       const proofData = JSON.parse(manualInput)
@@ -60,65 +231,261 @@ export default function EmployerVerification({ userAddress }: EmployerVerificati
     }
   }
 
-  const verifyProof = async (proofData: any) => {
+  const verifyProof = async (proofData: unknown) => {
     setStep('verifying')
     setVerificationError(null)
 
+    // Issuer the proof names; failed outcomes do not carry one
+    let claimedIssuer: string | undefined
+    // Attributes that open the proof's commitment, once checked
+    let disclosed: Pick<AttributeDisclosure, 'name' | 'value'>[] | undefined
+    // Conditions proven against the proof's commitment, once checked
+    let proven: Predicate[] | undefined
+    // Courses and course bounds checked against the same commitment
+    let disclosedCourses: TranscriptCourse[] | undefined
+    let provenCourses: CoursePredicate[] | undefined
+
+    const finish = async (
+      outcome: VerificationOutcome,
+      amendment?: AmendmentInfo,
+      batch?: BatchAnchorRecord,
+      anonymous?: AnonymousPresentationRecord
+    ) => {
+      console.log(outcome.isValid ? '✅ Diploma verified' : '❌ Verification failed: ' + outcome.reason)
+      // Where the issuer's authority comes from, whether or not it still holds
+      const issuer = outcome.issuerAddress ?? claimedIssuer
+      const accreditation = issuer
+        ? await ledger.getAccreditationChain(issuer).catch(err => {
+            console.error('❌ Failed to load accreditation chain:', err)
+            return undefined
+          })
+        : undefined
+      setResult({
+        ...outcome,
+        employerVerified: userAddress,
+        amendment,
+        batch,
+        accreditation,
+        disclosures: outcome.isValid ? disclosed : undefined,
+        predicates: outcome.isValid ? proven : undefined,
+        courses: outcome.isValid ? disclosedCourses : undefined,
+        coursePredicates: outcome.isValid ? provenCourses : undefined,
+        anonymous,
+      })
+      setStep('result')
+    }
+
     try {
       console.log('🔍 Verifying diploma through Midnight Network...')
-      
-      // Normalize certificate hash from whatever proof shape we receive
-      const normalizedCertificateHash =
-        proofData.certificateHash ||
-        proofData.certificate_hash ||
-        proofData.transactionHash ||
-        proofData.proofCommitment ||
-        proofData.proofData ||
-        proofData.proof ||
-        ''
-      
-      // Query ledger state for diploma commitment
-      const ledgerDiplomaMatch = ledgerDiplomas?.find(
-        d => d.certificateHash === normalizedCertificateHash
-      )
-      
-      // If found in ledger state, return verified result
-      if (ledgerDiplomaMatch) {
-        console.log('✅ Diploma verified through ledger state synchronization')
-        
-        const result: VerificationResult = {
-          isValid: true,
-          diplomaHash: ledgerDiplomaMatch.certificateHash,
-          message: 'Diploma verified successfully through Midnight Network',
-          verifiedAt: Date.now(),
-          employerVerified: userAddress,
-          issuerAddress: ledgerDiplomaMatch.universityAddress,
+
+      // An anonymous presentation was already proven on the ledger by the
+      // candidate; the receipt only says which request it answers
+      if (isAnonymousPresentationReceipt(proofData)) {
+        const session = verificationSessions.findByNonce(userAddress, proofData.nonce)
+        const sessionStatus = session ? verificationSessions.statusOf(session) : null
+        if (!session || sessionStatus !== 'open') {
+          await finish(
+            verificationFailed('CHALLENGE_MISMATCH', '', [
+              !session
+                ? 'Presentation does not answer any of your verification requests'
+                : sessionStatus === 'expired'
+                  ? 'The verification request this presentation answers has expired'
+                  : 'The verification request this presentation answers was already completed',
+            ])
+          )
+          return
+        }
+
+        const presentation = await ledger.getAnonymousPresentation(proofData.nonce)
+        if (!presentation || presentation.verifierId !== userAddress) {
+          await finish(verificationFailed('PRESENTATION_NOT_FOUND', ''))
+          return
         }
 
-        setResult(result)
-        setStep('result')
+        // The circuit checked what was presented; check that it is what the
+        // request asked for
+        const missingAttributes = [
+          ...requestedAttributes(session.request.requestedClaims)
+            .filter(name => !presentation.disclosures.some(d => d.name === name))
+            .map(name => `${ATTRIBUTE_LABELS[name]} was requested but not disclosed`),
+          ...missingCourses(session.request.courses ?? [], presentation.courses),
+        ]
+        if (missingAttributes.length > 0) {
+          await finish(verificationFailed('DISCLOSURE_INVALID', '', missingAttributes))
+          return
+        }
+        const requestedPredicates = session.request.predicates ?? []
+        const missingPredicates = requestedPredicates
+          .filter(predicate => !presentation.predicates.some(p => predicateId(p) === predicateId(predicate)))
+          .map(predicate => `"${describePredicate(predicate)}" was requested but not proven`)
+        const requestedCoursePredicates = session.request.coursePredicates ?? []
+        missingPredicates.push(...unprovenCoursePredicates(requestedCoursePredicates, presentation.coursePredicates))
+        if (missingPredicates.length > 0) {
+          await finish(verificationFailed('PREDICATE_UNPROVEN', '', missingPredicates))
+          return
+        }
+        disclosed = presentation.disclosures
+        proven = requestedPredicates
+        disclosedCourses = presentation.courses
+        provenCourses = requestedCoursePredicates
+
+        verificationSessions.complete(session.request.requestId)
+        refreshSessions()
+        await finish(
+          verificationPassed(
+            '',
+            undefined,
+            'Anonymous presentation verified: the candidate holds a valid diploma from an authorized university'
+          ),
+          undefined,
+          undefined,
+          presentation
+        )
         return
       }
-      
-      // Otherwise call SDK to verify the diploma using the normalized proof payload
-      const verificationResult = await verifyDiploma({
-        certificateHash: normalizedCertificateHash,
-        studentDataCommitment: proofData.studentDataCommitment || '',
-        proofData: proofData.proofData || proofData.proof || '',
-      })
 
-      // Format the result
-      const result: VerificationResult = {
-        isValid: verificationResult.isValid,
-        diplomaHash: verificationResult.isValid ? normalizedCertificateHash : '',
-        message: verificationResult.message,
-        verifiedAt: Date.now(),
-        employerVerified: userAddress,
+      // Every proof file goes through the envelope validator; legacy files
+      // and malformed envelopes are rejected with the exact problems
+      const validation = validateProofEnvelope(proofData)
+      if (!validation.valid) {
+        await finish(verificationFailed('MALFORMED_PROOF', '', validation.errors))
+        return
       }
+      const { envelope } = validation
+      claimedIssuer = envelope.issuer
 
-      setResult(result)
-      setStep('result')
-      console.log('✅ Diploma verified successfully!')
+      // The proof nonce must belong to a request this verifier issued that is
+      // still open; anything else is a replay of a proof made for someone else
+      const session = verificationSessions.findByNonce(userAddress, envelope.nonce)
+      const sessionStatus = session ? verificationSessions.statusOf(session) : null
+      if (!session || sessionStatus !== 'open') {
+        await finish(
+          verificationFailed('CHALLENGE_MISMATCH', envelope.certificateHash, [
+            !session
+              ? 'Proof does not answer any of your verification requests'
+              : sessionStatus === 'expired'
+                ? 'The verification request this proof answers has expired'
+                : 'The verification request this proof answers was already completed',
+          ])
+        )
+        return
+      }
+
+      // The contract only checks the nullifier against the verifier id the
+      // proof names; one scoped to another verifier would dodge the limit of
+      // one proof per verifier and epoch
+      if (envelope.verifierId !== session.request.verifierId) {
+        await finish(
+          verificationFailed('CHALLENGE_MISMATCH', envelope.certificateHash, [
+            'Proof nullifier is scoped to another verifier',
+          ])
+        )
+        return
+      }
+
+      // Disclosed attributes must open the commitment the ledger is about to
+      // check, and cover every attribute the request asked for
+      const disclosures = envelope.disclosures ?? []
+      const courseDisclosures = envelope.courseDisclosures ?? []
+      const disclosureProblems = [
+        ...requestedAttributes(session.request.requestedClaims)
+          .filter(name => !disclosures.some(d => d.name === name))
+          .map(name => `${ATTRIBUTE_LABELS[name]} was requested but not disclosed`),
+        ...disclosureErrors(envelope.commitment, disclosures),
+        ...missingCourses(session.request.courses ?? [], courseDisclosures.map(d => d.course)),
+        ...courseDisclosureErrors(envelope.commitment, courseDisclosures),
+      ]
+      if (disclosureProblems.length > 0) {
+        await finish(verificationFailed('DISCLOSURE_INVALID', envelope.certificateHash, disclosureProblems))
+        return
+      }
+      disclosed = disclosures
+      disclosedCourses = courseDisclosures.map(d => d.course)
+
+      // Every requested condition needs a proof over that same commitment
+      const predicateProofs = envelope.predicateProofs ?? []
+      const requestedPredicates = session.request.predicates ?? []
+      const courseProofs = envelope.courseProofs ?? []
+      const requestedCoursePredicates = session.request.coursePredicates ?? []
+      const predicateProblems = [
+        ...requestedPredicates
+          .filter(predicate => !predicateProofs.some(p => predicateId(p.predicate) === predicateId(predicate)))
+          .map(predicate => `"${describePredicate(predicate)}" was requested but not proven`),
+        ...predicateProofErrors(envelope.commitment, predicateProofs),
+        ...unprovenCoursePredicates(requestedCoursePredicates, courseProofs.map(p => p.predicate)),
+        ...courseProofErrors(envelope.commitment, courseProofs),
+      ]
+      if (predicateProblems.length > 0) {
+        await finish(verificationFailed('PREDICATE_UNPROVEN', envelope.certificateHash, predicateProblems))
+        return
+      }
+      proven = requestedPredicates
+      provenCourses = requestedCoursePredicates
+
+      // A batch-issued diploma has no record of its own; the contract checks
+      // its inclusion path against the anchored Merkle root instead
+      if (envelope.batch) {
+        const anchor = await ledger.getBatchAnchor(envelope.batch.merkleRoot)
+        if (anchor && anchor.issuerAddress !== envelope.issuer) {
+          await finish(
+            verificationFailed('MALFORMED_PROOF', envelope.certificateHash, [
+              'Proof names a different issuer than the batch anchor',
+            ])
+          )
+          return
+        }
+
+        const outcome = await ledger.submitBatchVerificationProof(
+          toVerificationProof(envelope),
+          envelope.batch
+        )
+        if (outcome.isValid) {
+          verificationSessions.complete(session.request.requestId, envelope.certificateHash)
+          refreshSessions()
+        }
+        await finish(outcome, undefined, anchor ?? undefined)
+        return
+      }
+
+      // Query the ledger backend for the public diploma record
+      const ledgerRecord = await ledger.getRecord(envelope.certificateHash)
+      if (ledgerRecord && ledgerRecord.issuerAddress !== envelope.issuer) {
+        await finish(
+          verificationFailed('MALFORMED_PROOF', envelope.certificateHash, [
+            'Proof names a different issuer than the ledger record',
+          ])
+        )
+        return
+      }
+
+      // The contract checks the diploma exists, revocation, expiry, the
+      // commitment, the holder signature and the nullifier, and reports
+      // which one failed; an unknown certificate is NOT_FOUND
+      const outcome = await ledger.submitVerificationProof(toVerificationProof(envelope))
+      if (outcome.isValid) {
+        verificationSessions.complete(session.request.requestId, envelope.certificateHash)
+        refreshSessions()
+      }
+
+      // A superseded diploma points to its correction; follow the chain so
+      // the verifier learns which version is current
+      const chain =
+        ledgerRecord && outcome.reason === 'SUPERSEDED'
+          ? await resolveAmendmentChain(ledger, ledgerRecord.certificateHash)
+          : []
+      const current = chain.length > 1 ? chain[chain.length - 1] : undefined
+      await finish(
+        outcome,
+        ledgerRecord?.supersedes || current
+          ? {
+              corrects: ledgerRecord?.supersedes,
+              currentVersion: current && {
+                certificateHash: current.certificateHash,
+                status: current.status,
+              },
+            }
+          : undefined
+      )
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Verification failed'
       setVerificationError(errorMessage)
@@ -178,6 +545,192 @@ export default function EmployerVerification({ userAddress }: EmployerVerificati
           </div>
         </div>
 
+        {/* Verification Requests */}
+        <div className="card p-6 mb-8">
+          <div className="flex items-start gap-4">
+            <KeyRound size={24} className="text-purple-400 flex-shrink-0 mt-1" />
+            <div className="min-w-0 flex-1">
+              <h3 className="text-lg font-semibold text-white mb-2">Verification Requests</h3>
+              <p className="text-gray-300 text-sm mb-4">
+                Send a request to the candidate first. Their proof is bound to it, so it
+                only verifies here, once, and before the request expires.
+              </p>
+
+              <div className="flex flex-wrap items-center gap-4 mb-4">
+                {(Object.keys(REQUESTED_CLAIM_LABELS) as RequestedClaim[]).map(claim => (
+                  <label key={claim} className="flex items-center gap-2 text-sm text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={requestedClaims.includes(claim)}
+                      onChange={() => toggleClaim(claim)}
+                    />
+                    {REQUESTED_CLAIM_LABELS[claim]}
+                  </label>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-4 mb-4 text-sm text-gray-300">
+                <span className="flex items-center gap-1 text-gray-400">
+                  <Scale size={16} />
+                  Prove without disclosing:
+                </span>
+                <label className="flex items-center gap-2">
+                  GPA at least
+                  <input
+                    type="number"
+                    min={0}
+                    max={10}
+                    step={0.01}
+                    value={minGpa}
+                    onChange={(e) => setMinGpa(e.target.value)}
+                    className="input-field w-20 text-sm"
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  Graduated
+                  <input
+                    type="number"
+                    min={1900}
+                    max={2100}
+                    placeholder="from"
+                    value={graduatedFrom}
+                    onChange={(e) => setGraduatedFrom(e.target.value)}
+                    className="input-field w-24 text-sm"
+                  />
+                  –
+                  <input
+                    type="number"
+                    min={1900}
+                    max={2100}
+                    placeholder="to"
+                    value={graduatedTo}
+                    onChange={(e) => setGraduatedTo(e.target.value)}
+                    className="input-field w-24 text-sm"
+                  />
+                </label>
+                <span className="flex items-center gap-3">
+                  Degree is
+                  {DEGREE_CATEGORIES.map(category => (
+                    <label key={category} className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={degreeCategories.includes(category)}
+                        onChange={() => toggleCategory(category)}
+                      />
+                      {DEGREE_CATEGORY_LABELS[category]}
+                    </label>
+                  ))}
+                </span>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-4 mb-4 text-sm text-gray-300">
+                <span className="flex items-center gap-1 text-gray-400">
+                  <Layers size={16} />
+                  Transcript:
+                </span>
+                <label className="flex items-center gap-2">
+                  Disclose courses
+                  <input
+                    type="text"
+                    placeholder="Algorithms, Databases"
+                    value={requestCourses}
+                    onChange={(e) => setRequestCourses(e.target.value)}
+                    className="input-field w-48 text-sm"
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  Passed
+                  <input
+                    type="text"
+                    placeholder="course"
+                    value={boundCourse}
+                    onChange={(e) => setBoundCourse(e.target.value)}
+                    className="input-field w-32 text-sm"
+                  />
+                  with at least
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={0.1}
+                    value={minCourseMark}
+                    onChange={(e) => setMinCourseMark(e.target.value)}
+                    className="input-field w-20 text-sm"
+                  />
+                </label>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-4 mb-4">
+                <select
+                  value={requestTtl}
+                  onChange={(e) => setRequestTtl(Number(e.target.value))}
+                  className="input-field w-auto text-sm"
+                >
+                  <option value={15 * 60 * 1000}>Expires in 15 minutes</option>
+                  <option value={30 * 60 * 1000}>Expires in 30 minutes</option>
+                  <option value={60 * 60 * 1000}>Expires in 1 hour</option>
+                  <option value={24 * 60 * 60 * 1000}>Expires in 24 hours</option>
+                </select>
+                <button
+                  onClick={handleCreateRequest}
+                  disabled={requestedClaims.length === 0}
+                  className="btn-primary text-sm disabled:opacity-50"
+                >
+                  New Request
+                </button>
+              </div>
+
+              {sessions.length > 0 && (
+                <div className="space-y-2">
+                  {sessions.slice(0, 5).map(session => {
+                    const status = verificationSessions.statusOf(session)
+                    return (
+                      <div
+                        key={session.request.requestId}
+                        className="flex items-center justify-between gap-3 bg-black bg-opacity-30 rounded p-3 text-sm"
+                      >
+                        <div className="min-w-0">
+                          <p className="text-white font-mono text-xs truncate">
+                            {session.request.requestId}
+                          </p>
+                          <p className="text-gray-400 text-xs">
+                            {status === 'completed'
+                              ? `Completed ${new Date(session.completedAt!).toLocaleString()}`
+                              : `${status === 'expired' ? 'Expired' : 'Expires'} ${new Date(session.request.expiresAt).toLocaleString()}`}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-3 flex-shrink-0">
+                          <span
+                            className={
+                              status === 'open'
+                                ? 'text-green-400'
+                                : status === 'completed'
+                                  ? 'text-cyan-400'
+                                  : 'text-gray-500'
+                            }
+                          >
+                            {status.toUpperCase()}
+                          </span>
+                          {status === 'open' && (
+                            <button
+                              onClick={() =>
+                                navigator.clipboard.writeText(JSON.stringify(session.request, null, 2))
+                              }
+                              className="btn-secondary text-xs"
+                            >
+                              Copy Request
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
         {/* Main Content */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Upload Section */}
@@ -295,6 +848,9 @@ export default function EmployerVerification({ userAddress }: EmployerVerificati
                       <div>
                         <strong>✗ Verification Failed</strong>
                         <p className="text-sm mt-1">{result.message}</p>
+                        {result.reason && (
+                          <p className="text-xs mt-1 font-mono opacity-75">{result.reason}</p>
+                        )}
                       </div>
                     </div>
                   )}
@@ -312,7 +868,86 @@ export default function EmployerVerification({ userAddress }: EmployerVerificati
 
           {/* Results Section */}
           <div className="lg:col-span-2">
-            {step === 'result' && result && (
+            {step === 'result' && result && !result.isValid && result.reason && (
+              <div className="space-y-6 animate-fade-in">
+                {/* Failure Summary */}
+                <div
+                  className={`card p-8 border-l-4 ${
+                    VERIFICATION_REASONS[result.reason].category === 'replay'
+                      ? 'border-yellow-400'
+                      : 'border-red-400'
+                  }`}
+                >
+                  <div className="flex items-start gap-4 mb-6">
+                    <div className="bg-red-500 bg-opacity-20 p-3 rounded-lg">
+                      <AlertCircle size={32} className="text-red-400" />
+                    </div>
+                    <div className="flex-1">
+                      <p className="text-xs font-mono text-gray-400 mb-1">{result.reason}</p>
+                      <h3 className="text-2xl font-bold text-white mb-2">
+                        {VERIFICATION_REASONS[result.reason].title}
+                      </h3>
+                      <p className="text-red-300 font-medium">
+                        {REASON_CATEGORY_LABELS[VERIFICATION_REASONS[result.reason].category]}
+                      </p>
+                    </div>
+                  </div>
+
+                  <p className="text-gray-300">{VERIFICATION_REASONS[result.reason].description}</p>
+
+                  {result.details && (
+                    <ul className="mt-4 space-y-1 text-sm text-gray-400 list-disc list-inside">
+                      {result.details.map((detail, idx) => (
+                        <li key={idx}>{detail}</li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {result.reason === 'ISSUER_NOT_AUTHORIZED' && result.accreditation && (
+                    <div className="mt-4 p-4 rounded-lg bg-red-500 bg-opacity-10 border border-red-400 border-opacity-40">
+                      <p className="text-gray-400 text-xs mb-2">Accreditation chain:</p>
+                      <AccreditationChainView chain={result.accreditation} />
+                    </div>
+                  )}
+
+                  {result.amendment?.currentVersion && (
+                    <div className="mt-4 p-4 rounded-lg bg-yellow-500 bg-opacity-10 border border-yellow-400 border-opacity-40">
+                      <p className="text-yellow-300 font-semibold text-sm mb-2 flex items-center gap-2">
+                        <RefreshCw size={16} />
+                        The issuer corrected this diploma
+                      </p>
+                      <p className="text-gray-400 text-xs mb-1">Current version:</p>
+                      <p className="text-white font-mono text-xs break-all mb-2">
+                        {result.amendment.currentVersion.certificateHash}
+                      </p>
+                      <p className="text-gray-300 text-sm">
+                        Status: {result.amendment.currentVersion.status.toUpperCase()}.{' '}
+                        {result.amendment.currentVersion.status === 'valid'
+                          ? 'Ask the candidate for a proof of the corrected diploma.'
+                          : 'The corrected diploma is not valid either.'}
+                      </p>
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6 pt-6 border-t border-white border-opacity-20">
+                    <div>
+                      <p className="text-gray-400 text-sm mb-1">Certificate Hash:</p>
+                      <p className="text-white font-mono text-xs break-all">
+                        {result.certificateHash || 'Not readable from proof'}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-gray-400 text-sm mb-1">Checked At:</p>
+                      <p className="text-white font-medium text-sm">
+                        {new Date(result.verifiedAt).toLocaleString()}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {step === 'result' && result && result.isValid && (
               <div className="space-y-6 animate-fade-in">
                 {/* Verification Summary */}
                 <div className="card p-8 border-l-4 border-green-400">
@@ -330,13 +965,90 @@ export default function EmployerVerification({ userAddress }: EmployerVerificati
                     </div>
                   </div>
 
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6 pt-6 border-t border-white border-opacity-20">
-                    <div>
-                      <p className="text-gray-400 text-sm mb-1">Issued By (University Address):</p>
+                  {result.amendment?.corrects && (
+                    <div className="p-4 rounded-lg bg-cyan-500 bg-opacity-10 border border-cyan-400 border-opacity-40">
+                      <p className="text-cyan-300 font-semibold text-sm mb-1 flex items-center gap-2">
+                        <RefreshCw size={16} />
+                        Corrected credential
+                      </p>
+                      <p className="text-gray-300 text-sm mb-2">
+                        The issuer amended an earlier version of this diploma. This is the
+                        current version; it replaces:
+                      </p>
+                      <p className="text-white font-mono text-xs break-all">
+                        {result.amendment.corrects}
+                      </p>
+                    </div>
+                  )}
+
+                  {result.anonymous && (
+                    <div className="p-4 rounded-lg bg-cyan-500 bg-opacity-10 border border-cyan-400 border-opacity-40">
+                      <p className="text-cyan-300 font-semibold text-sm mb-1 flex items-center gap-2">
+                        <EyeOff size={16} />
+                        Anonymous presentation
+                      </p>
+                      <p className="text-gray-300 text-sm mb-2">
+                        The ledger checked, on{' '}
+                        {new Date(result.anonymous.presentedAt * 1000).toLocaleString()}, that the
+                        diploma is in the set of valid diplomas from authorized universities. Which
+                        diploma and which university stay hidden. The candidate's identifier at your
+                        organisation (the same every time they present to you, different for every
+                        other verifier):
+                      </p>
                       <p className="text-white font-mono text-xs break-all">
-                        {result.issuerAddress || 'Resolved from proof'}
+                        {result.anonymous.scopedNullifier}
                       </p>
                     </div>
+                  )}
+
+                  {result.batch && (
+                    <div className="p-4 rounded-lg bg-cyan-500 bg-opacity-10 border border-cyan-400 border-opacity-40">
+                      <p className="text-cyan-300 font-semibold text-sm mb-1 flex items-center gap-2">
+                        <Layers size={16} />
+                        Batch-issued credential
+                      </p>
+                      <p className="text-gray-300 text-sm mb-2">
+                        Issued as one of {result.batch.leafCount} diplomas anchored together on{' '}
+                        {new Date(result.batch.anchoredAt * 1000).toLocaleDateString()}. Merkle root:
+                      </p>
+                      <p className="text-white font-mono text-xs break-all">
+                        {result.batch.merkleRoot}
+                      </p>
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6 pt-6 border-t border-white border-opacity-20">
+                    <div>
+                      <p className="text-gray-400 text-sm mb-1">Issued By:</p>
+                      {result.issuerAddress ? (
+                        <div className="text-sm">
+                          <IssuerBadge address={result.issuerAddress} detailed />
+                          {domainLinkage && domainLinkage.status !== 'no-website' && (
+                            <p
+                              className={`mt-2 flex items-center gap-1 text-xs ${
+                                domainLinkage.status === 'verified' ? 'text-green-400' : 'text-yellow-400'
+                              }`}
+                              title={domainLinkage.reason}
+                            >
+                              <Globe size={14} />
+                              {domainLinkage.status === 'verified'
+                                ? `Domain verified: ${new URL(domainLinkage.origin!).host}`
+                                : `Domain not verified: ${domainLinkage.reason}`}
+                            </p>
+                          )}
+                        </div>
+                      ) : (
+                        <p className="text-white font-mono text-xs break-all">
+                          {result.anonymous ? 'An authorized university (not revealed)' : 'Resolved from proof'}
+                        </p>
+                      )}
+                      {result.accreditation && (
+                        <div className="mt-4">
+                          <p className="text-gray-400 text-sm mb-1">Accreditation Chain:</p>
+                          <AccreditationChainView chain={result.accreditation} />
+                        </div>
+                      )}
+                    </div>
                     <div className="space-y-1">
                       <div>
                         <p className="text-gray-400 text-sm mb-1">Verified By (Employer Address):</p>
@@ -354,6 +1066,64 @@ export default function EmployerVerification({ userAddress }: EmployerVerificati
                   </div>
                 </div>
 
+                {/* Disclosed Claims */}
+                <div className="card p-6">
+                  <h4 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                    <Eye size={20} className="text-cyan-400" />
+                    Disclosed by the Candidate
+                  </h4>
+                  {result.disclosures?.length || result.courses?.length ? (
+                    <dl className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {result.disclosures?.map(disclosure => (
+                        <div key={disclosure.name}>
+                          <dt className="text-gray-400 text-sm">{ATTRIBUTE_LABELS[disclosure.name]}</dt>
+                          <dd className="text-white font-medium">{formatAttributeValue(disclosure.value)}</dd>
+                        </div>
+                      ))}
+                      {result.courses?.map(course => (
+                        <div key={course.course}>
+                          <dt className="text-gray-400 text-sm">Course: {course.course}</dt>
+                          <dd className="text-white font-medium">{formatCourse(course)}</dd>
+                        </div>
+                      ))}
+                    </dl>
+                  ) : (
+                    <p className="text-gray-400 text-sm">
+                      No diploma attributes were requested, so none were disclosed.
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-4">
+                    Each value is checked against the commitment the university recorded at issuance.
+                  </p>
+                </div>
+
+                {/* Proven Conditions */}
+                {(!!result.predicates?.length || !!result.coursePredicates?.length) && (
+                  <div className="card p-6">
+                    <h4 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                      <Scale size={20} className="text-cyan-400" />
+                      Proven Without Disclosure
+                    </h4>
+                    <ul className="space-y-2">
+                      {result.predicates?.map(predicate => (
+                        <li key={predicateId(predicate)} className="flex items-start gap-3">
+                          <span className="text-green-400 font-bold flex-shrink-0">✓</span>
+                          <span className="text-gray-300">{describePredicate(predicate)}</span>
+                        </li>
+                      ))}
+                      {result.coursePredicates?.map(predicate => (
+                        <li key={coursePredicateId(predicate)} className="flex items-start gap-3">
+                          <span className="text-green-400 font-bold flex-shrink-0">✓</span>
+                          <span className="text-gray-300">{describeCoursePredicate(predicate)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="text-xs text-gray-500 mt-4">
+                      The underlying values stay private unless disclosed above.
+                    </p>
+                  </div>
+                )}
+
                 {/* What You Know */}
                 <div className="card p-6">
                   <h4 className="text-lg font-semibold text-white mb-4">
@@ -384,8 +1154,13 @@ export default function EmployerVerification({ userAddress }: EmployerVerificati
                   <ul className="space-y-3">
                     {[
                       'Candidate name - Never revealed',
-                      'Grades and marks - Completely private',
-                      'Academic transcript - Not accessible',
+                      ...(result.anonymous ? ['Certificate and issuing university - Not revealed'] : []),
+                      ...DISCLOSABLE_ATTRIBUTES.filter(
+                        name => !result.disclosures?.some(d => d.name === name)
+                      ).map(name => `${ATTRIBUTE_LABELS[name]} - Not disclosed`),
+                      result.courses?.length || result.coursePredicates?.length
+                        ? 'Other courses and marks - Not accessible'
+                        : 'Other marks and transcript - Not accessible',
                       'Student ID - Fully protected',
                     ].map((item, idx) => (
                       <li key={idx} className="flex items-start gap-3">
@@ -405,9 +1180,11 @@ export default function EmployerVerification({ userAddress }: EmployerVerificati
                   </h4>
                   <div className="space-y-4 text-sm">
                     <div>
-                      <p className="text-gray-500 mb-1">Certificate Hash:</p>
+                      <p className="text-gray-500 mb-1">
+                        {result.anonymous ? 'Ledger Transaction:' : 'Certificate Hash:'}
+                      </p>
                       <code className="bg-black bg-opacity-50 px-3 py-2 rounded text-xs text-cyan-400 block break-all">
-                        {result.diplomaHash}
+                        {result.anonymous ? result.anonymous.transactionHash : result.certificateHash}
                       </code>
                     </div>
                   </div>
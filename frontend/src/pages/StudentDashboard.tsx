@@ -1,8 +1,28 @@
-import { useState, useEffect } from 'react'
-import { Download, Share2, Lock, Zap, Loader, AlertCircle } from 'lucide-react'
+import { useState, useEffect, useMemo } from 'react'
+import { Download, Share2, Lock, Zap, Loader, AlertCircle, Key, EyeOff } from 'lucide-react'
 import { useMidnightSDK } from '../utils/MidnightProvider'
+import { holderKeys } from '../utils/holderKeys'
+import { openingInbox, unsealOpening, verifyOpening } from '../utils/openingPackage'
+import { describePredicate, predicateHolds } from '../utils/predicateProofs'
+import { diplomaAttributes } from '../utils/selectiveDisclosure'
+import { courseHolds, describeCoursePredicate } from '../utils/transcriptProofs'
+import { credentialVault, type VaultCredential } from '../utils/credentialVault'
+import {
+  anonymousPresentationReceipt,
+  createAnonymousPresentation,
+  createProofEnvelope,
+  serializeProofEnvelope,
+  type AnonymousPresentationReceipt,
+  type ProofEnvelope,
+} from '../utils/proofEnvelope'
+import {
+  REQUESTED_CLAIM_LABELS,
+  isRequestExpired,
+  parseVerificationRequest,
+} from '../utils/verificationSession'
 import ZKProofGenerator from '../components/ZKProofGenerator'
 import StudentCredentialCard from '../components/StudentCredentialCard'
+import VaultUnlock from '../components/VaultUnlock'
 
 interface StudentDashboardProps {
   userAddress: string
@@ -14,41 +34,134 @@ interface StudentCredential {
   issuer: string
   certificateHash: string
   issuanceDate: string
-  expiryDate: string
-  status: 'valid' | 'revoked'
+  /** On-ledger expiry; null = never expires */
+  expiryDate: string | null
+  status: 'valid' | 'revoked' | 'superseded'
+  /** False for diplomas issued before holder binding; they cannot be proven */
+  holderBound: boolean
 }
 
 export default function StudentDashboard({ userAddress }: StudentDashboardProps) {
   const { 
-    generateZKProof, 
     isLoading: sdkLoading, 
     error: sdkError,
     ledgerDiplomas,
-    getLedgerDiplomasByIssuer,
+    ledger,
   } = useMidnightSDK()
   
   const [credentials, setCredentials] = useState<StudentCredential[]>([])
+  const [holderPublicKey, setHolderPublicKey] = useState('')
+  const [vaultUnlocked, setVaultUnlocked] = useState(credentialVault.isUnlocked(userAddress))
+  const [vaultVersion, setVaultVersion] = useState(0)
+  const [vaultCredentials, setVaultCredentials] = useState<Record<string, VaultCredential>>({})
 
-  // Load credentials from ledger state commitment
+  // Track lock/unlock (including idle auto-lock) and vault writes
   useEffect(() => {
-    console.log('📚 Student Dashboard loaded for:', userAddress)
-    
-    // Load diplomas from ledger for this student
-    if (ledgerDiplomas && ledgerDiplomas.length > 0) {
-      const studentDiplomas = ledgerDiplomas.map((diploma: any, idx: number) => ({
-        id: `cred_${idx}`,
-        degree: diploma.degreeType || 'Bachelor of Science',
-        issuer: diploma.universityAddress || 'University of Midnight',
-        certificateHash: diploma.certificateHash || `cert_${Date.now()}_${idx}`,
-        issuanceDate: diploma.issuanceDate || new Date().toISOString().split('T')[0],
-        expiryDate: new Date(new Date().setFullYear(new Date().getFullYear() + 10)).toISOString().split('T')[0],
-        status: diploma.status || 'valid' as const,
-      }));
-      
-      setCredentials(studentDiplomas);
-      console.log('✓ Loaded credentials from ledger:', studentDiplomas);
+    const sync = () => {
+      setVaultUnlocked(credentialVault.isUnlocked(userAddress))
+      setVaultVersion(v => v + 1)
+    }
+    sync()
+    return credentialVault.onChange(sync)
+  }, [userAddress])
+
+  // The key is created on first unlock; its secret is sealed under the vault key
+  useEffect(() => {
+    const existing = holderKeys.get(userAddress)
+    if (existing || !vaultUnlocked) {
+      setHolderPublicKey(existing?.publicKeyHex ?? '')
+      return
     }
-  }, [userAddress, ledgerDiplomas])
+    holderKeys.getOrCreate(userAddress)
+      .then(keyPair => setHolderPublicKey(keyPair.publicKeyHex))
+      .catch(error => console.error('❌ Holder key error:', error))
+  }, [userAddress, vaultUnlocked])
+
+  // Move opening packages sealed to this student's holder key into the vault
+  useEffect(() => {
+    if (!vaultUnlocked) return
+    let cancelled = false
+
+    const collectOpenings = async () => {
+      const keyPair = await holderKeys.getOrCreate(userAddress)
+      const privateKey = await holderKeys.getAgreementKey(userAddress)
+      let collected = 0
+
+      for (const sealed of openingInbox.listFor(keyPair.keyId)) {
+        if (cancelled || !credentialVault.isUnlocked(userAddress)) return
+        try {
+          const opening = await unsealOpening(sealed, privateKey)
+          if (!(await verifyOpening(opening))) {
+            console.warn('⚠️ Opening package does not open its commitment:', sealed.certificateHash)
+            continue
+          }
+          const record = ledgerDiplomas.find(d => d.certificateHash === opening.certificateHash)
+          await credentialVault.put({
+            certificateHash: opening.certificateHash,
+            issuerAddress: opening.issuerAddress,
+            degreeType: opening.fields.degreeType,
+            issuanceTimestamp: record?.issuanceTimestamp ?? Math.floor(opening.issuedAt / 1000),
+            opening,
+            receivedAt: Date.now(),
+          })
+          openingInbox.remove(keyPair.keyId, sealed.certificateHash)
+          collected++
+        } catch (error) {
+          console.error('❌ Failed to open package:', error)
+        }
+      }
+      if (collected > 0) {
+        console.log('📬 Moved', collected, 'opening packages into the vault')
+      }
+    }
+
+    collectOpenings().catch(error => console.error('❌ Opening collection error:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [userAddress, vaultUnlocked, ledgerDiplomas])
+
+  // Load credentials from the vault; the ledger only contributes live status
+  useEffect(() => {
+    if (!vaultUnlocked) {
+      setCredentials([])
+      setVaultCredentials({})
+      setSelectedCredential(null)
+      setGeneratedProof(null)
+      return
+    }
+    let cancelled = false
+
+    credentialVault.list()
+      .then(stored => {
+        if (cancelled) return
+        const studentDiplomas = stored.map(credential => {
+          const record = ledgerDiplomas.find(d => d.certificateHash === credential.certificateHash)
+          // Batch-issued diplomas have no ledger record; their leaf carries the expiry
+          const expiresAt = record?.expiresAt ?? credential.opening.batch?.leaf.expiresAt
+          return {
+            id: credential.certificateHash,
+            degree: credential.degreeType || 'Degree',
+            issuer: credential.issuerAddress,
+            certificateHash: credential.certificateHash,
+            issuanceDate: new Date(credential.issuanceTimestamp * 1000).toISOString().split('T')[0],
+            expiryDate: expiresAt
+              ? new Date(expiresAt * 1000).toISOString().split('T')[0]
+              : null,
+            status: record?.status ?? 'valid',
+            holderBound: !!(record?.holderPublicKey ?? credential.opening.batch?.leaf.holderPublicKey),
+          }
+        })
+        setVaultCredentials(Object.fromEntries(stored.map(c => [c.certificateHash, c])))
+        setCredentials(studentDiplomas)
+        console.log('✓ Loaded credentials from vault:', studentDiplomas.length)
+      })
+      .catch(error => console.error('❌ Failed to read vault:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [userAddress, vaultUnlocked, vaultVersion, ledgerDiplomas])
 
   const [selectedCredential, setSelectedCredential] = useState<StudentCredential | null>(
     null
@@ -56,21 +169,35 @@ export default function StudentDashboard({ userAddress }: StudentDashboardProps)
   const [showProofGenerator, setShowProofGenerator] = useState(false)
   const [proofError, setProofError] = useState<string | null>(null)
   const [proofSuccess, setProofSuccess] = useState<string | null>(null)
-  const [generatedProof, setGeneratedProof] = useState<any>(null)
+  const [generatedProof, setGeneratedProof] = useState<ProofEnvelope | AnonymousPresentationReceipt | null>(null)
   const [proofLoading, setProofLoading] = useState(false)
-  
-  const [studentData] = useState({
-    name: 'John Daniel Doe',
-    email: 'john.doe@example.com',
-    studentId: 'STU-2026-001',
-    marks: {
-      'Data Structures': 95,
-      'Algorithms': 98,
-      'Machine Learning': 96,
-      'Databases': 92,
-      'Computer Networks': 90,
-    },
-  })
+  const [requestInput, setRequestInput] = useState('')
+  // The student must approve each request's predicates before proving them
+  const [predicatesApproved, setPredicatesApproved] = useState(false)
+  // Prove on the ledger without naming the diploma (see anonymousPresentation)
+  const [presentAnonymously, setPresentAnonymously] = useState(false)
+
+  const verificationRequest = useMemo(() => {
+    if (!requestInput.trim()) return null
+    try {
+      return { request: parseVerificationRequest(requestInput), error: null }
+    } catch (error) {
+      return { request: null, error: error instanceof Error ? error.message : 'Invalid request' }
+    }
+  }, [requestInput])
+
+  const selectedVaultCredential = selectedCredential
+    ? vaultCredentials[selectedCredential.certificateHash]
+    : undefined
+
+  const requestedPredicates = verificationRequest?.request?.predicates ?? []
+  const requestedCoursePredicates = verificationRequest?.request?.coursePredicates ?? []
+  const needsApproval =
+    requestedPredicates.length + requestedCoursePredicates.length > 0 && !predicatesApproved
+
+  useEffect(() => {
+    setPredicatesApproved(false)
+  }, [requestInput])
 
   /**
    * Generate Zero-Knowledge Proof for selected credential
@@ -86,28 +213,42 @@ export default function StudentDashboard({ userAddress }: StudentDashboardProps)
 
       console.log('🔐 Generating ZK Proof for credential:', selectedCredential.id)
       
-      const proof = await generateZKProof({
-        name: studentData.name,
-        id: studentData.studentId,
-        grade: 'A+',
-      })
-
-      // Normalized proof payload that employers can verify directly.
-      // Includes the on-ledger certificate hash plus a commitment and proof string.
-      setGeneratedProof({
-        credentialId: selectedCredential.id,
-        degree: selectedCredential.degree,
-        issuer: selectedCredential.issuer,
-        certificateHash: selectedCredential.certificateHash,
-        studentDataCommitment: Array.isArray(proof.publicInputs) ? proof.publicInputs[0] : '',
-        proofData: proof.proof,
-        timestamp: new Date().toISOString(),
-        status: 'ready_to_share',
-      })
+      // The opening package re-opens the on-chain commitment, which is what
+      // the contract's verifyDegree compares the proof commitment against
+      const opening = selectedVaultCredential?.opening
+      if (!opening) {
+        throw new Error('No opening package for this credential in your vault')
+      }
+      const request = parseVerificationRequest(requestInput)
+      if (isRequestExpired(request)) {
+        throw new Error('This verification request has expired; ask the employer for a new one')
+      }
+      if ((request.predicates?.length || request.coursePredicates?.length) && !predicatesApproved) {
+        throw new Error('Approve the conditions the employer asked you to prove first')
+      }
 
-      setProofSuccess('✅ Zero-Knowledge Proof generated successfully!')
+      if (presentAnonymously) {
+        // Proven on the ledger right away; the employer only receives a
+        // receipt naming the request, not the diploma or its issuer
+        const { presentation, witness } = await createAnonymousPresentation({
+          opening,
+          holderAddress: userAddress,
+          request,
+          diplomaSet: await ledger.getDiplomaSet(),
+        })
+        const receipt = await ledger.presentAnonymously(presentation, witness)
+        setGeneratedProof(anonymousPresentationReceipt(request, presentation.nonce, receipt))
+        setProofSuccess('✅ Anonymous presentation recorded on the ledger!')
+      } else {
+        // The contract's VerificationProof, signed with the holder key the
+        // diploma was bound to at issuance so a copied proof is useless to others.
+        // The nonce ties it to this employer's request.
+        const envelope = await createProofEnvelope({ opening, holderAddress: userAddress, request })
+        setGeneratedProof(envelope)
+        setProofSuccess('✅ Zero-Knowledge Proof generated successfully!')
+      }
       setShowProofGenerator(false)
-      console.log('✅ ZK Proof generated:', proof)
+      console.log('✅ ZK Proof generated for request:', request.requestId)
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to generate proof'
       setProofError(errorMessage)
@@ -123,12 +264,15 @@ export default function StudentDashboard({ userAddress }: StudentDashboardProps)
   const handleDownloadProof = () => {
     if (!generatedProof) return
     
-    const dataStr = JSON.stringify(generatedProof, null, 2)
+    const dataStr = serializeProofEnvelope(generatedProof)
     const dataBlob = new Blob([dataStr], { type: 'application/json' })
     const url = URL.createObjectURL(dataBlob)
     const link = document.createElement('a')
     link.href = url
-    link.download = `zk-proof-${generatedProof.credentialId}-${Date.now()}.json`
+    link.download =
+      'certificateHash' in generatedProof
+        ? `zk-proof-${generatedProof.certificateHash.replace(/^0x/, '').slice(0, 16)}-${Date.now()}.json`
+        : `anonymous-presentation-${generatedProof.requestId}-${Date.now()}.json`
     document.body.appendChild(link)
     link.click()
     document.body.removeChild(link)
@@ -141,7 +285,7 @@ export default function StudentDashboard({ userAddress }: StudentDashboardProps)
   const handleShareProof = () => {
     if (!generatedProof) return
     
-    const proofData = JSON.stringify(generatedProof)
+    const proofData = serializeProofEnvelope(generatedProof)
     navigator.clipboard.writeText(proofData).then(() => {
       setProofSuccess('✅ Proof copied to clipboard! Ready to share with employer.')
       setTimeout(() => setProofSuccess(null), 3000)
@@ -202,20 +346,57 @@ export default function StudentDashboard({ userAddress }: StudentDashboardProps)
           </div>
         </div>
 
+        {/* Holder Key */}
+        <div className="card p-6 mb-8">
+          <div className="flex items-start gap-4">
+            <Key size={24} className="text-purple-400 flex-shrink-0 mt-1" />
+            <div className="min-w-0 flex-1">
+              <h3 className="text-lg font-semibold text-white mb-2">Your Holder Public Key</h3>
+              <p className="text-gray-300 text-sm mb-3">
+                Give this key to your university. Your diploma's opening package is
+                encrypted to it, so only you can re-open your commitment.
+              </p>
+              <code className="text-xs text-cyan-400 bg-black bg-opacity-50 p-2 rounded block break-all">
+                {holderPublicKey || (vaultUnlocked ? 'Generating key...' : 'Unlock your vault to create your key')}
+              </code>
+              {holderPublicKey && (
+                <button
+                  onClick={() => navigator.clipboard.writeText(holderPublicKey)}
+                  className="btn-secondary mt-3 text-sm"
+                >
+                  Copy Public Key
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
         {/* Main Content */}
+        {!vaultUnlocked ? (
+          <VaultUnlock owner={userAddress} />
+        ) : (
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Credentials List */}
           <div className="lg:col-span-2">
             <div className="card p-6">
-              <h3 className="text-2xl font-bold text-white mb-6">
-                📚 My Credentials
-              </h3>
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-2xl font-bold text-white">
+                  📚 My Credentials
+                </h3>
+                <button
+                  onClick={() => credentialVault.lock()}
+                  className="btn-secondary text-sm flex items-center gap-2"
+                >
+                  <Lock size={16} />
+                  Lock Vault
+                </button>
+              </div>
 
               {credentials.length === 0 ? (
                 <div className="text-center py-12">
                   <p className="text-gray-400 mb-2">No credentials found</p>
                   <p className="text-sm text-gray-500">
-                    Your issued credentials will appear here
+                    Credentials sent to your holder key are stored here once received
                   </p>
                 </div>
               ) : (
@@ -233,15 +414,44 @@ export default function StudentDashboard({ userAddress }: StudentDashboardProps)
             </div>
 
             {/* Generated Proof Display */}
-            {generatedProof && (
+            {generatedProof && !('certificateHash' in generatedProof) && (
+              <div className="mt-8 card p-6 border-l-4 border-green-400">
+                <h3 className="text-xl font-bold text-white mb-4">
+                  Anonymous Presentation Recorded
+                </h3>
+                <div className="bg-gray-800 rounded p-4 mb-4 text-sm text-gray-300">
+                  <p className="mb-2"><strong>Request:</strong> {generatedProof.requestId}</p>
+                  <p className="mb-2 break-all"><strong>Transaction:</strong> {generatedProof.transactionHash}</p>
+                  <p className="mb-2"><strong>Presented:</strong> {new Date(generatedProof.createdAt).toLocaleString()}</p>
+                  <p className="text-green-400"><strong>Status:</strong> Ready to Share</p>
+                </div>
+                <p className="text-gray-400 text-sm mb-4">
+                  🔐 The ledger checked your diploma without learning which one it is. Share this
+                  receipt with the employer; it names neither your diploma nor your university.
+                </p>
+                <div className="flex gap-3">
+                  <button onClick={handleShareProof} className="btn-primary flex-1 text-sm">
+                    Copy to Share
+                  </button>
+                  <button onClick={handleDownloadProof} className="btn-secondary flex-1 text-sm">
+                    Download JSON
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {generatedProof && 'certificateHash' in generatedProof && (
               <div className="mt-8 card p-6 border-l-4 border-green-400">
                 <h3 className="text-xl font-bold text-white mb-4">
                   Zero-Knowledge Proof Generated
                 </h3>
                 <div className="bg-gray-800 rounded p-4 mb-4 text-sm text-gray-300">
-                  <p className="mb-2"><strong>Credential:</strong> {generatedProof.degree}</p>
+                  <p className="mb-2">
+                    <strong>Credential:</strong>{' '}
+                    {credentials.find(c => c.certificateHash === generatedProof.certificateHash)?.degree}
+                  </p>
                   <p className="mb-2"><strong>Issuer:</strong> {generatedProof.issuer}</p>
-                  <p className="mb-2"><strong>Generated:</strong> {new Date(generatedProof.timestamp).toLocaleString()}</p>
+                  <p className="mb-2"><strong>Generated:</strong> {new Date(generatedProof.createdAt!).toLocaleString()}</p>
                   <p className="text-green-400"><strong>Status:</strong> Ready to Share</p>
                 </div>
                 <p className="text-gray-400 text-sm mb-4">
@@ -294,19 +504,123 @@ export default function StudentDashboard({ userAddress }: StudentDashboardProps)
                           className={
                             selectedCredential.status === 'valid'
                               ? 'text-green-400'
-                              : 'text-red-400'
+                              : selectedCredential.status === 'superseded'
+                                ? 'text-yellow-400'
+                                : 'text-red-400'
                           }
                         >
                           {selectedCredential.status.toUpperCase()}
                         </p>
                       </div>
+                      <div>
+                        <p className="text-gray-500">Opening Package:</p>
+                        <p
+                          className={
+                            selectedVaultCredential
+                              ? 'text-green-400'
+                              : 'text-yellow-400'
+                          }
+                        >
+                          {selectedVaultCredential
+                            ? 'Received'
+                            : 'Not received'}
+                        </p>
+                      </div>
                     </div>
                   </div>
 
                   {/* Action Buttons */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">
+                      Verification Request
+                    </label>
+                    <textarea
+                      value={requestInput}
+                      onChange={(e) => setRequestInput(e.target.value)}
+                      placeholder="Paste the request JSON from the employer"
+                      className="input-field font-mono text-xs h-24"
+                    />
+                    {verificationRequest?.error && (
+                      <p className="text-xs text-red-400 mt-1">{verificationRequest.error}</p>
+                    )}
+                    {verificationRequest?.request && (
+                      <div className="text-xs text-gray-400 mt-2 space-y-1">
+                        <p className="break-all">
+                          Verifier: <span className="font-mono">{verificationRequest.request.verifierId}</span>
+                        </p>
+                        <p>
+                          Requests:{' '}
+                          {verificationRequest.request.requestedClaims
+                            .map(claim => REQUESTED_CLAIM_LABELS[claim])
+                            .join(', ')}
+                        </p>
+                        {!!verificationRequest.request.courses?.length && (
+                          <p>Courses: {verificationRequest.request.courses.join(', ')}</p>
+                        )}
+                        {requestedPredicates.length + requestedCoursePredicates.length > 0 && (
+                          <div className="bg-black bg-opacity-30 rounded p-3 mt-2 space-y-1">
+                            <p className="text-gray-300">
+                              Asks you to prove, without revealing the values:
+                            </p>
+                            {requestedPredicates.map((predicate, idx) => {
+                              const holds = selectedVaultCredential
+                                ? predicateHolds(diplomaAttributes(selectedVaultCredential.opening.fields), predicate)
+                                : null
+                              return (
+                                <p key={idx} className={holds === false ? 'text-red-400' : 'text-gray-300'}>
+                                  {holds === null ? '•' : holds ? '✓' : '✗'} {describePredicate(predicate)}
+                                  {holds === false && ' (your diploma does not meet this)'}
+                                </p>
+                              )
+                            })}
+                            {requestedCoursePredicates.map((predicate, idx) => {
+                              const transcript = selectedVaultCredential?.opening.transcript
+                              const holds = selectedVaultCredential ? !!transcript && courseHolds(transcript, predicate) : null
+                              return (
+                                <p key={`course-${idx}`} className={holds === false ? 'text-red-400' : 'text-gray-300'}>
+                                  {holds === null ? '•' : holds ? '✓' : '✗'} {describeCoursePredicate(predicate)}
+                                  {holds === false && ' (your transcript does not meet this)'}
+                                </p>
+                              )
+                            })}
+                            <label className="flex items-center gap-2 text-gray-300 pt-1">
+                              <input
+                                type="checkbox"
+                                checked={predicatesApproved}
+                                onChange={(e) => setPredicatesApproved(e.target.checked)}
+                              />
+                              I approve proving these conditions to this verifier
+                            </label>
+                          </div>
+                        )}
+                        <p className={isRequestExpired(verificationRequest.request) ? 'text-red-400' : ''}>
+                          {isRequestExpired(verificationRequest.request) ? 'Expired' : 'Expires'}{' '}
+                          {new Date(verificationRequest.request.expiresAt).toLocaleString()}
+                        </p>
+                      </div>
+                    )}
+                  </div>
+
+                  <label className="flex items-start gap-2 text-xs text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={presentAnonymously}
+                      onChange={(e) => setPresentAnonymously(e.target.checked)}
+                      className="mt-0.5"
+                    />
+                    <span>
+                      <span className="flex items-center gap-1 text-white">
+                        <EyeOff size={14} />
+                        Present anonymously
+                      </span>
+                      The employer learns that you hold a valid diploma from an authorized
+                      university and what they asked for, but not which diploma or university.
+                    </span>
+                  </label>
+
                   <button
                     onClick={handleGenerateProof}
-                    disabled={proofLoading || sdkLoading}
+                    disabled={proofLoading || sdkLoading || !verificationRequest?.request || needsApproval}
                     className="btn-primary w-full flex items-center justify-center gap-2 disabled:opacity-50"
                   >
                     {proofLoading ? (
@@ -317,7 +631,7 @@ export default function StudentDashboard({ userAddress }: StudentDashboardProps)
                     ) : (
                       <>
                         <Zap size={20} />
-                        Generate ZK Proof
+                        {presentAnonymously ? 'Present Anonymously' : 'Generate ZK Proof'}
                       </>
                     )}
                   </button>
@@ -354,12 +668,15 @@ export default function StudentDashboard({ userAddress }: StudentDashboardProps)
             </div>
           </div>
         </div>
+        )}
 
         {/* ZK Proof Generator */}
-        {showProofGenerator && selectedCredential && (
+        {showProofGenerator && selectedCredential && selectedVaultCredential && (
           <ZKProofGenerator
             credential={selectedCredential}
-            studentData={studentData}
+            opening={selectedVaultCredential.opening}
+            holderAddress={userAddress}
+            request={verificationRequest?.request ?? null}
             onClose={() => setShowProofGenerator(false)}
           />
         )}
@@ -1,10 +1,29 @@
 import { useState, useEffect } from 'react'
-import { Plus, CheckCircle, XCircle, Clock, AlertCircle, Loader } from 'lucide-react'
+import { Plus, CheckCircle, XCircle, Clock, AlertCircle, Loader, Upload, Building2, Network } from 'lucide-react'
 import DiplomaIssuanceForm from '../components/DiplomaIssuanceForm'
+import DelegationManager from '../components/DelegationManager'
 import DiplomaList from '../components/DiplomaList'
+import IssuerBadge from '../components/IssuerBadge'
+import IssuerProfileForm from '../components/IssuerProfileForm'
+import RosterImport from '../components/RosterImport'
 import { useMidnightSDK } from '../utils/MidnightProvider'
-import { IssueDiplomaPayload } from '../utils/midnightSDKIntegration'
-import { TransactionResult, submitDiplomaTransaction, monitorTransaction } from '../utils/transactionManager'
+import { sha256 } from '../utils/crypto'
+import { TransactionResult } from '../utils/transactionManager'
+import { importHolderPublicKey } from '../utils/holderKeys'
+import { openingInbox, sealOpening } from '../utils/openingPackage'
+import { buildMerkleBatch } from '../utils/merkleBatch'
+import {
+  REVOCATION_REASON_LABELS,
+  delegationStatus,
+  type BatchLeaf,
+  type DelegationRequest,
+  type DiplomaStatusChange,
+  type IssueDiplomaRequest,
+  type IssuerMetadata,
+  type RevocationRequest,
+} from '../utils/ledgerBackend'
+import type { RosterRow } from '../utils/rosterImport'
+import type { TranscriptCourse } from '../utils/transcriptProofs'
 
 interface UniversityDashboardProps {
   userAddress: string
@@ -17,26 +36,60 @@ interface Diploma {
   certificateHash: string
   degreeType: string
   issuanceDate: string
-  status: 'valid' | 'revoked' | 'pending'
+  /** null = never expires */
+  expiryDate: string | null
+  status: 'valid' | 'revoked' | 'superseded' | 'pending'
   studentDataCommitment: string
+  issuerAddress?: string
+  statusHistory?: DiplomaStatusChange[]
+  holderPublicKey?: string
+  supersedes?: string
+  supersededBy?: string
+  issuedBy?: string
+}
+
+/** What the issuer enters for one diploma, from the form or a roster row */
+interface DiplomaDetails {
+  studentId: string
+  studentName: string
+  degreeType: string
+  department: string
+  grade: string
+  studentPublicKey: string
+  /** YYYY-MM-DD; null = never expires */
+  expiryDate: string | null
+  marks?: Record<string, string>
+  /** Courses with credits and marks, committed in the transcript tree */
+  transcript?: TranscriptCourse[]
 }
 
 export default function UniversityDashboard({ userAddress }: UniversityDashboardProps) {
   const { 
-    issueDiploma: sdkIssueDiploma, 
     submitDiplomaTransaction,
     monitorTransaction,
-    addLedgerDiploma,
-    ledgerDiplomas,
+    issueLedgerDiploma,
+    amendLedgerDiploma,
+    revokeLedgerDiploma,
+    reinstateLedgerDiploma,
     getLedgerDiplomasByIssuer,
-    isLoading: sdkLoading, 
-    error: sdkError, 
-    contractAddress 
+    prepareDiplomaCommitment,
+    submitBatchAnchorTransaction,
+    anchorLedgerBatch,
+    issuerProfiles,
+    registerLedgerIssuerProfile,
+    delegations,
+    grantLedgerDelegation,
+    revokeLedgerDelegation,
   } = useMidnightSDK()
   
   const [diplomas, setDiplomas] = useState<Diploma[]>([])
 
   const [showForm, setShowForm] = useState(false)
+  // Diploma being corrected while the form is open in amend mode
+  const [amending, setAmending] = useState<Diploma | null>(null)
+  const [showRoster, setShowRoster] = useState(false)
+  const [showProfile, setShowProfile] = useState(false)
+  const [showDelegations, setShowDelegations] = useState(false)
   const [transactionError, setTransactionError] = useState<string | null>(null)
   const [transactionSuccess, setTransactionSuccess] = useState<string | null>(null)
   const [stats, setStats] = useState({
@@ -46,38 +99,110 @@ export default function UniversityDashboard({ userAddress }: UniversityDashboard
     pendingVerification: 0,
   })
 
-  // Load diplomas from ledger state
+  // Load diplomas from the ledger backend
   useEffect(() => {
     console.log('📚 University Dashboard loaded for:', userAddress)
     
-    // Load credentials issued by this university from ledger state
-    if (ledgerDiplomas && ledgerDiplomas.length > 0) {
-      const universityDiplomas = ledgerDiplomas
-        .filter((d: any) => d.universityAddress === userAddress)
-        .map((d: any, idx: number) => ({
-          id: `dip_${idx}`,
-          studentName: d.studentName || '[Privacy Protected]',
-          studentId: d.studentId || 'Unknown',
-          certificateHash: d.certificateHash || '',
-          degreeType: d.degreeType || 'Bachelor of Science',
-          issuanceDate: d.issuanceDate ? d.issuanceDate.split('T')[0] : new Date().toISOString().split('T')[0],
-          status: d.status || 'valid' as const,
-          studentDataCommitment: d.certificateHash || '',
-        }))
-      
-      setDiplomas(universityDiplomas)
-      
-      // Update stats
-      setStats({
-        totalIssued: universityDiplomas.length,
-        activeCredentials: universityDiplomas.filter(d => d.status === 'valid').length,
-        revokedCredentials: universityDiplomas.filter(d => d.status === 'revoked').length,
-        pendingVerification: 0,
-      })
-      
-      console.log('✓ Loaded', universityDiplomas.length, 'credentials from ledger state')
+    const universityDiplomas: Diploma[] = getLedgerDiplomasByIssuer(userAddress).map(d => ({
+      id: d.certificateHash,
+      studentName: '[Privacy Protected]',
+      studentId: d.studentId || 'Unknown',
+      certificateHash: d.certificateHash,
+      degreeType: d.degreeType || 'Bachelor of Science',
+      issuanceDate: new Date(d.issuanceTimestamp * 1000).toISOString().split('T')[0],
+      expiryDate: d.expiresAt ? new Date(d.expiresAt * 1000).toISOString().split('T')[0] : null,
+      status: d.status,
+      studentDataCommitment: d.studentDataCommitment,
+      issuerAddress: d.issuerAddress,
+      statusHistory: d.statusHistory,
+      holderPublicKey: d.holderPublicKey,
+      supersedes: d.supersedes,
+      supersededBy: d.supersededBy,
+      issuedBy: d.issuedBy,
+    }))
+    
+    setDiplomas(universityDiplomas)
+    
+    setStats({
+      totalIssued: universityDiplomas.length,
+      activeCredentials: universityDiplomas.filter(d => d.status === 'valid').length,
+      revokedCredentials: universityDiplomas.filter(d => d.status === 'revoked').length,
+      pendingVerification: 0,
+    })
+    
+    console.log('✓ Loaded', universityDiplomas.length, 'credentials from ledger')
+  }, [userAddress, getLedgerDiplomasByIssuer])
+
+  // A department wallet issues in the name of the university that delegated to it
+  const delegation = delegations.find(d => d.delegateAddress === userAddress)
+  const issuingUniversity = delegation?.universityAddress ?? userAddress
+
+  // Private witness for the ZK circuit; never leaves the client
+  const diplomaWitness = (details: DiplomaDetails) => ({
+    studentId: details.studentId,
+    studentName: details.studentName,
+    degreeType: details.degreeType,
+    grade: details.grade,
+    department: details.department,
+    issueDate: new Date().toISOString(),
+    universityAddress: issuingUniversity,
+    marks: details.marks,
+    transcript: details.transcript,
+  })
+
+  // End of the chosen day, UTC, in unix seconds; no date means never expires
+  const expiryTimestamp = (expiryDate: string | null) =>
+    expiryDate ? Math.floor(Date.parse(`${expiryDate}T23:59:59Z`) / 1000) : undefined
+
+  /**
+   * Submit one diploma transaction and record it on the ledger
+   * Builds the private witness, submits the commitment, issues (or, with
+   * `previousHash`, amends) the ledger record and delivers the sealed
+   * commitment opening to the student. Shared by the form and roster import.
+   */
+  const commitDiploma = async (details: DiplomaDetails, previousHash?: string) => {
+    // Fail before anything is submitted if the key cannot seal the opening
+    // package or bind the diploma to its holder
+    await importHolderPublicKey(details.studentPublicKey)
+
+    const witness = diplomaWitness(details)
+
+    console.log('🔐 Creating witness (private data - never leaves client)')
+    console.log('📝 Submitting ON-CHAIN transaction with ZK commitment...')
+
+    const txResult = await submitDiplomaTransaction(witness)
+
+    console.log('✓ Transaction submitted:', txResult.txHash)
+    console.log('⏳ Status:', txResult.status)
+
+    // Persist diploma in ledger immediately using commitment; a correction
+    // supersedes the diploma it replaces
+    const certificateHash = txResult.certificateHash || txResult.txHash
+    const request: IssueDiplomaRequest = {
+      certificateHash,
+      studentDataCommitment: txResult.studentDataCommitment || certificateHash,
+      degreeTypeHash: await sha256(witness.degreeType),
+      departmentHash: await sha256(witness.department),
+      issuanceTimestamp: Math.floor(Date.now() / 1000),
+      holderPublicKey: details.studentPublicKey.trim().toLowerCase(),
+      expiresAt: expiryTimestamp(details.expiryDate),
+      hashAlgorithm: txResult.hashAlgorithm,
+      degreeType: details.degreeType,
+      studentId: details.studentId,
+    }
+    if (previousHash) {
+      await amendLedgerDiploma(previousHash, request, userAddress)
+    } else {
+      await issueLedgerDiploma(request, userAddress)
     }
-  }, [userAddress, ledgerDiplomas])
+
+    // Hand the commitment opening to the student, sealed to their holder key
+    if (txResult.opening) {
+      openingInbox.deliver(await sealOpening(txResult.opening, details.studentPublicKey))
+    }
+
+    return { certificateHash, txResult }
+  }
 
   /**
    * Handle diploma issuance with ON-CHAIN TRANSACTION
@@ -96,71 +221,39 @@ export default function UniversityDashboard({ userAddress }: UniversityDashboard
         certificateHash: '⏳ Submitting transaction...',
         degreeType: formData.degreeType,
         issuanceDate: new Date().toISOString().split('T')[0],
+        expiryDate: formData.expiryDate || null,
         status: 'pending',
         studentDataCommitment: '⏳ Generating proof...',
       }
 
       setDiplomas([...diplomas, newDiploma])
       setShowForm(false)
+      setAmending(null)
+
+      const { txResult } = await commitDiploma(
+        {
+          studentId: formData.studentId,
+          studentName: formData.studentName,
+          degreeType: formData.degreeType,
+          grade: formData.grade || 'A',
+          department: formData.department || 'Computer Science',
+          studentPublicKey: formData.studentPublicKey,
+          expiryDate: formData.expiryDate || null,
+          marks: formData.gpa ? { gpa: formData.gpa } : undefined,
+          transcript: formData.courses?.map((row: { course: string; credits: string; mark: string }) => ({
+            course: row.course,
+            credits: Number(row.credits),
+            mark: row.mark,
+          })),
+        },
+        amending?.certificateHash
+      )
 
-      // Step 1: Create witness data (kept private locally for ZK circuit)
-      const witness = {
-        studentId: formData.studentId,
-        studentName: formData.studentName,
-        degreeType: formData.degreeType,
-        grade: formData.grade || 'A',
-        department: formData.department || 'Computer Science',
-        issueDate: new Date().toISOString(),
-        universityAddress: userAddress,
-      }
-
-      console.log('🔐 Creating witness (private data - never leaves client)')
-      console.log('📝 Submitting ON-CHAIN transaction with ZK commitment...')
-
-      // Step 2: Submit diploma transaction to blockchain
-      const txResult = await submitDiplomaTransaction(witness)
-
-      console.log('✓ Transaction submitted:', txResult.txHash)
-      console.log('⏳ Status:', txResult.status)
-
-      // Persist diploma in ledger immediately using commitment
-      addLedgerDiploma({
-        studentId: formData.studentId,
-        studentName: '[Privacy Protected]',
-        degreeType: formData.degreeType,
-        universityAddress: userAddress,
-        certificateHash: txResult.certificateHash,
-        issuanceDate: new Date().toISOString(),
-        status: 'valid',
-      })
-
-      // Step 3: Monitor transaction status
+      // Monitor transaction status
       const unsubscribe = monitorTransaction(txResult.txHash, (status: TransactionResult) => {
         console.log('📡 Transaction update:', status)
 
         if (status.status === 'confirmed') {
-          // Update diploma with confirmed transaction
-          const updatedDiploma: Diploma = {
-            id: newDiplomaId,
-            studentName: '[Privacy Protected]',
-            studentId: formData.studentId,
-            certificateHash: status.certificateHash || txResult.certificateHash || '',
-            degreeType: formData.degreeType,
-            issuanceDate: new Date().toISOString().split('T')[0],
-            status: 'valid',
-            studentDataCommitment: status.certificateHash || '',
-          }
-
-          setDiplomas(diplomas =>
-            diplomas.map(d => (d.id === newDiplomaId ? updatedDiploma : d))
-          )
-
-          setStats({
-            ...stats,
-            totalIssued: stats.totalIssued + 1,
-            activeCredentials: stats.activeCredentials + 1,
-          })
-
           setTransactionSuccess(
             `✅ Diploma confirmed on-chain! Block: ${status.blockNumber}, Gas: ${status.gasUsed}`
           )
@@ -191,7 +284,71 @@ export default function UniversityDashboard({ userAddress }: UniversityDashboard
     }
   }
 
-  const handleRevokeDiploma = async (id: string) => {
+  /**
+   * Issue one roster row; errors are reported per row by the importer
+   */
+  const handleIssueRosterRow = async (row: RosterRow) => {
+    const { certificateHash, txResult } = await commitDiploma({
+      ...row,
+      grade: row.grade || 'A',
+    })
+    return { certificateHash, transactionHash: txResult.txHash }
+  }
+
+  /**
+   * Issue a whole roster as one Merkle batch
+   * Every row gets its commitment and leaf, only the root goes on the
+   * ledger, and each student's opening carries their inclusion path.
+   */
+  const handleIssueRosterBatch = async (rows: RosterRow[]) => {
+    const issuanceTimestamp = Math.floor(Date.now() / 1000)
+    const prepared = []
+    for (const row of rows) {
+      await importHolderPublicKey(row.studentPublicKey)
+      const details: DiplomaDetails = { ...row, grade: row.grade || 'A' }
+      const diploma = await prepareDiplomaCommitment(diplomaWitness(details))
+      const leaf: BatchLeaf = {
+        certificateHash: diploma.certificateHash,
+        studentDataCommitment: diploma.studentDataCommitment,
+        degreeTypeHash: await sha256(details.degreeType),
+        departmentHash: await sha256(details.department),
+        issuanceTimestamp,
+        holderPublicKey: details.studentPublicKey.trim().toLowerCase(),
+        expiresAt: expiryTimestamp(details.expiryDate) ?? 0,
+      }
+      prepared.push({ diploma, leaf, studentPublicKey: details.studentPublicKey })
+    }
+
+    const { merkleRoot, inclusions } = buildMerkleBatch(prepared.map(p => p.leaf))
+    const txResult = await submitBatchAnchorTransaction(merkleRoot, rows.length)
+    await anchorLedgerBatch(merkleRoot, rows.length, userAddress)
+    console.log('🌳 Anchored batch of', rows.length, 'diplomas under', merkleRoot.slice(0, 16) + '...')
+
+    // Each student's opening carries their leaf and path to the root
+    for (const [idx, { diploma, studentPublicKey }] of prepared.entries()) {
+      const opening = { ...diploma.opening, batch: inclusions[idx] }
+      openingInbox.deliver(await sealOpening(opening, studentPublicKey))
+    }
+
+    return {
+      certificateHashes: prepared.map(p => p.diploma.certificateHash),
+      transactionHash: txResult.txHash,
+    }
+  }
+
+  const handleAmendDiploma = (id: string) => {
+    const diploma = diplomas.find(d => d.id === id)
+    if (!diploma) return
+    setAmending(diploma)
+    setShowForm(true)
+  }
+
+  const closeForm = () => {
+    setShowForm(false)
+    setAmending(null)
+  }
+
+  const handleRevokeDiploma = async (id: string, revocation: RevocationRequest) => {
     try {
       const diploma = diplomas.find(d => d.id === id)
       if (!diploma) return
@@ -206,23 +363,12 @@ export default function UniversityDashboard({ userAddress }: UniversityDashboard
         )
       )
 
-      // Call blockchain to revoke
-      const result = await sdkIssueDiploma({
-        studentId: diploma.studentId,
-        studentName: 'Protected',
-        degreeType: diploma.degreeType,
-        grade: 'N/A',
-        department: 'Various',
-        universityAddress: userAddress,
-      })
+      // Revoke through the ledger backend
+      const receipt = await revokeLedgerDiploma(diploma.certificateHash, userAddress, revocation)
 
-      setTransactionSuccess(`✅ Diploma revoked. TX: ${result.txHash.slice(0, 10)}...`)
-      
-      setStats({
-        ...stats,
-        activeCredentials: stats.activeCredentials - 1,
-        revokedCredentials: stats.revokedCredentials + 1,
-      })
+      setTransactionSuccess(
+        `✅ Diploma revoked (${REVOCATION_REASON_LABELS[revocation.reason]}). TX: ${receipt.transactionHash.slice(0, 10)}...`
+      )
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to revoke diploma'
       setTransactionError(errorMessage)
@@ -238,6 +384,51 @@ export default function UniversityDashboard({ userAddress }: UniversityDashboard
     }
   }
 
+  const handleReinstateDiploma = async (id: string) => {
+    try {
+      const diploma = diplomas.find(d => d.id === id)
+      if (!diploma) return
+
+      setTransactionError(null)
+      setTransactionSuccess(null)
+
+      // The ledger refreshes the list with the new status and history
+      const receipt = await reinstateLedgerDiploma(diploma.certificateHash, userAddress)
+
+      setTransactionSuccess(`✅ Diploma reinstated. TX: ${receipt.transactionHash.slice(0, 10)}...`)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to reinstate diploma'
+      setTransactionError(errorMessage)
+      console.error('Error reinstating diploma:', error)
+    }
+  }
+
+  // Errors are shown by the profile form itself
+  const handleRegisterProfile = async (metadata: IssuerMetadata) => {
+    setTransactionError(null)
+    setTransactionSuccess(null)
+    const receipt = await registerLedgerIssuerProfile(metadata, userAddress)
+    setTransactionSuccess(
+      `✅ Issuer profile registered; awaiting owner approval. TX: ${receipt.transactionHash.slice(0, 10)}...`
+    )
+  }
+
+  const handleGrantDelegation = async (request: DelegationRequest) => {
+    setTransactionError(null)
+    setTransactionSuccess(null)
+    const receipt = await grantLedgerDelegation(request, userAddress)
+    setTransactionSuccess(`✅ Delegation granted. TX: ${receipt.transactionHash.slice(0, 10)}...`)
+  }
+
+  const handleRevokeDelegation = async (delegate: string) => {
+    setTransactionError(null)
+    setTransactionSuccess(null)
+    const receipt = await revokeLedgerDelegation(delegate, userAddress)
+    setTransactionSuccess(`✅ Delegation revoked. TX: ${receipt.transactionHash.slice(0, 10)}...`)
+  }
+
+  const profile = issuerProfiles.find(p => p.issuerAddress === userAddress) ?? null
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-pink-900 py-8 px-4">
       <div className="max-w-7xl mx-auto">
@@ -251,6 +442,30 @@ export default function UniversityDashboard({ userAddress }: UniversityDashboard
           </p>
         </div>
 
+        {delegation && (
+          <div className="card p-4 mb-8 flex flex-col md:flex-row md:items-center gap-3 text-sm">
+            <Network size={20} className="text-cyan-400 flex-shrink-0" />
+            <div className="flex-1 text-gray-300">
+              <div className="flex flex-wrap items-center gap-2">
+                Issuing as a department of <IssuerBadge address={delegation.universityAddress} />
+              </div>
+              <p className="text-xs text-gray-400 mt-1">
+                {delegation.departments?.join(', ') ?? 'Listed departments'}
+                {delegation.degreeTypes?.length ? ` · ${delegation.degreeTypes.join(', ')}` : ' · any degree type'}
+              </p>
+            </div>
+            {delegationStatus(delegation) === 'active' ? (
+              <span className="text-green-400">
+                Active until {new Date(delegation.expiresAt * 1000).toLocaleDateString()}
+              </span>
+            ) : (
+              <span className="text-red-300">
+                Delegation {delegationStatus(delegation)}; you can no longer issue or manage diplomas
+              </span>
+            )}
+          </div>
+        )}
+
         {/* Stats */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
           {[
@@ -302,6 +517,34 @@ export default function UniversityDashboard({ userAddress }: UniversityDashboard
           })}
         </div>
 
+        {showProfile && (
+          <IssuerProfileForm
+            universityAddress={userAddress}
+            profile={profile}
+            onSubmit={handleRegisterProfile}
+            onClose={() => setShowProfile(false)}
+          />
+        )}
+
+        {showDelegations && (
+          <DelegationManager
+            delegations={delegations.filter(d => d.universityAddress === userAddress)}
+            onGrant={handleGrantDelegation}
+            onRevoke={handleRevokeDelegation}
+            onClose={() => setShowDelegations(false)}
+          />
+        )}
+
+        {showRoster && (
+          <RosterImport
+            universityAddress={userAddress}
+            issued={getLedgerDiplomasByIssuer(userAddress)}
+            onIssueRow={handleIssueRosterRow}
+            onIssueBatch={handleIssueRosterBatch}
+            onClose={() => setShowRoster(false)}
+          />
+        )}
+
         {/* Main Content */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Issue Diploma Form */}
@@ -310,7 +553,7 @@ export default function UniversityDashboard({ userAddress }: UniversityDashboard
               <div className="flex items-center gap-2 mb-6">
                 <Plus size={24} className="text-cyan-400" />
                 <h3 className="text-xl font-bold text-white">
-                  {showForm ? 'Issue New Diploma' : 'Quick Actions'}
+                  {amending ? 'Amend Diploma' : showForm ? 'Issue New Diploma' : 'Quick Actions'}
                 </h3>
               </div>
 
@@ -322,6 +565,39 @@ export default function UniversityDashboard({ userAddress }: UniversityDashboard
                   >
                     + Issue Diploma
                   </button>
+                  <button
+                    onClick={() => setShowRoster(true)}
+                    disabled={showRoster}
+                    className="btn-secondary w-full mb-4 flex items-center justify-center gap-2"
+                  >
+                    <Upload size={16} />
+                    Import Roster
+                  </button>
+                  {/* Profiles and delegations belong to the university, not its departments */}
+                  {!delegation && (
+                    <>
+                      <button
+                        onClick={() => setShowProfile(true)}
+                        disabled={showProfile}
+                        className="btn-secondary w-full mb-4 flex items-center justify-center gap-2"
+                      >
+                        <Building2 size={16} />
+                        Issuer Profile
+                        {profile?.status === 'pending' && (
+                          <span className="text-xs text-yellow-400">(pending)</span>
+                        )}
+                        {!profile && <span className="text-xs text-yellow-400">(not registered)</span>}
+                      </button>
+                      <button
+                        onClick={() => setShowDelegations(true)}
+                        disabled={showDelegations}
+                        className="btn-secondary w-full mb-4 flex items-center justify-center gap-2"
+                      >
+                        <Network size={16} />
+                        Departments
+                      </button>
+                    </>
+                  )}
                   <div className="space-y-3 text-sm text-gray-400 mt-6">
                     <div className="bg-white bg-opacity-5 p-4 rounded-lg border border-white border-opacity-10">
                       <p className="font-semibold text-white mb-2">What This Does:</p>
@@ -336,9 +612,21 @@ export default function UniversityDashboard({ userAddress }: UniversityDashboard
                 </>
               ) : (
                 <DiplomaIssuanceForm
+                  key={amending?.id ?? 'new'}
                   onSubmit={handleIssueDiploma}
-                  onCancel={() => setShowForm(false)}
+                  onCancel={closeForm}
                   universityAddress={userAddress}
+                  amending={amending?.certificateHash}
+                  initialValues={
+                    amending
+                      ? {
+                          studentId: amending.studentId,
+                          degreeType: amending.degreeType,
+                          studentPublicKey: amending.holderPublicKey ?? '',
+                          expiryDate: amending.expiryDate ?? '',
+                        }
+                      : undefined
+                  }
                 />
               )}
             </div>
@@ -349,6 +637,8 @@ export default function UniversityDashboard({ userAddress }: UniversityDashboard
             <DiplomaList
               diplomas={diplomas}
               onRevoke={handleRevokeDiploma}
+              onReinstate={handleReinstateDiploma}
+              onAmend={handleAmendDiploma}
               userRole="university"
             />
           </div>
@@ -0,0 +1,33 @@
+/**
+ * Test helper: ECDSA P-256 signing with a raw secret key
+ * Stands in for holderKeys.sign, which needs an unlocked credential vault.
+ */
+
+import { fromHex, toBase64, toHex } from '../utils/crypto'
+import { holderPublicKeyOf } from '../utils/holderSignature'
+
+const base64Url = (bytes: Uint8Array) =>
+  toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+export async function signWithSecretKey(secretKey: string, message: string): Promise<string> {
+  const publicKey = fromHex(holderPublicKeyOf(secretKey))
+  const privateKey = await crypto.subtle.importKey(
+    'jwk',
+    {
+      kty: 'EC',
+      crv: 'P-256',
+      d: base64Url(fromHex(secretKey)),
+      x: base64Url(publicKey.slice(1, 33)),
+      y: base64Url(publicKey.slice(33)),
+    },
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    privateKey,
+    new TextEncoder().encode(message)
+  )
+  return toHex(new Uint8Array(signature))
+}
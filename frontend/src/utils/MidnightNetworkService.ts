@@ -12,6 +12,50 @@
  * - Nullifier Tracking: Prevents double-spending of diploma credentials
  */
 
+import {
+  DIPLOMA_STATUS_CODES,
+  REVOCATION_REASON_CODES,
+  buildAccreditationChain,
+  diplomaStatusFromCode,
+  filterLedgerRecords,
+  fromContractAccreditation,
+  fromContractDelegation,
+  fromContractIssuerProfile,
+  fromContractStatusHistory,
+  toContractAccreditation,
+  toContractDelegation,
+  toContractIssuerProfile,
+  toContractStatusHistory,
+  type AccreditationChain,
+  type AccreditorRecord,
+  type AnonymousPresentation,
+  type AnonymousPresentationRecord,
+  type AnonymousPresentationWitness,
+  type BatchAnchorRecord,
+  type BatchInclusionProof,
+  type DelegationRequest,
+  type DiplomaSetMember,
+  type DiplomaStatus,
+  type DiplomaStatusChange,
+  type IssueDiplomaRequest,
+  type IssuerAccreditation,
+  type IssuerDelegation,
+  type IssuerMetadata,
+  type IssuerProfile,
+  type LedgerBackend,
+  type LedgerDiplomaRecord,
+  type LedgerQuery,
+  type LedgerReceipt,
+  type RevocationRequest,
+  type VerificationProof,
+} from './ledgerBackend';
+import { PrivateDiplomaSimulator, type ContractDiplomaRecord } from './contractSimulator';
+import { configLoader } from './config';
+import { CURRENT_HASH_ALGORITHM, LEGACY_HASH_ALGORITHM, sha256Sync } from './crypto';
+import { canonicalize } from './canonical';
+import { outcomeFromContract, type VerificationOutcome } from './verificationOutcome';
+import { nullifierEpoch } from './verifierNullifier';
+
 /**
  * Cryptographic utilities for Midnight Protocol
  * Implements SHA-256 hashing routines and commitment schemes
@@ -25,24 +69,7 @@ class CryptoUtility {
    * @returns 64-character hexadecimal SHA-256 digest
    */
   static generateSHA256(data: string): string {
-    // Browser-compatible SHA-256 hash using crypto.subtle API (available in all modern browsers)
-    return this.simpleHash(data);
-  }
-
-  /**
-   * Simple deterministic hash for demo purposes
-   * Production systems should use actual SHA-256 via crypto.subtle
-   */
-  private static simpleHash(str: string): string {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
-    }
-    // Convert to 64-character hex string
-    const hex = Math.abs(hash).toString(16);
-    return (hex + 'a'.repeat(64)).substring(0, 64);
+    return sha256Sync(data);
   }
 
   /**
@@ -73,10 +100,10 @@ interface StateCommitment {
 }
 
 /**
- * Diploma record stored in Local Ledger
- * Represents confirmed state on distributed ledger
+ * Diploma record as persisted by earlier versions of the Local Ledger
+ * Migrated to LedgerDiplomaRecord when state is loaded
  */
-interface LedgerDiploma {
+interface LegacyLedgerDiploma {
   certificateHash: string;
   studentCommitment: string;
   nullifier: string;
@@ -105,9 +132,21 @@ interface WalletSession {
  * Maintains persistent state across application lifecycle
  */
 class LedgerState {
-  private ledgerDiplomas: Map<string, LedgerDiploma> = new Map();
+  private ledgerDiplomas: Map<string, LedgerDiplomaRecord> = new Map();
   private nullifierSet: Set<string> = new Set();
+  private nullifierEpoch = 0;
+  private batchAnchors: Map<string, BatchAnchorRecord> = new Map();
+  private authorizedIssuers: Set<string> = new Set();
+  private removedIssuers: Set<string> = new Set();
+  private issuerProfiles: Map<string, IssuerProfile> = new Map();
+  private accreditors: Map<string, AccreditorRecord> = new Map();
+  private accreditations: Map<string, IssuerAccreditation> = new Map();
+  private delegations: Map<string, IssuerDelegation> = new Map();
+  private anonymousPresentations: Map<string, AnonymousPresentationRecord> = new Map();
+  private scopedNullifierSet: Set<string> = new Set();
+  private scopedNullifierEpoch = 0;
   private walletSession: WalletSession | null = null;
+  private blockHeight: number = 0;
 
   constructor() {
     this.loadPersistedState();
@@ -122,15 +161,70 @@ class LedgerState {
       const stored = localStorage.getItem('__midnight_ledger_state');
       if (stored) {
         const parsed = JSON.parse(stored);
-        this.ledgerDiplomas = new Map(Object.entries(parsed.diplomas || {}));
+        const diplomas = Object.values(parsed.diplomas || {}) as any[];
+        this.ledgerDiplomas = new Map(
+          diplomas.map(d => {
+            const record = 'universityAddress' in d
+              ? this.migrateLegacyDiploma(d)
+              : { ...d, hashAlgorithm: d.hashAlgorithm ?? LEGACY_HASH_ALGORITHM };
+            return [record.certificateHash, record] as [string, LedgerDiplomaRecord];
+          })
+        );
         this.nullifierSet = new Set(parsed.nullifiers || []);
+        this.nullifierEpoch = parsed.nullifierEpoch || 0;
+        this.batchAnchors = new Map(
+          Object.values(parsed.batchAnchors || {}).map((b: any) => [b.merkleRoot, b])
+        );
+        this.authorizedIssuers = new Set(parsed.authorizedIssuers || []);
+        this.removedIssuers = new Set(parsed.removedIssuers || []);
+        this.issuerProfiles = new Map(
+          Object.values(parsed.issuerProfiles || {}).map((p: any) => [p.issuerAddress, p])
+        );
+        this.accreditors = new Map(
+          Object.values(parsed.accreditors || {}).map((a: any) => [a.accreditorAddress, a])
+        );
+        this.accreditations = new Map(
+          Object.values(parsed.accreditations || {}).map((a: any) => [a.issuerAddress, a])
+        );
+        this.delegations = new Map(
+          Object.values(parsed.delegations || {}).map((d: any) => [d.delegateAddress, d])
+        );
+        this.anonymousPresentations = new Map(
+          // Presentations recorded before transcripts carry no courses
+          Object.values(parsed.anonymousPresentations || {}).map((p: any) => [
+            p.nonce,
+            { courses: [], coursePredicates: [], ...p },
+          ])
+        );
+        this.scopedNullifierSet = new Set(parsed.scopedNullifiers || []);
+        this.scopedNullifierEpoch = parsed.scopedNullifierEpoch || 0;
         this.walletSession = parsed.walletSession || null;
+        this.blockHeight = parsed.blockHeight || diplomas.length;
       }
     } catch (error) {
       console.error('Failed to load ledger state:', error);
     }
   }
 
+  /**
+   * Converts a pre-LedgerBackend diploma into the shared record shape
+   */
+  private migrateLegacyDiploma(legacy: LegacyLedgerDiploma): LedgerDiplomaRecord {
+    return {
+      certificateHash: legacy.certificateHash,
+      issuerAddress: legacy.universityAddress,
+      issuanceTimestamp: Math.floor(new Date(legacy.issuanceDate).getTime() / 1000),
+      status: legacy.status === 'revoked' ? 'revoked' : 'valid',
+      studentDataCommitment: legacy.studentCommitment,
+      degreeTypeHash: CryptoUtility.generateSHA256(legacy.degreeType),
+      departmentHash: '',
+      hashAlgorithm: LEGACY_HASH_ALGORITHM,
+      transactionHash: legacy.transactionHash,
+      blockHeight: legacy.blockHeight,
+      degreeType: legacy.degreeType,
+    };
+  }
+
   /**
    * Persists ledger state to localStorage
    */
@@ -139,7 +233,19 @@ class LedgerState {
       const state = {
         diplomas: Object.fromEntries(this.ledgerDiplomas),
         nullifiers: Array.from(this.nullifierSet),
+        nullifierEpoch: this.nullifierEpoch,
+        batchAnchors: Object.fromEntries(this.batchAnchors),
+        authorizedIssuers: Array.from(this.authorizedIssuers),
+        removedIssuers: Array.from(this.removedIssuers),
+        issuerProfiles: Object.fromEntries(this.issuerProfiles),
+        accreditors: Object.fromEntries(this.accreditors),
+        accreditations: Object.fromEntries(this.accreditations),
+        delegations: Object.fromEntries(this.delegations),
+        anonymousPresentations: Object.fromEntries(this.anonymousPresentations),
+        scopedNullifiers: Array.from(this.scopedNullifierSet),
+        scopedNullifierEpoch: this.scopedNullifierEpoch,
         walletSession: this.walletSession,
+        blockHeight: this.blockHeight,
       };
       localStorage.setItem('__midnight_ledger_state', JSON.stringify(state));
     } catch (error) {
@@ -147,19 +253,48 @@ class LedgerState {
     }
   }
 
+  /**
+   * Advances the local chain by one block
+   */
+  nextBlockHeight(): number {
+    this.blockHeight++;
+    this.persistState();
+    return this.blockHeight;
+  }
+
+  /**
+   * Current height of the local chain
+   */
+  getBlockHeight(): number {
+    return this.blockHeight;
+  }
+
   /**
    * Records a diploma issuance in the ledger
    */
-  addDiploma(diploma: LedgerDiploma): void {
+  addDiploma(diploma: LedgerDiplomaRecord): void {
     this.ledgerDiplomas.set(diploma.certificateHash, diploma);
-    this.nullifierSet.add(diploma.nullifier);
     this.persistState();
   }
 
+  /**
+   * Replaces an existing diploma record (status changes)
+   */
+  updateDiploma(diploma: LedgerDiplomaRecord): void {
+    this.addDiploma(diploma);
+  }
+
+  /**
+   * Retrieves a single diploma by certificate hash
+   */
+  getDiploma(certificateHash: string): LedgerDiplomaRecord | null {
+    return this.ledgerDiplomas.get(certificateHash) || null;
+  }
+
   /**
    * Retrieves all diplomas from ledger
    */
-  getAllDiplomas(): LedgerDiploma[] {
+  getAllDiplomas(): LedgerDiplomaRecord[] {
     return Array.from(this.ledgerDiplomas.values());
   }
 
@@ -167,18 +302,236 @@ class LedgerState {
    * Retrieves diplomas by university address
    * Used for querying issued credentials
    */
-  getDiplomasByIssuer(universityAddress: string): LedgerDiploma[] {
+  getDiplomasByIssuer(universityAddress: string): LedgerDiplomaRecord[] {
     return Array.from(this.ledgerDiplomas.values()).filter(
-      d => d.universityAddress === universityAddress
+      d => d.issuerAddress === universityAddress
     );
   }
 
   /**
-   * Verifies diploma authenticity using nullifier check
-   * Prevents double-spending and duplicate verifications
+   * Records an anchored batch root
+   */
+  addBatchAnchor(anchor: BatchAnchorRecord): void {
+    this.batchAnchors.set(anchor.merkleRoot, anchor);
+    this.persistState();
+  }
+
+  /**
+   * Retrieves an anchored batch by its Merkle root
+   */
+  getBatchAnchor(merkleRoot: string): BatchAnchorRecord | null {
+    return this.batchAnchors.get(merkleRoot) || null;
+  }
+
+  /**
+   * Retrieves all anchored batches
+   */
+  getAllBatchAnchors(): BatchAnchorRecord[] {
+    return Array.from(this.batchAnchors.values());
+  }
+
+  /**
+   * Checks whether a diploma exists and has not been revoked
    */
   verifyDiploma(certificateHash: string): boolean {
-    return this.ledgerDiplomas.has(certificateHash);
+    return this.ledgerDiplomas.get(certificateHash)?.status === 'valid';
+  }
+
+  /**
+   * Checks the spent set for a verification nullifier
+   */
+  hasNullifier(nullifier: string): boolean {
+    return this.nullifierSet.has(nullifier);
+  }
+
+  /**
+   * Marks a verification nullifier of `epoch` as spent
+   * The first nullifier of a new epoch prunes the previous epoch's, which
+   * the contract no longer accepts
+   */
+  addNullifier(nullifier: string, epoch: number): void {
+    if (epoch > this.nullifierEpoch) {
+      this.nullifierSet.clear();
+      this.nullifierEpoch = epoch;
+    }
+    this.nullifierSet.add(nullifier);
+    this.persistState();
+  }
+
+  /**
+   * All spent verification nullifiers of the current nullifier epoch
+   */
+  getNullifiers(): string[] {
+    return Array.from(this.nullifierSet);
+  }
+
+  /**
+   * Nullifier epoch the spent set belongs to
+   */
+  getNullifierEpoch(): number {
+    return this.nullifierEpoch;
+  }
+
+  /**
+   * Issuers authorized by the contract owner
+   */
+  getAuthorizedIssuers(): string[] {
+    return Array.from(this.authorizedIssuers);
+  }
+
+  /**
+   * Records an issuer authorization (owner checks happen in the contract simulator)
+   */
+  addAuthorizedIssuer(address: string): void {
+    this.authorizedIssuers.add(address);
+    this.removedIssuers.delete(address);
+    this.persistState();
+  }
+
+  /**
+   * Removes an issuer authorization and remembers the removal
+   */
+  removeAuthorizedIssuer(address: string): void {
+    this.authorizedIssuers.delete(address);
+    this.removedIssuers.add(address);
+    this.persistState();
+  }
+
+  /**
+   * Whether the owner removed this issuer (and has not re-authorized it since)
+   */
+  wasIssuerRemoved(address: string): boolean {
+    return this.removedIssuers.has(address);
+  }
+
+  /**
+   * Records a registered or approved issuer profile
+   */
+  setIssuerProfile(profile: IssuerProfile): void {
+    this.issuerProfiles.set(profile.issuerAddress, profile);
+    this.persistState();
+  }
+
+  /**
+   * Retrieves a university's registry entry
+   */
+  getIssuerProfile(address: string): IssuerProfile | null {
+    return this.issuerProfiles.get(address) || null;
+  }
+
+  /**
+   * Retrieves every registry entry
+   */
+  getAllIssuerProfiles(): IssuerProfile[] {
+    return Array.from(this.issuerProfiles.values());
+  }
+
+  /**
+   * Records an appointed (or renamed) accreditor
+   */
+  setAccreditor(accreditor: AccreditorRecord): void {
+    this.accreditors.set(accreditor.accreditorAddress, accreditor);
+    this.persistState();
+  }
+
+  /**
+   * Removes a dismissed accreditor; its accreditations stay on record
+   */
+  removeAccreditor(address: string): void {
+    this.accreditors.delete(address);
+    this.persistState();
+  }
+
+  /**
+   * Accreditors appointed by the contract owner
+   */
+  getAccreditors(): AccreditorRecord[] {
+    return Array.from(this.accreditors.values());
+  }
+
+  /**
+   * Records a university's accreditation or suspension
+   */
+  setAccreditation(accreditation: IssuerAccreditation): void {
+    this.accreditations.set(accreditation.issuerAddress, accreditation);
+    this.persistState();
+  }
+
+  /**
+   * Retrieves every accreditation
+   */
+  getAllAccreditations(): IssuerAccreditation[] {
+    return Array.from(this.accreditations.values());
+  }
+
+  /**
+   * Records a granted or revoked delegation
+   */
+  setDelegation(delegation: IssuerDelegation): void {
+    this.delegations.set(delegation.delegateAddress, delegation);
+    this.persistState();
+  }
+
+  /**
+   * Retrieves the delegation a department address holds
+   */
+  getDelegation(delegate: string): IssuerDelegation | null {
+    return this.delegations.get(delegate) || null;
+  }
+
+  /**
+   * Retrieves every delegation
+   */
+  getAllDelegations(): IssuerDelegation[] {
+    return Array.from(this.delegations.values());
+  }
+
+  /**
+   * Records a presentation the contract accepted
+   */
+  addAnonymousPresentation(presentation: AnonymousPresentationRecord): void {
+    this.anonymousPresentations.set(presentation.nonce, presentation);
+    this.persistState();
+  }
+
+  /**
+   * Marks a scoped nullifier as spent; starting a new epoch prunes the old set
+   */
+  addScopedNullifier(scopedNullifier: string, epoch: number): void {
+    if (epoch > this.scopedNullifierEpoch) {
+      this.scopedNullifierSet.clear();
+      this.scopedNullifierEpoch = epoch;
+    }
+    this.scopedNullifierSet.add(scopedNullifier);
+    this.persistState();
+  }
+
+  /**
+   * Scoped nullifiers spent by anonymous presentations in the current epoch
+   */
+  getScopedNullifiers(): string[] {
+    return Array.from(this.scopedNullifierSet);
+  }
+
+  /**
+   * Epoch the spent scoped nullifier set belongs to
+   */
+  getScopedNullifierEpoch(): number {
+    return this.scopedNullifierEpoch;
+  }
+
+  /**
+   * Retrieves the presentation answering a request nonce
+   */
+  getAnonymousPresentation(nonce: string): AnonymousPresentationRecord | null {
+    return this.anonymousPresentations.get(nonce) || null;
+  }
+
+  /**
+   * Retrieves every anonymous presentation
+   */
+  getAllAnonymousPresentations(): AnonymousPresentationRecord[] {
+    return Array.from(this.anonymousPresentations.values());
   }
 
   /**
@@ -205,6 +558,9 @@ class LedgerState {
   }
 }
 
+// Shared by MidnightNetworkService and LocalLedgerBackend so both see one ledger
+const sharedLedgerState = new LedgerState();
+
 /**
  * MidnightNetworkService - Local Node Provider
  * 
@@ -215,10 +571,9 @@ class LedgerState {
 export class MidnightNetworkService {
   private ledgerState: LedgerState;
   private statusCallbacks: Map<string, (status: string) => void> = new Map();
-  private blockHeight: number = 0;
 
   constructor() {
-    this.ledgerState = new LedgerState();
+    this.ledgerState = sharedLedgerState;
   }
 
   /**
@@ -279,7 +634,7 @@ export class MidnightNetworkService {
     this.emitStatus(transactionId, 'Hashing student commitment using SHA-256...');
     await this.delay(3000);
 
-    const studentData = JSON.stringify({
+    const studentData = canonicalize({
       studentId: payload.studentId,
       name: payload.studentName,
       degree: payload.degreeType,
@@ -290,7 +645,6 @@ export class MidnightNetworkService {
     this.emitStatus(transactionId, 'Optimizing zero-knowledge circuit for Midnight protocol...');
     await this.delay(4000);
 
-    const nullifier = CryptoUtility.generateSHA256(`nullifier_${commitmentHash}_${Date.now()}`);
     const certificateHash = CryptoUtility.generateSHA256(`cert_${commitmentHash}_${payload.universityAddress}`);
 
     // Step 3: Broadcast to local node (3s)
@@ -302,28 +656,29 @@ export class MidnightNetworkService {
     await this.delay(2000);
 
     // Record in ledger
-    this.blockHeight++;
-    const diploma: LedgerDiploma = {
+    const blockHeight = this.ledgerState.nextBlockHeight();
+    const diploma: LedgerDiplomaRecord = {
       certificateHash,
-      studentCommitment: commitmentHash,
-      nullifier,
-      universityAddress: payload.universityAddress,
-      degreeType: payload.degreeType,
-      issuanceDate: new Date().toISOString(),
+      issuerAddress: payload.universityAddress,
+      issuanceTimestamp: Math.floor(Date.now() / 1000),
+      status: 'valid',
+      studentDataCommitment: commitmentHash,
+      degreeTypeHash: CryptoUtility.generateSHA256(payload.degreeType),
+      departmentHash: CryptoUtility.generateSHA256(payload.department || ''),
+      hashAlgorithm: CURRENT_HASH_ALGORITHM,
       transactionHash: transactionId,
-      blockHeight: this.blockHeight,
-      status: 'confirmed',
-      timestamp: Date.now(),
+      blockHeight,
+      degreeType: payload.degreeType,
     };
 
     this.ledgerState.addDiploma(diploma);
 
-    this.emitStatus(transactionId, `Diploma confirmed on chain at block ${this.blockHeight}`);
+    this.emitStatus(transactionId, `Diploma confirmed on chain at block ${blockHeight}`);
 
     return {
       transactionHash: transactionId,
       certificateHash,
-      blockHeight: this.blockHeight,
+      blockHeight,
     };
   }
 
@@ -365,20 +720,20 @@ export class MidnightNetworkService {
       return {
         isValid: true,
         message: 'Diploma verified successfully through Midnight Network',
-        blockHeight: this.blockHeight,
+        blockHeight: this.ledgerState.getBlockHeight(),
       };
     }
 
     return {
       isValid: false,
       message: 'Diploma not found or has been revoked',
-      blockHeight: this.blockHeight,
+      blockHeight: this.ledgerState.getBlockHeight(),
     };
   }
 
   /**
    * Revokes a diploma through blockchain transaction
-   * Invalidates the nullifier to prevent future verification
+   * Marks the record as revoked so future verifications fail
    */
   async revokeDiploma(certificateHash: string): Promise<{ transactionHash: string }> {
     const transactionId = `revoke_${CryptoUtility.generateSHA256(certificateHash).slice(0, 16)}`;
@@ -386,52 +741,26 @@ export class MidnightNetworkService {
     this.emitStatus(transactionId, 'Processing revocation on Midnight ledger...');
     await this.delay(5000);
 
-    return { transactionHash: transactionId };
-  }
-
-  addDiplomaFromClient(payload: {
-    universityAddress: string;
-    degreeType: string;
-    certificateHash: string;
-  }): void {
-    this.blockHeight++;
-
-    const commitment = CryptoUtility.generateSHA256(
-      `${payload.certificateHash}_${payload.universityAddress}`
-    );
-
-    const nullifier = CryptoUtility.generateSHA256(
-      `null_${payload.certificateHash}_${payload.universityAddress}`
-    );
-
-    const diploma: LedgerDiploma = {
-      certificateHash: payload.certificateHash,
-      studentCommitment: commitment,
-      nullifier,
-      universityAddress: payload.universityAddress,
-      degreeType: payload.degreeType,
-      issuanceDate: new Date().toISOString(),
-      transactionHash: `client_${payload.certificateHash.slice(0, 16)}`,
-      blockHeight: this.blockHeight,
-      status: 'confirmed',
-      timestamp: Date.now(),
-    };
+    const diploma = this.ledgerState.getDiploma(certificateHash);
+    if (diploma) {
+      this.ledgerState.updateDiploma({ ...diploma, status: 'revoked' });
+    }
 
-    this.ledgerState.addDiploma(diploma);
+    return { transactionHash: transactionId };
   }
 
   /**
    * Retrieves all diplomas issued by a university
    * Queries ledger for university-specific credentials
    */
-  getDiplomasByUniversity(universityAddress: string): LedgerDiploma[] {
+  getDiplomasByUniversity(universityAddress: string): LedgerDiplomaRecord[] {
     return this.ledgerState.getDiplomasByIssuer(universityAddress);
   }
 
   /**
    * Retrieves all diplomas in the system
    */
-  getAllDiplomas(): LedgerDiploma[] {
+  getAllDiplomas(): LedgerDiplomaRecord[] {
     return this.ledgerState.getAllDiplomas();
   }
 
@@ -471,3 +800,450 @@ export class MidnightNetworkService {
 
 // Export singleton instance
 export const midnightNetworkService = new MidnightNetworkService();
+
+/**
+ * LedgerBackend adapter over the persistent Local Ledger
+ * State survives page reloads through localStorage. Every state change is
+ * first executed by PrivateDiplomaSimulator, so the local ledger rejects
+ * exactly what the deployed contract would reject.
+ */
+export class LocalLedgerBackend implements LedgerBackend {
+  readonly kind = 'local' as const;
+  private listeners: Set<() => void> = new Set();
+
+  constructor(private ledgerState: LedgerState = sharedLedgerState) {}
+
+  async issue(request: IssueDiplomaRequest, sender: string): Promise<LedgerReceipt> {
+    const contract = this.loadContract();
+    this.autoAuthorize(contract, sender);
+
+    contract.issueDiploma({ ...request, expiresAt: request.expiresAt ?? 0 }, { sender });
+    const receipt = this.nextReceipt('issue', request.certificateHash);
+    this.addIssuedDiploma(contract, request, receipt);
+    this.notify();
+    return receipt;
+  }
+
+  async amend(
+    previousHash: string,
+    request: IssueDiplomaRequest,
+    sender: string
+  ): Promise<LedgerReceipt> {
+    const contract = this.loadContract();
+    contract.amendDiploma(previousHash, { ...request, expiresAt: request.expiresAt ?? 0 }, { sender });
+
+    const receipt = this.nextReceipt('amend', request.certificateHash);
+    this.addIssuedDiploma(contract, request, receipt);
+    this.ledgerState.updateDiploma({
+      ...this.ledgerState.getDiploma(previousHash)!,
+      status: 'superseded',
+      supersededBy: request.certificateHash,
+      statusHistory: fromContractStatusHistory(contract.getStatusHistory(previousHash)),
+    });
+    this.notify();
+    return receipt;
+  }
+
+  async anchorBatch(merkleRoot: string, leafCount: number, sender: string): Promise<LedgerReceipt> {
+    const contract = this.loadContract();
+    this.autoAuthorize(contract, sender);
+
+    const anchor = contract.anchorBatch(merkleRoot, leafCount, { sender });
+    const receipt = this.nextReceipt('anchor', merkleRoot);
+    this.ledgerState.addBatchAnchor({
+      ...anchor,
+      transactionHash: receipt.transactionHash,
+      blockHeight: receipt.blockHeight,
+    });
+    this.notify();
+    return receipt;
+  }
+
+  async getBatchAnchor(merkleRoot: string): Promise<BatchAnchorRecord | null> {
+    return this.ledgerState.getBatchAnchor(merkleRoot);
+  }
+
+  async revoke(
+    certificateHash: string,
+    sender: string,
+    revocation: RevocationRequest
+  ): Promise<LedgerReceipt> {
+    const contract = this.loadContract();
+    contract.revokeDiploma(
+      certificateHash,
+      REVOCATION_REASON_CODES[revocation.reason],
+      revocation.effectiveAt ?? Math.floor(Date.now() / 1000),
+      { sender }
+    );
+    return this.recordStatusChange(contract, 'revoke', certificateHash);
+  }
+
+  async reinstate(certificateHash: string, sender: string): Promise<LedgerReceipt> {
+    const contract = this.loadContract();
+    contract.reinstateDiploma(certificateHash, { sender });
+    return this.recordStatusChange(contract, 'reinstate', certificateHash);
+  }
+
+  async getStatusHistory(certificateHash: string): Promise<DiplomaStatusChange[]> {
+    return this.ledgerState.getDiploma(certificateHash)?.statusHistory ?? [];
+  }
+
+  async getRecord(certificateHash: string): Promise<LedgerDiplomaRecord | null> {
+    return this.ledgerState.getDiploma(certificateHash);
+  }
+
+  async getStatus(certificateHash: string): Promise<DiplomaStatus | null> {
+    return this.ledgerState.getDiploma(certificateHash)?.status ?? null;
+  }
+
+  async isAuthorizedIssuer(address: string): Promise<boolean> {
+    return this.loadContract().verifyIssuanceAuthority(address);
+  }
+
+  async getContractOwner(): Promise<string> {
+    return this.loadContract().getContractOwner();
+  }
+
+  async listAuthorizedIssuers(): Promise<string[]> {
+    return this.loadContract().getAuthorizedIssuers();
+  }
+
+  async authorizeIssuer(university: string, sender: string): Promise<LedgerReceipt> {
+    this.loadContract().addAuthorizedIssuer(university, { sender });
+    this.ledgerState.addAuthorizedIssuer(university);
+    const receipt = this.nextReceipt('authorize', university);
+    this.notify();
+    return receipt;
+  }
+
+  async deauthorizeIssuer(university: string, sender: string): Promise<LedgerReceipt> {
+    this.loadContract().removeAuthorizedIssuer(university, { sender });
+    this.ledgerState.removeAuthorizedIssuer(university);
+    const receipt = this.nextReceipt('deauthorize', university);
+    this.notify();
+    return receipt;
+  }
+
+  async appointAccreditor(
+    accreditor: string,
+    name: string,
+    jurisdiction: string,
+    sender: string
+  ): Promise<LedgerReceipt> {
+    const appointed = this.loadContract().appointAccreditor(accreditor, name, jurisdiction, { sender });
+    this.ledgerState.setAccreditor(appointed);
+    const receipt = this.nextReceipt('appoint', accreditor);
+    this.notify();
+    return receipt;
+  }
+
+  async removeAccreditor(accreditor: string, sender: string): Promise<LedgerReceipt> {
+    this.loadContract().removeAccreditor(accreditor, { sender });
+    this.ledgerState.removeAccreditor(accreditor);
+    const receipt = this.nextReceipt('dismiss', accreditor);
+    this.notify();
+    return receipt;
+  }
+
+  async listAccreditors(): Promise<AccreditorRecord[]> {
+    return this.ledgerState.getAccreditors();
+  }
+
+  async accreditIssuer(university: string, sender: string): Promise<LedgerReceipt> {
+    const accreditation = this.loadContract().accreditIssuer(university, { sender });
+    this.ledgerState.setAccreditation(fromContractAccreditation(accreditation));
+    const receipt = this.nextReceipt('accredit', university);
+    this.notify();
+    return receipt;
+  }
+
+  async suspendIssuer(university: string, sender: string): Promise<LedgerReceipt> {
+    const accreditation = this.loadContract().suspendIssuer(university, { sender });
+    this.ledgerState.setAccreditation(fromContractAccreditation(accreditation));
+    const receipt = this.nextReceipt('suspend', university);
+    this.notify();
+    return receipt;
+  }
+
+  async listAccreditations(): Promise<IssuerAccreditation[]> {
+    return this.ledgerState.getAllAccreditations();
+  }
+
+  async grantDelegation(request: DelegationRequest, sender: string): Promise<LedgerReceipt> {
+    const contract = this.loadContract();
+    this.autoAuthorize(contract, sender);
+
+    const delegation = contract.grantDelegation(
+      request.delegateAddress,
+      request.degreeTypeHashes,
+      request.departmentHashes,
+      request.expiresAt,
+      { sender }
+    );
+    this.ledgerState.setDelegation(
+      fromContractDelegation(delegation, { degreeTypes: request.degreeTypes, departments: request.departments })
+    );
+    const receipt = this.nextReceipt('delegate', request.delegateAddress);
+    this.notify();
+    return receipt;
+  }
+
+  async revokeDelegation(delegate: string, sender: string): Promise<LedgerReceipt> {
+    const revoked = this.loadContract().revokeDelegation(delegate, { sender });
+    const { degreeTypes, departments } = this.ledgerState.getDelegation(delegate) ?? {};
+    this.ledgerState.setDelegation(fromContractDelegation(revoked, { degreeTypes, departments }));
+    const receipt = this.nextReceipt('undelegate', delegate);
+    this.notify();
+    return receipt;
+  }
+
+  async getDelegation(delegate: string): Promise<IssuerDelegation | null> {
+    return this.ledgerState.getDelegation(delegate);
+  }
+
+  async listDelegations(): Promise<IssuerDelegation[]> {
+    return this.ledgerState.getAllDelegations();
+  }
+
+  async getAccreditationChain(university: string): Promise<AccreditationChain> {
+    const contract = this.loadContract();
+    const accreditation = contract.getAccreditation(university);
+    return buildAccreditationChain(university, {
+      contractOwner: contract.getContractOwner(),
+      authorized: contract.verifyIssuanceAuthority(university),
+      accreditation: accreditation ? fromContractAccreditation(accreditation) : null,
+      accreditors: this.ledgerState.getAccreditors(),
+    });
+  }
+
+  async registerIssuerProfile(
+    metadata: IssuerMetadata,
+    publicKey: string,
+    signature: string,
+    sender: string
+  ): Promise<LedgerReceipt> {
+    const contract = this.loadContract();
+    this.autoAuthorize(contract, sender);
+
+    const profile = contract.registerIssuerMetadata(metadata, publicKey, signature, { sender });
+    this.ledgerState.setIssuerProfile(fromContractIssuerProfile(profile));
+    const receipt = this.nextReceipt('register', sender);
+    this.notify();
+    return receipt;
+  }
+
+  async approveIssuerProfile(university: string, metadataHash: string, sender: string): Promise<LedgerReceipt> {
+    const profile = this.loadContract().approveIssuerMetadata(university, metadataHash, { sender });
+    this.ledgerState.setIssuerProfile(fromContractIssuerProfile(profile));
+    const receipt = this.nextReceipt('approve', university);
+    this.notify();
+    return receipt;
+  }
+
+  async getIssuerProfile(university: string): Promise<IssuerProfile | null> {
+    return this.ledgerState.getIssuerProfile(university);
+  }
+
+  async listIssuerProfiles(): Promise<IssuerProfile[]> {
+    return this.ledgerState.getAllIssuerProfiles();
+  }
+
+  async isNullifierUsed(nullifier: string): Promise<boolean> {
+    return this.ledgerState.hasNullifier(nullifier);
+  }
+
+  async submitVerificationProof(proof: VerificationProof): Promise<VerificationOutcome> {
+    const outcome = outcomeFromContract(
+      proof.certificateHash,
+      this.ledgerState.getDiploma(proof.certificateHash)?.issuerAddress,
+      () => this.loadContract().submitVerificationProof(proof)
+    );
+    if (!outcome.isValid) {
+      console.warn('❌ Verification rejected:', outcome.reason);
+      return outcome;
+    }
+
+    this.ledgerState.addNullifier(proof.nullifier, proof.epoch);
+    this.notify();
+    return outcome;
+  }
+
+  async submitBatchVerificationProof(
+    proof: VerificationProof,
+    inclusion: BatchInclusionProof
+  ): Promise<VerificationOutcome> {
+    const outcome = outcomeFromContract(
+      proof.certificateHash,
+      this.ledgerState.getBatchAnchor(inclusion.merkleRoot)?.issuerAddress,
+      () => this.loadContract().submitBatchVerificationProof(proof, inclusion)
+    );
+    if (!outcome.isValid) {
+      console.warn('❌ Batch verification rejected:', outcome.reason);
+      return outcome;
+    }
+
+    this.ledgerState.addNullifier(proof.nullifier, proof.epoch);
+    this.notify();
+    return outcome;
+  }
+
+  async getDiplomaSet(): Promise<DiplomaSetMember[]> {
+    return this.loadContract().getDiplomaSet();
+  }
+
+  async presentAnonymously(
+    presentation: AnonymousPresentation,
+    witness: AnonymousPresentationWitness
+  ): Promise<LedgerReceipt> {
+    const recorded = this.loadContract().presentAnonymously(presentation, witness);
+    const receipt = this.nextReceipt('present', presentation.nonce);
+    this.ledgerState.addScopedNullifier(recorded.scopedNullifier, nullifierEpoch(recorded.presentedAt));
+    this.ledgerState.addAnonymousPresentation({
+      ...recorded,
+      transactionHash: receipt.transactionHash,
+      blockHeight: receipt.blockHeight,
+    });
+    this.notify();
+    return receipt;
+  }
+
+  async getAnonymousPresentation(nonce: string): Promise<AnonymousPresentationRecord | null> {
+    return this.ledgerState.getAnonymousPresentation(nonce);
+  }
+
+  async list(query?: LedgerQuery): Promise<LedgerDiplomaRecord[]> {
+    return filterLedgerRecords(this.ledgerState.getAllDiplomas(), query);
+  }
+
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Dev convenience: authorizes an unknown sender as the owner on first use
+   * An issuer the owner removed stays removed until re-authorized.
+   */
+  private autoAuthorize(contract: PrivateDiplomaSimulator, sender: string): void {
+    const { owner, autoAuthorizeIssuers } = configLoader.getContractParameters();
+    if (
+      !autoAuthorizeIssuers ||
+      this.ledgerState.wasIssuerRemoved(sender) ||
+      contract.verifyIssuanceAuthority(sender) ||
+      contract.getDelegation(sender)
+    ) {
+      return;
+    }
+    contract.addAuthorizedIssuer(sender, { sender: owner });
+    this.ledgerState.addAuthorizedIssuer(sender);
+  }
+
+  /**
+   * Rebuilds the contract from persisted state so it never drifts from LedgerState
+   */
+  private loadContract(): PrivateDiplomaSimulator {
+    const { owner } = configLoader.getContractParameters();
+    return PrivateDiplomaSimulator.fromSnapshot({
+      contractOwner: owner,
+      authorizedIssuers: this.ledgerState.getAuthorizedIssuers(),
+      usedNullifiers: this.ledgerState.getNullifiers(),
+      nullifierEpoch: this.ledgerState.getNullifierEpoch(),
+      diplomaLedger: this.ledgerState.getAllDiplomas().map(toContractRecord),
+      statusHistory: Object.fromEntries(
+        this.ledgerState
+          .getAllDiplomas()
+          .map(d => [d.certificateHash, toContractStatusHistory(d.statusHistory ?? [])])
+      ),
+      batchAnchors: this.ledgerState
+        .getAllBatchAnchors()
+        .map(({ merkleRoot, issuerAddress, anchoredAt, leafCount }) => ({
+          merkleRoot,
+          issuerAddress,
+          anchoredAt,
+          leafCount,
+        })),
+      issuerProfiles: this.ledgerState.getAllIssuerProfiles().map(toContractIssuerProfile),
+      accreditors: this.ledgerState.getAccreditors(),
+      accreditations: this.ledgerState.getAllAccreditations().map(toContractAccreditation),
+      delegations: this.ledgerState.getAllDelegations().map(toContractDelegation),
+      anonymousPresentations: this.ledgerState.getAllAnonymousPresentations(),
+      usedScopedNullifiers: this.ledgerState.getScopedNullifiers(),
+      scopedNullifierEpoch: this.ledgerState.getScopedNullifierEpoch(),
+    });
+  }
+
+  /**
+   * Copies a diploma the contract just issued into LedgerState
+   */
+  private addIssuedDiploma(
+    contract: PrivateDiplomaSimulator,
+    request: IssueDiplomaRequest,
+    receipt: LedgerReceipt
+  ): void {
+    const { holderPublicKey, expiresAt, supersedes, supersededBy, issuedBy, status, ...diploma } =
+      contract.getDiploma(request.certificateHash)!;
+    this.ledgerState.addDiploma({
+      ...diploma,
+      status: diplomaStatusFromCode(status),
+      holderPublicKey: holderPublicKey || undefined,
+      expiresAt: expiresAt || undefined,
+      supersedes: supersedes || undefined,
+      supersededBy: supersededBy || undefined,
+      issuedBy: issuedBy || undefined,
+      statusHistory: fromContractStatusHistory(contract.getStatusHistory(request.certificateHash)),
+      hashAlgorithm: request.hashAlgorithm ?? CURRENT_HASH_ALGORITHM,
+      degreeType: request.degreeType,
+      studentId: request.studentId,
+      transactionHash: receipt.transactionHash,
+      blockHeight: receipt.blockHeight,
+    });
+  }
+
+  /**
+   * Copies a status change the contract accepted into LedgerState
+   */
+  private recordStatusChange(
+    contract: PrivateDiplomaSimulator,
+    operation: string,
+    certificateHash: string
+  ): LedgerReceipt {
+    const diploma = this.ledgerState.getDiploma(certificateHash)!;
+    const receipt = this.nextReceipt(operation, certificateHash);
+    this.ledgerState.updateDiploma({
+      ...diploma,
+      status: diplomaStatusFromCode(contract.getDiploma(certificateHash)!.status),
+      statusHistory: fromContractStatusHistory(contract.getStatusHistory(certificateHash)),
+    });
+    this.notify();
+    return receipt;
+  }
+
+  private nextReceipt(operation: string, certificateHash: string): LedgerReceipt {
+    return {
+      transactionHash: `${operation}_${CryptoUtility.generateSHA256(certificateHash + Date.now()).slice(0, 16)}`,
+      blockHeight: this.ledgerState.nextBlockHeight(),
+      timestamp: Date.now(),
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+function toContractRecord(record: LedgerDiplomaRecord): ContractDiplomaRecord {
+  return {
+    certificateHash: record.certificateHash,
+    issuerAddress: record.issuerAddress,
+    issuanceTimestamp: record.issuanceTimestamp,
+    status: DIPLOMA_STATUS_CODES[record.status],
+    studentDataCommitment: record.studentDataCommitment,
+    degreeTypeHash: record.degreeTypeHash,
+    departmentHash: record.departmentHash,
+    holderPublicKey: record.holderPublicKey ?? '',
+    expiresAt: record.expiresAt ?? 0,
+    supersedes: record.supersedes ?? '',
+    supersededBy: record.supersededBy ?? '',
+    issuedBy: record.issuedBy ?? '',
+  };
+}
@@ -6,7 +6,7 @@
  * cryptographic commitment tracking
  */
 
-import { createContext, useContext, useState, useCallback, ReactNode, useEffect } from 'react'
+import { createContext, useContext, useState, useCallback, ReactNode, useEffect, useMemo } from 'react'
 import MidnightSDKIntegration, { 
   IssueDiplomaPayload, 
   DiplomaVerificationPayload,
@@ -14,10 +14,31 @@ import MidnightSDKIntegration, {
   ZKProof,
   MidnightConfig 
 } from './midnightSDKIntegration'
-import { initializeTransactionManager, getTransactionManager, TransactionResult } from './transactionManager'
+import {
+  initializeTransactionManager,
+  getTransactionManager,
+  PreparedDiploma,
+  TransactionResult,
+} from './transactionManager'
 import { productionBlockchain } from './productionBlockchain'
 import { configLoader } from './config'
-import { midnightNetworkService } from './MidnightNetworkService'
+import { getLedgerBackend } from './ledgerFactory'
+import { signIssuerMetadata } from './issuerRegistry'
+import type {
+  AccreditationChange,
+  AccreditorRecord,
+  DelegationRequest,
+  IssuerAccreditation,
+  IssuerDelegation,
+  IssueDiplomaRequest,
+  IssuerChange,
+  IssuerMetadata,
+  IssuerProfile,
+  LedgerBackend,
+  LedgerDiplomaRecord,
+  LedgerReceipt,
+  RevocationRequest,
+} from './ledgerBackend'
 
 interface MidnightContextType {
   sdk: MidnightSDKIntegration | null
@@ -26,10 +47,49 @@ interface MidnightContextType {
   error: string | null
   connected: boolean
   
-  // Local Ledger Sync (Asynchronous State Commitment)
-  ledgerDiplomas: any[]
-  addLedgerDiploma: (diploma: any) => void
-  getLedgerDiplomasByIssuer: (issuerAddress: string) => any[]
+  // Ledger Backend (single source of truth for diploma state)
+  ledger: LedgerBackend
+  ledgerDiplomas: LedgerDiplomaRecord[]
+  issueLedgerDiploma: (request: IssueDiplomaRequest, sender: string) => Promise<LedgerReceipt>
+  amendLedgerDiploma: (
+    previousHash: string,
+    request: IssueDiplomaRequest,
+    sender: string
+  ) => Promise<LedgerReceipt>
+  revokeLedgerDiploma: (
+    certificateHash: string,
+    sender: string,
+    revocation: RevocationRequest
+  ) => Promise<LedgerReceipt>
+  reinstateLedgerDiploma: (certificateHash: string, sender: string) => Promise<LedgerReceipt>
+  anchorLedgerBatch: (merkleRoot: string, leafCount: number, sender: string) => Promise<LedgerReceipt>
+  changeLedgerIssuer: (change: IssuerChange, university: string, sender: string) => Promise<LedgerReceipt>
+  issuerProfiles: IssuerProfile[]
+  registerLedgerIssuerProfile: (metadata: IssuerMetadata, sender: string) => Promise<LedgerReceipt>
+  approveLedgerIssuerProfile: (
+    university: string,
+    metadataHash: string,
+    sender: string
+  ) => Promise<LedgerReceipt>
+  accreditors: AccreditorRecord[]
+  accreditations: IssuerAccreditation[]
+  appointLedgerAccreditor: (
+    accreditor: string,
+    name: string,
+    jurisdiction: string,
+    sender: string
+  ) => Promise<LedgerReceipt>
+  removeLedgerAccreditor: (accreditor: string, sender: string) => Promise<LedgerReceipt>
+  changeLedgerAccreditation: (
+    change: AccreditationChange,
+    university: string,
+    sender: string
+  ) => Promise<LedgerReceipt>
+  delegations: IssuerDelegation[]
+  grantLedgerDelegation: (request: DelegationRequest, sender: string) => Promise<LedgerReceipt>
+  revokeLedgerDelegation: (delegate: string, sender: string) => Promise<LedgerReceipt>
+  getLedgerDiplomasByIssuer: (issuerAddress: string) => LedgerDiplomaRecord[]
+  refreshLedger: () => Promise<void>
   
   // Production Blockchain
   blockchainEnabled: boolean
@@ -48,11 +108,14 @@ interface MidnightContextType {
   // Production Blockchain Methods
   issueDiplomaOnChain: (studentId: string, commitment: string, witness: any) => Promise<any>
   verifyDiplomaOnChain: (certificateHash: string, proof: any) => Promise<any>
-  revokeDiplomaOnChain: (certificateHash: string) => Promise<any>
+  revokeDiplomaOnChain: (certificateHash: string, revocation: RevocationRequest) => Promise<any>
   getDiplomaFromChain: (certificateHash: string) => Promise<any>
   
   // Transaction Methods
   submitDiplomaTransaction: (witness: any) => Promise<TransactionResult>
+  prepareDiplomaCommitment: (witness: any) => Promise<PreparedDiploma>
+  submitBatchAnchorTransaction: (merkleRoot: string, leafCount: number) => Promise<TransactionResult>
+  submitIssuerChangeTransaction: (change: IssuerChange, university: string) => Promise<TransactionResult>
   verifyDiplomaTransaction: (zkProof: any) => Promise<TransactionResult>
   monitorTransaction: (txHash: string, callback: (status: TransactionResult) => void) => () => void
   
@@ -81,14 +144,13 @@ export function MidnightProvider({ children, config }: MidnightProviderProps) {
   const [connected, setConnected] = useState(false)
   const [contractAddress, setContractAddress] = useState('')
   
-  // Local Ledger Sync State (Asynchronous State Commitment)
-  const [ledgerDiplomas, setLedgerDiplomas] = useState<any[]>(() => {
-    try {
-      return midnightNetworkService.getAllDiplomas();
-    } catch {
-      return [];
-    }
-  })
+  // Ledger Backend State (one backend for every page)
+  const ledger = useMemo(() => getLedgerBackend(), [])
+  const [ledgerDiplomas, setLedgerDiplomas] = useState<LedgerDiplomaRecord[]>([])
+  const [issuerProfiles, setIssuerProfiles] = useState<IssuerProfile[]>([])
+  const [accreditors, setAccreditors] = useState<AccreditorRecord[]>([])
+  const [accreditations, setAccreditations] = useState<IssuerAccreditation[]>([])
+  const [delegations, setDelegations] = useState<IssuerDelegation[]>([])
   
   // Production Blockchain State
   const [blockchainEnabled, setBlockchainEnabled] = useState(false)
@@ -96,33 +158,281 @@ export function MidnightProvider({ children, config }: MidnightProviderProps) {
   const [blockchainConnected, setBlockchainConnected] = useState(false)
 
   /**
-   * Add diploma to local ledger state commitment
-   * Persists through ledger synchronization
+   * Reload diploma records, the issuer registry, accreditations and
+   * delegations from the ledger backend
    */
-  const addLedgerDiploma = useCallback((diploma: any) => {
-    const certificateHash =
-      diploma.certificateHash || `cert_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`
+  const refreshLedger = useCallback(async () => {
+    try {
+      const [diplomas, profiles, bodies, grants, departments] = await Promise.all([
+        ledger.list(),
+        ledger.listIssuerProfiles(),
+        ledger.listAccreditors(),
+        ledger.listAccreditations(),
+        ledger.listDelegations(),
+      ])
+      setLedgerDiplomas(diplomas)
+      setIssuerProfiles(profiles)
+      setAccreditors(bodies)
+      setAccreditations(grants)
+      setDelegations(departments)
+    } catch (err) {
+      console.error('Failed to load ledger diplomas:', err)
+    }
+  }, [ledger])
 
-    midnightNetworkService.addDiplomaFromClient({
-      universityAddress: diploma.universityAddress,
-      degreeType: diploma.degreeType,
-      certificateHash,
+  useEffect(() => {
+    refreshLedger()
+    return ledger.onChange(() => {
+      refreshLedger()
     })
+  }, [ledger, refreshLedger])
+
+  /**
+   * Issue a diploma through the ledger backend
+   */
+  const issueLedgerDiploma = useCallback(
+    async (request: IssueDiplomaRequest, sender: string) => {
+      try {
+        const receipt = await ledger.issue(request, sender)
+        console.log('✓ Diploma committed to ledger:', request.certificateHash)
+        return receipt
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Ledger issuance failed'
+        setError(errorMessage)
+        throw err
+      }
+    },
+    [ledger]
+  )
+
+  /**
+   * Issue a correction that supersedes an existing diploma
+   */
+  const amendLedgerDiploma = useCallback(
+    async (previousHash: string, request: IssueDiplomaRequest, sender: string) => {
+      try {
+        const receipt = await ledger.amend(previousHash, request, sender)
+        console.log('✓ Amendment committed to ledger:', previousHash, '→', request.certificateHash)
+        return receipt
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Ledger amendment failed'
+        setError(errorMessage)
+        throw err
+      }
+    },
+    [ledger]
+  )
+
+  /**
+   * Revoke a diploma through the ledger backend
+   */
+  const revokeLedgerDiploma = useCallback(
+    async (certificateHash: string, sender: string, revocation: RevocationRequest) => {
+      try {
+        return await ledger.revoke(certificateHash, sender, revocation)
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Ledger revocation failed'
+        setError(errorMessage)
+        throw err
+      }
+    },
+    [ledger]
+  )
+
+  /**
+   * Reinstate a revoked diploma through the ledger backend
+   */
+  const reinstateLedgerDiploma = useCallback(
+    async (certificateHash: string, sender: string) => {
+      try {
+        return await ledger.reinstate(certificateHash, sender)
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Ledger reinstatement failed'
+        setError(errorMessage)
+        throw err
+      }
+    },
+    [ledger]
+  )
 
-    const updated = midnightNetworkService.getAllDiplomas()
-    setLedgerDiplomas(updated)
+  /**
+   * Anchor a cohort's Merkle root through the ledger backend
+   */
+  const anchorLedgerBatch = useCallback(
+    async (merkleRoot: string, leafCount: number, sender: string) => {
+      try {
+        const receipt = await ledger.anchorBatch(merkleRoot, leafCount, sender)
+        console.log('✓ Batch root anchored on ledger:', merkleRoot, `(${leafCount} diplomas)`)
+        return receipt
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Batch anchoring failed'
+        setError(errorMessage)
+        throw err
+      }
+    },
+    [ledger]
+  )
 
-    const committed = { ...diploma, certificateHash }
-    console.log('✓ Diploma committed to ledger:', committed)
-    return committed
-  }, []);
+  /**
+   * Authorize or deauthorize a university through the ledger backend
+   */
+  const changeLedgerIssuer = useCallback(
+    async (change: IssuerChange, university: string, sender: string) => {
+      try {
+        const receipt =
+          change === 'add'
+            ? await ledger.authorizeIssuer(university, sender)
+            : await ledger.deauthorizeIssuer(university, sender)
+        console.log(`✓ Issuer ${change === 'add' ? 'authorized' : 'deauthorized'} on ledger:`, university)
+        return receipt
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Issuer change failed'
+        setError(errorMessage)
+        throw err
+      }
+    },
+    [ledger]
+  )
 
   /**
-   * Query ledger for credentials issued by university
+   * Sign a university's metadata with its key and register it on the ledger
    */
-  const getLedgerDiplomasByIssuer = useCallback((issuerAddress: string) => {
-    return midnightNetworkService.getDiplomasByUniversity(issuerAddress);
-  }, []);
+  const registerLedgerIssuerProfile = useCallback(
+    async (metadata: IssuerMetadata, sender: string) => {
+      try {
+        const { publicKey, signature } = await signIssuerMetadata(sender, metadata)
+        const receipt = await ledger.registerIssuerProfile(metadata, publicKey, signature, sender)
+        console.log('✓ Issuer profile registered on ledger:', metadata.name)
+        return receipt
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Issuer registration failed'
+        setError(errorMessage)
+        throw err
+      }
+    },
+    [ledger]
+  )
+
+  /**
+   * Approve a university's registered metadata (contract owner only)
+   */
+  const approveLedgerIssuerProfile = useCallback(
+    async (university: string, metadataHash: string, sender: string) => {
+      try {
+        const receipt = await ledger.approveIssuerProfile(university, metadataHash, sender)
+        console.log('✓ Issuer profile approved on ledger:', university)
+        return receipt
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Issuer approval failed'
+        setError(errorMessage)
+        throw err
+      }
+    },
+    [ledger]
+  )
+
+  /**
+   * Appoint an accreditor for a jurisdiction, or update one (contract owner only)
+   */
+  const appointLedgerAccreditor = useCallback(
+    async (accreditor: string, name: string, jurisdiction: string, sender: string) => {
+      try {
+        const receipt = await ledger.appointAccreditor(accreditor, name, jurisdiction, sender)
+        console.log('✓ Accreditor appointed on ledger:', accreditor, jurisdiction)
+        return receipt
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Accreditor appointment failed'
+        setError(errorMessage)
+        throw err
+      }
+    },
+    [ledger]
+  )
+
+  /**
+   * Remove an accreditor (contract owner only); its universities lose their authority
+   */
+  const removeLedgerAccreditor = useCallback(
+    async (accreditor: string, sender: string) => {
+      try {
+        const receipt = await ledger.removeAccreditor(accreditor, sender)
+        console.log('✓ Accreditor removed on ledger:', accreditor)
+        return receipt
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Accreditor removal failed'
+        setError(errorMessage)
+        throw err
+      }
+    },
+    [ledger]
+  )
+
+  /**
+   * Accredit or suspend a university in the sender's jurisdiction (accreditors only)
+   */
+  const changeLedgerAccreditation = useCallback(
+    async (change: AccreditationChange, university: string, sender: string) => {
+      try {
+        const receipt =
+          change === 'accredit'
+            ? await ledger.accreditIssuer(university, sender)
+            : await ledger.suspendIssuer(university, sender)
+        console.log(`✓ Issuer ${change === 'accredit' ? 'accredited' : 'suspended'} on ledger:`, university)
+        return receipt
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Accreditation change failed'
+        setError(errorMessage)
+        throw err
+      }
+    },
+    [ledger]
+  )
+
+  /**
+   * Delegate scoped issuing rights to a department address (authorized universities only)
+   */
+  const grantLedgerDelegation = useCallback(
+    async (request: DelegationRequest, sender: string) => {
+      try {
+        const receipt = await ledger.grantDelegation(request, sender)
+        console.log('✓ Delegation granted on ledger:', request.delegateAddress)
+        return receipt
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Delegation failed'
+        setError(errorMessage)
+        throw err
+      }
+    },
+    [ledger]
+  )
+
+  /**
+   * Revoke a department's delegation (delegating university only)
+   */
+  const revokeLedgerDelegation = useCallback(
+    async (delegate: string, sender: string) => {
+      try {
+        const receipt = await ledger.revokeDelegation(delegate, sender)
+        console.log('✓ Delegation revoked on ledger:', delegate)
+        return receipt
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Delegation revocation failed'
+        setError(errorMessage)
+        throw err
+      }
+    },
+    [ledger]
+  )
+
+  /**
+   * Query ledger for credentials issued by university, including through its
+   * departments; for a department address, the ones it issued
+   */
+  const getLedgerDiplomasByIssuer = useCallback(
+    (issuerAddress: string) =>
+      ledgerDiplomas.filter(d => d.issuerAddress === issuerAddress || d.issuedBy === issuerAddress),
+    [ledgerDiplomas]
+  )
 
   /**
    * Initialize Production Blockchain on mount
@@ -392,6 +702,55 @@ export function MidnightProvider({ children, config }: MidnightProviderProps) {
     [connected]
   )
 
+  /**
+   * Build a diploma's commitment and opening without submitting it
+   */
+  const prepareDiplomaCommitment = useCallback(
+    async (witness: any) => {
+      if (!connected) throw new Error('SDK not connected')
+      return getTransactionManager().prepareDiplomaCommitment(witness)
+    },
+    [connected]
+  )
+
+  /**
+   * Submit a batch's Merkle root as one transaction
+   */
+  const submitBatchAnchorTransaction = useCallback(
+    async (merkleRoot: string, leafCount: number) => {
+      if (!connected) throw new Error('SDK not connected')
+
+      try {
+        const txManager = getTransactionManager()
+        return await txManager.submitBatchAnchorTransaction(merkleRoot, leafCount)
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Batch anchor transaction failed'
+        setError(errorMessage)
+        throw err
+      }
+    },
+    [connected]
+  )
+
+  /**
+   * Submit an owner-signed issuer authorization change
+   */
+  const submitIssuerChangeTransaction = useCallback(
+    async (change: IssuerChange, university: string) => {
+      if (!connected) throw new Error('SDK not connected')
+
+      try {
+        const txManager = getTransactionManager()
+        return await txManager.submitIssuerChangeTransaction(change, university)
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Issuer change transaction failed'
+        setError(errorMessage)
+        throw err
+      }
+    },
+    [connected]
+  )
+
   /**
    * Verify diploma via blockchain transaction
    */
@@ -457,9 +816,9 @@ export function MidnightProvider({ children, config }: MidnightProviderProps) {
   )
 
   const revokeDiplomaOnChain = useCallback(
-    async (certificateHash: string) => {
+    async (certificateHash: string, revocation: RevocationRequest) => {
       try {
-        return await productionBlockchain.revokeDiploma(certificateHash)
+        return await productionBlockchain.revokeDiploma(certificateHash, revocation)
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'On-chain revocation failed'
         setError(errorMessage)
@@ -491,10 +850,28 @@ export function MidnightProvider({ children, config }: MidnightProviderProps) {
     blockchainEnabled,
     networkInfo,
     blockchainConnected,
-    // Local Ledger Sync State
+    // Ledger Backend
+    ledger,
     ledgerDiplomas,
-    addLedgerDiploma,
+    issueLedgerDiploma,
+    amendLedgerDiploma,
+    revokeLedgerDiploma,
+    reinstateLedgerDiploma,
+    anchorLedgerBatch,
+    changeLedgerIssuer,
+    issuerProfiles,
+    registerLedgerIssuerProfile,
+    approveLedgerIssuerProfile,
+    accreditors,
+    accreditations,
+    appointLedgerAccreditor,
+    removeLedgerAccreditor,
+    changeLedgerAccreditation,
+    delegations,
+    grantLedgerDelegation,
+    revokeLedgerDelegation,
     getLedgerDiplomasByIssuer,
+    refreshLedger,
     // SDK Methods
     issueDiploma,
     verifyDiploma,
@@ -510,6 +887,9 @@ export function MidnightProvider({ children, config }: MidnightProviderProps) {
     getDiplomaFromChain,
     // Transaction Methods
     submitDiplomaTransaction,
+    prepareDiplomaCommitment,
+    submitBatchAnchorTransaction,
+    submitIssuerChangeTransaction,
     verifyDiplomaTransaction,
     monitorTransaction,
     // Connection Management
@@ -0,0 +1,90 @@
+/**
+ * Anonymous Presentations
+ * Prove "I hold a valid diploma" without saying which one.
+ *
+ * An ordinary proof names its certificateHash, so every verifier can look up
+ * the ledger record and any two verifiers can tell they saw the same
+ * candidate. An anonymous presentation (contract: presentAnonymously) names
+ * no certificate. Its private witness shows that:
+ *  - a leaf of the diploma set reaches the set's current root. The set holds
+ *    every valid, holder-bound diploma of an authorized issuer and the root
+ *    changes with every revocation, so membership is also non-revocation;
+ *  - the presenter knows the secret scalar of that leaf's holder key;
+ *  - the requested disclosures and predicates open the leaf's commitment.
+ * The ledger stores only the public inputs, under the request nonce, where
+ * the verifier reads them back.
+ *
+ * Instead of a certificate, the verifier sees a scoped nullifier derived from
+ * the holder secret and the verifier id: stable for one verifier, unrelated
+ * across verifiers. Hashing is synchronous so the contract simulator can run
+ * it inside a circuit.
+ *
+ * Batch-issued diplomas have no ledger record of their own and are not in the
+ * set; they are presented with an ordinary proof.
+ */
+
+import { canonicalize } from './canonical'
+import { sha256Sync } from './crypto'
+import type { DiplomaSetMember, MerkleStep } from './ledgerBackend'
+import { buildMerkleTree, merkleRootFromPath } from './merkleBatch'
+
+const SET_LEAF_DOMAIN = 'privatediploma/diploma-set-leaf/v1'
+const SET_NODE_DOMAIN = 'privatediploma/diploma-set-node/v1'
+const SCOPED_NULLIFIER_DOMAIN = 'privatediploma/scoped-nullifier/v1'
+
+/** Root of a set with no members; no path reaches it */
+export const EMPTY_DIPLOMA_SET_ROOT = '0x' + '0'.repeat(64)
+
+export function diplomaSetLeafHash(member: DiplomaSetMember): string {
+  return '0x' + sha256Sync(
+    canonicalize({
+      domain: SET_LEAF_DOMAIN,
+      certificateHash: member.certificateHash,
+      studentDataCommitment: member.studentDataCommitment,
+      holderPublicKey: member.holderPublicKey.toLowerCase(),
+      expiresAt: member.expiresAt,
+    })
+  )
+}
+
+/**
+ * The diploma set tree, leaves sorted by certificate hash
+ * Returns the members in leaf order with one path each.
+ */
+export function diplomaSetTree(members: DiplomaSetMember[]): {
+  root: string
+  members: DiplomaSetMember[]
+  paths: MerkleStep[][]
+} {
+  const sorted = [...members].sort((a, b) =>
+    a.certificateHash < b.certificateHash ? -1 : a.certificateHash > b.certificateHash ? 1 : 0
+  )
+  if (sorted.length === 0) {
+    return { root: EMPTY_DIPLOMA_SET_ROOT, members: [], paths: [] }
+  }
+  const { root, paths } = buildMerkleTree(sorted.map(diplomaSetLeafHash), SET_NODE_DOMAIN)
+  return { root, members: sorted, paths }
+}
+
+export function diplomaSetRoot(members: DiplomaSetMember[]): string {
+  return diplomaSetTree(members).root
+}
+
+export function diplomaSetRootFromPath(leafHash: string, path: MerkleStep[]): string {
+  return merkleRootFromPath(leafHash, path, SET_NODE_DOMAIN)
+}
+
+/**
+ * H(holder secret, verifier id)
+ * One value per holder and verifier; without the secret, values for two
+ * verifiers cannot be linked.
+ */
+export function scopedNullifier(holderSecretKey: string, verifierId: string): string {
+  return '0x' + sha256Sync(
+    canonicalize({
+      domain: SCOPED_NULLIFIER_DOMAIN,
+      secret: holderSecretKey.toLowerCase(),
+      verifierId,
+    })
+  )
+}
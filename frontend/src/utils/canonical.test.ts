@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import {
+  CANONICAL_TEST_VECTORS,
+  canonicalize,
+  encodeStudentData,
+  normalizeMarks,
+  runCanonicalTestVectors,
+  type StudentDataFields,
+} from './canonical'
+import { sha256 } from './crypto'
+
+describe('canonical test vectors', () => {
+  for (const vector of CANONICAL_TEST_VECTORS) {
+    it(vector.name, async () => {
+      const canonical = vector.name.startsWith('student-data-')
+        ? encodeStudentData(vector.input as StudentDataFields)
+        : canonicalize(vector.input)
+      expect(canonical).toBe(vector.canonical)
+      expect(await sha256(canonical)).toBe(vector.sha256)
+    })
+  }
+
+  it('runCanonicalTestVectors reports no failures', async () => {
+    expect(await runCanonicalTestVectors()).toEqual([])
+  })
+})
+
+describe('canonicalize', () => {
+  it('rejects values JSON cannot represent', () => {
+    expect(() => canonicalize({ n: NaN })).toThrow()
+    expect(() => canonicalize([undefined])).toThrow()
+    expect(() => canonicalize('\ud800')).toThrow()
+  })
+
+  it('drops undefined object members', () => {
+    expect(canonicalize({ b: 1, a: undefined })).toBe('{"b":1}')
+  })
+})
+
+describe('normalizeMarks', () => {
+  it('encodes numeric strings and numbers identically', () => {
+    expect(normalizeMarks({ gpa: ' 3.80 ', thesis: 'A' })).toEqual({ gpa: 3.8, thesis: 'A' })
+  })
+
+  it('throws when two subjects collide after NFC normalization', () => {
+    // "Résumé" precomposed and with combining accents
+    expect(() => normalizeMarks({ 'R\u00e9sum\u00e9': 80, 'Re\u0301sume\u0301': 90 })).toThrow(/appears twice/)
+  })
+})
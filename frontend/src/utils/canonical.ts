@@ -0,0 +1,226 @@
+/**
+ * Canonical Serialization
+ * RFC 8785 JSON Canonicalization Scheme (JCS) for every hashed payload.
+ *
+ * Issuer and holder must hash byte-identical input, so commitments are never
+ * computed over `JSON.stringify` directly: key order, number formatting and
+ * mark types would otherwise depend on whoever built the object.
+ */
+
+import { sha256 } from './crypto'
+
+type JsonValue = null | boolean | number | string | JsonValue[] | { [key: string]: JsonValue }
+
+/** Version tag embedded in every encoded student data payload */
+export const STUDENT_DATA_ENCODING = 'jcs-rfc8785/student-data/v1'
+
+/**
+ * Private student data committed to at issuance
+ * `marks` may arrive as numbers or numeric strings; both encode identically.
+ */
+export interface StudentDataFields {
+  studentId: string
+  studentName: string
+  degreeType: string
+  department: string
+  issueDate: string
+  universityAddress: string
+  marks: Record<string, string | number>
+}
+
+const LONE_SURROGATE = /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/
+const NUMERIC_MARK = /^-?\d+(\.\d+)?$/
+
+/**
+ * Serialize a JSON value per RFC 8785
+ * Object members are sorted by UTF-16 code units, numbers use the ECMAScript
+ * shortest round-trip form and no whitespace is emitted. Throws on values
+ * JSON cannot represent (NaN, Infinity, undefined array items, bigint).
+ */
+export function canonicalize(value: unknown): string {
+  if (value === null || typeof value === 'boolean') {
+    return JSON.stringify(value)
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Cannot canonicalize non-finite number: ${value}`)
+    }
+    return JSON.stringify(value)
+  }
+  if (typeof value === 'string') {
+    if (LONE_SURROGATE.test(value)) {
+      throw new Error('Cannot canonicalize a string containing a lone surrogate')
+    }
+    return JSON.stringify(value)
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => {
+      if (item === undefined) {
+        throw new Error('Cannot canonicalize undefined array element')
+      }
+      return canonicalize(item)
+    }).join(',')}]`
+  }
+  if (typeof value === 'object') {
+    const members = Object.keys(value as object)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${canonicalize(key)}:${canonicalize((value as Record<string, unknown>)[key])}`)
+    return `{${members.join(',')}}`
+  }
+  throw new Error(`Cannot canonicalize value of type ${typeof value}`)
+}
+
+/**
+ * Normalize marks so `3.8`, `"3.8"` and `"3.80"` encode the same way
+ * Numeric strings become numbers; letter grades stay strings (NFC).
+ * Throws when two subjects are the same name after NFC normalization.
+ */
+export function normalizeMarks(marks: Record<string, string | number>): Record<string, string | number> {
+  const normalized: Record<string, string | number> = {}
+  for (const [subject, mark] of Object.entries(marks)) {
+    const key = subject.normalize('NFC')
+    if (Object.prototype.hasOwnProperty.call(normalized, key)) {
+      throw new Error(`Subject "${key}" appears twice in the marks`)
+    }
+    if (typeof mark === 'number') {
+      normalized[key] = mark
+    } else {
+      const text = mark.trim()
+      normalized[key] = NUMERIC_MARK.test(text)
+        ? Number(text)
+        : text.normalize('NFC')
+    }
+  }
+  return normalized
+}
+
+/**
+ * Canonical encoding of student data, the pre-image of `studentDataCommitment`
+ */
+export function encodeStudentData(fields: StudentDataFields): string {
+  const payload: JsonValue = {
+    encoding: STUDENT_DATA_ENCODING,
+    studentId: fields.studentId.normalize('NFC'),
+    studentName: fields.studentName.normalize('NFC'),
+    degreeType: fields.degreeType.normalize('NFC'),
+    department: fields.department.normalize('NFC'),
+    issueDate: fields.issueDate,
+    universityAddress: fields.universityAddress,
+    marks: normalizeMarks(fields.marks),
+  }
+  return canonicalize(payload)
+}
+
+/**
+ * SHA-256 of the canonical encoding of any JSON value
+ */
+export async function hashCanonical(value: unknown): Promise<string> {
+  return sha256(canonicalize(value))
+}
+
+// ============================================================================
+// TEST VECTORS
+// ============================================================================
+
+export interface CanonicalTestVector {
+  name: string
+  input: unknown
+  canonical: string
+  sha256: string
+}
+
+// Both student-data vectors must encode to this string
+const STUDENT_VECTOR_CANONICAL =
+  '{"degreeType":"Bachelor of Science","department":"Computer Science",' +
+  '"encoding":"jcs-rfc8785/student-data/v1","issueDate":"2024-06-15",' +
+  '"marks":{"gpa":3.8,"thesis":"A"},"studentId":"STU-2024-001",' +
+  '"studentName":"Ada Lovelace","universityAddress":"addr_mid1z_university"}'
+
+/**
+ * Shared vectors for issuer and holder implementations
+ * Any implementation of the encoding must reproduce `canonical` and `sha256`
+ * exactly. The first group is taken from RFC 8785 section 3.2.
+ */
+export const CANONICAL_TEST_VECTORS: CanonicalTestVector[] = [
+  {
+    name: 'rfc8785-numbers',
+    input: { numbers: [333333333.33333329, 1e30, 4.5, 2e-3, 0.000000000000000000000000001] },
+    canonical: '{"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27]}',
+    sha256: '7c892d3452ad85ad65857a43e8dcac93b79475d2334fc3e85bac5c599142c158',
+  },
+  {
+    name: 'rfc8785-string-escapes',
+    input: { string: '€$\u000F\nA\'B"\\\\"/' },
+    canonical: '{"string":"€$\\u000f\\nA\'B\\"\\\\\\\\\\"/"}',
+    sha256: 'ca355c6f913afd1af684476e56a97043696f617c7e34c84221c5643b66842a63',
+  },
+  {
+    name: 'rfc8785-literals',
+    input: { literals: [null, true, false] },
+    canonical: '{"literals":[null,true,false]}',
+    sha256: 'f4e3f047101e0191aeb3ebf17ee457cbf687f209bd983dade6ac183f86d93797',
+  },
+  {
+    name: 'rfc8785-key-order-utf16',
+    input: {
+      '\u20ac': 'Euro Sign',
+      '\r': 'Carriage Return',
+      '\ufb33': 'Hebrew Letter Dalet With Dagesh',
+      '1': 'One',
+      '\ud83d\ude00': 'Emoji: Grinning Face',
+      '\u0080': 'Control',
+      '\u00f6': 'Latin Small Letter O With Diaeresis',
+    },
+    canonical:
+      '{"\\r":"Carriage Return","1":"One","\u0080":"Control","\u00f6":"Latin Small Letter O With Diaeresis",' +
+      '"\u20ac":"Euro Sign","\ud83d\ude00":"Emoji: Grinning Face","\ufb33":"Hebrew Letter Dalet With Dagesh"}',
+    sha256: '5e321556d22018a9656991a9e94f77ec175fa193e52a2429d312f8419ec8b08c',
+  },
+  {
+    name: 'student-data-numeric-marks',
+    input: {
+      studentId: 'STU-2024-001',
+      studentName: 'Ada Lovelace',
+      degreeType: 'Bachelor of Science',
+      department: 'Computer Science',
+      issueDate: '2024-06-15',
+      universityAddress: 'addr_mid1z_university',
+      marks: { gpa: 3.8, thesis: 'A' },
+    },
+    canonical: STUDENT_VECTOR_CANONICAL,
+    sha256: '6294c3c94f0282e078a2a3e8113fe7d83d15077cc907a0c506eb01d3ff7e77a6',
+  },
+  {
+    name: 'student-data-string-marks-reordered',
+    input: {
+      marks: { thesis: 'A', gpa: '3.80' },
+      universityAddress: 'addr_mid1z_university',
+      issueDate: '2024-06-15',
+      department: 'Computer Science',
+      degreeType: 'Bachelor of Science',
+      studentName: 'Ada Lovelace',
+      studentId: 'STU-2024-001',
+    },
+    canonical: STUDENT_VECTOR_CANONICAL,
+    sha256: '6294c3c94f0282e078a2a3e8113fe7d83d15077cc907a0c506eb01d3ff7e77a6',
+  },
+]
+
+/**
+ * Check this implementation against CANONICAL_TEST_VECTORS
+ * Vectors named `student-data-*` are run through encodeStudentData.
+ * Returns the names of failing vectors (empty when all pass).
+ */
+export async function runCanonicalTestVectors(): Promise<string[]> {
+  const failures: string[] = []
+  for (const vector of CANONICAL_TEST_VECTORS) {
+    const canonical = vector.name.startsWith('student-data-')
+      ? encodeStudentData(vector.input as StudentDataFields)
+      : canonicalize(vector.input)
+    if (canonical !== vector.canonical || (await sha256(canonical)) !== vector.sha256) {
+      failures.push(vector.name)
+    }
+  }
+  return failures
+}
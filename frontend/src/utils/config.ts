@@ -3,12 +3,22 @@
  * Reads from environment variables and validates configuration
  */
 
+import type { LedgerBackendKind } from './ledgerBackend';
+
 export interface ProductionConfig {
   // Blockchain
   contractAddress: string;
   rpcUrl: string;
   networkId: number;
   
+  // Ledger backend used by MidnightProvider (mock | local | production)
+  ledgerBackend: LedgerBackendKind;
+
+  // Contract constructor argument used by the simulated ledgers
+  contractOwner: string;
+  // Let the owner authorize any issuing wallet on first use (dev only)
+  autoAuthorizeIssuers: boolean;
+
   // Wallet
   walletType: 'lace' | 'midnight' | 'cardano';
   
@@ -45,6 +55,15 @@ class ConfigLoader {
     const contractAddress = import.meta.env.VITE_CONTRACT_ADDRESS || '';
     const rpcUrl = import.meta.env.VITE_RPC_URL || 'https://testnet-rpc.midnight.network';
     const networkId = parseInt(import.meta.env.VITE_NETWORK_ID || '0');
+    const contractOwner = import.meta.env.VITE_CONTRACT_OWNER || '';
+
+    // Without an owner nobody can authorize issuers, so nothing can be issued
+    if (!contractOwner) {
+      throw new Error(
+        'VITE_CONTRACT_OWNER not set. ' +
+        'Set it in .env to the wallet address that administers the PrivateDiploma contract'
+      );
+    }
 
     // Validate required fields for production
     if (isProduction) {
@@ -63,6 +82,11 @@ class ConfigLoader {
       contractAddress,
       rpcUrl,
       networkId,
+      ledgerBackend: this.resolveLedgerBackend(isProduction),
+      contractOwner,
+      autoAuthorizeIssuers: isProduction
+        ? false
+        : import.meta.env.VITE_AUTO_AUTHORIZE_ISSUERS === 'true',
       walletType: (import.meta.env.VITE_WALLET_TYPE || 'lace') as any,
       enableBlockchain: isProduction,
       enableZKProofs: import.meta.env.VITE_ENABLE_ZK_PROOFS !== 'false',
@@ -76,6 +100,7 @@ class ConfigLoader {
 
     console.log('📋 Configuration loaded:', {
       networkId: this.config.networkId,
+      ledgerBackend: this.config.ledgerBackend,
       walletType: this.config.walletType,
       blockchainEnabled: this.config.enableBlockchain,
       zkProofsEnabled: this.config.enableZKProofs,
@@ -85,6 +110,22 @@ class ConfigLoader {
     return this.config;
   }
 
+  /**
+   * Resolve the ledger backend kind
+   * Defaults to the production adapter when blockchain is enabled,
+   * otherwise to the persistent local ledger
+   */
+  private resolveLedgerBackend(isProduction: boolean): LedgerBackendKind {
+    const requested = import.meta.env.VITE_LEDGER_BACKEND;
+    if (requested === 'mock' || requested === 'local' || requested === 'production') {
+      return requested;
+    }
+    if (requested) {
+      console.warn(`Unknown VITE_LEDGER_BACKEND "${requested}", using default`);
+    }
+    return isProduction ? 'production' : 'local';
+  }
+
   /**
    * Get network name from ID
    */
@@ -117,6 +158,24 @@ class ConfigLoader {
     return this.loadConfig().enableBlockchain;
   }
 
+  /**
+   * Get the configured ledger backend kind
+   */
+  getLedgerBackendKind(): LedgerBackendKind {
+    return this.loadConfig().ledgerBackend;
+  }
+
+  /**
+   * Constructor arguments for the simulated PrivateDiploma contract
+   */
+  getContractParameters(): { owner: string; autoAuthorizeIssuers: boolean } {
+    const config = this.loadConfig();
+    return {
+      owner: config.contractOwner,
+      autoAuthorizeIssuers: config.autoAuthorizeIssuers,
+    };
+  }
+
   /**
    * Check if in production mode
    */
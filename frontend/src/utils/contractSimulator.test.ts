@@ -0,0 +1,641 @@
+import { describe, expect, it } from 'vitest'
+import { signWithSecretKey } from '../test/signing'
+import {
+  ContractAssertionError,
+  PrivateDiplomaSimulator,
+  type ContractAssertionCode,
+  type ContractAnonymousPresentation,
+  type ContractPresentationWitness,
+  type ContractVerificationProof,
+  type IssueDiplomaArgs,
+} from './contractSimulator'
+import { diplomaSetTree, scopedNullifier } from './anonymousPresentation'
+import { randomHex } from './crypto'
+import type { IssuerMetadata } from './ledgerBackend'
+import {
+  HOLDER_KEY_PURPOSES,
+  deriveHolderSecretKey,
+  holderPresentationMessage,
+  holderPublicKeyOf,
+} from './holderSignature'
+import { issuerMetadataHash, issuerMetadataMessage } from './issuerRegistry'
+import { NULLIFIER_EPOCH_SECONDS, deriveVerifierNullifier } from './verifierNullifier'
+
+const OWNER = 'addr_owner'
+const UNIVERSITY = 'addr_university'
+const NOW = 1_750_000_000
+const EPOCH = Math.floor(NOW / NULLIFIER_EPOCH_SECONDS)
+
+interface TestHolder {
+  holderKey: string
+  signingKey: string
+  nullifierKey: string
+}
+
+function createHolder(): TestHolder {
+  const master = randomHex(32)
+  const secrets = HOLDER_KEY_PURPOSES.map(purpose => deriveHolderSecretKey(master, purpose))
+  return {
+    holderKey: secrets.map(holderPublicKeyOf).join(''),
+    signingKey: secrets[1],
+    nullifierKey: secrets[2],
+  }
+}
+
+function createSimulator(): PrivateDiplomaSimulator {
+  const simulator = new PrivateDiplomaSimulator({ owner: OWNER, clock: () => NOW })
+  simulator.addAuthorizedIssuer(UNIVERSITY, { sender: OWNER })
+  return simulator
+}
+
+function diplomaArgs(holderPublicKey: string, overrides: Partial<IssueDiplomaArgs> = {}): IssueDiplomaArgs {
+  return {
+    certificateHash: '0x' + randomHex(32),
+    studentDataCommitment: '0x' + randomHex(32),
+    degreeTypeHash: '0x' + randomHex(32),
+    departmentHash: '0x' + randomHex(32),
+    issuanceTimestamp: NOW - 100,
+    holderPublicKey,
+    expiresAt: 0,
+    ...overrides,
+  }
+}
+
+function issue(
+  simulator: PrivateDiplomaSimulator,
+  holderPublicKey: string,
+  overrides: Partial<IssueDiplomaArgs> = {}
+): IssueDiplomaArgs {
+  const args = diplomaArgs(holderPublicKey, overrides)
+  simulator.issueDiploma(args, { sender: UNIVERSITY })
+  return args
+}
+
+async function proveDiploma(
+  holder: TestHolder,
+  diploma: IssueDiplomaArgs,
+  verifierId = 'verifier-1',
+  epoch = EPOCH
+): Promise<ContractVerificationProof> {
+  const { nullifier, nullifierProof } = deriveVerifierNullifier(holder.nullifierKey, {
+    certificateHash: diploma.certificateHash,
+    verifierId,
+    epoch,
+  })
+  const proof = {
+    certificateHash: diploma.certificateHash,
+    proofCommitment: diploma.studentDataCommitment,
+    nullifier,
+    nonce: '0x' + randomHex(32),
+  }
+  const holderSignature = await signWithSecretKey(holder.signingKey, holderPresentationMessage(proof))
+  return { ...proof, holderSignature, verifierId, epoch, nullifierProof }
+}
+
+function presentation(
+  simulator: PrivateDiplomaSimulator,
+  holder: TestHolder,
+  diploma: IssueDiplomaArgs,
+  verifierId = 'verifier-1'
+): [ContractAnonymousPresentation, ContractPresentationWitness] {
+  const { root, members, paths } = diplomaSetTree(simulator.getDiplomaSet())
+  const idx = members.findIndex(m => m.certificateHash === diploma.certificateHash)
+  return [
+    {
+      diplomaSetRoot: root,
+      verifierId,
+      nonce: '0x' + randomHex(32),
+      scopedNullifier: scopedNullifier(holder.nullifierKey, verifierId),
+      disclosures: [],
+      predicates: [],
+      courses: [],
+      coursePredicates: [],
+    },
+    {
+      member: members[idx],
+      path: paths[idx],
+      holderSecretKey: holder.nullifierKey,
+      disclosures: [],
+      predicateProofs: [],
+      courseDisclosures: [],
+      courseProofs: [],
+    },
+  ]
+}
+
+async function registerMetadata(
+  simulator: PrivateDiplomaSimulator,
+  university: string,
+  overrides: Partial<IssuerMetadata> = {}
+): Promise<IssuerMetadata> {
+  const metadata: IssuerMetadata = {
+    name: 'Test University',
+    country: 'GB',
+    accreditationId: 'ACC-1',
+    logoHash: '',
+    website: '',
+    ...overrides,
+  }
+  const secretKey = randomHex(32)
+  const signature = await signWithSecretKey(secretKey, issuerMetadataMessage(university, metadata))
+  simulator.registerIssuerMetadata(metadata, holderPublicKeyOf(secretKey), signature, { sender: university })
+  return metadata
+}
+
+function assertionCode(call: () => unknown): ContractAssertionCode | null {
+  try {
+    call()
+    return null
+  } catch (error) {
+    if (error instanceof ContractAssertionError) return error.code
+    throw error
+  }
+}
+
+describe('verifyDegree holder binding', () => {
+  it('accepts a proof signed by the holder', async () => {
+    const simulator = createSimulator()
+    const holder = createHolder()
+    const diploma = issue(simulator, holder.holderKey)
+    expect(simulator.submitVerificationProof(await proveDiploma(holder, diploma))).toBe(true)
+  })
+
+  it('rejects a proof signed by someone else', async () => {
+    const simulator = createSimulator()
+    const diploma = issue(simulator, createHolder().holderKey)
+    const proof = await proveDiploma(createHolder(), diploma)
+    expect(assertionCode(() => simulator.submitVerificationProof(proof))).toBe('HOLDER_SIGNATURE_INVALID')
+  })
+
+  it('reports diplomas issued without a holder key as unbound', async () => {
+    const simulator = createSimulator()
+    const diploma = issue(simulator, '')
+    const proof = await proveDiploma(createHolder(), diploma)
+    expect(assertionCode(() => simulator.submitVerificationProof(proof))).toBe('HOLDER_KEY_UNBOUND')
+  })
+
+  it('verifies an unbound diploma once the issuer amends it with a holder key', async () => {
+    const simulator = createSimulator()
+    const holder = createHolder()
+    const original = issue(simulator, '')
+    const amended: IssueDiplomaArgs = {
+      ...original,
+      certificateHash: '0x' + randomHex(32),
+      holderPublicKey: holder.holderKey,
+    }
+    simulator.amendDiploma(original.certificateHash, amended, { sender: UNIVERSITY })
+    expect(simulator.submitVerificationProof(await proveDiploma(holder, amended))).toBe(true)
+  })
+})
+
+describe('verifyDegree nullifier replay', () => {
+  it('rejects a second proof for the same verifier in one epoch', async () => {
+    const simulator = createSimulator()
+    const holder = createHolder()
+    const diploma = issue(simulator, holder.holderKey)
+    expect(simulator.submitVerificationProof(await proveDiploma(holder, diploma))).toBe(true)
+
+    // A fresh nonce and signature still derive the same nullifier
+    const replay = await proveDiploma(holder, diploma)
+    expect(assertionCode(() => simulator.submitVerificationProof(replay))).toBe('NULLIFIER_ALREADY_USED')
+  })
+
+  it('accepts the same diploma for another verifier', async () => {
+    const simulator = createSimulator()
+    const holder = createHolder()
+    const diploma = issue(simulator, holder.holderKey)
+    simulator.submitVerificationProof(await proveDiploma(holder, diploma, 'verifier-1'))
+    expect(simulator.submitVerificationProof(await proveDiploma(holder, diploma, 'verifier-2'))).toBe(true)
+  })
+
+  it('rejects a proof derived for another epoch', async () => {
+    const simulator = createSimulator()
+    const holder = createHolder()
+    const diploma = issue(simulator, holder.holderKey)
+    const stale = await proveDiploma(holder, diploma, 'verifier-1', EPOCH - 1)
+    expect(assertionCode(() => simulator.submitVerificationProof(stale))).toBe('NULLIFIER_EPOCH_STALE')
+  })
+
+  it('accepts the verifier again next epoch and prunes the old nullifiers', async () => {
+    const simulator = createSimulator()
+    const holder = createHolder()
+    const diploma = issue(simulator, holder.holderKey)
+    simulator.submitVerificationProof(await proveDiploma(holder, diploma))
+
+    const nextEpoch = await proveDiploma(holder, diploma, 'verifier-1', EPOCH + 1)
+    expect(simulator.submitVerificationProof(nextEpoch, { blocknumber: NOW + NULLIFIER_EPOCH_SECONDS })).toBe(true)
+    expect(simulator.snapshot()).toMatchObject({ usedNullifiers: [nextEpoch.nullifier], nullifierEpoch: EPOCH + 1 })
+  })
+})
+
+describe('presentAnonymously scoped nullifiers', () => {
+  it('rejects a second presentation to the same verifier in one epoch', () => {
+    const simulator = createSimulator()
+    const holder = createHolder()
+    const diploma = issue(simulator, holder.holderKey)
+    simulator.presentAnonymously(...presentation(simulator, holder, diploma))
+
+    const [again, witness] = presentation(simulator, holder, diploma)
+    expect(assertionCode(() => simulator.presentAnonymously(again, witness))).toBe(
+      'SCOPED_NULLIFIER_ALREADY_USED'
+    )
+  })
+
+  it('accepts presentations to other verifiers and in later epochs', () => {
+    const simulator = createSimulator()
+    const holder = createHolder()
+    const diploma = issue(simulator, holder.holderKey)
+    simulator.presentAnonymously(...presentation(simulator, holder, diploma))
+    simulator.presentAnonymously(...presentation(simulator, holder, diploma, 'verifier-2'))
+
+    const [nextWeek, witness] = presentation(simulator, holder, diploma)
+    const record = simulator.presentAnonymously(nextWeek, witness, {
+      blocknumber: NOW + NULLIFIER_EPOCH_SECONDS,
+    })
+    expect(record.scopedNullifier).toBe(nextWeek.scopedNullifier)
+  })
+
+  it('keeps spent scoped nullifiers across snapshots', () => {
+    const simulator = createSimulator()
+    const holder = createHolder()
+    const diploma = issue(simulator, holder.holderKey)
+    simulator.presentAnonymously(...presentation(simulator, holder, diploma))
+
+    const restored = PrivateDiplomaSimulator.fromSnapshot(simulator.snapshot(), () => NOW)
+    const [again, witness] = presentation(restored, holder, diploma)
+    expect(assertionCode(() => restored.presentAnonymously(again, witness))).toBe(
+      'SCOPED_NULLIFIER_ALREADY_USED'
+    )
+  })
+})
+
+describe('diploma expiry', () => {
+  it('verifies until the expiry time and fails from it', async () => {
+    const simulator = createSimulator()
+    const holder = createHolder()
+    const diploma = issue(simulator, holder.holderKey, { expiresAt: NOW + 1000 })
+
+    const before = await proveDiploma(holder, diploma, 'verifier-1')
+    expect(simulator.submitVerificationProof(before, { blocknumber: NOW + 999 })).toBe(true)
+    expect(simulator.checkDiplomaValidity(diploma.certificateHash, { blocknumber: NOW + 999 })).toBe(true)
+
+    const at = await proveDiploma(holder, diploma, 'verifier-2')
+    expect(assertionCode(() => simulator.submitVerificationProof(at, { blocknumber: NOW + 1000 }))).toBe(
+      'DIPLOMA_EXPIRED'
+    )
+    expect(simulator.checkDiplomaValidity(diploma.certificateHash, { blocknumber: NOW + 1000 })).toBe(false)
+  })
+
+  it('never expires a diploma issued without an expiry', async () => {
+    const simulator = createSimulator()
+    const holder = createHolder()
+    const diploma = issue(simulator, holder.holderKey)
+    const later = NOW + 50 * 365 * 24 * 3600
+    expect(simulator.checkDiplomaValidity(diploma.certificateHash, { blocknumber: later })).toBe(true)
+  })
+
+  it('rejects an expiry at or before issuance', () => {
+    const simulator = createSimulator()
+    expect(assertionCode(() => issue(simulator, createHolder().holderKey, { expiresAt: NOW - 100 }))).toBe(
+      'EXPIRY_BEFORE_ISSUANCE'
+    )
+  })
+})
+
+describe('issuance time', () => {
+  it('accepts an issuance timestamp up to the current block', () => {
+    const simulator = createSimulator()
+    const diploma = issue(simulator, createHolder().holderKey, { issuanceTimestamp: NOW })
+    expect(simulator.getDiploma(diploma.certificateHash)?.issuanceTimestamp).toBe(NOW)
+  })
+
+  it('rejects an issuance timestamp in the future', () => {
+    const simulator = createSimulator()
+    expect(assertionCode(() => issue(simulator, createHolder().holderKey, { issuanceTimestamp: NOW + 1 }))).toBe(
+      'ISSUANCE_IN_FUTURE'
+    )
+  })
+})
+
+describe('revocation and reinstatement', () => {
+  it('records the reason and effective date in the status history', () => {
+    const simulator = createSimulator()
+    const diploma = issue(simulator, createHolder().holderKey)
+    simulator.revokeDiploma(diploma.certificateHash, 1, NOW - 50, { sender: UNIVERSITY })
+
+    expect(simulator.getDiplomaStatus(diploma.certificateHash)).toBe(0)
+    expect(simulator.getStatusHistory(diploma.certificateHash)).toEqual([
+      { status: 1, reason: 0, effectiveAt: NOW - 100, recordedAt: NOW, changedBy: UNIVERSITY },
+      { status: 0, reason: 1, effectiveAt: NOW - 50, recordedAt: NOW, changedBy: UNIVERSITY },
+    ])
+  })
+
+  it('rejects an unknown reason', () => {
+    const simulator = createSimulator()
+    const diploma = issue(simulator, createHolder().holderKey)
+    const revoke = () => simulator.revokeDiploma(diploma.certificateHash, 5 as 1, NOW, { sender: UNIVERSITY })
+    expect(assertionCode(revoke)).toBe('INVALID_REVOCATION_REASON')
+  })
+
+  it('rejects an effective date before issuance or after now', () => {
+    const simulator = createSimulator()
+    const diploma = issue(simulator, createHolder().holderKey)
+    const revokeAt = (effectiveAt: number) => () =>
+      simulator.revokeDiploma(diploma.certificateHash, 2, effectiveAt, { sender: UNIVERSITY })
+    expect(assertionCode(revokeAt(NOW - 101))).toBe('REVOCATION_DATE_INVALID')
+    expect(assertionCode(revokeAt(NOW + 1))).toBe('REVOCATION_DATE_INVALID')
+    expect(assertionCode(revokeAt(NOW - 100))).toBeNull()
+  })
+
+  it('reinstates a revoked diploma, which verifies again', async () => {
+    const simulator = createSimulator()
+    const holder = createHolder()
+    const diploma = issue(simulator, holder.holderKey)
+    simulator.revokeDiploma(diploma.certificateHash, 2, NOW, { sender: UNIVERSITY })
+    const proof = await proveDiploma(holder, diploma)
+    expect(assertionCode(() => simulator.submitVerificationProof(proof))).toBe('DIPLOMA_REVOKED')
+
+    simulator.reinstateDiploma(diploma.certificateHash, { sender: UNIVERSITY })
+    expect(simulator.getStatusHistory(diploma.certificateHash).map(c => c.status)).toEqual([1, 0, 1])
+    expect(simulator.submitVerificationProof(proof)).toBe(true)
+  })
+
+  it('only reinstates a revoked diploma, and only for its issuer', () => {
+    const simulator = createSimulator()
+    simulator.addAuthorizedIssuer('addr_other_university', { sender: OWNER })
+    const diploma = issue(simulator, createHolder().holderKey)
+    expect(assertionCode(() => simulator.reinstateDiploma(diploma.certificateHash, { sender: UNIVERSITY }))).toBe(
+      'DIPLOMA_NOT_REVOKED'
+    )
+    simulator.revokeDiploma(diploma.certificateHash, 2, NOW, { sender: UNIVERSITY })
+    expect(
+      assertionCode(() => simulator.reinstateDiploma(diploma.certificateHash, { sender: 'addr_other_university' }))
+    ).toBe('NOT_DIPLOMA_ISSUER')
+  })
+
+  it('does not reinstate a diploma revoked as superseded', () => {
+    const simulator = createSimulator()
+    const diploma = issue(simulator, createHolder().holderKey)
+    simulator.revokeDiploma(diploma.certificateHash, 3, NOW, { sender: UNIVERSITY })
+    expect(assertionCode(() => simulator.reinstateDiploma(diploma.certificateHash, { sender: UNIVERSITY }))).toBe(
+      'REINSTATEMENT_NOT_ALLOWED'
+    )
+  })
+
+  it('neither revokes nor reinstates a diploma replaced by an amendment', () => {
+    const simulator = createSimulator()
+    const holder = createHolder()
+    const original = issue(simulator, holder.holderKey)
+    simulator.amendDiploma(original.certificateHash, diplomaArgs(holder.holderKey), { sender: UNIVERSITY })
+
+    const hash = original.certificateHash
+    expect(assertionCode(() => simulator.revokeDiploma(hash, 2, NOW, { sender: UNIVERSITY }))).toBe(
+      'DIPLOMA_SUPERSEDED'
+    )
+    expect(assertionCode(() => simulator.reinstateDiploma(hash, { sender: UNIVERSITY }))).toBe('DIPLOMA_NOT_REVOKED')
+  })
+})
+
+describe('amendments', () => {
+  it('links every amendment to its predecessor and supersedes all but the last', () => {
+    const simulator = createSimulator()
+    const holder = createHolder()
+    const first = issue(simulator, holder.holderKey)
+    const second = diplomaArgs(holder.holderKey)
+    const third = diplomaArgs(holder.holderKey)
+    simulator.amendDiploma(first.certificateHash, second, { sender: UNIVERSITY })
+    simulator.amendDiploma(second.certificateHash, third, { sender: UNIVERSITY })
+
+    const links = [first, second, third].map(d => {
+      const { status, supersedes, supersededBy } = simulator.getDiploma(d.certificateHash)!
+      return { status, supersedes, supersededBy }
+    })
+    expect(links).toEqual([
+      { status: 2, supersedes: '', supersededBy: second.certificateHash },
+      { status: 2, supersedes: first.certificateHash, supersededBy: third.certificateHash },
+      { status: 1, supersedes: second.certificateHash, supersededBy: '' },
+    ])
+  })
+
+  it('does not amend a superseded or revoked diploma', () => {
+    const simulator = createSimulator()
+    const holder = createHolder()
+    const original = issue(simulator, holder.holderKey)
+    simulator.amendDiploma(original.certificateHash, diplomaArgs(holder.holderKey), { sender: UNIVERSITY })
+    const amendAgain = () =>
+      simulator.amendDiploma(original.certificateHash, diplomaArgs(holder.holderKey), { sender: UNIVERSITY })
+    expect(assertionCode(amendAgain)).toBe('DIPLOMA_SUPERSEDED')
+
+    const revoked = issue(simulator, holder.holderKey)
+    simulator.revokeDiploma(revoked.certificateHash, 1, NOW, { sender: UNIVERSITY })
+    const amendRevoked = () =>
+      simulator.amendDiploma(revoked.certificateHash, diplomaArgs(holder.holderKey), { sender: UNIVERSITY })
+    expect(assertionCode(amendRevoked)).toBe('DIPLOMA_REVOKED')
+  })
+
+  it('rejects proofs of a superseded hash and accepts the amendment', async () => {
+    const simulator = createSimulator()
+    const holder = createHolder()
+    const original = issue(simulator, holder.holderKey)
+    const amended = diplomaArgs(holder.holderKey)
+    simulator.amendDiploma(original.certificateHash, amended, { sender: UNIVERSITY })
+
+    const stale = await proveDiploma(holder, original)
+    expect(assertionCode(() => simulator.submitVerificationProof(stale))).toBe('DIPLOMA_SUPERSEDED')
+    expect(simulator.checkDiplomaValidity(original.certificateHash)).toBe(false)
+    expect(simulator.submitVerificationProof(await proveDiploma(holder, amended))).toBe(true)
+  })
+})
+
+describe('issuer metadata approval', () => {
+  it('approves the metadata the owner reviewed', async () => {
+    const simulator = createSimulator()
+    const metadata = await registerMetadata(simulator, UNIVERSITY)
+    const approved = simulator.approveIssuerMetadata(UNIVERSITY, issuerMetadataHash(UNIVERSITY, metadata), {
+      sender: OWNER,
+    })
+    expect(approved).toMatchObject({ status: 1, approvedAt: NOW })
+  })
+
+  it('rejects an approval for a hash other than the submitted metadata', async () => {
+    const simulator = createSimulator()
+    const reviewed = await registerMetadata(simulator, UNIVERSITY)
+    await registerMetadata(simulator, UNIVERSITY, { name: 'Renamed University' })
+
+    const approve = () =>
+      simulator.approveIssuerMetadata(UNIVERSITY, issuerMetadataHash(UNIVERSITY, reviewed), { sender: OWNER })
+    expect(assertionCode(approve)).toBe('ISSUER_PROFILE_CHANGED')
+    expect(simulator.getIssuerProfile(UNIVERSITY)?.status).toBe(0)
+  })
+})
+
+describe('accreditation', () => {
+  const GB_ACCREDITOR = 'addr_accreditor_gb'
+  const FR_ACCREDITOR = 'addr_accreditor_fr'
+
+  function createAccredited(): PrivateDiplomaSimulator {
+    const simulator = createSimulator()
+    simulator.appointAccreditor(GB_ACCREDITOR, 'GB Accreditor', 'GB', { sender: OWNER })
+    simulator.appointAccreditor(FR_ACCREDITOR, 'FR Accreditor', 'FR', { sender: OWNER })
+    simulator.accreditIssuer(UNIVERSITY, { sender: GB_ACCREDITOR })
+    return simulator
+  }
+
+  it('keeps a university in the jurisdiction that first accredited it', async () => {
+    const simulator = createAccredited()
+    expect(assertionCode(() => simulator.accreditIssuer(UNIVERSITY, { sender: FR_ACCREDITOR }))).toBe(
+      'OUTSIDE_JURISDICTION'
+    )
+    expect(assertionCode(() => simulator.suspendIssuer(UNIVERSITY, { sender: FR_ACCREDITOR }))).toBe(
+      'OUTSIDE_JURISDICTION'
+    )
+    await expect(registerMetadata(simulator, UNIVERSITY, { country: 'FR' })).rejects.toMatchObject({
+      code: 'OUTSIDE_JURISDICTION',
+    })
+  })
+
+  it('does not accredit a university registered in another country', async () => {
+    const simulator = createSimulator()
+    simulator.appointAccreditor(GB_ACCREDITOR, 'GB Accreditor', 'GB', { sender: OWNER })
+    await registerMetadata(simulator, UNIVERSITY, { country: 'FR' })
+    expect(assertionCode(() => simulator.accreditIssuer(UNIVERSITY, { sender: GB_ACCREDITOR }))).toBe(
+      'OUTSIDE_JURISDICTION'
+    )
+  })
+
+  it('only moves an accreditor to another jurisdiction once it accredits nobody there', () => {
+    const simulator = createAccredited()
+    const move = () => simulator.appointAccreditor(GB_ACCREDITOR, 'GB Accreditor', 'IE', { sender: OWNER })
+    expect(assertionCode(move)).toBe('JURISDICTION_IN_USE')
+    expect(simulator.appointAccreditor(GB_ACCREDITOR, 'Renamed Accreditor', 'GB', { sender: OWNER }).name).toBe(
+      'Renamed Accreditor'
+    )
+    expect(simulator.appointAccreditor(FR_ACCREDITOR, 'FR Accreditor', 'IE', { sender: OWNER }).jurisdiction).toBe(
+      'IE'
+    )
+  })
+
+  it('stops a suspended university issuing, and its diplomas verifying, until accredited again', async () => {
+    const simulator = createAccredited()
+    const holder = createHolder()
+    const diploma = issue(simulator, holder.holderKey)
+    simulator.suspendIssuer(UNIVERSITY, { sender: GB_ACCREDITOR })
+
+    expect(simulator.verifyIssuanceAuthority(UNIVERSITY)).toBe(false)
+    expect(assertionCode(() => issue(simulator, holder.holderKey))).toBe('ISSUER_NOT_AUTHORIZED')
+    const proof = await proveDiploma(holder, diploma)
+    expect(assertionCode(() => simulator.submitVerificationProof(proof))).toBe('ISSUER_NOT_AUTHORIZED')
+
+    simulator.accreditIssuer(UNIVERSITY, { sender: GB_ACCREDITOR })
+    expect(simulator.submitVerificationProof(proof)).toBe(true)
+  })
+
+  it('removes the authority of every university a removed accreditor accredited', () => {
+    const simulator = createAccredited()
+    simulator.removeAccreditor(GB_ACCREDITOR, { sender: OWNER })
+    expect(simulator.verifyIssuanceAuthority(UNIVERSITY)).toBe(false)
+    expect(simulator.getAuthorizedIssuers()).not.toContain(UNIVERSITY)
+    expect(assertionCode(() => simulator.accreditIssuer(UNIVERSITY, { sender: GB_ACCREDITOR }))).toBe(
+      'NOT_ACCREDITOR'
+    )
+
+    // Another accreditor of the same jurisdiction can take the university over
+    simulator.appointAccreditor('addr_accreditor_gb_2', 'GB Accreditor 2', 'GB', { sender: OWNER })
+    simulator.accreditIssuer(UNIVERSITY, { sender: 'addr_accreditor_gb_2' })
+    expect(simulator.verifyIssuanceAuthority(UNIVERSITY)).toBe(true)
+  })
+})
+
+describe('delegation', () => {
+  const DEPARTMENT = 'addr_department'
+  const OTHER_UNIVERSITY = 'addr_other_university'
+  const DEGREE = '0x' + randomHex(32)
+
+  function createDelegated(expiresAt = NOW + 1000): PrivateDiplomaSimulator {
+    const simulator = createSimulator()
+    simulator.addAuthorizedIssuer(OTHER_UNIVERSITY, { sender: OWNER })
+    simulator.grantDelegation(DEPARTMENT, [DEGREE], [], expiresAt, { sender: UNIVERSITY })
+    return simulator
+  }
+
+  const issueAsDepartment = (simulator: PrivateDiplomaSimulator, overrides: Partial<IssueDiplomaArgs> = {}) => {
+    const args = diplomaArgs(createHolder().holderKey, { degreeTypeHash: DEGREE, ...overrides })
+    simulator.issueDiploma(args, { sender: DEPARTMENT })
+    return args
+  }
+
+  it("issues in the university's name within the delegated scope only", () => {
+    const simulator = createDelegated()
+    const diploma = issueAsDepartment(simulator)
+    expect(simulator.getDiploma(diploma.certificateHash)).toMatchObject({
+      issuerAddress: UNIVERSITY,
+      issuedBy: DEPARTMENT,
+    })
+    // An empty department list allows any department
+    expect(assertionCode(() => issueAsDepartment(simulator, { departmentHash: '0x' + randomHex(32) }))).toBeNull()
+    expect(assertionCode(() => issueAsDepartment(simulator, { degreeTypeHash: '0x' + randomHex(32) }))).toBe(
+      'OUTSIDE_DELEGATION_SCOPE'
+    )
+  })
+
+  it('stops at the delegation expiry', () => {
+    const simulator = createDelegated()
+    const diploma = issueAsDepartment(simulator)
+    const expired = { blocknumber: NOW + 1000 }
+
+    const issueLate = () =>
+      simulator.issueDiploma(diplomaArgs('', { degreeTypeHash: DEGREE }), { sender: DEPARTMENT, ...expired })
+    expect(assertionCode(issueLate)).toBe('DELEGATION_EXPIRED')
+    const revokeLate = () =>
+      simulator.revokeDiploma(diploma.certificateHash, 2, NOW, { sender: DEPARTMENT, ...expired })
+    expect(assertionCode(revokeLate)).toBe('NOT_DIPLOMA_ISSUER')
+    expect(
+      assertionCode(() => simulator.grantDelegation(DEPARTMENT, [], [], NOW, { sender: UNIVERSITY }))
+    ).toBe('DELEGATION_EXPIRY_INVALID')
+  })
+
+  it('refuses a delegate held by another university until released', () => {
+    const simulator = createDelegated()
+    const grant = () => simulator.grantDelegation(DEPARTMENT, [], [], NOW + 1000, { sender: OTHER_UNIVERSITY })
+    expect(assertionCode(grant)).toBe('DELEGATE_TAKEN')
+    expect(
+      assertionCode(() => simulator.grantDelegation(OTHER_UNIVERSITY, [], [], NOW + 1000, { sender: UNIVERSITY }))
+    ).toBe('INVALID_DELEGATE')
+
+    simulator.revokeDelegation(DEPARTMENT, { sender: UNIVERSITY })
+    expect(grant().universityAddress).toBe(OTHER_UNIVERSITY)
+  })
+
+  it('lets only the delegating university revoke a delegate, which then loses every right', () => {
+    const simulator = createDelegated()
+    const diploma = issueAsDepartment(simulator)
+    expect(assertionCode(() => simulator.revokeDelegation(DEPARTMENT, { sender: OTHER_UNIVERSITY }))).toBe(
+      'NOT_DELEGATING_UNIVERSITY'
+    )
+    simulator.revokeDelegation(DEPARTMENT, { sender: UNIVERSITY })
+
+    expect(assertionCode(() => issueAsDepartment(simulator))).toBe('DELEGATION_REVOKED')
+    const revoke = () => simulator.revokeDiploma(diploma.certificateHash, 2, NOW, { sender: DEPARTMENT })
+    expect(assertionCode(revoke)).toBe('NOT_DIPLOMA_ISSUER')
+    expect(simulator.checkDiplomaValidity(diploma.certificateHash)).toBe(true)
+  })
+
+  it('keeps the university in control of diplomas its delegate issued', () => {
+    const simulator = createDelegated()
+    const diploma = issueAsDepartment(simulator)
+    simulator.revokeDelegation(DEPARTMENT, { sender: UNIVERSITY })
+
+    simulator.revokeDiploma(diploma.certificateHash, 2, NOW, { sender: UNIVERSITY })
+    simulator.reinstateDiploma(diploma.certificateHash, { sender: UNIVERSITY })
+    const amended = diplomaArgs(createHolder().holderKey)
+    simulator.amendDiploma(diploma.certificateHash, amended, { sender: UNIVERSITY })
+    expect(simulator.getDiploma(amended.certificateHash)).toMatchObject({ issuerAddress: UNIVERSITY, issuedBy: '' })
+  })
+
+  it("does not let a delegate manage the university's own diplomas", () => {
+    const simulator = createDelegated()
+    const diploma = issue(simulator, createHolder().holderKey, { degreeTypeHash: DEGREE })
+    const revoke = () => simulator.revokeDiploma(diploma.certificateHash, 2, NOW, { sender: DEPARTMENT })
+    expect(assertionCode(revoke)).toBe('NOT_DIPLOMA_ISSUER')
+  })
+})
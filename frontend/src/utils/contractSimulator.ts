@@ -0,0 +1,1308 @@
+/**
+ * PrivateDiploma Contract Simulator
+ * In-process TypeScript mirror of contracts/PrivateDiploma.compact
+ *
+ * Every circuit performs the same `assert`s, in the same order, as the
+ * Compact source. A failed assert throws a ContractAssertionError and leaves
+ * state untouched, exactly like an aborted transaction. `tx.sender` and
+ * `tx.blocknumber` are supplied per call; when `blocknumber` is omitted the
+ * simulator's clock is used.
+ */
+
+import {
+  diplomaSetLeafHash,
+  diplomaSetRoot,
+  diplomaSetRootFromPath,
+  scopedNullifier,
+} from './anonymousPresentation'
+import { holderKeyFor, holderKeyMatches, holderPresentationMessage, verifyHolderSignature } from './holderSignature'
+import { batchLeafHash, merkleRootFromPath } from './merkleBatch'
+import { issuerMetadataHash, issuerMetadataMessage } from './issuerRegistry'
+import type { IssuerMetadata } from './ledgerBackend'
+import { predicateId, predicateProofErrors, type Predicate, type PredicateProof } from './predicateProofs'
+import {
+  disclosureErrors,
+  type AttributeDisclosure,
+  type AttributeValue,
+  type DisclosableAttribute,
+} from './selectiveDisclosure'
+import {
+  courseDisclosureErrors,
+  coursePredicateId,
+  courseProofErrors,
+  type CourseDisclosure,
+  type CoursePredicate,
+  type CourseProof,
+  type TranscriptCourse,
+} from './transcriptProofs'
+import { NULLIFIER_EPOCH_SECONDS, verifierNullifierValid } from './verifierNullifier'
+
+/** Diploma status: 0 = revoked, 1 = valid, 2 = superseded by an amendment */
+export type ContractDiplomaStatus = 0 | 1 | 2
+
+/** Mirrors `DiplomaRecord` in the contract */
+export interface ContractDiplomaRecord {
+  certificateHash: string
+  issuerAddress: string
+  issuanceTimestamp: number
+  status: ContractDiplomaStatus
+  studentDataCommitment: string
+  degreeTypeHash: string
+  departmentHash: string
+  /** Empty for diplomas issued before holder binding */
+  holderPublicKey: string
+  /** Unix seconds after which the diploma no longer verifies; 0 = never */
+  expiresAt: number
+  /** Certificate this one corrects; empty for an original issuance */
+  supersedes: string
+  /** Correction that replaced this certificate; empty while current */
+  supersededBy: string
+  /** Department that issued it under delegation; empty if the university did */
+  issuedBy: string
+}
+
+/**
+ * Mirrors `RevocationReason` in the contract
+ * 1 = misconduct, 2 = clerical error, 3 = superseded, 4 = accreditation withdrawn
+ */
+export type ContractRevocationReason = 1 | 2 | 3 | 4
+
+/** Mirrors `StatusChange` in the contract; issuance is the first entry */
+export interface ContractStatusChange {
+  status: ContractDiplomaStatus
+  /** 0 unless the change is a revocation */
+  reason: 0 | ContractRevocationReason
+  effectiveAt: number
+  /** `tx.blocknumber` of the call that made the change */
+  recordedAt: number
+  changedBy: string
+}
+
+/** Mirrors `VerificationProof` in the contract */
+export interface ContractVerificationProof {
+  certificateHash: string
+  proofCommitment: string
+  nullifier: string
+  nonce: string
+  holderSignature: string
+  verifierId: string
+  epoch: number
+  nullifierProof: string
+}
+
+/** Arguments of the `issueDiploma` circuit */
+export interface IssueDiplomaArgs {
+  certificateHash: string
+  studentDataCommitment: string
+  degreeTypeHash: string
+  departmentHash: string
+  issuanceTimestamp: number
+  holderPublicKey: string
+  /** 0 = never expires */
+  expiresAt: number
+}
+
+/** Mirrors `MerkleStep` in the contract */
+export interface ContractMerkleStep {
+  sibling: string
+  siblingOnLeft: boolean
+}
+
+/** Mirrors `BatchInclusion` in the contract; the leaf is an issuance */
+export interface ContractBatchInclusion {
+  merkleRoot: string
+  leaf: IssueDiplomaArgs
+  path: ContractMerkleStep[]
+}
+
+/** Mirrors `BatchAnchor` in the contract */
+export interface ContractBatchAnchor {
+  merkleRoot: string
+  issuerAddress: string
+  anchoredAt: number
+  leafCount: number
+}
+
+/** Profile status: 0 = pending owner approval, 1 = approved */
+export type ContractIssuerProfileStatus = 0 | 1
+
+/** Mirrors `IssuerProfile` in the contract */
+export interface ContractIssuerProfile {
+  issuerAddress: string
+  metadata: IssuerMetadata
+  metadataHash: string
+  publicKey: string
+  signature: string
+  status: ContractIssuerProfileStatus
+  submittedAt: number
+  /** 0 until approved */
+  approvedAt: number
+}
+
+/** Mirrors `Accreditor` in the contract */
+export interface ContractAccreditor {
+  accreditorAddress: string
+  name: string
+  /** ISO 3166-1 alpha-2 country the accreditor covers */
+  jurisdiction: string
+  appointedAt: number
+}
+
+/** Accreditation status: 1 = active, 2 = suspended */
+export type ContractAccreditationStatus = 1 | 2
+
+/** Mirrors `Accreditation` in the contract */
+export interface ContractAccreditation {
+  issuerAddress: string
+  /** Accreditor that last accredited or suspended the university */
+  accreditorAddress: string
+  jurisdiction: string
+  status: ContractAccreditationStatus
+  accreditedAt: number
+  updatedAt: number
+}
+
+/** Mirrors `Delegation` in the contract */
+export interface ContractDelegation {
+  delegateAddress: string
+  universityAddress: string
+  /** Degree types the department may issue; empty = any */
+  degreeTypeHashes: string[]
+  /** Departments the department may issue for; empty = any */
+  departmentHashes: string[]
+  /** Unix seconds from which the delegate can no longer issue */
+  expiresAt: number
+  grantedAt: number
+  /** 0 while not revoked */
+  revokedAt: number
+}
+
+/** Mirrors `DiplomaSetLeaf` in the contract */
+export interface ContractDiplomaSetLeaf {
+  certificateHash: string
+  studentDataCommitment: string
+  holderPublicKey: string
+  expiresAt: number
+}
+
+/** Mirrors `AnonymousPresentation`: the public inputs of presentAnonymously */
+export interface ContractAnonymousPresentation {
+  diplomaSetRoot: string
+  verifierId: string
+  nonce: string
+  scopedNullifier: string
+  disclosures: { name: DisclosableAttribute; value: AttributeValue }[]
+  predicates: Predicate[]
+  courses: TranscriptCourse[]
+  coursePredicates: CoursePredicate[]
+}
+
+/** Mirrors `PresentationWitness`: the private inputs of presentAnonymously */
+export interface ContractPresentationWitness {
+  member: ContractDiplomaSetLeaf
+  path: ContractMerkleStep[]
+  holderSecretKey: string
+  disclosures: AttributeDisclosure[]
+  predicateProofs: PredicateProof[]
+  courseDisclosures: CourseDisclosure[]
+  courseProofs: CourseProof[]
+}
+
+/** Mirrors `PresentationRecord`: what the ledger keeps of a presentation */
+export interface ContractPresentationRecord extends ContractAnonymousPresentation {
+  presentedAt: number
+}
+
+/** The implicit `tx` of a Compact circuit call */
+export interface TxContext {
+  sender: string
+  blocknumber: number
+}
+
+/** Plain-data copy of the contract state, suitable for persistence */
+export interface ContractStateSnapshot {
+  contractOwner: string
+  authorizedIssuers: string[]
+  usedNullifiers: string[]
+  /** Epoch of `usedNullifiers`; absent in snapshots taken before scoped nullifiers */
+  nullifierEpoch?: number
+  diplomaLedger: ContractDiplomaRecord[]
+  /** Keyed by certificate hash; absent in snapshots taken before status history */
+  statusHistory?: Record<string, ContractStatusChange[]>
+  /** Absent in snapshots taken before batch anchoring */
+  batchAnchors?: ContractBatchAnchor[]
+  /** Absent in snapshots taken before the issuer registry */
+  issuerProfiles?: ContractIssuerProfile[]
+  /** Absent in snapshots taken before accreditation */
+  accreditors?: ContractAccreditor[]
+  accreditations?: ContractAccreditation[]
+  /** Absent in snapshots taken before delegation */
+  delegations?: ContractDelegation[]
+  /** Absent in snapshots taken before anonymous presentations */
+  anonymousPresentations?: ContractPresentationRecord[]
+  /** Absent in snapshots taken before scoped nullifiers were tracked */
+  usedScopedNullifiers?: string[]
+  /** Epoch of `usedScopedNullifiers` */
+  scopedNullifierEpoch?: number
+}
+
+export interface SimulatorOptions {
+  /** `initialOwner` argument of the contract constructor */
+  owner: string
+  /** Source of `tx.blocknumber` when a call does not supply one */
+  clock?: () => number
+}
+
+/** One code per `assert` in the contract */
+export type ContractAssertionCode =
+  | 'NOT_CONTRACT_OWNER'
+  | 'ISSUER_NOT_AUTHORIZED'
+  | 'DIPLOMA_ALREADY_ISSUED'
+  | 'ISSUANCE_IN_FUTURE'
+  | 'EXPIRY_BEFORE_ISSUANCE'
+  | 'BATCH_EMPTY'
+  | 'BATCH_ALREADY_ANCHORED'
+  | 'ISSUER_METADATA_SIGNATURE_INVALID'
+  | 'ISSUER_PROFILE_NOT_FOUND'
+  | 'ISSUER_PROFILE_CHANGED'
+  | 'NOT_ACCREDITOR'
+  | 'INVALID_JURISDICTION'
+  | 'OUTSIDE_JURISDICTION'
+  | 'JURISDICTION_IN_USE'
+  | 'ACCREDITATION_NOT_FOUND'
+  | 'INVALID_DELEGATE'
+  | 'DELEGATION_EXPIRY_INVALID'
+  | 'DELEGATE_TAKEN'
+  | 'DELEGATION_NOT_FOUND'
+  | 'NOT_DELEGATING_UNIVERSITY'
+  | 'DELEGATION_REVOKED'
+  | 'DELEGATION_EXPIRED'
+  | 'OUTSIDE_DELEGATION_SCOPE'
+  | 'DIPLOMA_NOT_FOUND'
+  | 'NOT_DIPLOMA_ISSUER'
+  | 'INVALID_REVOCATION_REASON'
+  | 'REVOCATION_DATE_INVALID'
+  | 'DIPLOMA_NOT_REVOKED'
+  | 'REINSTATEMENT_NOT_ALLOWED'
+  | 'DIPLOMA_SUPERSEDED'
+  | 'DIPLOMA_REVOKED'
+  | 'DIPLOMA_EXPIRED'
+  | 'BATCH_NOT_FOUND'
+  | 'INCLUSION_PROOF_INVALID'
+  | 'PROOF_COMMITMENT_MISMATCH'
+  | 'HOLDER_KEY_UNBOUND'
+  | 'HOLDER_SIGNATURE_INVALID'
+  | 'NULLIFIER_EPOCH_STALE'
+  | 'NULLIFIER_INVALID'
+  | 'NULLIFIER_ALREADY_USED'
+  | 'DIPLOMA_SET_ROOT_STALE'
+  | 'NOT_IN_DIPLOMA_SET'
+  | 'HOLDER_KEY_MISMATCH'
+  | 'SCOPED_NULLIFIER_INVALID'
+  | 'SCOPED_NULLIFIER_ALREADY_USED'
+  | 'DISCLOSURE_INVALID'
+  | 'PREDICATE_UNPROVEN'
+  | 'PRESENTATION_ALREADY_RECORDED'
+
+const ASSERTION_MESSAGES: Record<ContractAssertionCode, string> = {
+  NOT_CONTRACT_OWNER: 'Only the contract owner can call this circuit',
+  ISSUER_NOT_AUTHORIZED: 'Issuer not authorized',
+  DIPLOMA_ALREADY_ISSUED: 'Diploma already issued',
+  ISSUANCE_IN_FUTURE: 'Issuance timestamp is in the future',
+  EXPIRY_BEFORE_ISSUANCE: 'Expiry must be after the issuance timestamp',
+  BATCH_EMPTY: 'A batch must contain at least one diploma',
+  BATCH_ALREADY_ANCHORED: 'Batch root already anchored',
+  ISSUER_METADATA_SIGNATURE_INVALID: 'Issuer metadata is not signed with the given key',
+  ISSUER_PROFILE_NOT_FOUND: 'Issuer has not registered metadata',
+  ISSUER_PROFILE_CHANGED: 'Issuer metadata changed since it was reviewed',
+  NOT_ACCREDITOR: 'Only an appointed accreditor can call this circuit',
+  INVALID_JURISDICTION: 'Jurisdiction must be a two-letter country code',
+  OUTSIDE_JURISDICTION: "University is outside the accreditor's jurisdiction",
+  JURISDICTION_IN_USE: 'Accreditor still has universities in its current jurisdiction',
+  ACCREDITATION_NOT_FOUND: 'University is not accredited',
+  INVALID_DELEGATE: 'Issuing rights can only be delegated to an address that is not itself an issuer',
+  DELEGATION_EXPIRY_INVALID: 'Delegation must expire in the future',
+  DELEGATE_TAKEN: 'Address already holds a delegation from another university',
+  DELEGATION_NOT_FOUND: 'Address holds no delegation',
+  NOT_DELEGATING_UNIVERSITY: 'Only the delegating university can change this delegation',
+  DELEGATION_REVOKED: 'Delegation has been revoked',
+  DELEGATION_EXPIRED: 'Delegation has expired',
+  OUTSIDE_DELEGATION_SCOPE: 'Degree type or department is outside the delegation',
+  DIPLOMA_NOT_FOUND: 'Diploma not found',
+  NOT_DIPLOMA_ISSUER: 'Only the issuing university or its issuing department can change this diploma\'s status',
+  INVALID_REVOCATION_REASON: 'Unknown revocation reason',
+  REVOCATION_DATE_INVALID: 'Revocation must take effect between issuance and now',
+  DIPLOMA_NOT_REVOKED: 'Diploma is not revoked',
+  REINSTATEMENT_NOT_ALLOWED: 'A superseded diploma cannot be reinstated',
+  DIPLOMA_SUPERSEDED: 'Diploma has been superseded by an amendment',
+  DIPLOMA_REVOKED: 'Diploma has been revoked',
+  DIPLOMA_EXPIRED: 'Diploma has expired',
+  BATCH_NOT_FOUND: 'Batch root is not anchored',
+  INCLUSION_PROOF_INVALID: 'Diploma is not included in the anchored batch',
+  PROOF_COMMITMENT_MISMATCH: 'Proof commitment does not match the ledger commitment',
+  HOLDER_KEY_UNBOUND: 'Diploma was issued without a holder key; the issuer must amend it to bind one',
+  HOLDER_SIGNATURE_INVALID: 'Proof is not signed by the diploma holder',
+  NULLIFIER_EPOCH_STALE: 'Nullifier was derived for another epoch',
+  NULLIFIER_INVALID: 'Nullifier is not derived from the holder key for this verifier and epoch',
+  NULLIFIER_ALREADY_USED: 'Nullifier has already been used',
+  DIPLOMA_SET_ROOT_STALE: 'Diploma set changed since the presentation was built',
+  NOT_IN_DIPLOMA_SET: 'Diploma is not in the set of valid diplomas',
+  HOLDER_KEY_MISMATCH: "Presenter does not hold the diploma's holder key",
+  SCOPED_NULLIFIER_INVALID: 'Scoped nullifier is not derived from the holder key and verifier',
+  SCOPED_NULLIFIER_ALREADY_USED: 'This holder already presented anonymously to this verifier this epoch',
+  DISCLOSURE_INVALID: "Disclosed attributes or courses do not open the diploma's commitment",
+  PREDICATE_UNPROVEN: "Predicates or course predicates are not proven against the diploma's commitment",
+  PRESENTATION_ALREADY_RECORDED: 'A presentation for this request nonce is already recorded',
+}
+
+/**
+ * Thrown when a circuit assert fails
+ */
+export class ContractAssertionError extends Error {
+  constructor(public readonly code: ContractAssertionCode, public readonly circuit: string) {
+    super(`${circuit}: ${ASSERTION_MESSAGES[code]}`)
+    this.name = 'ContractAssertionError'
+  }
+}
+
+/**
+ * The contract compares `tx.blocknumber` directly with unix timestamps,
+ * so the default clock returns unix seconds
+ */
+export function unixSeconds(): number {
+  return Math.floor(Date.now() / 1000)
+}
+
+export class PrivateDiplomaSimulator {
+  private contractOwner: string
+  private authorizedIssuers = new Set<string>()
+  private usedNullifiers = new Set<string>()
+  private nullifierEpoch = 0
+  private diplomaLedger = new Map<string, ContractDiplomaRecord>()
+  private statusHistory = new Map<string, ContractStatusChange[]>()
+  private batchAnchors = new Map<string, ContractBatchAnchor>()
+  private issuerProfiles = new Map<string, ContractIssuerProfile>()
+  private accreditors = new Map<string, ContractAccreditor>()
+  private accreditations = new Map<string, ContractAccreditation>()
+  private delegations = new Map<string, ContractDelegation>()
+  private anonymousPresentations = new Map<string, ContractPresentationRecord>()
+  private usedScopedNullifiers = new Set<string>()
+  private scopedNullifierEpoch = 0
+  private clock: () => number
+
+  /** Contract: new(initialOwner) */
+  constructor(options: SimulatorOptions) {
+    this.contractOwner = options.owner
+    this.clock = options.clock ?? unixSeconds
+  }
+
+  /**
+   * Rebuild a simulator from a persisted snapshot
+   */
+  static fromSnapshot(
+    snapshot: ContractStateSnapshot,
+    clock?: () => number
+  ): PrivateDiplomaSimulator {
+    const simulator = new PrivateDiplomaSimulator({
+      owner: snapshot.contractOwner,
+      clock,
+    })
+    snapshot.authorizedIssuers.forEach(a => simulator.authorizedIssuers.add(a))
+    snapshot.usedNullifiers.forEach(n => simulator.usedNullifiers.add(n))
+    simulator.nullifierEpoch = snapshot.nullifierEpoch ?? 0
+    snapshot.diplomaLedger.forEach(d =>
+      simulator.diplomaLedger.set(d.certificateHash, {
+        ...d,
+        expiresAt: d.expiresAt ?? 0,
+        supersedes: d.supersedes ?? '',
+        supersededBy: d.supersededBy ?? '',
+        issuedBy: d.issuedBy ?? '',
+      })
+    )
+    Object.entries(snapshot.statusHistory ?? {}).forEach(([hash, changes]) =>
+      simulator.statusHistory.set(hash, changes.map(c => ({ ...c })))
+    )
+    snapshot.batchAnchors?.forEach(b => simulator.batchAnchors.set(b.merkleRoot, { ...b }))
+    snapshot.issuerProfiles?.forEach(p =>
+      simulator.issuerProfiles.set(p.issuerAddress, { ...p, metadata: { ...p.metadata } })
+    )
+    snapshot.accreditors?.forEach(a => simulator.accreditors.set(a.accreditorAddress, { ...a }))
+    snapshot.accreditations?.forEach(a => simulator.accreditations.set(a.issuerAddress, { ...a }))
+    snapshot.delegations?.forEach(d => simulator.delegations.set(d.delegateAddress, copyDelegation(d)))
+    snapshot.anonymousPresentations?.forEach(p =>
+      simulator.anonymousPresentations.set(p.nonce, copyPresentation(p))
+    )
+    snapshot.usedScopedNullifiers?.forEach(n => simulator.usedScopedNullifiers.add(n))
+    simulator.scopedNullifierEpoch = snapshot.scopedNullifierEpoch ?? 0
+    return simulator
+  }
+
+  snapshot(): ContractStateSnapshot {
+    return {
+      contractOwner: this.contractOwner,
+      authorizedIssuers: Array.from(this.authorizedIssuers),
+      usedNullifiers: Array.from(this.usedNullifiers),
+      nullifierEpoch: this.nullifierEpoch,
+      diplomaLedger: Array.from(this.diplomaLedger.values(), d => ({ ...d })),
+      statusHistory: Object.fromEntries(
+        Array.from(this.statusHistory, ([hash, changes]) => [hash, changes.map(c => ({ ...c }))])
+      ),
+      batchAnchors: Array.from(this.batchAnchors.values(), b => ({ ...b })),
+      issuerProfiles: Array.from(this.issuerProfiles.values(), p => ({ ...p, metadata: { ...p.metadata } })),
+      accreditors: Array.from(this.accreditors.values(), a => ({ ...a })),
+      accreditations: Array.from(this.accreditations.values(), a => ({ ...a })),
+      delegations: Array.from(this.delegations.values(), copyDelegation),
+      anonymousPresentations: Array.from(this.anonymousPresentations.values(), copyPresentation),
+      usedScopedNullifiers: Array.from(this.usedScopedNullifiers),
+      scopedNullifierEpoch: this.scopedNullifierEpoch,
+    }
+  }
+
+  // ==========================================================================
+  // ADMIN CIRCUITS
+  // ==========================================================================
+
+  addAuthorizedIssuer(university: string, tx: Partial<TxContext> = {}): void {
+    const { sender } = this.resolveTx(tx)
+    this.assert(sender === this.contractOwner, 'NOT_CONTRACT_OWNER', 'addAuthorizedIssuer')
+    this.authorizedIssuers.add(university)
+  }
+
+  removeAuthorizedIssuer(university: string, tx: Partial<TxContext> = {}): void {
+    const { sender } = this.resolveTx(tx)
+    this.assert(sender === this.contractOwner, 'NOT_CONTRACT_OWNER', 'removeAuthorizedIssuer')
+    this.authorizedIssuers.delete(university)
+  }
+
+  /**
+   * Contract: appointAccreditor
+   * Appointing an existing accreditor again renames it; its jurisdiction
+   * cannot change while it accredits universities under the old one
+   */
+  appointAccreditor(
+    accreditor: string,
+    name: string,
+    jurisdiction: string,
+    tx: Partial<TxContext> = {}
+  ): ContractAccreditor {
+    const { sender, blocknumber } = this.resolveTx(tx)
+    const circuit = 'appointAccreditor'
+
+    this.assert(sender === this.contractOwner, 'NOT_CONTRACT_OWNER', circuit)
+    this.assert(/^[A-Z]{2}$/.test(jurisdiction), 'INVALID_JURISDICTION', circuit)
+    const existing = this.accreditors.get(accreditor)
+    this.assert(
+      !existing ||
+        existing.jurisdiction === jurisdiction ||
+        !Array.from(this.accreditations.values()).some(a => a.accreditorAddress === accreditor),
+      'JURISDICTION_IN_USE',
+      circuit
+    )
+
+    const appointed: ContractAccreditor = {
+      accreditorAddress: accreditor,
+      name,
+      jurisdiction,
+      appointedAt: existing?.appointedAt ?? blocknumber,
+    }
+    this.accreditors.set(accreditor, appointed)
+    return { ...appointed }
+  }
+
+  /**
+   * Contract: removeAccreditor
+   * Universities it accredited lose their authority until another accreditor
+   * of the same jurisdiction accredits them
+   */
+  removeAccreditor(accreditor: string, tx: Partial<TxContext> = {}): void {
+    const { sender } = this.resolveTx(tx)
+    this.assert(sender === this.contractOwner, 'NOT_CONTRACT_OWNER', 'removeAccreditor')
+    this.accreditors.delete(accreditor)
+  }
+
+  /**
+   * Contract: approveIssuerMetadata
+   * `metadataHash` must match the current profile, so an edit made after the
+   * owner reviewed it is not approved by accident
+   */
+  approveIssuerMetadata(
+    university: string,
+    metadataHash: string,
+    tx: Partial<TxContext> = {}
+  ): ContractIssuerProfile {
+    const { sender, blocknumber } = this.resolveTx(tx)
+    const circuit = 'approveIssuerMetadata'
+
+    this.assert(sender === this.contractOwner, 'NOT_CONTRACT_OWNER', circuit)
+    const profile = this.issuerProfiles.get(university)
+    this.assert(profile !== undefined, 'ISSUER_PROFILE_NOT_FOUND', circuit)
+    this.assert(profile!.metadataHash === metadataHash, 'ISSUER_PROFILE_CHANGED', circuit)
+
+    const approved: ContractIssuerProfile = { ...profile!, status: 1, approvedAt: blocknumber }
+    this.issuerProfiles.set(university, approved)
+    return { ...approved, metadata: { ...approved.metadata } }
+  }
+
+  // ==========================================================================
+  // ACCREDITOR CIRCUITS
+  // ==========================================================================
+
+  /**
+   * Contract: accreditIssuer
+   * Authorizes a university, or lifts its suspension. A university already
+   * accredited stays in its jurisdiction; any accreditor of that
+   * jurisdiction may take it over.
+   */
+  accreditIssuer(university: string, tx: Partial<TxContext> = {}): ContractAccreditation {
+    const { sender, blocknumber } = this.resolveTx(tx)
+    const circuit = 'accreditIssuer'
+
+    const accreditor = this.accreditors.get(sender)
+    this.assert(accreditor !== undefined, 'NOT_ACCREDITOR', circuit)
+    const existing = this.accreditations.get(university)
+    const profile = this.issuerProfiles.get(university)
+    this.assert(
+      (!existing || existing.jurisdiction === accreditor!.jurisdiction) &&
+        (!profile || profile.metadata.country === accreditor!.jurisdiction),
+      'OUTSIDE_JURISDICTION',
+      circuit
+    )
+
+    const accreditation: ContractAccreditation = {
+      issuerAddress: university,
+      accreditorAddress: sender,
+      jurisdiction: accreditor!.jurisdiction,
+      status: 1,
+      accreditedAt: existing?.accreditedAt ?? blocknumber,
+      updatedAt: blocknumber,
+    }
+    this.accreditations.set(university, accreditation)
+    return { ...accreditation }
+  }
+
+  /**
+   * Contract: suspendIssuer
+   * The university stops being an authorized issuer; diplomas it already
+   * issued stop verifying until it is accredited again
+   */
+  suspendIssuer(university: string, tx: Partial<TxContext> = {}): ContractAccreditation {
+    const { sender, blocknumber } = this.resolveTx(tx)
+    const circuit = 'suspendIssuer'
+
+    const accreditor = this.accreditors.get(sender)
+    this.assert(accreditor !== undefined, 'NOT_ACCREDITOR', circuit)
+    const existing = this.accreditations.get(university)
+    this.assert(existing !== undefined, 'ACCREDITATION_NOT_FOUND', circuit)
+    this.assert(existing!.jurisdiction === accreditor!.jurisdiction, 'OUTSIDE_JURISDICTION', circuit)
+
+    const suspended: ContractAccreditation = {
+      ...existing!,
+      accreditorAddress: sender,
+      status: 2,
+      updatedAt: blocknumber,
+    }
+    this.accreditations.set(university, suspended)
+    return { ...suspended }
+  }
+
+  // ==========================================================================
+  // ISSUER REGISTRY
+  // ==========================================================================
+
+  /**
+   * Contract: registerIssuerMetadata
+   * Replaces any earlier profile and resets it to pending
+   */
+  registerIssuerMetadata(
+    metadata: IssuerMetadata,
+    publicKey: string,
+    signature: string,
+    tx: Partial<TxContext> = {}
+  ): ContractIssuerProfile {
+    const { sender, blocknumber } = this.resolveTx(tx)
+    const circuit = 'registerIssuerMetadata'
+
+    this.assert(this.isIssuerAuthorized(sender), 'ISSUER_NOT_AUTHORIZED', circuit)
+    const accreditation = this.accreditations.get(sender)
+    this.assert(
+      !accreditation || accreditation.jurisdiction === metadata.country,
+      'OUTSIDE_JURISDICTION',
+      circuit
+    )
+    this.assert(
+      verifyHolderSignature(publicKey, issuerMetadataMessage(sender, metadata), signature),
+      'ISSUER_METADATA_SIGNATURE_INVALID',
+      circuit
+    )
+
+    const profile: ContractIssuerProfile = {
+      issuerAddress: sender,
+      metadata: { ...metadata },
+      metadataHash: issuerMetadataHash(sender, metadata),
+      publicKey,
+      signature,
+      status: 0,
+      submittedAt: blocknumber,
+      approvedAt: 0,
+    }
+    this.issuerProfiles.set(sender, profile)
+    return { ...profile, metadata: { ...profile.metadata } }
+  }
+
+  // ==========================================================================
+  // DELEGATION
+  // ==========================================================================
+
+  /**
+   * Contract: grantDelegation
+   * Lets a department address issue for the sender's university, limited to
+   * the listed degree types and departments, until `expiresAt`. Granting
+   * again replaces the scope and lifts a revocation.
+   */
+  grantDelegation(
+    delegate: string,
+    degreeTypeHashes: string[],
+    departmentHashes: string[],
+    expiresAt: number,
+    tx: Partial<TxContext> = {}
+  ): ContractDelegation {
+    const { sender, blocknumber } = this.resolveTx(tx)
+    const circuit = 'grantDelegation'
+
+    this.assert(this.isIssuerAuthorized(sender), 'ISSUER_NOT_AUTHORIZED', circuit)
+    this.assert(
+      delegate !== sender && !this.authorizedIssuers.has(delegate) && !this.accreditations.has(delegate),
+      'INVALID_DELEGATE',
+      circuit
+    )
+    this.assert(expiresAt > blocknumber, 'DELEGATION_EXPIRY_INVALID', circuit)
+    const existing = this.delegations.get(delegate)
+    this.assert(
+      !existing ||
+        existing.universityAddress === sender ||
+        existing.revokedAt !== 0 ||
+        blocknumber >= existing.expiresAt,
+      'DELEGATE_TAKEN',
+      circuit
+    )
+
+    const delegation: ContractDelegation = {
+      delegateAddress: delegate,
+      universityAddress: sender,
+      degreeTypeHashes: [...degreeTypeHashes],
+      departmentHashes: [...departmentHashes],
+      expiresAt,
+      grantedAt: blocknumber,
+      revokedAt: 0,
+    }
+    this.delegations.set(delegate, delegation)
+    return copyDelegation(delegation)
+  }
+
+  /**
+   * Contract: revokeDelegation
+   * The department can no longer issue, revoke or reinstate; diplomas it
+   * issued stay valid and remain under the university's control
+   */
+  revokeDelegation(delegate: string, tx: Partial<TxContext> = {}): ContractDelegation {
+    const { sender, blocknumber } = this.resolveTx(tx)
+    const circuit = 'revokeDelegation'
+
+    const delegation = this.delegations.get(delegate)
+    this.assert(delegation !== undefined, 'DELEGATION_NOT_FOUND', circuit)
+    this.assert(delegation!.universityAddress === sender, 'NOT_DELEGATING_UNIVERSITY', circuit)
+    this.assert(delegation!.revokedAt === 0, 'DELEGATION_REVOKED', circuit)
+
+    const revoked: ContractDelegation = { ...copyDelegation(delegation!), revokedAt: blocknumber }
+    this.delegations.set(delegate, revoked)
+    return copyDelegation(revoked)
+  }
+
+  // ==========================================================================
+  // ISSUANCE AND REVOCATION
+  // ==========================================================================
+
+  issueDiploma(args: IssueDiplomaArgs, tx: Partial<TxContext> = {}): ContractDiplomaRecord {
+    const resolved = this.resolveTx(tx)
+    const university = this.assertIssuable(args, resolved, 'issueDiploma')
+    return this.storeDiploma(args, '', university, resolved)
+  }
+
+  /**
+   * Contract: amendDiploma
+   * Issues a corrected diploma linked to its predecessor, which becomes
+   * superseded (not revoked) and points forward to the correction
+   */
+  amendDiploma(
+    previousHash: string,
+    args: IssueDiplomaArgs,
+    tx: Partial<TxContext> = {}
+  ): ContractDiplomaRecord {
+    const resolved = this.resolveTx(tx)
+    const { sender, blocknumber } = resolved
+    const circuit = 'amendDiploma'
+
+    const previous = this.diplomaLedger.get(previousHash)
+    this.assert(previous !== undefined, 'DIPLOMA_NOT_FOUND', circuit)
+    this.assert(this.canManageDiploma(previous!, resolved), 'NOT_DIPLOMA_ISSUER', circuit)
+    this.assert(previous!.status !== 2, 'DIPLOMA_SUPERSEDED', circuit)
+    this.assert(previous!.status === 1, 'DIPLOMA_REVOKED', circuit)
+    const university = this.assertIssuable(args, resolved, circuit)
+
+    const amended = this.storeDiploma(args, previousHash, university, resolved)
+    this.diplomaLedger.set(previousHash, {
+      ...previous!,
+      status: 2,
+      supersededBy: args.certificateHash,
+    })
+    this.recordStatusChange(previousHash, {
+      status: 2,
+      reason: 0,
+      effectiveAt: blocknumber,
+      recordedAt: blocknumber,
+      changedBy: sender,
+    })
+    return amended
+  }
+
+  /**
+   * Contract: anchorBatch
+   * Records only the Merkle root of a cohort; its diplomas are proven by
+   * inclusion path and never get a DiplomaRecord, so they cannot be
+   * revoked, reinstated or amended individually
+   */
+  anchorBatch(merkleRoot: string, leafCount: number, tx: Partial<TxContext> = {}): ContractBatchAnchor {
+    const { sender, blocknumber } = this.resolveTx(tx)
+    const circuit = 'anchorBatch'
+
+    this.assert(this.isIssuerAuthorized(sender), 'ISSUER_NOT_AUTHORIZED', circuit)
+    this.assert(leafCount > 0, 'BATCH_EMPTY', circuit)
+    this.assert(!this.batchAnchors.has(merkleRoot), 'BATCH_ALREADY_ANCHORED', circuit)
+
+    const anchor: ContractBatchAnchor = {
+      merkleRoot,
+      issuerAddress: sender,
+      anchoredAt: blocknumber,
+      leafCount,
+    }
+    this.batchAnchors.set(merkleRoot, anchor)
+    return { ...anchor }
+  }
+
+  revokeDiploma(
+    certificateHash: string,
+    reason: ContractRevocationReason,
+    effectiveAt: number,
+    tx: Partial<TxContext> = {}
+  ): void {
+    const resolved = this.resolveTx(tx)
+    const { sender, blocknumber } = resolved
+    const circuit = 'revokeDiploma'
+
+    const diploma = this.diplomaLedger.get(certificateHash)
+    this.assert(diploma !== undefined, 'DIPLOMA_NOT_FOUND', circuit)
+    this.assert(this.canManageDiploma(diploma!, resolved), 'NOT_DIPLOMA_ISSUER', circuit)
+    this.assert(diploma!.status !== 2, 'DIPLOMA_SUPERSEDED', circuit)
+    this.assert(diploma!.status === 1, 'DIPLOMA_REVOKED', circuit)
+    this.assert([1, 2, 3, 4].includes(reason), 'INVALID_REVOCATION_REASON', circuit)
+    this.assert(
+      effectiveAt >= diploma!.issuanceTimestamp && effectiveAt <= blocknumber,
+      'REVOCATION_DATE_INVALID',
+      circuit
+    )
+
+    this.diplomaLedger.set(certificateHash, { ...diploma!, status: 0 })
+    this.recordStatusChange(certificateHash, {
+      status: 0,
+      reason,
+      effectiveAt,
+      recordedAt: blocknumber,
+      changedBy: sender,
+    })
+  }
+
+  reinstateDiploma(certificateHash: string, tx: Partial<TxContext> = {}): void {
+    const resolved = this.resolveTx(tx)
+    const { sender, blocknumber } = resolved
+    const circuit = 'reinstateDiploma'
+
+    const diploma = this.diplomaLedger.get(certificateHash)
+    this.assert(diploma !== undefined, 'DIPLOMA_NOT_FOUND', circuit)
+    this.assert(this.canManageDiploma(diploma!, resolved), 'NOT_DIPLOMA_ISSUER', circuit)
+    this.assert(this.isIssuerAuthorized(diploma!.issuerAddress), 'ISSUER_NOT_AUTHORIZED', circuit)
+    this.assert(diploma!.status === 0, 'DIPLOMA_NOT_REVOKED', circuit)
+    const history = this.statusHistory.get(certificateHash) ?? []
+    this.assert(history[history.length - 1]?.reason !== 3, 'REINSTATEMENT_NOT_ALLOWED', circuit)
+
+    this.diplomaLedger.set(certificateHash, { ...diploma!, status: 1 })
+    this.recordStatusChange(certificateHash, {
+      status: 1,
+      reason: 0,
+      effectiveAt: blocknumber,
+      recordedAt: blocknumber,
+      changedBy: sender,
+    })
+  }
+
+  // ==========================================================================
+  // VERIFICATION
+  // ==========================================================================
+
+  /**
+   * Contract: submitVerificationProof -> verifyDegree
+   * Consumes the nullifier on success; throws on any failed assert
+   */
+  submitVerificationProof(proof: ContractVerificationProof, tx: Partial<TxContext> = {}): boolean {
+    return this.verifyDegree(proof, this.resolveTx(tx))
+  }
+
+  private verifyDegree(proof: ContractVerificationProof, tx: TxContext): boolean {
+    const circuit = 'verifyDegree'
+
+    this.assert(this.diplomaLedger.has(proof.certificateHash), 'DIPLOMA_NOT_FOUND', circuit)
+    const diploma = this.diplomaLedger.get(proof.certificateHash)!
+
+    this.assert(this.isIssuerAuthorized(diploma.issuerAddress), 'ISSUER_NOT_AUTHORIZED', circuit)
+    this.assert(diploma.status !== 2, 'DIPLOMA_SUPERSEDED', circuit)
+    this.assert(diploma.status === 1, 'DIPLOMA_REVOKED', circuit)
+
+    this.assertPresentation(proof, diploma, tx, circuit)
+    return true
+  }
+
+  /**
+   * Contract: submitBatchVerificationProof -> verifyBatchDegree
+   * For a diploma in an anchored batch: the inclusion path stands in for
+   * the ledger record, then the same expiry, commitment, holder and
+   * nullifier checks as verifyDegree apply
+   */
+  submitBatchVerificationProof(
+    proof: ContractVerificationProof,
+    inclusion: ContractBatchInclusion,
+    tx: Partial<TxContext> = {}
+  ): boolean {
+    return this.verifyBatchDegree(proof, inclusion, this.resolveTx(tx))
+  }
+
+  private verifyBatchDegree(
+    proof: ContractVerificationProof,
+    inclusion: ContractBatchInclusion,
+    tx: TxContext
+  ): boolean {
+    const circuit = 'verifyBatchDegree'
+
+    const anchor = this.batchAnchors.get(inclusion.merkleRoot)
+    this.assert(anchor !== undefined, 'BATCH_NOT_FOUND', circuit)
+    this.assert(this.isIssuerAuthorized(anchor!.issuerAddress), 'ISSUER_NOT_AUTHORIZED', circuit)
+    this.assert(
+      inclusion.leaf.certificateHash === proof.certificateHash &&
+        merkleRootFromPath(batchLeafHash(inclusion.leaf), inclusion.path) === inclusion.merkleRoot,
+      'INCLUSION_PROOF_INVALID',
+      circuit
+    )
+
+    this.assertPresentation(proof, inclusion.leaf, tx, circuit)
+    return true
+  }
+
+  /** The presentation asserts shared by verifyDegree and verifyBatchDegree */
+  private assertPresentation(
+    proof: ContractVerificationProof,
+    diploma: { studentDataCommitment: string; holderPublicKey: string; expiresAt: number },
+    tx: TxContext,
+    circuit: string
+  ): void {
+    this.assert(
+      diploma.expiresAt === 0 || tx.blocknumber < diploma.expiresAt,
+      'DIPLOMA_EXPIRED',
+      circuit
+    )
+
+    this.assert(
+      proof.proofCommitment === diploma.studentDataCommitment,
+      'PROOF_COMMITMENT_MISMATCH',
+      circuit
+    )
+    this.assert(diploma.holderPublicKey !== '', 'HOLDER_KEY_UNBOUND', circuit)
+    this.assert(
+      verifyHolderSignature(
+        holderKeyFor(diploma.holderPublicKey, 'signing'),
+        holderPresentationMessage(proof),
+        proof.holderSignature
+      ),
+      'HOLDER_SIGNATURE_INVALID',
+      circuit
+    )
+    this.assert(
+      proof.epoch === Math.floor(tx.blocknumber / NULLIFIER_EPOCH_SECONDS),
+      'NULLIFIER_EPOCH_STALE',
+      circuit
+    )
+    this.assert(
+      verifierNullifierValid(
+        holderKeyFor(diploma.holderPublicKey, 'nullifier'),
+        { certificateHash: proof.certificateHash, verifierId: proof.verifierId, epoch: proof.epoch },
+        proof.nullifier,
+        proof.nullifierProof
+      ),
+      'NULLIFIER_INVALID',
+      circuit
+    )
+    // Nullifiers of earlier epochs can never be presented again
+    if (proof.epoch > this.nullifierEpoch) {
+      this.usedNullifiers.clear()
+      this.nullifierEpoch = proof.epoch
+    }
+    this.assert(!this.usedNullifiers.has(proof.nullifier), 'NULLIFIER_ALREADY_USED', circuit)
+
+    this.usedNullifiers.add(proof.nullifier)
+  }
+
+  /**
+   * Contract: presentAnonymously
+   * Proves a member of the current diploma set without naming it. Only the
+   * public inputs are stored, under the request nonce, which can be answered
+   * once; the witness never reaches the ledger. A holder presents to each
+   * verifier at most once per nullifier epoch.
+   */
+  presentAnonymously(
+    presentation: ContractAnonymousPresentation,
+    witness: ContractPresentationWitness,
+    tx: Partial<TxContext> = {}
+  ): ContractPresentationRecord {
+    const { blocknumber } = this.resolveTx(tx)
+    const circuit = 'presentAnonymously'
+    const { member } = witness
+
+    this.assert(presentation.diplomaSetRoot === this.getDiplomaSetRoot(), 'DIPLOMA_SET_ROOT_STALE', circuit)
+    this.assert(
+      diplomaSetRootFromPath(diplomaSetLeafHash(member), witness.path) === presentation.diplomaSetRoot,
+      'NOT_IN_DIPLOMA_SET',
+      circuit
+    )
+    this.assert(member.expiresAt === 0 || blocknumber < member.expiresAt, 'DIPLOMA_EXPIRED', circuit)
+    this.assert(
+      holderKeyMatches(holderKeyFor(member.holderPublicKey, 'nullifier'), witness.holderSecretKey),
+      'HOLDER_KEY_MISMATCH',
+      circuit
+    )
+    this.assert(
+      presentation.scopedNullifier === scopedNullifier(witness.holderSecretKey, presentation.verifierId),
+      'SCOPED_NULLIFIER_INVALID',
+      circuit
+    )
+    this.assert(
+      presentation.disclosures.length === witness.disclosures.length &&
+        presentation.disclosures.every(
+          (d, idx) => d.name === witness.disclosures[idx].name && d.value === witness.disclosures[idx].value
+        ) &&
+        disclosureErrors(member.studentDataCommitment, witness.disclosures).length === 0 &&
+        presentation.courses.length === witness.courseDisclosures.length &&
+        presentation.courses.every(
+          (c, idx) =>
+            c.course === witness.courseDisclosures[idx].course.course &&
+            c.credits === witness.courseDisclosures[idx].course.credits &&
+            c.mark === witness.courseDisclosures[idx].course.mark
+        ) &&
+        courseDisclosureErrors(member.studentDataCommitment, witness.courseDisclosures).length === 0,
+      'DISCLOSURE_INVALID',
+      circuit
+    )
+    this.assert(
+      presentation.predicates.length === witness.predicateProofs.length &&
+        presentation.predicates.every(
+          (p, idx) => predicateId(p) === predicateId(witness.predicateProofs[idx].predicate)
+        ) &&
+        predicateProofErrors(member.studentDataCommitment, witness.predicateProofs).length === 0 &&
+        presentation.coursePredicates.length === witness.courseProofs.length &&
+        presentation.coursePredicates.every(
+          (p, idx) => coursePredicateId(p) === coursePredicateId(witness.courseProofs[idx].predicate)
+        ) &&
+        courseProofErrors(member.studentDataCommitment, witness.courseProofs).length === 0,
+      'PREDICATE_UNPROVEN',
+      circuit
+    )
+    this.assert(
+      !this.anonymousPresentations.has(presentation.nonce),
+      'PRESENTATION_ALREADY_RECORDED',
+      circuit
+    )
+
+    // Only the current epoch's scoped nullifiers are kept
+    const epoch = Math.floor(blocknumber / NULLIFIER_EPOCH_SECONDS)
+    if (epoch > this.scopedNullifierEpoch) {
+      this.usedScopedNullifiers.clear()
+      this.scopedNullifierEpoch = epoch
+    }
+    this.assert(
+      !this.usedScopedNullifiers.has(presentation.scopedNullifier),
+      'SCOPED_NULLIFIER_ALREADY_USED',
+      circuit
+    )
+    this.usedScopedNullifiers.add(presentation.scopedNullifier)
+
+    const record = copyPresentation({ ...presentation, presentedAt: blocknumber })
+    this.anonymousPresentations.set(presentation.nonce, record)
+    return copyPresentation(record)
+  }
+
+  // ==========================================================================
+  // QUERIES
+  // ==========================================================================
+
+  /** Returns 0 for unknown certificates, like the contract */
+  getDiplomaStatus(certificateHash: string): ContractDiplomaStatus {
+    return this.diplomaLedger.get(certificateHash)?.status ?? 0
+  }
+
+  verifyIssuanceAuthority(address: string): boolean {
+    return this.isIssuerAuthorized(address)
+  }
+
+  /** Every university currently allowed to issue, directly or by accreditation */
+  getAuthorizedIssuers(): string[] {
+    const direct = Array.from(this.authorizedIssuers).filter(a => !this.accreditations.has(a))
+    const accredited = Array.from(this.accreditations.keys()).filter(a => this.isIssuerAuthorized(a))
+    return [...direct, ...accredited]
+  }
+
+  getAccreditor(accreditor: string): ContractAccreditor | null {
+    const record = this.accreditors.get(accreditor)
+    return record ? { ...record } : null
+  }
+
+  getAccreditors(): ContractAccreditor[] {
+    return Array.from(this.accreditors.values(), a => ({ ...a }))
+  }
+
+  getAccreditation(university: string): ContractAccreditation | null {
+    const accreditation = this.accreditations.get(university)
+    return accreditation ? { ...accreditation } : null
+  }
+
+  getAllAccreditations(): ContractAccreditation[] {
+    return Array.from(this.accreditations.values(), a => ({ ...a }))
+  }
+
+  checkDiplomaValidity(certificateHash: string, tx: Partial<TxContext> = {}): boolean {
+    const diploma = this.diplomaLedger.get(certificateHash)
+    if (!diploma) {
+      return false
+    }
+    if (diploma.status !== 1) {
+      return false
+    }
+    return diploma.expiresAt === 0 || this.resolveTx(tx).blocknumber < diploma.expiresAt
+  }
+
+  isNullifierUsed(nullifier: string): boolean {
+    return this.usedNullifiers.has(nullifier)
+  }
+
+  /**
+   * Contract: getDiplomaSetRoot
+   * Changes with every issuance, revocation and change of issuer authority
+   */
+  getDiplomaSetRoot(): string {
+    return diplomaSetRoot(this.getDiplomaSet())
+  }
+
+  /**
+   * Contract: getDiplomaSet
+   * Every valid diploma of an authorized issuer that is bound to a holder key
+   */
+  getDiplomaSet(): ContractDiplomaSetLeaf[] {
+    return Array.from(this.diplomaLedger.values())
+      .filter(d => d.status === 1 && d.holderPublicKey !== '' && this.isIssuerAuthorized(d.issuerAddress))
+      .map(d => ({
+        certificateHash: d.certificateHash,
+        studentDataCommitment: d.studentDataCommitment,
+        holderPublicKey: d.holderPublicKey,
+        expiresAt: d.expiresAt,
+      }))
+  }
+
+  getAnonymousPresentation(nonce: string): ContractPresentationRecord | null {
+    const presentation = this.anonymousPresentations.get(nonce)
+    return presentation ? copyPresentation(presentation) : null
+  }
+
+  // Off-chain reads of public ledger state (not contract circuits)
+
+  getDiploma(certificateHash: string): ContractDiplomaRecord | null {
+    const diploma = this.diplomaLedger.get(certificateHash)
+    return diploma ? { ...diploma } : null
+  }
+
+  getAllDiplomas(): ContractDiplomaRecord[] {
+    return Array.from(this.diplomaLedger.values(), d => ({ ...d }))
+  }
+
+  getBatchAnchor(merkleRoot: string): ContractBatchAnchor | null {
+    const anchor = this.batchAnchors.get(merkleRoot)
+    return anchor ? { ...anchor } : null
+  }
+
+  getAllBatchAnchors(): ContractBatchAnchor[] {
+    return Array.from(this.batchAnchors.values(), b => ({ ...b }))
+  }
+
+  /** Oldest first; empty for unknown certificates */
+  getStatusHistory(certificateHash: string): ContractStatusChange[] {
+    return (this.statusHistory.get(certificateHash) ?? []).map(c => ({ ...c }))
+  }
+
+  getContractOwner(): string {
+    return this.contractOwner
+  }
+
+  getIssuerProfile(university: string): ContractIssuerProfile | null {
+    const profile = this.issuerProfiles.get(university)
+    return profile ? { ...profile, metadata: { ...profile.metadata } } : null
+  }
+
+  getDelegation(delegate: string): ContractDelegation | null {
+    const delegation = this.delegations.get(delegate)
+    return delegation ? copyDelegation(delegation) : null
+  }
+
+  getAllDelegations(): ContractDelegation[] {
+    return Array.from(this.delegations.values(), copyDelegation)
+  }
+
+  getAllIssuerProfiles(): ContractIssuerProfile[] {
+    return Array.from(this.issuerProfiles.values(), p => ({ ...p, metadata: { ...p.metadata } }))
+  }
+
+  /**
+   * Contract: isIssuerAuthorized
+   * An accreditation, once granted, governs the university: it is authorized
+   * while active and its accreditor is still appointed. Universities never
+   * accredited fall back to the owner's authorizedIssuers set.
+   */
+  private isIssuerAuthorized(university: string): boolean {
+    const accreditation = this.accreditations.get(university)
+    if (accreditation) {
+      return accreditation.status === 1 && this.accreditors.has(accreditation.accreditorAddress)
+    }
+    return this.authorizedIssuers.has(university)
+  }
+
+  private resolveTx(tx: Partial<TxContext>): TxContext {
+    return {
+      sender: tx.sender ?? '',
+      blocknumber: tx.blocknumber ?? this.clock(),
+    }
+  }
+
+  /**
+   * The issuance asserts shared by issueDiploma and amendDiploma
+   * Returns the university the diploma is issued for: the sender itself, or
+   * the university whose delegation the sender holds
+   */
+  private assertIssuable(args: IssueDiplomaArgs, tx: TxContext, circuit: string): string {
+    const delegation = this.delegations.get(tx.sender)
+    if (delegation) {
+      this.assert(delegation.revokedAt === 0, 'DELEGATION_REVOKED', circuit)
+      this.assert(tx.blocknumber < delegation.expiresAt, 'DELEGATION_EXPIRED', circuit)
+      this.assert(
+        inScope(delegation.degreeTypeHashes, args.degreeTypeHash) &&
+          inScope(delegation.departmentHashes, args.departmentHash),
+        'OUTSIDE_DELEGATION_SCOPE',
+        circuit
+      )
+    }
+    const university = delegation?.universityAddress ?? tx.sender
+    this.assert(this.isIssuerAuthorized(university), 'ISSUER_NOT_AUTHORIZED', circuit)
+    this.assert(!this.diplomaLedger.has(args.certificateHash), 'DIPLOMA_ALREADY_ISSUED', circuit)
+    this.assert(args.issuanceTimestamp <= tx.blocknumber, 'ISSUANCE_IN_FUTURE', circuit)
+    this.assert(
+      args.expiresAt === 0 || args.expiresAt > args.issuanceTimestamp,
+      'EXPIRY_BEFORE_ISSUANCE',
+      circuit
+    )
+    return university
+  }
+
+  /**
+   * Contract: canManageDiploma
+   * Revocation rights flow up: the university controls every diploma issued
+   * in its name, a department only those it issued, and only while its
+   * delegation is in force
+   */
+  private canManageDiploma(diploma: ContractDiplomaRecord, { sender, blocknumber }: TxContext): boolean {
+    if (diploma.issuerAddress === sender) return true
+    const delegation = this.delegations.get(sender)
+    return (
+      diploma.issuedBy === sender &&
+      delegation !== undefined &&
+      delegation.universityAddress === diploma.issuerAddress &&
+      delegation.revokedAt === 0 &&
+      blocknumber < delegation.expiresAt
+    )
+  }
+
+  private storeDiploma(
+    args: IssueDiplomaArgs,
+    supersedes: string,
+    university: string,
+    { sender, blocknumber }: TxContext
+  ): ContractDiplomaRecord {
+    const diploma: ContractDiplomaRecord = {
+      certificateHash: args.certificateHash,
+      issuerAddress: university,
+      issuanceTimestamp: args.issuanceTimestamp,
+      status: 1,
+      studentDataCommitment: args.studentDataCommitment,
+      degreeTypeHash: args.degreeTypeHash,
+      departmentHash: args.departmentHash,
+      holderPublicKey: args.holderPublicKey,
+      expiresAt: args.expiresAt,
+      supersedes,
+      supersededBy: '',
+      issuedBy: university === sender ? '' : sender,
+    }
+    this.diplomaLedger.set(args.certificateHash, diploma)
+    this.statusHistory.set(args.certificateHash, [
+      { status: 1, reason: 0, effectiveAt: args.issuanceTimestamp, recordedAt: blocknumber, changedBy: sender },
+    ])
+    return { ...diploma }
+  }
+
+  private recordStatusChange(certificateHash: string, change: ContractStatusChange): void {
+    this.statusHistory.set(certificateHash, [...(this.statusHistory.get(certificateHash) ?? []), change])
+  }
+
+  private assert(condition: boolean, code: ContractAssertionCode, circuit: string): void {
+    if (!condition) {
+      throw new ContractAssertionError(code, circuit)
+    }
+  }
+}
+
+function copyDelegation(delegation: ContractDelegation): ContractDelegation {
+  return {
+    ...delegation,
+    degreeTypeHashes: [...delegation.degreeTypeHashes],
+    departmentHashes: [...delegation.departmentHashes],
+  }
+}
+
+function copyPresentation(presentation: ContractPresentationRecord): ContractPresentationRecord {
+  return {
+    diplomaSetRoot: presentation.diplomaSetRoot,
+    verifierId: presentation.verifierId,
+    nonce: presentation.nonce,
+    scopedNullifier: presentation.scopedNullifier,
+    disclosures: presentation.disclosures.map(({ name, value }) => ({ name, value })),
+    predicates: presentation.predicates.map(p => ({ ...p })),
+    courses: presentation.courses.map(c => ({ ...c })),
+    coursePredicates: presentation.coursePredicates.map(p => ({ ...p })),
+    presentedAt: presentation.presentedAt,
+  }
+}
+
+/** An empty scope list allows any value */
+function inScope(allowed: string[], value: string): boolean {
+  return allowed.length === 0 || allowed.includes(value)
+}
@@ -0,0 +1,105 @@
+import 'fake-indexeddb/auto'
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest'
+import { credentialVault, type VaultCredential } from './credentialVault'
+import { randomHex } from './crypto'
+
+const OWNER = 'addr_student'
+const PASSPHRASE = 'correct horse battery'
+
+function credential(): VaultCredential {
+  const certificateHash = '0x' + randomHex(32)
+  return {
+    certificateHash,
+    issuerAddress: 'addr_university',
+    issuanceTimestamp: 1_750_000_000,
+    opening: {
+      version: 1,
+      fields: {
+        studentId: 'S001',
+        studentName: 'Ada Lovelace',
+        degreeType: 'BSc Computer Science',
+        department: 'Computing',
+        issueDate: '2025-06-30',
+        universityAddress: 'addr_university',
+        marks: { GPA: '3.90' },
+      },
+      salt: randomHex(32),
+      certificateHash,
+      studentDataCommitment: '0x' + randomHex(32),
+      issuerAddress: 'addr_university',
+      hashAlgorithm: 'sha256',
+      issuedAt: 1_750_000_000,
+    },
+    receivedAt: 1_750_000_100,
+  }
+}
+
+/** Run one request against the vault's entry store directly */
+async function entryStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open('privatediploma-vault')
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction('entries', mode).objectStore('entries'))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+describe('credential vault', () => {
+  beforeAll(() => credentialVault.create(OWNER, PASSPHRASE))
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('refuses a wrong passphrase and stays locked', async () => {
+    credentialVault.lock()
+    await expect(credentialVault.unlock(OWNER, 'wrong passphrase')).rejects.toThrow('Incorrect vault passphrase')
+    expect(credentialVault.isUnlocked()).toBe(false)
+    await credentialVault.unlock(OWNER, PASSPHRASE)
+    expect(credentialVault.isUnlocked(OWNER)).toBe(true)
+  })
+
+  it('fails to decrypt an entry moved under another certificate', async () => {
+    const [first, second] = [credential(), credential()]
+    await credentialVault.put(first)
+    await credentialVault.put(second)
+
+    const moved = await entryStore<object>('readonly', store => store.get(`${OWNER}:${first.certificateHash}`))
+    await entryStore('readwrite', store => store.put({ ...moved, id: `${OWNER}:${second.certificateHash}` }))
+
+    await expect(credentialVault.get(second.certificateHash)).rejects.toThrow()
+    expect(await credentialVault.get(first.certificateHash)).toEqual(first)
+    const listed = (await credentialVault.list()).map(c => c.certificateHash)
+    expect(listed).toContain(first.certificateHash)
+    expect(listed).not.toContain(second.certificateHash)
+  })
+
+  it('reads nothing once locked, and everything again after unlocking', async () => {
+    const stored = credential()
+    await credentialVault.put(stored)
+
+    credentialVault.lock()
+    expect(credentialVault.isUnlocked()).toBe(false)
+    await expect(credentialVault.get(stored.certificateHash)).rejects.toThrow('Credential vault is locked')
+
+    await credentialVault.unlock(OWNER, PASSPHRASE)
+    expect(await credentialVault.get(stored.certificateHash)).toEqual(stored)
+  })
+
+  it('locks itself after the idle timeout', async () => {
+    vi.useFakeTimers()
+    credentialVault.setIdleTimeout(1000)
+    vi.advanceTimersByTime(999)
+    expect(credentialVault.isUnlocked(OWNER)).toBe(true)
+    vi.advanceTimersByTime(1)
+    expect(credentialVault.isUnlocked()).toBe(false)
+  })
+})
@@ -0,0 +1,380 @@
+/**
+ * Student Credential Vault
+ * Holder-side encrypted store for credentials and their opening packages.
+ *
+ * Everything is kept in IndexedDB, encrypted with AES-256-GCM under a key
+ * derived from the student's passphrase (PBKDF2-SHA-256). The key only lives
+ * in memory while the vault is unlocked; the vault locks itself after a
+ * period of inactivity. Holder keys are kept outside the vault, sealed under
+ * the same key (sealSecret).
+ */
+
+import { fromBase64, toBase64 } from './crypto'
+import type { CommitmentOpening } from './openingPackage'
+
+const DB_NAME = 'privatediploma-vault'
+const DB_VERSION = 1
+const HEADER_STORE = 'headers'
+const ENTRY_STORE = 'entries'
+
+const PBKDF2_ITERATIONS = 600_000
+const VERIFIER_PLAINTEXT = 'privatediploma-vault/v1'
+const DEFAULT_IDLE_TIMEOUT_MS = 5 * 60 * 1000
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'scroll'] as const
+
+/**
+ * A credential held by the student
+ * `opening` is the private witness that re-opens the on-chain commitment.
+ */
+export interface VaultCredential {
+  certificateHash: string
+  issuerAddress: string
+  degreeType?: string
+  issuanceTimestamp: number
+  opening: CommitmentOpening
+  receivedAt: number
+}
+
+/**
+ * A secret encrypted under the vault key, kept outside the vault
+ * Only the owner's unlocked vault can open it; `label` is bound as
+ * associated data.
+ */
+export interface SealedSecret {
+  label: string
+  iv: string
+  ciphertext: string
+}
+
+/** Per-owner KDF parameters and passphrase check */
+interface VaultHeader {
+  owner: string
+  salt: string
+  iterations: number
+  verifierIv: string
+  verifier: string
+  createdAt: number
+}
+
+/**
+ * `id` is bound as associated data, so an entry cannot be moved to another
+ * certificate's slot
+ */
+interface EncryptedEntry {
+  id: string
+  owner: string
+  iv: string
+  ciphertext: string
+}
+
+class CredentialVault {
+  private db: Promise<IDBDatabase> | null = null
+  private key: CryptoKey | null = null
+  private owner: string | null = null
+  private idleTimer: ReturnType<typeof setTimeout> | null = null
+  private idleTimeoutMs = DEFAULT_IDLE_TIMEOUT_MS
+  private listeners: Set<() => void> = new Set()
+
+  /**
+   * Whether a vault has been created for this owner
+   */
+  async exists(owner: string): Promise<boolean> {
+    return (await this.getHeader(owner)) !== null
+  }
+
+  /**
+   * Create a new vault and unlock it
+   */
+  async create(owner: string, passphrase: string): Promise<void> {
+    if (await this.exists(owner)) {
+      throw new Error('A vault already exists for this wallet')
+    }
+    if (passphrase.length < 8) {
+      throw new Error('Passphrase must be at least 8 characters')
+    }
+
+    const salt = crypto.getRandomValues(new Uint8Array(16))
+    const key = await this.deriveKey(passphrase, salt, PBKDF2_ITERATIONS)
+    const verifierIv = crypto.getRandomValues(new Uint8Array(12))
+    const verifier = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: verifierIv },
+      key,
+      new TextEncoder().encode(VERIFIER_PLAINTEXT)
+    )
+
+    const header: VaultHeader = {
+      owner,
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      verifierIv: toBase64(verifierIv),
+      verifier: toBase64(new Uint8Array(verifier)),
+      createdAt: Date.now(),
+    }
+    await this.write(HEADER_STORE, header)
+
+    this.setUnlocked(owner, key)
+    console.log('🔐 Credential vault created')
+  }
+
+  /**
+   * Unlock an existing vault; throws on a wrong passphrase
+   */
+  async unlock(owner: string, passphrase: string): Promise<void> {
+    const header = await this.getHeader(owner)
+    if (!header) {
+      throw new Error('No vault exists for this wallet')
+    }
+
+    const key = await this.deriveKey(passphrase, fromBase64(header.salt), header.iterations)
+    try {
+      await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(header.verifierIv) },
+        key,
+        fromBase64(header.verifier)
+      )
+    } catch {
+      throw new Error('Incorrect vault passphrase')
+    }
+
+    this.setUnlocked(owner, key)
+    console.log('🔓 Credential vault unlocked')
+  }
+
+  /**
+   * Drop the key from memory
+   */
+  lock(): void {
+    if (!this.key) return
+    this.key = null
+    this.owner = null
+    this.clearIdleTimer()
+    ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, this.touch))
+    console.log('🔒 Credential vault locked')
+    this.notify()
+  }
+
+  isUnlocked(owner?: string): boolean {
+    return this.key !== null && (owner === undefined || this.owner === owner)
+  }
+
+  /**
+   * Auto-lock delay; applies from the next activity
+   */
+  setIdleTimeout(ms: number): void {
+    this.idleTimeoutMs = ms
+    if (this.key) this.touch()
+  }
+
+  /**
+   * Store or replace a credential
+   */
+  async put(credential: VaultCredential): Promise<void> {
+    const { key, owner } = this.requireUnlocked()
+    const id = `${owner}:${credential.certificateHash}`
+    const iv = crypto.getRandomValues(new Uint8Array(12))
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(id) },
+      key,
+      new TextEncoder().encode(JSON.stringify(credential))
+    )
+
+    const entry: EncryptedEntry = {
+      id,
+      owner,
+      iv: toBase64(iv),
+      ciphertext: toBase64(new Uint8Array(ciphertext)),
+    }
+    await this.write(ENTRY_STORE, entry)
+    this.touch()
+    this.notify()
+  }
+
+  async get(certificateHash: string): Promise<VaultCredential | null> {
+    const { owner } = this.requireUnlocked()
+    const entry = await this.read<EncryptedEntry>(ENTRY_STORE, `${owner}:${certificateHash}`)
+    return entry ? this.decryptEntry(entry) : null
+  }
+
+  /**
+   * All credentials of the unlocked owner, newest first
+   */
+  async list(): Promise<VaultCredential[]> {
+    const { owner } = this.requireUnlocked()
+    const entries = (await this.readAll<EncryptedEntry>(ENTRY_STORE)).filter(e => e.owner === owner)
+    const credentials: VaultCredential[] = []
+    for (const entry of entries) {
+      try {
+        credentials.push(await this.decryptEntry(entry))
+      } catch (error) {
+        console.error('❌ Skipping unreadable vault entry:', entry.id, error)
+      }
+    }
+    this.touch()
+    return credentials.sort((a, b) => b.issuanceTimestamp - a.issuanceTimestamp)
+  }
+
+  async remove(certificateHash: string): Promise<void> {
+    const { owner } = this.requireUnlocked()
+    const db = await this.open()
+    await this.request(
+      db.transaction(ENTRY_STORE, 'readwrite').objectStore(ENTRY_STORE).delete(`${owner}:${certificateHash}`)
+    )
+    this.notify()
+  }
+
+  /**
+   * Encrypt a secret of the unlocked owner under the vault key
+   * Holder keys are kept this way, so they can only be used while the vault
+   * is unlocked.
+   */
+  async sealSecret(owner: string, label: string, secret: BufferSource): Promise<SealedSecret> {
+    const { key } = this.requireUnlocked(owner)
+    const iv = crypto.getRandomValues(new Uint8Array(12))
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(`${owner}:${label}`) },
+      key,
+      secret
+    )
+    this.touch()
+    return { label, iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) }
+  }
+
+  /**
+   * Decrypt a secret sealed with sealSecret; throws while the owner's vault is
+   * locked
+   */
+  async openSecret(owner: string, sealed: SealedSecret): Promise<Uint8Array> {
+    const { key } = this.requireUnlocked(owner)
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: fromBase64(sealed.iv),
+        additionalData: new TextEncoder().encode(`${owner}:${sealed.label}`),
+      },
+      key,
+      fromBase64(sealed.ciphertext)
+    )
+    this.touch()
+    return new Uint8Array(plaintext)
+  }
+
+  /**
+   * Notified on lock, unlock and every change; returns an unsubscribe function
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  // ==================== PRIVATE HELPERS ====================
+
+  private setUnlocked(owner: string, key: CryptoKey): void {
+    this.key = key
+    this.owner = owner
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, this.touch, { passive: true }))
+    this.touch()
+    this.notify()
+  }
+
+  private touch = (): void => {
+    this.clearIdleTimer()
+    this.idleTimer = setTimeout(() => this.lock(), this.idleTimeoutMs)
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer)
+      this.idleTimer = null
+    }
+  }
+
+  private requireUnlocked(owner?: string): { key: CryptoKey; owner: string } {
+    if (!this.key || !this.owner || (owner !== undefined && owner !== this.owner)) {
+      throw new Error('Credential vault is locked')
+    }
+    return { key: this.key, owner: this.owner }
+  }
+
+  /**
+   * Throws if the entry was tampered with or moved from another slot
+   */
+  private async decryptEntry(entry: EncryptedEntry): Promise<VaultCredential> {
+    const { key } = this.requireUnlocked()
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: fromBase64(entry.iv),
+        additionalData: new TextEncoder().encode(entry.id),
+      },
+      key,
+      fromBase64(entry.ciphertext)
+    )
+    return JSON.parse(new TextDecoder().decode(plaintext))
+  }
+
+  private async deriveKey(passphrase: string, salt: BufferSource, iterations: number): Promise<CryptoKey> {
+    const baseKey = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    )
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+      baseKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    )
+  }
+
+  private getHeader(owner: string): Promise<VaultHeader | null> {
+    return this.read<VaultHeader>(HEADER_STORE, owner)
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(HEADER_STORE, { keyPath: 'owner' })
+          request.result.createObjectStore(ENTRY_STORE, { keyPath: 'id' })
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+    }
+    return this.db
+  }
+
+  private async read<T>(store: string, key: string): Promise<T | null> {
+    const db = await this.open()
+    const result = await this.request(db.transaction(store).objectStore(store).get(key))
+    return (result as T | undefined) ?? null
+  }
+
+  private async readAll<T>(store: string): Promise<T[]> {
+    const db = await this.open()
+    return (await this.request(db.transaction(store).objectStore(store).getAll())) as T[]
+  }
+
+  private async write(store: string, value: VaultHeader | EncryptedEntry): Promise<void> {
+    const db = await this.open()
+    await this.request(db.transaction(store, 'readwrite').objectStore(store).put(value))
+  }
+
+  private request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+export const credentialVault = new CredentialVault()
+export default credentialVault
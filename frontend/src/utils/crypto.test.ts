@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { sha256, sha256Sync } from './crypto'
+
+// FIPS 180-4 examples plus inputs crossing the one- and two-block padding edges
+const MESSAGES = [
+  '',
+  'abc',
+  'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq',
+  'a'.repeat(55),
+  'a'.repeat(56),
+  'a'.repeat(64),
+  'Zürich €😀',
+]
+
+describe('sha256', () => {
+  it('matches the FIPS 180-4 digests', () => {
+    expect(sha256Sync('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855')
+    expect(sha256Sync('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')
+  })
+
+  for (const message of MESSAGES) {
+    it(`sha256 and sha256Sync agree on ${JSON.stringify(message.slice(0, 12))} (${message.length} chars)`, async () => {
+      expect(await sha256(message)).toBe(sha256Sync(message))
+    })
+  }
+})
@@ -0,0 +1,207 @@
+/**
+ * Shared Hashing and Encoding Primitives
+ * Every commitment, nullifier and certificate hash goes through this module.
+ *
+ * `sha256` uses WebCrypto when it is available; `sha256Sync` is a pure
+ * TypeScript implementation for synchronous call sites and runtimes without
+ * `crypto.subtle` (older Node, insecure browser contexts). Both produce the
+ * same lowercase hex digest.
+ */
+
+/**
+ * Identifies how a stored digest was produced
+ * - 'sha256': FIPS 180-4 SHA-256 over the UTF-8 encoding of the input
+ * - 'legacy-djb32': the 32-bit string hash used before SHA-256 was adopted,
+ *   kept only so records issued with it can still be verified
+ */
+export type HashAlgorithm = 'sha256' | 'legacy-djb32'
+
+/** Algorithm used for every newly created commitment */
+export const CURRENT_HASH_ALGORITHM: HashAlgorithm = 'sha256'
+
+/** Algorithm assumed for records persisted without an identifier */
+export const LEGACY_HASH_ALGORITHM: HashAlgorithm = 'legacy-djb32'
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+])
+
+/**
+ * Lowercase hex encoding of a byte array
+ */
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Decode a hex string (optional `0x` prefix) to bytes
+ */
+export function fromHex(hex: string) {
+  const clean = hex.replace(/^0x/, '')
+  if (clean.length % 2 !== 0 || /[^0-9a-fA-F]/.test(clean)) {
+    throw new Error('Invalid hex string')
+  }
+  const bytes = new Uint8Array(clean.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.substr(i * 2, 2), 16)
+  }
+  return bytes
+}
+
+/**
+ * Base64 encoding of a byte array
+ */
+export function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach(b => { binary += String.fromCharCode(b) })
+  return btoa(binary)
+}
+
+/**
+ * Decode a base64 string to bytes
+ */
+export function fromBase64(base64: string) {
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0))
+}
+
+/**
+ * Cryptographically random bytes, hex encoded
+ */
+export function randomHex(byteLength: number): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(byteLength)))
+}
+
+/**
+ * Synchronous SHA-256 (hex digest)
+ */
+export function sha256Sync(message: string): string {
+  return toHex(sha256Bytes(new TextEncoder().encode(message)))
+}
+
+/**
+ * SHA-256 (hex digest), via WebCrypto when available
+ */
+export async function sha256(message: string): Promise<string> {
+  const subtle = globalThis.crypto?.subtle
+  if (!subtle) {
+    return sha256Sync(message)
+  }
+  const hashBuffer = await subtle.digest('SHA-256', new TextEncoder().encode(message))
+  return toHex(new Uint8Array(hashBuffer))
+}
+
+/**
+ * Hash with an explicit algorithm (used when re-deriving stored digests)
+ */
+export async function hashWith(algorithm: HashAlgorithm, message: string): Promise<string> {
+  return algorithm === 'sha256' ? sha256(message) : legacyDjb32(message)
+}
+
+/**
+ * Check a stored digest against its pre-image
+ * Accepts digests with or without a `0x` prefix. Legacy digests were
+ * rendered in two padding styles, both are accepted.
+ */
+export async function verifyDigest(
+  message: string,
+  digest: string,
+  algorithm: HashAlgorithm = CURRENT_HASH_ALGORITHM
+): Promise<boolean> {
+  const expected = digest.replace(/^0x/, '').toLowerCase()
+  if (algorithm === 'sha256') {
+    return (await sha256(message)) === expected
+  }
+  const value = legacyDjb32Value(message)
+  return (
+    expected === value.padStart(64, '0') ||
+    expected === (value + 'a'.repeat(64)).substring(0, 64)
+  )
+}
+
+/**
+ * Legacy 32-bit string hash, zero-padded to 64 hex chars
+ * Do not use for new data.
+ */
+export function legacyDjb32(message: string): string {
+  return legacyDjb32Value(message).padStart(64, '0')
+}
+
+function legacyDjb32Value(message: string): string {
+  let hash = 0
+  for (let i = 0; i < message.length; i++) {
+    hash = ((hash << 5) - hash) + message.charCodeAt(i)
+    hash = hash & hash
+  }
+  return Math.abs(hash).toString(16)
+}
+
+function sha256Bytes(data: Uint8Array): Uint8Array {
+  const bitLength = data.length * 8
+  const paddedLength = Math.ceil((data.length + 9) / 64) * 64
+  const padded = new Uint8Array(paddedLength)
+  padded.set(data)
+  padded[data.length] = 0x80
+  const view = new DataView(padded.buffer)
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000))
+  view.setUint32(paddedLength - 4, bitLength >>> 0)
+
+  const h = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ])
+  const w = new Uint32Array(64)
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(offset + i * 4)
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3)
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10)
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1
+    }
+
+    let [a, b, c, d, e, f, g, hh] = h
+    for (let i = 0; i < 64; i++) {
+      const S1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)
+      const ch = (e & f) ^ (~e & g)
+      const temp1 = (hh + S1 + ch + K[i] + w[i]) >>> 0
+      const S0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)
+      const maj = (a & b) ^ (a & c) ^ (b & c)
+      const temp2 = (S0 + maj) >>> 0
+
+      hh = g
+      g = f
+      f = e
+      e = (d + temp1) >>> 0
+      d = c
+      c = b
+      b = a
+      a = (temp1 + temp2) >>> 0
+    }
+
+    h[0] += a
+    h[1] += b
+    h[2] += c
+    h[3] += d
+    h[4] += e
+    h[5] += f
+    h[6] += g
+    h[7] += hh
+  }
+
+  const out = new Uint8Array(32)
+  const outView = new DataView(out.buffer)
+  h.forEach((word, i) => outView.setUint32(i * 4, word))
+  return out
+}
+
+function rotr(x: number, n: number): number {
+  return (x >>> n) | (x << (32 - n))
+}
@@ -0,0 +1,145 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { signWithSecretKey } from '../test/signing'
+import { configLoader } from './config'
+import { randomHex } from './crypto'
+import {
+  DOMAIN_LINKAGE_TYPE,
+  DOMAIN_LINKAGE_VERSION,
+  checkDomainLinkage,
+  domainLinkageMessage,
+  httpWellKnownFetcher,
+  localWellKnownHost,
+  websiteOrigin,
+  type DomainLinkageDocument,
+} from './domainLinkage'
+import { holderPublicKeyOf } from './holderSignature'
+import type { IssuerProfile } from './ledgerBackend'
+
+interface TestIssuer {
+  secretKey: string
+  profile: IssuerProfile
+}
+
+function createIssuer(website: string): TestIssuer {
+  const secretKey = randomHex(32)
+  return {
+    secretKey,
+    profile: {
+      issuerAddress: 'addr_' + randomHex(8),
+      metadata: { name: 'Test University', country: 'GB', accreditationId: 'ACC-1', logoHash: '', website },
+      metadataHash: randomHex(32),
+      publicKey: holderPublicKeyOf(secretKey),
+      signature: '',
+      status: 'approved',
+      submittedAt: 1_750_000_000,
+    },
+  }
+}
+
+async function linkageDocument(
+  issuer: TestIssuer,
+  origin: string,
+  signingKey = issuer.secretKey
+): Promise<DomainLinkageDocument> {
+  return {
+    version: DOMAIN_LINKAGE_VERSION,
+    type: DOMAIN_LINKAGE_TYPE,
+    origin,
+    issuerAddress: issuer.profile.issuerAddress,
+    publicKey: issuer.profile.publicKey,
+    signature: await signWithSecretKey(signingKey, domainLinkageMessage(origin, issuer.profile.issuerAddress)),
+    createdAt: new Date().toISOString(),
+  }
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  vi.unstubAllGlobals()
+  vi.useRealTimers()
+})
+
+describe('checkDomainLinkage', () => {
+  it('verifies a document the issuer published on its website', async () => {
+    const origin = `https://${randomHex(4)}.example.ac.uk`
+    const issuer = createIssuer(`${origin}/admissions`)
+    localWellKnownHost.publish(await linkageDocument(issuer, origin))
+
+    expect(await checkDomainLinkage(issuer.profile, localWellKnownHost.fetch)).toEqual({
+      status: 'verified',
+      origin,
+    })
+  })
+
+  it('rejects a document made for another origin', async () => {
+    const origin = `https://${randomHex(4)}.example.ac.uk`
+    const mirror = `https://${randomHex(4)}.example.com`
+    const issuer = createIssuer(origin)
+    localWellKnownHost.publish(await linkageDocument(issuer, mirror))
+
+    // The issuer's site serves a copy of the mirror's document
+    const result = await checkDomainLinkage(issuer.profile, async () => localWellKnownHost.get(mirror))
+    expect(result.status).toBe('failed')
+    expect(result.reason).toBe(`Document is for ${mirror}, not ${origin}`)
+  })
+
+  it('rejects a document signed with another key', async () => {
+    const origin = `https://${randomHex(4)}.example.ac.uk`
+    const issuer = createIssuer(origin)
+    localWellKnownHost.publish(await linkageDocument(issuer, origin, randomHex(32)))
+
+    const result = await checkDomainLinkage(issuer.profile, localWellKnownHost.fetch)
+    expect(result.status).toBe('failed')
+    expect(result.reason).toBe('Document signature is invalid')
+  })
+
+  it('fails when the website does not answer in time', async () => {
+    vi.useFakeTimers()
+    vi.stubGlobal(
+      'fetch',
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(new Error('The operation was aborted')))
+        })
+    )
+    const issuer = createIssuer(`https://${randomHex(4)}.example.ac.uk`)
+
+    const pending = checkDomainLinkage(issuer.profile, httpWellKnownFetcher)
+    await vi.runAllTimersAsync()
+    const result = await pending
+    expect(result.status).toBe('failed')
+    expect(result.reason).toMatch(/^Could not fetch \/\.well-known\/privatediploma\.json: /)
+  })
+
+  it('refuses an http: website on the production ledger', async () => {
+    vi.spyOn(configLoader, 'getLedgerBackendKind').mockReturnValue('production')
+    const issuer = createIssuer('http://insecure.example.ac.uk')
+
+    expect(websiteOrigin(issuer.profile.metadata.website)).toBeNull()
+    const result = await checkDomainLinkage(issuer.profile, localWellKnownHost.fetch)
+    expect(result).toEqual({ status: 'failed', reason: 'http://insecure.example.ac.uk is not an https:// website' })
+  })
+
+  it('names both accepted protocols on simulated ledgers', async () => {
+    vi.spyOn(configLoader, 'getLedgerBackendKind').mockReturnValue('local')
+    const issuer = createIssuer('ftp://files.example.ac.uk')
+
+    const result = await checkDomainLinkage(issuer.profile, localWellKnownHost.fetch)
+    expect(result).toEqual({
+      status: 'failed',
+      reason: 'ftp://files.example.ac.uk is not an https:// or http:// website',
+    })
+  })
+})
+
+describe('websiteOrigin', () => {
+  it('accepts http: websites on simulated ledgers', () => {
+    vi.spyOn(configLoader, 'getLedgerBackendKind').mockReturnValue('local')
+    expect(websiteOrigin('http://localhost:8080/about')).toBe('http://localhost:8080')
+  })
+
+  it('ignores anything but web URLs', () => {
+    expect(websiteOrigin('')).toBeNull()
+    expect(websiteOrigin('not a url')).toBeNull()
+    expect(websiteOrigin('ftp://files.example.ac.uk')).toBeNull()
+  })
+})
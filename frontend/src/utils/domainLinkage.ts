@@ -0,0 +1,239 @@
+/**
+ * Domain Linkage
+ * Proof that a registered issuer controls the website it claims.
+ *
+ * The issuer publishes `/.well-known/privatediploma.json` on its website: its
+ * Midnight address and origin, signed with the same key its issuer profile is
+ * signed with. A verifier fetches the document from the origin named in the
+ * profile and checks it against the on-chain profile. Only someone who can
+ * serve files from that origin and holds the issuer's key can produce a
+ * matching document.
+ *
+ * Simulated ledgers fetch from `localWellKnownHost`, a stand-in for the
+ * issuers' web servers; the production ledger fetches over HTTPS.
+ */
+
+import { canonicalize } from './canonical'
+import { configLoader } from './config'
+import { holderKeys } from './holderKeys'
+import { holderKeyFor, verifyHolderSignature } from './holderSignature'
+import type { IssuerProfile } from './ledgerBackend'
+
+const HOST_STORAGE_KEY = '__privatediploma_well_known_host'
+const LINKAGE_DOMAIN = 'privatediploma/domain-linkage/v1'
+
+export const WELL_KNOWN_PATH = '/.well-known/privatediploma.json'
+export const DOMAIN_LINKAGE_TYPE = 'privatediploma/domain-linkage'
+export const DOMAIN_LINKAGE_VERSION = 1
+
+// How long a verifier waits for an issuer's web server
+const FETCH_TIMEOUT_MS = 5000
+
+/**
+ * Contents of an issuer's `/.well-known/privatediploma.json`
+ */
+export interface DomainLinkageDocument {
+  version: typeof DOMAIN_LINKAGE_VERSION
+  type: typeof DOMAIN_LINKAGE_TYPE
+  /** Origin the document is served from, e.g. https://www.example.ac.uk */
+  origin: string
+  issuerAddress: string
+  /** Must equal the issuer profile's key */
+  publicKey: string
+  signature: string
+  createdAt: string
+}
+
+/** `no-website` when the profile names no website to check */
+export type DomainLinkageStatus = 'verified' | 'failed' | 'no-website'
+
+export interface DomainLinkageResult {
+  status: DomainLinkageStatus
+  origin?: string
+  /** Why the check failed */
+  reason?: string
+}
+
+/** Fetch and JSON-parse a URL; throws if it cannot be retrieved */
+export type WellKnownFetcher = (url: string) => Promise<unknown>
+
+/**
+ * Canonical message an issuer signs to link its address to an origin
+ */
+export function domainLinkageMessage(origin: string, issuerAddress: string): string {
+  return canonicalize({ domain: LINKAGE_DOMAIN, origin, issuerAddress })
+}
+
+/**
+ * URL protocols a website is checked over
+ * The production ledger fetches over HTTPS only; simulated ledgers also
+ * accept http: origins.
+ */
+function websiteProtocols(): string[] {
+  return configLoader.getLedgerBackendKind() === 'production' ? ['https:'] : ['https:', 'http:']
+}
+
+/**
+ * Origin of a profile's website, or null if it names none we can check
+ */
+export function websiteOrigin(website: string): string | null {
+  if (!website) return null
+  let url: URL
+  try {
+    url = new URL(website)
+  } catch {
+    return null
+  }
+  return websiteProtocols().includes(url.protocol) ? url.origin : null
+}
+
+/**
+ * Build and sign the well-known document for an issuer's website
+ */
+export async function createDomainLinkageDocument(
+  issuerAddress: string,
+  website: string
+): Promise<DomainLinkageDocument> {
+  const origin = websiteOrigin(website)
+  if (!origin) {
+    throw new Error('Issuer profile has no valid website')
+  }
+  const keyPair = await holderKeys.getOrCreate(issuerAddress)
+  const signature = await holderKeys.sign(issuerAddress, domainLinkageMessage(origin, issuerAddress))
+
+  return {
+    version: DOMAIN_LINKAGE_VERSION,
+    type: DOMAIN_LINKAGE_TYPE,
+    origin,
+    issuerAddress,
+    publicKey: holderKeyFor(keyPair.publicKeyHex, 'signing'),
+    signature,
+    createdAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Why a fetched document does not link `profile` to `origin`, or null if it does
+ */
+export function domainLinkageError(document: unknown, profile: IssuerProfile, origin: string): string | null {
+  if (!document || typeof document !== 'object' || Array.isArray(document)) {
+    return 'Well-known document is not a JSON object'
+  }
+  const doc = document as Record<string, unknown>
+  if (doc.type !== DOMAIN_LINKAGE_TYPE || doc.version !== DOMAIN_LINKAGE_VERSION) {
+    return 'Well-known document is not a privatediploma domain linkage'
+  }
+  if (doc.origin !== origin) {
+    return `Document is for ${String(doc.origin)}, not ${origin}`
+  }
+  if (doc.issuerAddress !== profile.issuerAddress) {
+    return 'Document names a different issuer address'
+  }
+  if (doc.publicKey !== profile.publicKey) {
+    return "Document is not signed with the issuer profile's key"
+  }
+  if (
+    typeof doc.signature !== 'string' ||
+    !verifyHolderSignature(profile.publicKey, domainLinkageMessage(origin, profile.issuerAddress), doc.signature)
+  ) {
+    return 'Document signature is invalid'
+  }
+  return null
+}
+
+/**
+ * Fetch an issuer's well-known document and check it against its profile
+ */
+export async function checkDomainLinkage(
+  profile: IssuerProfile,
+  fetchDocument: WellKnownFetcher = defaultWellKnownFetcher()
+): Promise<DomainLinkageResult> {
+  if (!profile.metadata.website) {
+    return { status: 'no-website' }
+  }
+  const origin = websiteOrigin(profile.metadata.website)
+  if (!origin) {
+    const accepted = websiteProtocols().map(protocol => `${protocol}//`).join(' or ')
+    return { status: 'failed', reason: `${profile.metadata.website} is not an ${accepted} website` }
+  }
+
+  let document: unknown
+  try {
+    document = await fetchDocument(origin + WELL_KNOWN_PATH)
+  } catch (error) {
+    return {
+      status: 'failed',
+      origin,
+      reason: `Could not fetch ${WELL_KNOWN_PATH}: ${error instanceof Error ? error.message : 'unknown error'}`,
+    }
+  }
+
+  const reason = domainLinkageError(document, profile, origin)
+  return reason ? { status: 'failed', origin, reason } : { status: 'verified', origin }
+}
+
+/**
+ * Fetch over HTTPS; the issuer's server must allow cross-origin GETs
+ */
+export const httpWellKnownFetcher: WellKnownFetcher = async url => {
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS)
+  try {
+    const response = await fetch(url, { signal: controller.signal, headers: { Accept: 'application/json' } })
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`)
+    }
+    return await response.json()
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+/**
+ * Local web host
+ * Well-known documents by origin, served to verifiers as if fetched from the
+ * issuer's website. Stands in for issuers' web servers on simulated ledgers.
+ */
+class LocalWellKnownHost {
+  private load(): Record<string, DomainLinkageDocument> {
+    try {
+      return JSON.parse(localStorage.getItem(HOST_STORAGE_KEY) || '{}')
+    } catch (error) {
+      console.error('Failed to load well-known documents:', error)
+      return {}
+    }
+  }
+
+  private save(documents: Record<string, DomainLinkageDocument>): void {
+    localStorage.setItem(HOST_STORAGE_KEY, JSON.stringify(documents))
+  }
+
+  /** Serve `document` at its origin's well-known path */
+  publish(document: DomainLinkageDocument): void {
+    this.save({ ...this.load(), [document.origin]: document })
+    console.log('🌐 Published', WELL_KNOWN_PATH, 'for', document.origin)
+  }
+
+  get(origin: string): DomainLinkageDocument | null {
+    return this.load()[origin] ?? null
+  }
+
+  /** Answers like a web server: the document, or a 404 */
+  fetch: WellKnownFetcher = async url => {
+    const { origin, pathname } = new URL(url)
+    const document = pathname === WELL_KNOWN_PATH ? this.get(origin) : null
+    if (!document) {
+      throw new Error('HTTP 404')
+    }
+    return document
+  }
+}
+
+export const localWellKnownHost = new LocalWellKnownHost()
+
+/**
+ * The local stand-in on simulated ledgers, HTTPS on the production ledger
+ */
+export function defaultWellKnownFetcher(): WellKnownFetcher {
+  return configLoader.getLedgerBackendKind() === 'production' ? httpWellKnownFetcher : localWellKnownHost.fetch
+}
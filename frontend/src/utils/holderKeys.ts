@@ -0,0 +1,191 @@
+/**
+ * Holder Key Management
+ * One holder key per wallet address: three P-256 key pairs, for ECDH
+ * (agreement), ECDSA (signing) and holder-keyed hashes (nullifier), each
+ * derived from a 32-byte master secret with its own domain tag.
+ *
+ * The public key is what a university encrypts opening packages to and binds
+ * diplomas to; students share it (hex, the three uncompressed points) when
+ * they enrol. The master secret is sealed under the credential vault key, so
+ * creating a key and every private operation need the owner's vault
+ * unlocked; only public keys are stored in the clear.
+ */
+
+import { credentialVault, type SealedSecret } from './credentialVault'
+import { fromHex, randomHex, sha256, toBase64, toHex } from './crypto'
+import {
+  HOLDER_KEY_PURPOSES,
+  deriveHolderSecretKey,
+  holderKeyFor,
+  holderPublicKeyOf,
+  type HolderKeyPurpose,
+} from './holderSignature'
+
+const STORAGE_KEY = '__privatediploma_holder_keys'
+const MASTER_SECRET_LABEL = 'holder-key/master'
+const LOCKED_MESSAGE = 'Unlock your credential vault to use your holder key'
+
+export interface HolderKeyPair {
+  address: string
+  keyId: string
+  /** Agreement, signing and nullifier public keys */
+  publicKeyHex: string
+  /** Master secret under the vault key */
+  sealedSecret: SealedSecret
+  createdAt: number
+}
+
+/**
+ * Short identifier for a public key (first 16 hex chars of its SHA-256)
+ */
+export async function holderKeyId(publicKeyHex: string): Promise<string> {
+  return (await sha256(publicKeyHex.toLowerCase())).slice(0, 16)
+}
+
+/**
+ * Import the agreement part of a holder key for ECDH key agreement
+ * Throws unless every part is an uncompressed point on P-256.
+ */
+export async function importHolderPublicKey(publicKeyHex: string): Promise<CryptoKey> {
+  const parts = HOLDER_KEY_PURPOSES.map(purpose => holderKeyFor(publicKeyHex, purpose))
+  if (parts.some(part => !part.startsWith('04'))) {
+    throw new Error('Student public key must be a holder key (390 hex characters)')
+  }
+  const [agreementKey] = await Promise.all(
+    parts.map(part =>
+      crypto.subtle.importKey('raw', fromHex(part), { name: 'ECDH', namedCurve: 'P-256' }, true, [])
+    )
+  )
+  return agreementKey
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+class HolderKeyStore {
+  private keys: Map<string, HolderKeyPair> = new Map()
+
+  constructor() {
+    this.loadFromStorage()
+  }
+
+  /**
+   * Key pair for an address, generated on first use
+   * Generating needs the owner's vault unlocked.
+   */
+  async getOrCreate(address: string): Promise<HolderKeyPair> {
+    const existing = this.keys.get(address)
+    if (existing) {
+      return existing
+    }
+    if (!credentialVault.isUnlocked(address)) {
+      throw new Error(LOCKED_MESSAGE)
+    }
+
+    const masterSecret = randomHex(32)
+    const publicKeyHex = HOLDER_KEY_PURPOSES
+      .map(purpose => holderPublicKeyOf(deriveHolderSecretKey(masterSecret, purpose)))
+      .join('')
+
+    const keyPair: HolderKeyPair = {
+      address,
+      keyId: await holderKeyId(publicKeyHex),
+      publicKeyHex,
+      sealedSecret: await credentialVault.sealSecret(address, MASTER_SECRET_LABEL, fromHex(masterSecret)),
+      createdAt: Date.now(),
+    }
+    this.keys.set(address, keyPair)
+    this.saveToStorage()
+    console.log('🔑 Generated holder key for', address.slice(0, 16) + '...')
+    return keyPair
+  }
+
+  get(address: string): HolderKeyPair | null {
+    return this.keys.get(address) || null
+  }
+
+  /**
+   * Agreement private key of a holder, imported for ECDH
+   */
+  async getAgreementKey(address: string): Promise<CryptoKey> {
+    return crypto.subtle.importKey(
+      'jwk',
+      await this.privateKeyJwk(address, 'agreement'),
+      { name: 'ECDH', namedCurve: 'P-256' },
+      false,
+      ['deriveBits']
+    )
+  }
+
+  /**
+   * ECDSA P-256 / SHA-256 signature by a holder's signing key (r || s, hex)
+   * Checked with verifyHolderSignature from holderSignature.
+   */
+  async sign(address: string, message: string): Promise<string> {
+    const privateKey = await crypto.subtle.importKey(
+      'jwk',
+      await this.privateKeyJwk(address, 'signing'),
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['sign']
+    )
+    const signature = await crypto.subtle.sign(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      privateKey,
+      new TextEncoder().encode(message)
+    )
+    return toHex(new Uint8Array(signature))
+  }
+
+  /**
+   * Private scalar of a holder's nullifier key (hex)
+   * Only for holder-keyed hashes and the private witness of an anonymous
+   * presentation, which are computed locally; it must never be sent anywhere.
+   */
+  async getNullifierSecretKey(address: string): Promise<string> {
+    return this.secretKey(address, 'nullifier')
+  }
+
+  /**
+   * Private scalar for one purpose; needs the owner's vault unlocked
+   */
+  private async secretKey(address: string, purpose: HolderKeyPurpose): Promise<string> {
+    if (!credentialVault.isUnlocked(address)) {
+      throw new Error(LOCKED_MESSAGE)
+    }
+    const { sealedSecret } = await this.getOrCreate(address)
+    return deriveHolderSecretKey(toHex(await credentialVault.openSecret(address, sealedSecret)), purpose)
+  }
+
+  private async privateKeyJwk(address: string, purpose: HolderKeyPurpose): Promise<JsonWebKey> {
+    const secret = await this.secretKey(address, purpose)
+    const publicKey = fromHex(holderPublicKeyOf(secret))
+    return {
+      kty: 'EC',
+      crv: 'P-256',
+      d: toBase64Url(fromHex(secret)),
+      x: toBase64Url(publicKey.slice(1, 33)),
+      y: toBase64Url(publicKey.slice(33)),
+    }
+  }
+
+  private loadFromStorage(): void {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY)
+      if (stored) {
+        const keys = JSON.parse(stored) as HolderKeyPair[]
+        this.keys = new Map(keys.map(k => [k.address, k]))
+      }
+    } catch (error) {
+      console.error('Failed to load holder keys:', error)
+    }
+  }
+
+  private saveToStorage(): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Array.from(this.keys.values())))
+  }
+}
+
+export const holderKeys = new HolderKeyStore()
+export default holderKeys
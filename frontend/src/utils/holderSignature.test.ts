@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { signWithSecretKey } from '../test/signing'
+import { randomHex } from './crypto'
+import {
+  HOLDER_KEY_PURPOSES,
+  deriveHolderSecretKey,
+  holderKeyFor,
+  holderKeyMatches,
+  holderPublicKeyOf,
+  verifyHolderSignature,
+} from './holderSignature'
+
+describe('holder key purposes', () => {
+  const master = randomHex(32)
+  const secrets = HOLDER_KEY_PURPOSES.map(purpose => deriveHolderSecretKey(master, purpose))
+  const holderKey = secrets.map(holderPublicKeyOf).join('')
+
+  it('derives a different key for every purpose', () => {
+    expect(new Set(secrets).size).toBe(HOLDER_KEY_PURPOSES.length)
+    HOLDER_KEY_PURPOSES.forEach((purpose, idx) => {
+      expect(holderKeyMatches(holderKeyFor(holderKey, purpose), secrets[idx])).toBe(true)
+    })
+    expect(holderKeyMatches(holderKeyFor(holderKey, 'signing'), secrets[2])).toBe(false)
+  })
+
+  it('has no part for a single key or a malformed one', () => {
+    expect(holderKeyFor(holderPublicKeyOf(secrets[0]), 'agreement')).toBe('')
+    expect(holderKeyFor('04abcd', 'signing')).toBe('')
+  })
+
+  it('verifies WebCrypto signatures by the signing key only', async () => {
+    const message = 'privatediploma test message'
+    const signature = await signWithSecretKey(secrets[1], message)
+    expect(verifyHolderSignature(holderKeyFor(holderKey, 'signing'), message, signature)).toBe(true)
+    expect(verifyHolderSignature(holderKeyFor(holderKey, 'nullifier'), message, signature)).toBe(false)
+    expect(verifyHolderSignature(holderKeyFor(holderKey, 'signing'), message + '!', signature)).toBe(false)
+  })
+})
@@ -0,0 +1,332 @@
+/**
+ * Holder Signatures
+ * Binds a verification proof to the student a diploma was issued to.
+ *
+ * At issuance the diploma record stores the student's holder public key.
+ * A presentation carries an ECDSA P-256 / SHA-256 signature, made with the
+ * signing part of that key, over the proof fields; the nonce is derived from the verifier's
+ * request (see verificationSession). Verification is
+ * synchronous (like the contract's own checks) so the contract simulator can
+ * run it inside a circuit; signing goes through WebCrypto in holderKeys.
+ * Anonymous presentations prove ownership of its nullifier part with
+ * holderKeyMatches instead.
+ *
+ * Holder keys also yield holder-keyed hashes (a VRF): an output only the
+ * holder can compute for a given input, with a proof anyone can check against
+ * the public key. Verifier-scoped nullifiers are built on it.
+ *
+ * A holder key is three P-256 keys, one per purpose (see holderKeyFor), each
+ * derived from one master secret with its own domain tag.
+ */
+
+import { canonicalize } from './canonical'
+import { fromHex, sha256Sync, toHex } from './crypto'
+
+export const HOLDER_SIGNATURE_ALGORITHM = 'ECDSA-P256-SHA256'
+
+const PRESENTATION_DOMAIN = 'privatediploma/presentation/v1'
+
+/** The proof fields covered by a holder signature */
+export interface HolderSignedFields {
+  certificateHash: string
+  proofCommitment: string
+  nullifier: string
+  nonce: string
+}
+
+/**
+ * Canonical message a holder signs when presenting a proof
+ */
+export function holderPresentationMessage(fields: HolderSignedFields): string {
+  return canonicalize({
+    domain: PRESENTATION_DOMAIN,
+    certificateHash: fields.certificateHash,
+    proofCommitment: fields.proofCommitment,
+    nullifier: fields.nullifier,
+    nonce: fields.nonce,
+  })
+}
+
+const VRF_POINT_DOMAIN = 'privatediploma/holder-vrf-point/v1'
+const VRF_NONCE_DOMAIN = 'privatediploma/holder-vrf-nonce/v1'
+const VRF_CHALLENGE_DOMAIN = 'privatediploma/holder-vrf-challenge/v1'
+const VRF_OUTPUT_DOMAIN = 'privatediploma/holder-vrf-output/v1'
+
+// ============================================================================
+// P-256 (secp256r1) verification
+// ============================================================================
+
+const P = 0xffffffff00000001000000000000000000000000ffffffffffffffffffffffffn
+const N = 0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551n
+const A = P - 3n
+const B = 0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604bn
+const G: Point = {
+  x: 0x6b17d1f2e12c4247f8bce6e563a440f277037d812deb33a0f4a13945d898c296n,
+  y: 0x4fe342e2fe1a7f9b8ee7eb4a7c0f9e162bce33576b315ececbb6406837bf51f5n,
+}
+
+/** Affine point; null is the point at infinity */
+type Point = { x: bigint; y: bigint } | null
+
+function mod(a: bigint, m: bigint): bigint {
+  const r = a % m
+  return r < 0n ? r + m : r
+}
+
+function invert(a: bigint, m: bigint): bigint {
+  let [oldR, r] = [mod(a, m), m]
+  let [oldS, s] = [1n, 0n]
+  while (r !== 0n) {
+    const q = oldR / r
+    ;[oldR, r] = [r, oldR - q * r]
+    ;[oldS, s] = [s, oldS - q * s]
+  }
+  return mod(oldS, m)
+}
+
+function addPoints(p1: Point, p2: Point): Point {
+  if (!p1) return p2
+  if (!p2) return p1
+
+  let slope: bigint
+  if (p1.x === p2.x) {
+    if (mod(p1.y + p2.y, P) === 0n) return null
+    slope = mod((3n * p1.x * p1.x + A) * invert(2n * p1.y, P), P)
+  } else {
+    slope = mod((p2.y - p1.y) * invert(p2.x - p1.x, P), P)
+  }
+  const x = mod(slope * slope - p1.x - p2.x, P)
+  return { x, y: mod(slope * (p1.x - x) - p1.y, P) }
+}
+
+function multiply(k: bigint, point: Point): Point {
+  let result: Point = null
+  let addend = point
+  while (k > 0n) {
+    if (k & 1n) result = addPoints(result, addend)
+    addend = addPoints(addend, addend)
+    k >>= 1n
+  }
+  return result
+}
+
+function power(base: bigint, exponent: bigint, m: bigint): bigint {
+  let result = 1n
+  base = mod(base, m)
+  while (exponent > 0n) {
+    if (exponent & 1n) result = mod(result * base, m)
+    base = mod(base * base, m)
+    exponent >>= 1n
+  }
+  return result
+}
+
+function toBigInt(bytes: Uint8Array): bigint {
+  return bytes.length === 0 ? 0n : BigInt('0x' + toHex(bytes))
+}
+
+/**
+ * Parse an uncompressed public key and check it lies on the curve
+ */
+function decodePublicKey(publicKeyHex: string): Point {
+  const raw = fromHex(publicKeyHex.trim())
+  if (raw.length !== 65 || raw[0] !== 0x04) {
+    return null
+  }
+  const x = toBigInt(raw.slice(1, 33))
+  const y = toBigInt(raw.slice(33))
+  if (x >= P || y >= P || mod(y * y - (x * x * x + A * x + B), P) !== 0n) {
+    return null
+  }
+  return { x, y }
+}
+
+/**
+ * Verify a holder signature (IEEE P1363 r || s, hex) over a message
+ * Never throws; malformed keys or signatures verify as false.
+ */
+export function verifyHolderSignature(
+  publicKeyHex: string,
+  message: string,
+  signatureHex: string
+): boolean {
+  try {
+    const publicKey = decodePublicKey(publicKeyHex)
+    const signature = fromHex(signatureHex)
+    if (!publicKey || signature.length !== 64) {
+      return false
+    }
+
+    const r = toBigInt(signature.slice(0, 32))
+    const s = toBigInt(signature.slice(32))
+    if (r <= 0n || r >= N || s <= 0n || s >= N) {
+      return false
+    }
+
+    const e = BigInt('0x' + sha256Sync(message))
+    const w = invert(s, N)
+    const point = addPoints(multiply(mod(e * w, N), G), multiply(mod(r * w, N), publicKey))
+    return point !== null && mod(point.x, N) === r
+  } catch {
+    return false
+  }
+}
+
+// ============================================================================
+// Holder key purposes
+// ============================================================================
+
+/**
+ * What one part of a holder key is used for
+ * - 'agreement': ECDH, the key issuers seal opening packages to
+ * - 'signing': ECDSA presentation signatures
+ * - 'nullifier': holder-keyed hashes and anonymous-presentation ownership
+ */
+export type HolderKeyPurpose = 'agreement' | 'signing' | 'nullifier'
+
+/** Order of the parts in a holder key */
+export const HOLDER_KEY_PURPOSES: readonly HolderKeyPurpose[] = ['agreement', 'signing', 'nullifier']
+
+const HOLDER_KEY_DERIVATION_DOMAIN = 'privatediploma/holder-key/v1'
+const PUBLIC_KEY_HEX_LENGTH = 130
+
+/**
+ * Secret scalar (hex) for one purpose, derived from a holder's master secret
+ * Each purpose has its own domain tag, so no scalar is shared between ECDH,
+ * ECDSA and holder-keyed hashes.
+ */
+export function deriveHolderSecretKey(masterSecretHex: string, purpose: HolderKeyPurpose): string {
+  const d = hashToScalar(HOLDER_KEY_DERIVATION_DOMAIN, { secret: masterSecretHex.toLowerCase(), purpose }, N - 1n) + 1n
+  return d.toString(16).padStart(64, '0')
+}
+
+/**
+ * Uncompressed public key (hex) of a secret scalar
+ */
+export function holderPublicKeyOf(secretKeyHex: string): string {
+  const d = toBigInt(fromHex(secretKeyHex))
+  if (d <= 0n || d >= N) {
+    throw new Error('Holder secret key is out of range')
+  }
+  return encodePoint(multiply(d, G))
+}
+
+/**
+ * The public key a holder key uses for one purpose (hex, lowercase)
+ * A holder key is its three public keys concatenated in HOLDER_KEY_PURPOSES
+ * order. Returns '' for anything else.
+ */
+export function holderKeyFor(holderKey: string, purpose: HolderKeyPurpose): string {
+  const clean = holderKey.trim().toLowerCase().replace(/^0x/, '')
+  if (clean.length !== PUBLIC_KEY_HEX_LENGTH * HOLDER_KEY_PURPOSES.length) {
+    return ''
+  }
+  const offset = HOLDER_KEY_PURPOSES.indexOf(purpose) * PUBLIC_KEY_HEX_LENGTH
+  return clean.slice(offset, offset + PUBLIC_KEY_HEX_LENGTH)
+}
+
+/**
+ * Does `secretKeyHex` (the private scalar, hex) belong to the public key?
+ * The key-ownership check of an anonymous presentation, which has no
+ * signature over a certificate to verify. Never throws.
+ */
+export function holderKeyMatches(publicKeyHex: string, secretKeyHex: string): boolean {
+  try {
+    const publicKey = decodePublicKey(publicKeyHex)
+    const d = toBigInt(fromHex(secretKeyHex))
+    if (!publicKey || d <= 0n || d >= N) {
+      return false
+    }
+    const point = multiply(d, G)
+    return point !== null && point.x === publicKey.x && point.y === publicKey.y
+  } catch {
+    return false
+  }
+}
+
+// ============================================================================
+// Holder-keyed hashes (ECVRF-style, P-256)
+// ============================================================================
+
+/** Uncompressed encoding; the empty string for the point at infinity */
+function encodePoint(point: Point): string {
+  return point ? '04' + point.x.toString(16).padStart(64, '0') + point.y.toString(16).padStart(64, '0') : ''
+}
+
+function hashToScalar(domain: string, fields: Record<string, unknown>, m: bigint): bigint {
+  return mod(BigInt('0x' + sha256Sync(canonicalize({ domain, ...fields }))), m)
+}
+
+/**
+ * Map an input to a curve point nobody knows the discrete log of
+ * Try-and-increment: the first counter whose hash is an x coordinate on the
+ * curve wins; y is the even root. P = 3 (mod 4), so the root is one power.
+ */
+function hashToCurve(input: string): Point {
+  for (let counter = 0; ; counter++) {
+    const x = hashToScalar(VRF_POINT_DOMAIN, { input, counter }, P)
+    const rhs = mod(x * x * x + A * x + B, P)
+    const y = power(rhs, (P + 1n) / 4n, P)
+    if (mod(y * y, P) === rhs) {
+      return { x, y: y & 1n ? P - y : y }
+    }
+  }
+}
+
+function vrfChallenge(points: Point[]): bigint {
+  return hashToScalar(VRF_CHALLENGE_DOMAIN, { points: points.map(encodePoint) }, N)
+}
+
+/**
+ * Holder-keyed hash of `input`, with its proof (hex)
+ * The proof is Γ = d·H(input) plus a Chaum-Pedersen proof that Γ and the
+ * public key share the secret d; holderKeyedHashOutput hashes Γ. The nonce
+ * is derived from the secret and input, so proving is deterministic.
+ */
+export function proveHolderKeyedHash(secretKeyHex: string, input: string): string {
+  const d = toBigInt(fromHex(secretKeyHex))
+  if (d <= 0n || d >= N) {
+    throw new Error('Holder secret key is out of range')
+  }
+  const h = hashToCurve(input)
+  const gamma = multiply(d, h)
+  const k = hashToScalar(VRF_NONCE_DOMAIN, { secret: secretKeyHex.toLowerCase(), input }, N - 1n) + 1n
+  const c = vrfChallenge([multiply(d, G), h, gamma, multiply(k, G), multiply(k, h)])
+  const s = mod(k - c * d, N)
+  return encodePoint(gamma) + c.toString(16).padStart(64, '0') + s.toString(16).padStart(64, '0')
+}
+
+/**
+ * Does `proofHex` prove a holder-keyed hash of `input` under the public key?
+ * Never throws; malformed keys or proofs verify as false.
+ */
+export function verifyHolderKeyedHash(publicKeyHex: string, input: string, proofHex: string): boolean {
+  try {
+    const publicKey = decodePublicKey(publicKeyHex)
+    const proof = fromHex(proofHex)
+    if (!publicKey || proof.length !== 129) {
+      return false
+    }
+    const gamma = decodePublicKey(toHex(proof.slice(0, 65)))
+    const c = toBigInt(proof.slice(65, 97))
+    const s = toBigInt(proof.slice(97))
+    if (!gamma || c >= N || s >= N) {
+      return false
+    }
+
+    const h = hashToCurve(input)
+    const u = addPoints(multiply(s, G), multiply(c, publicKey))
+    const v = addPoints(multiply(s, h), multiply(c, gamma))
+    return vrfChallenge([publicKey, h, gamma, u, v]) === c
+  } catch {
+    return false
+  }
+}
+
+/**
+ * The hash a holder-keyed hash proof commits to
+ * Only meaningful once verifyHolderKeyedHash has accepted the proof.
+ */
+export function holderKeyedHashOutput(proofHex: string): string {
+  return sha256Sync(canonicalize({ domain: VRF_OUTPUT_DOMAIN, point: toHex(fromHex(proofHex).slice(0, 65)) }))
+}
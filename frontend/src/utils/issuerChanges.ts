@@ -0,0 +1,104 @@
+/**
+ * Issuer Change Log
+ * Owner-signed authorization changes, from submission until they settle.
+ *
+ * The admin console submits an addAuthorizedIssuer / removeAuthorizedIssuer
+ * transaction, records it here as pending and applies it to the ledger once
+ * the transaction confirms. Pending entries survive a reload, so the console
+ * can pick up monitoring where it left off.
+ */
+
+import type { IssuerChange } from './ledgerBackend'
+
+const STORAGE_KEY = '__privatediploma_issuer_changes'
+
+// Settled entries kept for the console's history
+const HISTORY_LIMIT = 50
+
+export type IssuerChangeStatus = 'pending' | 'applied' | 'failed'
+
+export interface IssuerChangeEntry {
+  change: IssuerChange
+  university: string
+  txHash: string
+  /** Owner address that signed the transaction */
+  submittedBy: string
+  submittedAt: number
+  status: IssuerChangeStatus
+  settledAt?: number
+  error?: string
+}
+
+/**
+ * Why a change cannot be submitted, or null if it can
+ * Rejects no-op changes and a second change for an address still pending.
+ */
+export function issuerChangeError(
+  change: IssuerChange,
+  university: string,
+  authorized: string[],
+  pending: IssuerChangeEntry[]
+): string | null {
+  if (!university) {
+    return 'Enter a university address'
+  }
+  if (/\s/.test(university)) {
+    return 'Address must not contain spaces'
+  }
+  if (pending.some(p => p.university === university)) {
+    return 'A change for this address is already pending'
+  }
+  if (change === 'add' && authorized.includes(university)) {
+    return 'This university is already an authorized issuer'
+  }
+  if (change === 'remove' && !authorized.includes(university)) {
+    return 'This university is not an authorized issuer'
+  }
+  return null
+}
+
+class IssuerChangeLog {
+  private load(): IssuerChangeEntry[] {
+    try {
+      return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]')
+    } catch (error) {
+      console.error('Failed to load issuer changes:', error)
+      return []
+    }
+  }
+
+  private save(entries: IssuerChangeEntry[]): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries))
+  }
+
+  /** Newest first */
+  list(): IssuerChangeEntry[] {
+    return this.load().sort((a, b) => b.submittedAt - a.submittedAt)
+  }
+
+  pending(): IssuerChangeEntry[] {
+    return this.list().filter(e => e.status === 'pending')
+  }
+
+  add(entry: Omit<IssuerChangeEntry, 'status'>): IssuerChangeEntry {
+    const recorded: IssuerChangeEntry = { ...entry, status: 'pending' }
+    this.save([...this.load(), recorded])
+    return recorded
+  }
+
+  /** Mark a pending change applied or failed; older settled entries are pruned */
+  settle(txHash: string, status: Exclude<IssuerChangeStatus, 'pending'>, error?: string): void {
+    const entries = this.load().map(e =>
+      e.txHash === txHash && e.status === 'pending'
+        ? { ...e, status, settledAt: Date.now(), ...(error ? { error } : {}) }
+        : e
+    )
+    const settled = entries
+      .filter(e => e.status !== 'pending')
+      .sort((a, b) => b.submittedAt - a.submittedAt)
+      .slice(0, HISTORY_LIMIT)
+    this.save([...entries.filter(e => e.status === 'pending'), ...settled])
+  }
+}
+
+export const issuerChanges = new IssuerChangeLog()
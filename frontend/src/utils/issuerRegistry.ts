@@ -0,0 +1,101 @@
+/**
+ * Issuer Registry
+ * Who a university address belongs to, as the university itself signed it.
+ *
+ * A university signs its metadata (name, country, accreditation id, logo
+ * hash, website) with its P-256 signing key and registers it on the ledger
+ * (contract: registerIssuerMetadata). The profile stays pending until the
+ * contract owner approves that exact metadata (contract:
+ * approveIssuerMetadata); any later edit needs a fresh approval. Hashing and
+ * verification are synchronous so the contract simulator can run them inside
+ * a circuit; signing goes through WebCrypto in holderKeys, which keeps one
+ * key pair per address.
+ */
+
+import { canonicalize } from './canonical'
+import { sha256Sync } from './crypto'
+import { holderKeys } from './holderKeys'
+import { holderKeyFor, verifyHolderSignature } from './holderSignature'
+import type { IssuerMetadata, IssuerProfile } from './ledgerBackend'
+
+const METADATA_DOMAIN = 'privatediploma/issuer-metadata/v1'
+
+export const ISSUER_METADATA_LABELS: Record<keyof IssuerMetadata, string> = {
+  name: 'Display name',
+  country: 'Country',
+  accreditationId: 'Accreditation ID',
+  logoHash: 'Logo hash (SHA-256)',
+  website: 'Website',
+}
+
+/**
+ * Canonical message an issuer signs for its metadata
+ * Binds the metadata to the issuer's address so it cannot be replayed by
+ * another university.
+ */
+export function issuerMetadataMessage(issuerAddress: string, metadata: IssuerMetadata): string {
+  return canonicalize({
+    domain: METADATA_DOMAIN,
+    issuerAddress,
+    name: metadata.name,
+    country: metadata.country,
+    accreditationId: metadata.accreditationId,
+    logoHash: metadata.logoHash,
+    website: metadata.website,
+  })
+}
+
+/**
+ * Hash the owner approves; approving it approves exactly this metadata
+ */
+export function issuerMetadataHash(issuerAddress: string, metadata: IssuerMetadata): string {
+  return '0x' + sha256Sync(issuerMetadataMessage(issuerAddress, metadata))
+}
+
+/**
+ * Field-by-field problems with metadata before it is signed
+ */
+export function issuerMetadataErrors(metadata: IssuerMetadata): string[] {
+  const errors: string[] = []
+  if (!metadata.name.trim()) errors.push('Display name is required')
+  if (!/^[A-Z]{2}$/.test(metadata.country)) errors.push('Country must be a two-letter ISO code (e.g. GB)')
+  if (!metadata.accreditationId.trim()) errors.push('Accreditation ID is required')
+  if (metadata.logoHash && !/^[0-9a-f]{64}$/.test(metadata.logoHash)) {
+    errors.push('Logo hash must be a SHA-256 hex digest')
+  }
+  if (metadata.website && !/^https:\/\/[^\s/]+/.test(metadata.website)) {
+    errors.push('Website must be an https:// URL')
+  }
+  return errors
+}
+
+/**
+ * Sign metadata with the issuer's key
+ */
+export async function signIssuerMetadata(
+  issuerAddress: string,
+  metadata: IssuerMetadata
+): Promise<{ publicKey: string; signature: string }> {
+  const keyPair = await holderKeys.getOrCreate(issuerAddress)
+  const signature = await holderKeys.sign(issuerAddress, issuerMetadataMessage(issuerAddress, metadata))
+  return { publicKey: holderKeyFor(keyPair.publicKeyHex, 'signing'), signature }
+}
+
+/**
+ * Whether a profile's metadata carries a valid signature by its key
+ */
+export function isIssuerProfileSigned(profile: IssuerProfile): boolean {
+  return verifyHolderSignature(
+    profile.publicKey,
+    issuerMetadataMessage(profile.issuerAddress, profile.metadata),
+    profile.signature
+  )
+}
+
+/**
+ * Whether a verifier can trust a profile: approved by the owner and still
+ * carrying a valid issuer signature over its metadata
+ */
+export function isIssuerProfileVerified(profile: IssuerProfile | null | undefined): boolean {
+  return !!profile && profile.status === 'approved' && isIssuerProfileSigned(profile)
+}
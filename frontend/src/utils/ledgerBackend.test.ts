@@ -0,0 +1,145 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { configLoader } from './config'
+import { randomHex } from './crypto'
+import { holderPublicKeyOf } from './holderSignature'
+import { resolveAmendmentChain, type IssueDiplomaRequest, type LedgerBackend } from './ledgerBackend'
+import { LocalLedgerBackend } from './MidnightNetworkService'
+import { MockLedgerBackend } from './mockBlockchain'
+import {
+  PROOF_ENVELOPE_TYPE,
+  PROOF_ENVELOPE_VERSION,
+  toVerificationProof,
+  type ProofEnvelope,
+} from './proofEnvelope'
+import { NULLIFIER_EPOCH_SECONDS, deriveVerifierNullifier } from './verifierNullifier'
+
+function issueRequest(): IssueDiplomaRequest {
+  return {
+    certificateHash: '0x' + randomHex(32),
+    studentDataCommitment: '0x' + randomHex(32),
+    degreeTypeHash: '0x' + randomHex(32),
+    departmentHash: '0x' + randomHex(32),
+    issuanceTimestamp: Math.floor(Date.now() / 1000) - 100,
+    holderPublicKey: holderPublicKeyOf(randomHex(32)),
+  }
+}
+
+function forgeEnvelope(issuer: string, certificateHash: string, commitment: string): ProofEnvelope {
+  const nullifierKey = randomHex(32)
+  const verifierId = 'verifier-1'
+  const epoch = Math.floor(Date.now() / 1000 / NULLIFIER_EPOCH_SECONDS)
+  const { nullifier, nullifierProof } = deriveVerifierNullifier(nullifierKey, {
+    certificateHash,
+    verifierId,
+    epoch,
+  })
+  return {
+    version: PROOF_ENVELOPE_VERSION,
+    type: PROOF_ENVELOPE_TYPE,
+    issuer,
+    certificateHash,
+    commitment,
+    nullifier,
+    nonce: '0x' + randomHex(32),
+    holderSignature: randomHex(64),
+    verifierId,
+    epoch,
+    nullifierProof,
+  }
+}
+
+const OWNER = configLoader.getContractParameters().owner
+
+/** An issuer the owner has authorized on `backend` */
+async function authorizedIssuer(backend: LedgerBackend): Promise<string> {
+  const issuer = 'addr_' + randomHex(8)
+  await backend.authorizeIssuer(issuer, OWNER)
+  return issuer
+}
+
+describe('simulated contract parameters', () => {
+  it('leave auto-authorization off unless configured', () => {
+    expect(configLoader.getContractParameters().autoAuthorizeIssuers).toBe(false)
+  })
+})
+
+describe.each([
+  ['MockLedgerBackend', () => new MockLedgerBackend()],
+  ['LocalLedgerBackend', () => new LocalLedgerBackend()],
+])('%s', (_name, createBackend: () => LedgerBackend) => {
+  describe('submitVerificationProof', () => {
+    it('rejects a forged envelope for a certificate the ledger never issued', async () => {
+      const envelope = forgeEnvelope('addr_' + randomHex(8), '0x' + randomHex(32), '0x' + randomHex(32))
+      const outcome = await createBackend().submitVerificationProof(toVerificationProof(envelope))
+      expect(outcome.isValid).toBe(false)
+      expect(outcome.reason).toBe('NOT_FOUND')
+    })
+
+    it('rejects a forged envelope for an issued certificate', async () => {
+      const backend = createBackend()
+      const issuer = await authorizedIssuer(backend)
+      const request = issueRequest()
+      await backend.issue(request, issuer)
+
+      const envelope = forgeEnvelope(issuer, request.certificateHash, request.studentDataCommitment)
+      const outcome = await backend.submitVerificationProof(toVerificationProof(envelope))
+      expect(outcome.isValid).toBe(false)
+      expect(outcome.reason).toBe('HOLDER_SIGNATURE_INVALID')
+    })
+  })
+
+  describe('auto-authorization', () => {
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    function enableAutoAuthorization() {
+      vi.spyOn(configLoader, 'getContractParameters').mockReturnValue({ owner: OWNER, autoAuthorizeIssuers: true })
+    }
+
+    it('authorizes an unknown issuer on first use', async () => {
+      enableAutoAuthorization()
+      const backend = createBackend()
+      const issuer = 'addr_' + randomHex(8)
+      await backend.issue(issueRequest(), issuer)
+      expect(await backend.isAuthorizedIssuer(issuer)).toBe(true)
+    })
+
+    it('does not re-authorize an issuer the owner removed', async () => {
+      enableAutoAuthorization()
+      const backend = createBackend()
+      const issuer = await authorizedIssuer(backend)
+      await backend.deauthorizeIssuer(issuer, OWNER)
+
+      await expect(backend.issue(issueRequest(), issuer)).rejects.toMatchObject({ code: 'ISSUER_NOT_AUTHORIZED' })
+      await expect(backend.anchorBatch('0x' + randomHex(32), 2, issuer)).rejects.toMatchObject({
+        code: 'ISSUER_NOT_AUTHORIZED',
+      })
+      expect(await backend.isAuthorizedIssuer(issuer)).toBe(false)
+
+      await backend.authorizeIssuer(issuer, OWNER)
+      await backend.issue(issueRequest(), issuer)
+    })
+  })
+
+  describe('resolveAmendmentChain', () => {
+    it('follows every amendment from any certificate to the current one', async () => {
+      const backend = createBackend()
+      const issuer = await authorizedIssuer(backend)
+      const [first, second, third] = [issueRequest(), issueRequest(), issueRequest()]
+      await backend.issue(first, issuer)
+      await backend.amend(first.certificateHash, second, issuer)
+      await backend.amend(second.certificateHash, third, issuer)
+
+      const chain = await resolveAmendmentChain(backend, first.certificateHash)
+      expect(chain.map(r => [r.certificateHash, r.status])).toEqual([
+        [first.certificateHash, 'superseded'],
+        [second.certificateHash, 'superseded'],
+        [third.certificateHash, 'valid'],
+      ])
+      const fromMiddle = await resolveAmendmentChain(backend, second.certificateHash)
+      expect(fromMiddle.map(r => r.certificateHash)).toEqual([second.certificateHash, third.certificateHash])
+      expect(await resolveAmendmentChain(backend, '0x' + randomHex(32))).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,706 @@
+/**
+ * Ledger Backend Contract
+ * One typed interface over every diploma ledger implementation.
+ *
+ * The UI never talks to mockBlockchain, LedgerState or the production
+ * manager directly; MidnightProvider resolves a single LedgerBackend
+ * (selected through configLoader) and every page reads and writes
+ * diploma state through it. Adapters are instantiated by ledgerFactory.
+ */
+
+import type {
+  ContractAccreditation,
+  ContractDelegation,
+  ContractDiplomaStatus,
+  ContractIssuerProfile,
+  ContractRevocationReason,
+  ContractStatusChange,
+} from './contractSimulator'
+import type { HashAlgorithm } from './crypto'
+import type { Predicate, PredicateProof } from './predicateProofs'
+import type { AttributeDisclosure, AttributeValue, DisclosableAttribute } from './selectiveDisclosure'
+import type { CourseDisclosure, CoursePredicate, CourseProof, TranscriptCourse } from './transcriptProofs'
+import type { VerificationOutcome } from './verificationOutcome'
+
+export type LedgerBackendKind = 'mock' | 'local' | 'production'
+
+/** `superseded`: replaced by an amended diploma, see `supersededBy` */
+export type DiplomaStatus = 'valid' | 'revoked' | 'superseded'
+
+/** `DiplomaStatus` codes as stored by the contract */
+export const DIPLOMA_STATUS_CODES: Record<DiplomaStatus, ContractDiplomaStatus> = {
+  revoked: 0,
+  valid: 1,
+  superseded: 2,
+}
+
+export function diplomaStatusFromCode(code: number): DiplomaStatus {
+  return code === 1 ? 'valid' : code === 2 ? 'superseded' : 'revoked'
+}
+
+export type RevocationReason =
+  | 'misconduct'
+  | 'clerical-error'
+  | 'superseded'
+  | 'accreditation-withdrawn'
+
+export const REVOCATION_REASON_LABELS: Record<RevocationReason, string> = {
+  misconduct: 'Academic misconduct',
+  'clerical-error': 'Clerical error',
+  superseded: 'Superseded by a corrected diploma',
+  'accreditation-withdrawn': 'Accreditation withdrawn',
+}
+
+/** `RevocationReason` codes as stored by the contract */
+export const REVOCATION_REASON_CODES: Record<RevocationReason, ContractRevocationReason> = {
+  misconduct: 1,
+  'clerical-error': 2,
+  superseded: 3,
+  'accreditation-withdrawn': 4,
+}
+
+export function revocationReasonFromCode(code: number): RevocationReason | undefined {
+  return (Object.keys(REVOCATION_REASON_CODES) as RevocationReason[]).find(
+    reason => REVOCATION_REASON_CODES[reason] === code
+  )
+}
+
+/**
+ * One entry of a diploma's status history (contract: StatusChange)
+ * Issuance is the first entry; `reason` is set on revocations only.
+ */
+export interface DiplomaStatusChange {
+  status: DiplomaStatus
+  reason?: RevocationReason
+  /** Unix seconds the change takes effect; a revocation may be backdated */
+  effectiveAt: number
+  /** Unix seconds the change was recorded on the ledger */
+  recordedAt: number
+  changedBy: string
+}
+
+/**
+ * Arguments of the contract's `revokeDiploma` circuit
+ * `effectiveAt` defaults to now.
+ */
+export interface RevocationRequest {
+  reason: RevocationReason
+  effectiveAt?: number
+}
+
+/**
+ * Diploma record as stored on the ledger.
+ * Mirrors `DiplomaRecord` in contracts/PrivateDiploma.compact; the optional
+ * `degreeType` and `studentId` fields are issuer-side index data that never
+ * leave the local ledger. `hashAlgorithm` records how the certificate hash
+ * and student data commitment were derived. `holderPublicKey` is the
+ * student's key that presentations must be signed with; records issued
+ * before holder binding have none and cannot be presented. `expiresAt` is
+ * in unix seconds; records without it never expire. `statusHistory` is
+ * oldest first and empty for records that predate it. `supersedes` and
+ * `supersededBy` link a diploma to the one it corrects and the one that
+ * corrected it. `issuedBy` is the department that issued the diploma under a
+ * delegation from `issuerAddress`; absent when the university issued it.
+ */
+export interface LedgerDiplomaRecord {
+  certificateHash: string
+  issuerAddress: string
+  issuanceTimestamp: number
+  status: DiplomaStatus
+  studentDataCommitment: string
+  degreeTypeHash: string
+  departmentHash: string
+  hashAlgorithm: HashAlgorithm
+  transactionHash: string
+  blockHeight: number
+  holderPublicKey?: string
+  expiresAt?: number
+  statusHistory?: DiplomaStatusChange[]
+  supersedes?: string
+  supersededBy?: string
+  issuedBy?: string
+  degreeType?: string
+  studentId?: string
+}
+
+/**
+ * Arguments of the contract's `issueDiploma` circuit
+ * Omit `expiresAt` for a diploma that never expires.
+ */
+export interface IssueDiplomaRequest {
+  certificateHash: string
+  studentDataCommitment: string
+  degreeTypeHash: string
+  departmentHash: string
+  issuanceTimestamp: number
+  holderPublicKey: string
+  expiresAt?: number
+  hashAlgorithm?: HashAlgorithm
+  degreeType?: string
+  studentId?: string
+}
+
+/**
+ * Mirrors `VerificationProof` in contracts/PrivateDiploma.compact
+ * `holderSignature` is made with the diploma's holder key over the other
+ * fields (see holderPresentationMessage). The nullifier is scoped to
+ * `verifierId` and `epoch` (see verifierNullifier).
+ */
+export interface VerificationProof {
+  certificateHash: string
+  proofCommitment: string
+  nullifier: string
+  nonce: string
+  holderSignature: string
+  verifierId: string
+  epoch: number
+  nullifierProof: string
+}
+
+/**
+ * One diploma committed in a batch (contract: the `leaf` of BatchInclusion)
+ * Same fields as an `issueDiploma` call; `expiresAt` is 0 for never.
+ */
+export interface BatchLeaf {
+  certificateHash: string
+  studentDataCommitment: string
+  degreeTypeHash: string
+  departmentHash: string
+  issuanceTimestamp: number
+  holderPublicKey: string
+  expiresAt: number
+}
+
+/** One level of a Merkle inclusion path, leaf upwards */
+export interface MerkleStep {
+  sibling: string
+  siblingOnLeft: boolean
+}
+
+/**
+ * Proof that a diploma is in an anchored batch (contract: BatchInclusion)
+ * Handed to each student with their opening package; see buildMerkleBatch.
+ */
+export interface BatchInclusionProof {
+  merkleRoot: string
+  leaf: BatchLeaf
+  path: MerkleStep[]
+}
+
+/**
+ * Merkle root anchored on the ledger for a cohort (contract: BatchAnchor)
+ * Only the root is stored; the diplomas themselves never get a ledger record.
+ */
+export interface BatchAnchorRecord {
+  merkleRoot: string
+  issuerAddress: string
+  /** Unix seconds */
+  anchoredAt: number
+  leafCount: number
+  transactionHash: string
+  blockHeight: number
+}
+
+/**
+ * One diploma of the anonymity set (contract: DiplomaSetLeaf)
+ * The set holds every valid, holder-bound diploma of an authorized issuer;
+ * see anonymousPresentation.
+ */
+export interface DiplomaSetMember {
+  certificateHash: string
+  studentDataCommitment: string
+  holderPublicKey: string
+  /** 0 = never expires */
+  expiresAt: number
+}
+
+/**
+ * Public inputs of the contract's `presentAnonymously` circuit
+ * Everything the ledger and the verifier learn; no certificate is named.
+ */
+export interface AnonymousPresentation {
+  /** Diploma set root the membership path was built against */
+  diplomaSetRoot: string
+  verifierId: string
+  /** requestNonce of the verification request this presentation answers */
+  nonce: string
+  /** Same for every presentation of one holder to one verifier */
+  scopedNullifier: string
+  disclosures: { name: DisclosableAttribute; value: AttributeValue }[]
+  predicates: Predicate[]
+  /** Disclosed transcript courses */
+  courses: TranscriptCourse[]
+  coursePredicates: CoursePredicate[]
+}
+
+/** Private witness of `presentAnonymously`; never leaves the holder */
+export interface AnonymousPresentationWitness {
+  member: DiplomaSetMember
+  path: MerkleStep[]
+  /** Secret scalar of the member's holder key, hex */
+  holderSecretKey: string
+  disclosures: AttributeDisclosure[]
+  predicateProofs: PredicateProof[]
+  courseDisclosures: CourseDisclosure[]
+  courseProofs: CourseProof[]
+}
+
+/** A presentation the ledger accepted, as stored under its nonce */
+export interface AnonymousPresentationRecord extends AnonymousPresentation {
+  /** Unix seconds */
+  presentedAt: number
+  transactionHash: string
+  blockHeight: number
+}
+
+/** Public description of a university, signed by the university itself */
+export interface IssuerMetadata {
+  name: string
+  /** ISO 3166-1 alpha-2 */
+  country: string
+  /** Id assigned by the university's accrediting body */
+  accreditationId: string
+  /** SHA-256 of the logo image, hex; empty if none */
+  logoHash: string
+  /** https:// URL; empty if none */
+  website: string
+}
+
+/** `pending` until the contract owner approves the current metadata */
+export type IssuerProfileStatus = 'pending' | 'approved'
+
+/**
+ * Registry entry of one university (contract: IssuerProfile)
+ */
+export interface IssuerProfile {
+  issuerAddress: string
+  metadata: IssuerMetadata
+  /** issuerMetadataHash of `metadata`, what the owner approves */
+  metadataHash: string
+  /** P-256 key the metadata is signed with */
+  publicKey: string
+  signature: string
+  status: IssuerProfileStatus
+  /** Unix seconds */
+  submittedAt: number
+  /** Unix seconds; set once approved */
+  approvedAt?: number
+}
+
+/**
+ * National accreditation body appointed by the contract owner
+ * (contract: Accreditor)
+ */
+export interface AccreditorRecord {
+  accreditorAddress: string
+  name: string
+  /** ISO 3166-1 alpha-2 country the accreditor covers */
+  jurisdiction: string
+  /** Unix seconds */
+  appointedAt: number
+}
+
+export type AccreditationStatus = 'active' | 'suspended'
+
+/** Accreditor-only change to a university's accreditation */
+export type AccreditationChange = 'accredit' | 'suspend'
+
+/**
+ * A university's accreditation (contract: Accreditation)
+ */
+export interface IssuerAccreditation {
+  issuerAddress: string
+  /** Accreditor that last accredited or suspended the university */
+  accreditorAddress: string
+  jurisdiction: string
+  status: AccreditationStatus
+  /** Unix seconds */
+  accreditedAt: number
+  updatedAt: number
+}
+
+/**
+ * How a university's authority to issue traces back to the contract owner:
+ * owner -> accreditor -> university, or owner -> university when the owner
+ * authorized it directly
+ */
+export interface AccreditationChain {
+  issuerAddress: string
+  contractOwner: string
+  /** Who governs the university's authority; null if nobody granted it */
+  authorizedBy: 'accreditor' | 'owner' | null
+  authorized: boolean
+  /** Set when an accreditation governs the university */
+  accreditation?: IssuerAccreditation
+  /** The accreditation's accreditor; absent if the owner removed it */
+  accreditor?: AccreditorRecord
+}
+
+/**
+ * Scoped issuing rights a university grants a department address
+ * (contract: Delegation)
+ * Empty hash lists allow any degree type or department. `degreeTypes` and
+ * `departments` are the issuer-side names behind the hashes; like a
+ * record's `degreeType` they never leave the local ledger.
+ */
+export interface IssuerDelegation {
+  delegateAddress: string
+  universityAddress: string
+  degreeTypeHashes: string[]
+  departmentHashes: string[]
+  /** Unix seconds from which the department can no longer issue */
+  expiresAt: number
+  grantedAt: number
+  /** Set once the university revokes the delegation */
+  revokedAt?: number
+  degreeTypes?: string[]
+  departments?: string[]
+}
+
+/** Arguments of the contract's `grantDelegation` circuit, plus index data */
+export type DelegationRequest = Omit<IssuerDelegation, 'universityAddress' | 'grantedAt' | 'revokedAt'>
+
+export type DelegationStatus = 'active' | 'expired' | 'revoked'
+
+/** Owner-only change to the authorized issuer set */
+export type IssuerChange = 'add' | 'remove'
+
+export interface LedgerReceipt {
+  transactionHash: string
+  blockHeight: number
+  timestamp: number
+}
+
+export interface LedgerQuery {
+  issuerAddress?: string
+  status?: DiplomaStatus
+}
+
+export interface LedgerBackend {
+  readonly kind: LedgerBackendKind
+
+  /** Issue a diploma as `sender` (contract: issueDiploma) */
+  issue(request: IssueDiplomaRequest, sender: string): Promise<LedgerReceipt>
+
+  /**
+   * Issue a corrected diploma replacing `previousHash` as `sender`
+   * (contract: amendDiploma); the predecessor becomes superseded
+   */
+  amend(previousHash: string, request: IssueDiplomaRequest, sender: string): Promise<LedgerReceipt>
+
+  /** Revoke a diploma as `sender` (contract: revokeDiploma) */
+  revoke(certificateHash: string, sender: string, revocation: RevocationRequest): Promise<LedgerReceipt>
+
+  /** Anchor the Merkle root of a batch of diplomas as `sender` (contract: anchorBatch) */
+  anchorBatch(merkleRoot: string, leafCount: number, sender: string): Promise<LedgerReceipt>
+
+  /** Anchored batch, or null if the root was never anchored */
+  getBatchAnchor(merkleRoot: string): Promise<BatchAnchorRecord | null>
+
+  /** Undo a revocation as `sender` (contract: reinstateDiploma) */
+  reinstate(certificateHash: string, sender: string): Promise<LedgerReceipt>
+
+  /** Every status change, oldest first (contract: getStatusHistory) */
+  getStatusHistory(certificateHash: string): Promise<DiplomaStatusChange[]>
+
+  /** Full public record, or null if the certificate was never issued */
+  getRecord(certificateHash: string): Promise<LedgerDiplomaRecord | null>
+
+  /** Current status, or null if the certificate was never issued */
+  getStatus(certificateHash: string): Promise<DiplomaStatus | null>
+
+  /** Contract: verifyIssuanceAuthority */
+  isAuthorizedIssuer(address: string): Promise<boolean>
+
+  /** Contract: getContractOwner */
+  getContractOwner(): Promise<string>
+
+  /** Every currently authorized issuer (contract: getAuthorizedIssuers) */
+  listAuthorizedIssuers(): Promise<string[]>
+
+  /** Authorize a university as `sender` (contract: addAuthorizedIssuer, owner only) */
+  authorizeIssuer(university: string, sender: string): Promise<LedgerReceipt>
+
+  /** Withdraw a university's authority as `sender` (contract: removeAuthorizedIssuer, owner only) */
+  deauthorizeIssuer(university: string, sender: string): Promise<LedgerReceipt>
+
+  /**
+   * Register signed metadata for `sender`, an authorized issuer
+   * (contract: registerIssuerMetadata); the profile is pending until approved
+   */
+  registerIssuerProfile(
+    metadata: IssuerMetadata,
+    publicKey: string,
+    signature: string,
+    sender: string
+  ): Promise<LedgerReceipt>
+
+  /**
+   * Approve a university's metadata as `sender` (contract: approveIssuerMetadata,
+   * owner only); rejected if the profile changed since `metadataHash`
+   */
+  approveIssuerProfile(university: string, metadataHash: string, sender: string): Promise<LedgerReceipt>
+
+  /**
+   * Appoint (or rename) an accreditor as `sender` (contract: appointAccreditor,
+   * owner only)
+   */
+  appointAccreditor(
+    accreditor: string,
+    name: string,
+    jurisdiction: string,
+    sender: string
+  ): Promise<LedgerReceipt>
+
+  /** Dismiss an accreditor as `sender` (contract: removeAccreditor, owner only) */
+  removeAccreditor(accreditor: string, sender: string): Promise<LedgerReceipt>
+
+  listAccreditors(): Promise<AccreditorRecord[]>
+
+  /** Accredit a university as `sender` (contract: accreditIssuer, accreditors only) */
+  accreditIssuer(university: string, sender: string): Promise<LedgerReceipt>
+
+  /** Suspend a university as `sender` (contract: suspendIssuer, accreditors only) */
+  suspendIssuer(university: string, sender: string): Promise<LedgerReceipt>
+
+  listAccreditations(): Promise<IssuerAccreditation[]>
+
+  /** Where a university's authority comes from */
+  getAccreditationChain(university: string): Promise<AccreditationChain>
+
+  /**
+   * Delegate scoped issuing rights to a department as `sender`
+   * (contract: grantDelegation, authorized universities only)
+   */
+  grantDelegation(request: DelegationRequest, sender: string): Promise<LedgerReceipt>
+
+  /** Revoke a department's delegation as `sender` (contract: revokeDelegation) */
+  revokeDelegation(delegate: string, sender: string): Promise<LedgerReceipt>
+
+  /** The delegation `delegate` holds, or null if it never held one */
+  getDelegation(delegate: string): Promise<IssuerDelegation | null>
+
+  /** Every delegation, including revoked and expired ones */
+  listDelegations(): Promise<IssuerDelegation[]>
+
+  /** Registry entry, or null if the university never registered */
+  getIssuerProfile(university: string): Promise<IssuerProfile | null>
+
+  /** Every registry entry, pending and approved */
+  listIssuerProfiles(): Promise<IssuerProfile[]>
+
+  /** Contract: isNullifierUsed */
+  isNullifierUsed(nullifier: string): Promise<boolean>
+
+  /**
+   * Contract: submitVerificationProof (consumes the nullifier on success)
+   * A rejected proof resolves with the reason code of the failed assert.
+   */
+  submitVerificationProof(proof: VerificationProof): Promise<VerificationOutcome>
+
+  /**
+   * Contract: submitBatchVerificationProof
+   * As submitVerificationProof, for a diploma proven by root + path instead
+   * of a ledger record
+   */
+  submitBatchVerificationProof(
+    proof: VerificationProof,
+    inclusion: BatchInclusionProof
+  ): Promise<VerificationOutcome>
+
+  /** Every member of the anonymity set (contract: getDiplomaSet) */
+  getDiplomaSet(): Promise<DiplomaSetMember[]>
+
+  /**
+   * Contract: presentAnonymously, submitted by the holder
+   * Only `presentation` is published; the witness stays in the local proof.
+   * Throws on a failed assert, like the other circuits.
+   */
+  presentAnonymously(
+    presentation: AnonymousPresentation,
+    witness: AnonymousPresentationWitness
+  ): Promise<LedgerReceipt>
+
+  /** The presentation answering a request nonce, or null if none was recorded */
+  getAnonymousPresentation(nonce: string): Promise<AnonymousPresentationRecord | null>
+
+  /** Records matching the query, newest first */
+  list(query?: LedgerQuery): Promise<LedgerDiplomaRecord[]>
+
+  /** Notified after every state change; returns an unsubscribe function */
+  onChange(listener: () => void): () => void
+}
+
+/**
+ * Convert the contract's StatusChange entries.
+ * Shared by adapters backed by PrivateDiplomaSimulator.
+ */
+export function fromContractStatusHistory(changes: ContractStatusChange[]): DiplomaStatusChange[] {
+  return changes.map(change => ({
+    status: diplomaStatusFromCode(change.status),
+    ...(change.reason ? { reason: revocationReasonFromCode(change.reason) } : {}),
+    effectiveAt: change.effectiveAt,
+    recordedAt: change.recordedAt,
+    changedBy: change.changedBy,
+  }))
+}
+
+/**
+ * Convert the contract's IssuerProfile entry
+ */
+export function fromContractIssuerProfile(profile: ContractIssuerProfile): IssuerProfile {
+  return {
+    issuerAddress: profile.issuerAddress,
+    metadata: { ...profile.metadata },
+    metadataHash: profile.metadataHash,
+    publicKey: profile.publicKey,
+    signature: profile.signature,
+    status: profile.status === 1 ? 'approved' : 'pending',
+    submittedAt: profile.submittedAt,
+    ...(profile.approvedAt ? { approvedAt: profile.approvedAt } : {}),
+  }
+}
+
+/**
+ * Convert the contract's Accreditation entry
+ */
+export function fromContractAccreditation(accreditation: ContractAccreditation): IssuerAccreditation {
+  return { ...accreditation, status: accreditation.status === 1 ? 'active' : 'suspended' }
+}
+
+/**
+ * Convert an accreditation back into the contract's Accreditation entry
+ */
+export function toContractAccreditation(accreditation: IssuerAccreditation): ContractAccreditation {
+  return { ...accreditation, status: accreditation.status === 'active' ? 1 : 2 }
+}
+
+/**
+ * Convert the contract's Delegation entry, keeping any index data
+ */
+export function fromContractDelegation(
+  delegation: ContractDelegation,
+  labels: Pick<IssuerDelegation, 'degreeTypes' | 'departments'> = {}
+): IssuerDelegation {
+  const { revokedAt, ...rest } = delegation
+  return { ...rest, ...(revokedAt ? { revokedAt } : {}), ...labels }
+}
+
+/**
+ * Convert a delegation back into the contract's Delegation entry
+ */
+export function toContractDelegation(delegation: IssuerDelegation): ContractDelegation {
+  return {
+    delegateAddress: delegation.delegateAddress,
+    universityAddress: delegation.universityAddress,
+    degreeTypeHashes: [...delegation.degreeTypeHashes],
+    departmentHashes: [...delegation.departmentHashes],
+    expiresAt: delegation.expiresAt,
+    grantedAt: delegation.grantedAt,
+    revokedAt: delegation.revokedAt ?? 0,
+  }
+}
+
+/**
+ * Whether a delegation still lets its department issue at `now` (unix seconds)
+ */
+export function delegationStatus(
+  delegation: IssuerDelegation,
+  now: number = Math.floor(Date.now() / 1000)
+): DelegationStatus {
+  if (delegation.revokedAt) return 'revoked'
+  return now < delegation.expiresAt ? 'active' : 'expired'
+}
+
+/**
+ * Assemble a university's accreditation chain from public ledger state
+ * Shared by every adapter so the chain means the same on each.
+ */
+export function buildAccreditationChain(
+  university: string,
+  state: {
+    contractOwner: string
+    authorized: boolean
+    accreditation: IssuerAccreditation | null
+    accreditors: AccreditorRecord[]
+  }
+): AccreditationChain {
+  const { contractOwner, authorized, accreditation, accreditors } = state
+  const accreditor = accreditation
+    ? accreditors.find(a => a.accreditorAddress === accreditation.accreditorAddress)
+    : undefined
+  return {
+    issuerAddress: university,
+    contractOwner,
+    authorizedBy: accreditation ? 'accreditor' : authorized ? 'owner' : null,
+    authorized,
+    ...(accreditation ? { accreditation } : {}),
+    ...(accreditor ? { accreditor } : {}),
+  }
+}
+
+/**
+ * Convert an issuer profile back into the contract's IssuerProfile entry
+ */
+export function toContractIssuerProfile(profile: IssuerProfile): ContractIssuerProfile {
+  return {
+    issuerAddress: profile.issuerAddress,
+    metadata: { ...profile.metadata },
+    metadataHash: profile.metadataHash,
+    publicKey: profile.publicKey,
+    signature: profile.signature,
+    status: profile.status === 'approved' ? 1 : 0,
+    submittedAt: profile.submittedAt,
+    approvedAt: profile.approvedAt ?? 0,
+  }
+}
+
+/**
+ * Convert status history back into the contract's StatusChange entries
+ */
+export function toContractStatusHistory(changes: DiplomaStatusChange[]): ContractStatusChange[] {
+  return changes.map(change => ({
+    status: DIPLOMA_STATUS_CODES[change.status],
+    reason: change.reason ? REVOCATION_REASON_CODES[change.reason] : 0,
+    effectiveAt: change.effectiveAt,
+    recordedAt: change.recordedAt,
+    changedBy: change.changedBy,
+  }))
+}
+
+/**
+ * Follow `supersededBy` links from a certificate to its current version.
+ * Returns the records in order, starting with `certificateHash` itself;
+ * empty if it was never issued.
+ */
+export async function resolveAmendmentChain(
+  backend: LedgerBackend,
+  certificateHash: string
+): Promise<LedgerDiplomaRecord[]> {
+  const chain: LedgerDiplomaRecord[] = []
+  let record = await backend.getRecord(certificateHash)
+  while (record) {
+    chain.push(record)
+    // The contract only links forward to a freshly issued hash, so a cycle
+    // means corrupt state; stop rather than loop
+    if (!record.supersededBy || chain.some(r => r.certificateHash === record!.supersededBy)) {
+      break
+    }
+    record = await backend.getRecord(record.supersededBy)
+  }
+  return chain
+}
+
+/**
+ * Apply a LedgerQuery and sort newest first.
+ * Shared by adapters that hold their records in memory.
+ */
+export function filterLedgerRecords(
+  records: LedgerDiplomaRecord[],
+  query: LedgerQuery = {}
+): LedgerDiplomaRecord[] {
+  return records
+    .filter(r => !query.issuerAddress || r.issuerAddress === query.issuerAddress)
+    .filter(r => !query.status || r.status === query.status)
+    .sort((a, b) => b.issuanceTimestamp - a.issuanceTimestamp)
+}
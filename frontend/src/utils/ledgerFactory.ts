@@ -0,0 +1,39 @@
+/**
+ * Ledger Backend Factory
+ * Resolves the single LedgerBackend the application talks to
+ */
+
+import { configLoader } from './config'
+import type { LedgerBackend, LedgerBackendKind } from './ledgerBackend'
+import { MockLedgerBackend } from './mockBlockchain'
+import { LocalLedgerBackend } from './MidnightNetworkService'
+import { ProductionLedgerBackend } from './productionBlockchain'
+
+/**
+ * Instantiate the adapter for a backend kind
+ */
+export function createLedgerBackend(kind: LedgerBackendKind): LedgerBackend {
+  switch (kind) {
+    case 'mock':
+      return new MockLedgerBackend()
+    case 'production':
+      return new ProductionLedgerBackend()
+    case 'local':
+    default:
+      return new LocalLedgerBackend()
+  }
+}
+
+let ledgerBackend: LedgerBackend | null = null
+
+/**
+ * Get the application-wide ledger backend chosen by configLoader
+ */
+export function getLedgerBackend(): LedgerBackend {
+  if (!ledgerBackend) {
+    const kind = configLoader.getLedgerBackendKind()
+    ledgerBackend = createLedgerBackend(kind)
+    console.log('📒 Ledger backend:', kind)
+  }
+  return ledgerBackend
+}
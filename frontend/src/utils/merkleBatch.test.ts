@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import { randomHex } from './crypto'
+import type { BatchLeaf } from './ledgerBackend'
+import { buildMerkleBatch, verifyBatchInclusion } from './merkleBatch'
+
+function leaf(): BatchLeaf {
+  return {
+    certificateHash: '0x' + randomHex(32),
+    studentDataCommitment: '0x' + randomHex(32),
+    degreeTypeHash: '0x' + randomHex(32),
+    departmentHash: '0x' + randomHex(32),
+    issuanceTimestamp: 1_750_000_000,
+    holderPublicKey: randomHex(65),
+    expiresAt: 0,
+  }
+}
+
+const cohort = (size: number) => Array.from({ length: size }, leaf)
+
+describe('buildMerkleBatch', () => {
+  it('gives every leaf a path to the root, for any cohort size', () => {
+    for (let size = 1; size <= 9; size++) {
+      const { merkleRoot, inclusions } = buildMerkleBatch(cohort(size))
+      expect(inclusions).toHaveLength(size)
+      inclusions.forEach(inclusion => {
+        expect(inclusion.merkleRoot).toBe(merkleRoot)
+        expect(verifyBatchInclusion(inclusion)).toBe(true)
+      })
+    }
+  })
+
+  it('promotes an odd node instead of pairing it with itself', () => {
+    const { inclusions } = buildMerkleBatch(cohort(3))
+    expect(inclusions.map(i => i.path.length)).toEqual([2, 2, 1])
+  })
+
+  it('rejects an empty cohort and a repeated certificate', () => {
+    expect(() => buildMerkleBatch([])).toThrow('A batch needs at least one diploma')
+    const repeated = leaf()
+    expect(() => buildMerkleBatch([repeated, leaf(), { ...repeated }])).toThrow(
+      'A batch cannot contain the same certificate twice'
+    )
+  })
+})
+
+describe('verifyBatchInclusion', () => {
+  const { inclusions } = buildMerkleBatch(cohort(5))
+
+  it('rejects a leaf with any field changed', () => {
+    const [inclusion] = inclusions
+    for (const field of Object.keys(inclusion.leaf) as (keyof BatchLeaf)[]) {
+      const value = inclusion.leaf[field]
+      const changed = typeof value === 'number' ? value + 1 : '0x' + randomHex(32)
+      expect(verifyBatchInclusion({ ...inclusion, leaf: { ...inclusion.leaf, [field]: changed } })).toBe(false)
+    }
+  })
+
+  it("rejects a leaf presented with another leaf's path", () => {
+    expect(verifyBatchInclusion({ ...inclusions[0], path: inclusions[1].path })).toBe(false)
+  })
+
+  it('rejects a path with a sibling moved to the other side', () => {
+    const [inclusion] = inclusions
+    const path = inclusion.path.map((step, idx) => (idx === 0 ? { ...step, siblingOnLeft: !step.siblingOnLeft } : step))
+    expect(verifyBatchInclusion({ ...inclusion, path })).toBe(false)
+  })
+
+  it('rejects a leaf from another batch', () => {
+    const other = buildMerkleBatch(cohort(5)).inclusions[0]
+    expect(verifyBatchInclusion({ ...other, merkleRoot: inclusions[0].merkleRoot })).toBe(false)
+  })
+})
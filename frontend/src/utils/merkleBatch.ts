@@ -0,0 +1,121 @@
+/**
+ * Merkle Batch Anchoring
+ * One ledger transaction for a whole cohort instead of one per diploma.
+ *
+ * The issuer hashes every diploma of a cohort into a leaf, builds a binary
+ * SHA-256 Merkle tree over the leaves and anchors only the root (contract:
+ * anchorBatch). Each student receives their leaf and its inclusion path with
+ * their opening package; a verifier recomputes the root from the two
+ * (contract: submitBatchVerificationProof). Hashing is synchronous so the
+ * contract simulator can run it inside a circuit.
+ *
+ * Leaves and interior nodes are hashed under different domain tags, so a
+ * node can never be passed off as a leaf. An odd node at the end of a level
+ * is promoted unchanged rather than paired with itself.
+ */
+
+import { canonicalize } from './canonical'
+import { sha256Sync } from './crypto'
+import type { BatchInclusionProof, BatchLeaf, MerkleStep } from './ledgerBackend'
+
+const LEAF_DOMAIN = 'privatediploma/batch-leaf/v1'
+const NODE_DOMAIN = 'privatediploma/batch-node/v1'
+
+/**
+ * Leaf hash of one diploma: SHA-256 over its canonical JSON
+ */
+export function batchLeafHash(leaf: BatchLeaf): string {
+  return '0x' + sha256Sync(
+    canonicalize({
+      domain: LEAF_DOMAIN,
+      certificateHash: leaf.certificateHash,
+      studentDataCommitment: leaf.studentDataCommitment,
+      degreeTypeHash: leaf.degreeTypeHash,
+      departmentHash: leaf.departmentHash,
+      issuanceTimestamp: leaf.issuanceTimestamp,
+      holderPublicKey: leaf.holderPublicKey,
+      expiresAt: leaf.expiresAt,
+    })
+  )
+}
+
+function nodeHash(left: string, right: string, domain: string): string {
+  return '0x' + sha256Sync(canonicalize({ domain, left, right }))
+}
+
+/**
+ * Root reached by walking `path` up from `leafHash`
+ * `nodeDomain` defaults to batch trees; other trees pass their own tag.
+ */
+export function merkleRootFromPath(leafHash: string, path: MerkleStep[], nodeDomain: string = NODE_DOMAIN): string {
+  return path.reduce(
+    (node, step) =>
+      step.siblingOnLeft ? nodeHash(step.sibling, node, nodeDomain) : nodeHash(node, step.sibling, nodeDomain),
+    leafHash
+  )
+}
+
+/**
+ * Build a tree over already-hashed leaves
+ * Returns the root and one path per leaf, in order. Throws on no leaves.
+ */
+export function buildMerkleTree(
+  leafHashes: string[],
+  nodeDomain: string = NODE_DOMAIN
+): { root: string; paths: MerkleStep[][] } {
+  if (leafHashes.length === 0) {
+    throw new Error('A Merkle tree needs at least one leaf')
+  }
+
+  const paths: MerkleStep[][] = leafHashes.map(() => [])
+  // Leaf indexes under each node of the current level
+  let level = leafHashes.map((hash, idx) => ({ hash, members: [idx] }))
+
+  while (level.length > 1) {
+    const next: typeof level = []
+    for (let i = 0; i < level.length; i += 2) {
+      const left = level[i]
+      const right = level[i + 1]
+      if (!right) {
+        next.push(left)
+        continue
+      }
+      left.members.forEach(idx => paths[idx].push({ sibling: right.hash, siblingOnLeft: false }))
+      right.members.forEach(idx => paths[idx].push({ sibling: left.hash, siblingOnLeft: true }))
+      next.push({ hash: nodeHash(left.hash, right.hash, nodeDomain), members: [...left.members, ...right.members] })
+    }
+    level = next
+  }
+
+  return { root: level[0].hash, paths }
+}
+
+/**
+ * Build the tree over a cohort
+ * Returns the root to anchor and one inclusion proof per leaf, in order.
+ * Throws on an empty batch or a certificate hash that appears twice.
+ */
+export function buildMerkleBatch(leaves: BatchLeaf[]): {
+  merkleRoot: string
+  inclusions: BatchInclusionProof[]
+} {
+  if (leaves.length === 0) {
+    throw new Error('A batch needs at least one diploma')
+  }
+  if (new Set(leaves.map(l => l.certificateHash)).size !== leaves.length) {
+    throw new Error('A batch cannot contain the same certificate twice')
+  }
+
+  const { root: merkleRoot, paths } = buildMerkleTree(leaves.map(batchLeafHash))
+  return {
+    merkleRoot,
+    inclusions: leaves.map((leaf, idx) => ({ merkleRoot, leaf: { ...leaf }, path: paths[idx] })),
+  }
+}
+
+/**
+ * Check an inclusion proof against its own root (not against the ledger)
+ */
+export function verifyBatchInclusion(inclusion: BatchInclusionProof): boolean {
+  return merkleRootFromPath(batchLeafHash(inclusion.leaf), inclusion.path) === inclusion.merkleRoot
+}
@@ -3,17 +3,13 @@
  * Complete integration layer for PrivateDiploma smart contract
  */
 
-// Simple SHA-256 implementation for development
-function sha256(data: string): string {
-  // Simple hash function (for development only - replace with real sha256 when package available)
-  let hash = 0;
-  for (let i = 0; i < data.length; i++) {
-    const char = data.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
-  }
-  return Math.abs(hash).toString(16).padStart(64, '0');
-}
+import { CURRENT_HASH_ALGORITHM, sha256Sync as sha256, type HashAlgorithm } from './crypto'
+import { canonicalize } from './canonical'
+import {
+  verificationFailed,
+  verificationPassed,
+  type VerificationOutcome,
+} from './verificationOutcome'
 
 export interface MidnightConfig {
   rpcUrl: string
@@ -43,13 +39,7 @@ export interface ZKProof {
   timestamp: number
 }
 
-export interface VerificationResult {
-  isValid: boolean
-  diplomaExists: boolean
-  isRevoked: boolean
-  message: string
-  timestamp: number
-}
+export type VerificationResult = VerificationOutcome
 
 /**
  * Midnight SDK Integration Manager
@@ -119,6 +109,7 @@ class MidnightSDKIntegration {
     txHash: string
     certificateHash: string
     studentDataCommitment: string
+    hashAlgorithm: HashAlgorithm
     timestamp: number
     status: 'pending' | 'confirmed'
   }> {
@@ -169,6 +160,7 @@ class MidnightSDKIntegration {
         txHash,
         certificateHash,
         studentDataCommitment,
+        hashAlgorithm: CURRENT_HASH_ALGORITHM,
         timestamp: Date.now(),
         status: 'confirmed',
       }
@@ -189,13 +181,7 @@ class MidnightSDKIntegration {
       // Step 1: Check if diploma commitment exists
       const diplomaExists = await this.checkDiplomaExists(payload.certificateHash)
       if (!diplomaExists) {
-        return {
-          isValid: false,
-          diplomaExists: false,
-          isRevoked: false,
-          message: 'Diploma not found on blockchain',
-          timestamp: Date.now(),
-        }
+        return verificationFailed('NOT_FOUND', payload.certificateHash)
       }
 
       console.log('✓ Diploma found on blockchain')
@@ -203,13 +189,7 @@ class MidnightSDKIntegration {
       // Step 2: Check if diploma is revoked
       const isRevoked = await this.checkIfRevoked(payload.certificateHash)
       if (isRevoked) {
-        return {
-          isValid: false,
-          diplomaExists: true,
-          isRevoked: true,
-          message: 'This diploma has been revoked',
-          timestamp: Date.now(),
-        }
+        return verificationFailed('REVOKED', payload.certificateHash)
       }
 
       // Step 3: Verify Zero-Knowledge Proof
@@ -221,33 +201,21 @@ class MidnightSDKIntegration {
       )
 
       if (!proofValid) {
-        return {
-          isValid: false,
-          diplomaExists: true,
-          isRevoked: false,
-          message: 'ZK Proof verification failed',
-          timestamp: Date.now(),
-        }
+        return verificationFailed('COMMITMENT_MISMATCH', payload.certificateHash)
       }
 
       console.log('✅ Diploma verified successfully!')
 
-      return {
-        isValid: true,
-        diplomaExists: true,
-        isRevoked: false,
-        message: 'Diploma verified! This credential is valid and authentic.',
-        timestamp: Date.now(),
-      }
+      return verificationPassed(
+        payload.certificateHash,
+        undefined,
+        'Diploma verified! This credential is valid and authentic.'
+      )
     } catch (error) {
       console.error('Verification error:', error)
-      return {
-        isValid: false,
-        diplomaExists: false,
-        isRevoked: false,
-        message: `Verification failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        timestamp: Date.now(),
-      }
+      return verificationFailed('MALFORMED_PROOF', payload.certificateHash, [
+        error instanceof Error ? error.message : 'Unknown error',
+      ])
     }
   }
 
@@ -439,7 +407,7 @@ class MidnightSDKIntegration {
     id: string
     grade: string
   }): string {
-    const dataString = JSON.stringify(data)
+    const dataString = canonicalize(data)
     return sha256(dataString)
   }
 
@@ -3,6 +3,9 @@
  * Connects to actual Midnight wallet instead of mock
  */
 
+import { sha256 } from './crypto';
+import { holderKeys } from './holderKeys';
+
 export interface MidnightWalletAccount {
   address: string;
   publicKey: string;
@@ -226,7 +229,7 @@ class MidnightWalletManager {
       
       const ledgerAccount: MidnightWalletAccount = {
         address: localAddress,
-        publicKey: `pk_${localAddress.slice(0, 16)}`,
+        publicKey: await this.holderPublicKey(localAddress),
         balance: '1000.00',
         network: 'testnet',
         isConnected: true,
@@ -258,7 +261,7 @@ class MidnightWalletManager {
 
         const account: MidnightWalletAccount = {
           address,
-          publicKey: `pk_${address.slice(0, 16)}`,
+          publicKey: await this.holderPublicKey(address),
           balance: '0',
           network: 'testnet',
           isConnected: true,
@@ -427,15 +430,19 @@ class MidnightWalletManager {
 
   /**
    * Derive public key from address
+   * Wallet extensions do not expose a key we can verify presentation
+   * signatures with, so every account is represented by its holder key.
    */
-  private async derivePublicKey(midnight: any, address: string): Promise<string> {
-    try {
-      // Try to get public key from wallet
-      const publicKey = await midnight.getPublicKey?.();
-      return publicKey || `pk_${address.slice(0, 16)}`;
-    } catch {
-      return `pk_${address.slice(0, 16)}`;
-    }
+  private async derivePublicKey(_midnight: any, address: string): Promise<string> {
+    return this.holderPublicKey(address);
+  }
+
+  /**
+   * Holder public key of an address (hex); empty until the student creates
+   * one from their unlocked credential vault
+   */
+  private async holderPublicKey(address: string): Promise<string> {
+    return holderKeys.get(address)?.publicKeyHex ?? '';
   }
 
   /**
@@ -566,17 +573,11 @@ class MidnightWalletManager {
   }
 
   /**
-   * Lightweight local hash used only as a last-resort signature stand-in
+   * Local SHA-256 digest used only as a last-resort signature stand-in
    * when the wallet API does not provide any signing methods.
    */
   private async hashLocal(input: string): Promise<string> {
-    let hash = 0;
-    for (let i = 0; i < input.length; i++) {
-      const char = input.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash |= 0;
-    }
-    return '0x' + Math.abs(hash).toString(16).padStart(64, '0');
+    return '0x' + await sha256(input);
   }
 
   /**
@@ -614,7 +615,13 @@ class MidnightWalletManager {
     const stored = localStorage.getItem('midnightWalletConnected');
     if (stored) {
       try {
-        this.account = JSON.parse(stored);
+        const account: MidnightWalletAccount = JSON.parse(stored);
+        // Sessions saved before holder keys carry a `pk_` placeholder
+        const holderKey = holderKeys.get(account.address);
+        if (account.publicKey.startsWith('pk_') && holderKey) {
+          account.publicKey = holderKey.publicKeyHex;
+        }
+        this.account = account;
         return this.account;
       } catch {
         return null;
@@ -812,7 +819,7 @@ class MidnightWalletManager {
 
     const account: MidnightWalletAccount = {
       address: userAddress,
-      publicKey: `pk_${userAddress.slice(0, 16)}`,
+      publicKey: await this.holderPublicKey(userAddress),
       balance: balanceValue || '0',
       network: 'testnet',
       isConnected: true,
@@ -4,123 +4,195 @@
  * Replace with real SDK calls in production
  */
 
-// Simple hash function for browser
-export async function sha256(message: string): Promise<string> {
-  const msgBuffer = new TextEncoder().encode(message)
-  const hashBuffer = await crypto.subtle.digest('SHA-256', msgBuffer)
-  const hashArray = Array.from(new Uint8Array(hashBuffer))
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('')
+import {
+  REVOCATION_REASON_CODES,
+  buildAccreditationChain,
+  diplomaStatusFromCode,
+  filterLedgerRecords,
+  fromContractAccreditation,
+  fromContractDelegation,
+  fromContractIssuerProfile,
+  fromContractStatusHistory,
+  type AccreditationChain,
+  type AccreditorRecord,
+  type AnonymousPresentation,
+  type AnonymousPresentationRecord,
+  type AnonymousPresentationWitness,
+  type BatchAnchorRecord,
+  type BatchInclusionProof,
+  type DelegationRequest,
+  type DiplomaSetMember,
+  type DiplomaStatus,
+  type DiplomaStatusChange,
+  type IssueDiplomaRequest,
+  type IssuerAccreditation,
+  type IssuerDelegation,
+  type IssuerMetadata,
+  type IssuerProfile,
+  type LedgerBackend,
+  type LedgerDiplomaRecord,
+  type LedgerQuery,
+  type LedgerReceipt,
+  type RevocationRequest,
+  type VerificationProof,
+} from './ledgerBackend'
+import {
+  ContractAssertionError,
+  PrivateDiplomaSimulator,
+  type IssueDiplomaArgs,
+} from './contractSimulator'
+import { configLoader } from './config'
+import { CURRENT_HASH_ALGORITHM } from './crypto'
+import { outcomeFromContract, type VerificationOutcome } from './verificationOutcome'
+
+// The mock contract starts with no issuers; the configured owner
+// authorizes them from the admin console
+function createMockContract(): PrivateDiplomaSimulator {
+  return new PrivateDiplomaSimulator({
+    owner: configLoader.getContractParameters().owner,
+  })
 }
 
-// Mock blockchain ledger (in-memory storage)
+function toIssueArgs(data: any): IssueDiplomaArgs {
+  return {
+    certificateHash: data.certificateHash,
+    studentDataCommitment: data.studentDataCommitment,
+    degreeTypeHash: data.degreeTypeHash,
+    departmentHash: data.departmentHash,
+    issuanceTimestamp: data.issuanceTimestamp,
+    holderPublicKey: data.holderPublicKey ?? '',
+    expiresAt: data.expiresAt ?? 0,
+  }
+}
+
+// Mock blockchain ledger (in-memory contract simulator)
+// Contract rules are enforced by PrivateDiplomaSimulator; `metadata` keeps
+// the off-chain index data (tx hash, block height, degree name) per diploma
 export const mockBlockchain = {
-  diplomas: new Map<string, any>(),
-  usedNullifiers: new Set<string>(),
-  authorizedIssuers: new Set<string>([
-    '0x1234567890ABCDEF1234567890ABCDEF12345678', // MIT
-    '0x2345678901BCDEF02345678901BCDEF023456789', // Stanford
-  ]),
-
-  // Issue diploma (mint)
+  contract: createMockContract(),
+  metadata: new Map<string, any>(),
+  // Issuers the owner removed; auto-authorization leaves these alone
+  removedIssuers: new Set<string>(),
+
+  // Issue diploma (mint); throws ContractAssertionError on a failed assert
   issueDiploma(data: any) {
-    if (!this.authorizedIssuers.has(data.issuerAddress)) {
-      throw new Error('Issuer not authorized')
-    }
-    if (this.diplomas.has(data.certificateHash)) {
-      throw new Error('Diploma already issued')
-    }
-    this.diplomas.set(data.certificateHash, {
-      ...data,
-      status: 1, // valid
-      timestamp: Date.now(),
-    })
+    this.contract.issueDiploma(toIssueArgs(data), { sender: data.issuerAddress })
+    this.setMetadata(data)
     return { success: true, hash: `0x${Math.random().toString(16).slice(2)}` }
   },
 
-  // Verify degree (check proof)
-  verifyDegree(proof: any): boolean {
-    // Check certificate exists
-    if (!this.diplomas.has(proof.certificateHash)) {
-      return false
-    }
-
-    const diploma = this.diplomas.get(proof.certificateHash)
-
-    // Check not revoked
-    if (diploma.status === 0) {
-      return false
-    }
+  // Issue a correction that supersedes `previousHash`; throws like issueDiploma
+  amendDiploma(previousHash: string, data: any) {
+    this.contract.amendDiploma(previousHash, toIssueArgs(data), { sender: data.issuerAddress })
+    this.setMetadata(data)
+    return { success: true, hash: `0x${Math.random().toString(16).slice(2)}` }
+  },
 
-    // Check nullifier not used
-    if (this.usedNullifiers.has(proof.nullifier)) {
-      return false
-    }
+  setMetadata(data: any): void {
+    this.metadata.set(data.certificateHash, {
+      hashAlgorithm: data.hashAlgorithm ?? CURRENT_HASH_ALGORITHM,
+      transactionHash: data.transactionHash,
+      blockHeight: data.blockHeight,
+      degreeType: data.degreeType,
+      studentId: data.studentId,
+    })
+  },
 
-    // Mark nullifier as used
-    this.usedNullifiers.add(proof.nullifier)
+  // Anchor a cohort's Merkle root; throws like issueDiploma
+  anchorBatch(merkleRoot: string, leafCount: number, issuerAddress: string, receipt: any) {
+    this.contract.anchorBatch(merkleRoot, leafCount, { sender: issuerAddress })
+    this.metadata.set(merkleRoot, {
+      transactionHash: receipt.transactionHash,
+      blockHeight: receipt.blockHeight,
+    })
+  },
 
-    return true
+  // Get an anchored batch with its off-chain metadata
+  getBatchAnchor(merkleRoot: string): any | null {
+    const anchor = this.contract.getBatchAnchor(merkleRoot)
+    return anchor ? { ...this.metadata.get(merkleRoot), ...anchor } : null
   },
 
-  // Revoke diploma
-  revokeDiploma(certificateHash: string, issuerAddress: string): boolean {
-    if (!this.diplomas.has(certificateHash)) {
-      return false
+  // Verify degree (check proof)
+  verifyDegree(proof: any): boolean {
+    try {
+      return this.contract.submitVerificationProof(proof)
+    } catch (error) {
+      if (error instanceof ContractAssertionError) {
+        return false
+      }
+      throw error
     }
+  },
 
-    const diploma = this.diplomas.get(certificateHash)
-
-    if (diploma.issuerAddress !== issuerAddress) {
-      return false // Only issuer can revoke
+  // Revoke diploma (only the issuer can revoke)
+  revokeDiploma(certificateHash: string, issuerAddress: string, revocation: RevocationRequest): boolean {
+    try {
+      this.contract.revokeDiploma(
+        certificateHash,
+        REVOCATION_REASON_CODES[revocation.reason],
+        revocation.effectiveAt ?? Math.floor(Date.now() / 1000),
+        { sender: issuerAddress }
+      )
+      return true
+    } catch (error) {
+      if (error instanceof ContractAssertionError) {
+        return false
+      }
+      throw error
     }
-
-    diploma.status = 0 // revoked
-    this.diplomas.set(certificateHash, diploma)
-    return true
   },
 
   // Check diploma status
   getDiplomaStatus(certificateHash: string): number {
-    if (!this.diplomas.has(certificateHash)) {
-      return 0
-    }
-    return this.diplomas.get(certificateHash).status
+    return this.contract.getDiplomaStatus(certificateHash)
   },
 
   // Check if issuer is authorized
   isAuthorizedIssuer(address: string): boolean {
-    return this.authorizedIssuers.has(address)
+    return this.contract.verifyIssuanceAuthority(address)
   },
 
-  // Check diploma validity (not revoked)
+  // Check diploma validity (not revoked, not expired)
   checkDiplomaValidity(certificateHash: string): boolean {
-    if (!this.diplomas.has(certificateHash)) {
-      return false
-    }
-    return this.diplomas.get(certificateHash).status === 1
+    return this.contract.checkDiplomaValidity(certificateHash)
   },
 
   // Check if nullifier used
   isNullifierUsed(nullifier: string): boolean {
-    return this.usedNullifiers.has(nullifier)
+    return this.contract.isNullifierUsed(nullifier)
+  },
+
+  // Add authorized issuer (contract owner only)
+  addAuthorizedIssuer(address: string, sender: string): void {
+    this.contract.addAuthorizedIssuer(address, { sender })
+    this.removedIssuers.delete(address)
   },
 
-  // Add authorized issuer (admin only)
-  addAuthorizedIssuer(address: string): void {
-    this.authorizedIssuers.add(address)
+  // Remove authorized issuer (contract owner only)
+  removeAuthorizedIssuer(address: string, sender: string): void {
+    this.contract.removeAuthorizedIssuer(address, { sender })
+    this.removedIssuers.add(address)
+  },
+
+  // Get a diploma with its off-chain metadata
+  getDiploma(certificateHash: string): any | null {
+    const diploma = this.contract.getDiploma(certificateHash)
+    return diploma ? { ...this.metadata.get(certificateHash), ...diploma } : null
   },
 
   // Get all diplomas (for UI)
   getAllDiplomas(): any[] {
-    return Array.from(this.diplomas.values())
+    return this.contract
+      .getAllDiplomas()
+      .map(d => ({ ...this.metadata.get(d.certificateHash), ...d }))
   },
 
   // Clear blockchain (for testing)
   reset(): void {
-    this.diplomas.clear()
-    this.usedNullifiers.clear()
-    this.authorizedIssuers.clear()
-    this.authorizedIssuers.add('0x1234567890ABCDEF1234567890ABCDEF12345678')
+    this.contract = createMockContract()
+    this.metadata.clear()
+    this.removedIssuers.clear()
   },
 }
 
@@ -143,21 +215,19 @@ export const mockAPI = {
   },
 
   // Simulate diploma revocation
-  async revokeDiploma(certificateHash: string, issuerAddress: string) {
+  async revokeDiploma(certificateHash: string, issuerAddress: string, revocation: RevocationRequest) {
     await new Promise((resolve) => setTimeout(resolve, 800))
     const success = mockBlockchain.revokeDiploma(
       certificateHash,
-      issuerAddress
+      issuerAddress,
+      revocation
     )
     return { success, txHash: `0x${Math.random().toString(16).slice(2)}` }
   },
 
   // Get diploma details
   async getDiplomaRecord(certificateHash: string) {
-    if (mockBlockchain.diplomas.has(certificateHash)) {
-      return mockBlockchain.diplomas.get(certificateHash)
-    }
-    return null
+    return mockBlockchain.getDiploma(certificateHash)
   },
 
   // Check diploma status
@@ -183,3 +253,349 @@ export class MockTransaction {
     return { txHash: `0x${Math.random().toString(16).slice(2).toUpperCase()}` }
   }
 }
+
+/**
+ * LedgerBackend adapter over the in-memory mockBlockchain
+ * Nothing is persisted; state resets on page reload
+ */
+export class MockLedgerBackend implements LedgerBackend {
+  readonly kind = 'mock' as const
+  private listeners = new Set<() => void>()
+  private blockHeight = 0
+
+  async issue(request: IssueDiplomaRequest, sender: string): Promise<LedgerReceipt> {
+    this.autoAuthorize(sender)
+
+    const receipt = this.nextReceipt()
+    mockBlockchain.issueDiploma({
+      ...request,
+      issuerAddress: sender,
+      transactionHash: receipt.transactionHash,
+      blockHeight: receipt.blockHeight,
+    })
+    this.notify()
+    return receipt
+  }
+
+  async amend(
+    previousHash: string,
+    request: IssueDiplomaRequest,
+    sender: string
+  ): Promise<LedgerReceipt> {
+    const receipt = this.nextReceipt()
+    mockBlockchain.amendDiploma(previousHash, {
+      ...request,
+      issuerAddress: sender,
+      transactionHash: receipt.transactionHash,
+      blockHeight: receipt.blockHeight,
+    })
+    this.notify()
+    return receipt
+  }
+
+  async anchorBatch(merkleRoot: string, leafCount: number, sender: string): Promise<LedgerReceipt> {
+    this.autoAuthorize(sender)
+
+    const receipt = this.nextReceipt()
+    mockBlockchain.anchorBatch(merkleRoot, leafCount, sender, receipt)
+    this.notify()
+    return receipt
+  }
+
+  async getBatchAnchor(merkleRoot: string): Promise<BatchAnchorRecord | null> {
+    return mockBlockchain.getBatchAnchor(merkleRoot)
+  }
+
+  async revoke(
+    certificateHash: string,
+    sender: string,
+    revocation: RevocationRequest
+  ): Promise<LedgerReceipt> {
+    mockBlockchain.contract.revokeDiploma(
+      certificateHash,
+      REVOCATION_REASON_CODES[revocation.reason],
+      revocation.effectiveAt ?? Math.floor(Date.now() / 1000),
+      { sender }
+    )
+    this.notify()
+    return this.nextReceipt()
+  }
+
+  async reinstate(certificateHash: string, sender: string): Promise<LedgerReceipt> {
+    mockBlockchain.contract.reinstateDiploma(certificateHash, { sender })
+    this.notify()
+    return this.nextReceipt()
+  }
+
+  async getStatusHistory(certificateHash: string): Promise<DiplomaStatusChange[]> {
+    return fromContractStatusHistory(mockBlockchain.contract.getStatusHistory(certificateHash))
+  }
+
+  async getRecord(certificateHash: string): Promise<LedgerDiplomaRecord | null> {
+    const stored = mockBlockchain.getDiploma(certificateHash)
+    return stored ? this.toRecord(stored) : null
+  }
+
+  async getStatus(certificateHash: string): Promise<DiplomaStatus | null> {
+    const record = await this.getRecord(certificateHash)
+    return record ? record.status : null
+  }
+
+  async isAuthorizedIssuer(address: string): Promise<boolean> {
+    return mockBlockchain.isAuthorizedIssuer(address)
+  }
+
+  async getContractOwner(): Promise<string> {
+    return mockBlockchain.contract.getContractOwner()
+  }
+
+  async listAuthorizedIssuers(): Promise<string[]> {
+    return mockBlockchain.contract.getAuthorizedIssuers()
+  }
+
+  async authorizeIssuer(university: string, sender: string): Promise<LedgerReceipt> {
+    mockBlockchain.addAuthorizedIssuer(university, sender)
+    const receipt = this.nextReceipt()
+    this.notify()
+    return receipt
+  }
+
+  async deauthorizeIssuer(university: string, sender: string): Promise<LedgerReceipt> {
+    mockBlockchain.removeAuthorizedIssuer(university, sender)
+    const receipt = this.nextReceipt()
+    this.notify()
+    return receipt
+  }
+
+  async appointAccreditor(
+    accreditor: string,
+    name: string,
+    jurisdiction: string,
+    sender: string
+  ): Promise<LedgerReceipt> {
+    mockBlockchain.contract.appointAccreditor(accreditor, name, jurisdiction, { sender })
+    const receipt = this.nextReceipt()
+    this.notify()
+    return receipt
+  }
+
+  async removeAccreditor(accreditor: string, sender: string): Promise<LedgerReceipt> {
+    mockBlockchain.contract.removeAccreditor(accreditor, { sender })
+    const receipt = this.nextReceipt()
+    this.notify()
+    return receipt
+  }
+
+  async listAccreditors(): Promise<AccreditorRecord[]> {
+    return mockBlockchain.contract.getAccreditors()
+  }
+
+  async accreditIssuer(university: string, sender: string): Promise<LedgerReceipt> {
+    mockBlockchain.contract.accreditIssuer(university, { sender })
+    const receipt = this.nextReceipt()
+    this.notify()
+    return receipt
+  }
+
+  async suspendIssuer(university: string, sender: string): Promise<LedgerReceipt> {
+    mockBlockchain.contract.suspendIssuer(university, { sender })
+    const receipt = this.nextReceipt()
+    this.notify()
+    return receipt
+  }
+
+  async listAccreditations(): Promise<IssuerAccreditation[]> {
+    return mockBlockchain.contract.getAllAccreditations().map(fromContractAccreditation)
+  }
+
+  async grantDelegation(request: DelegationRequest, sender: string): Promise<LedgerReceipt> {
+    this.autoAuthorize(sender)
+
+    mockBlockchain.contract.grantDelegation(
+      request.delegateAddress,
+      request.degreeTypeHashes,
+      request.departmentHashes,
+      request.expiresAt,
+      { sender }
+    )
+    mockBlockchain.metadata.set(request.delegateAddress, {
+      degreeTypes: request.degreeTypes,
+      departments: request.departments,
+    })
+    const receipt = this.nextReceipt()
+    this.notify()
+    return receipt
+  }
+
+  async revokeDelegation(delegate: string, sender: string): Promise<LedgerReceipt> {
+    mockBlockchain.contract.revokeDelegation(delegate, { sender })
+    const receipt = this.nextReceipt()
+    this.notify()
+    return receipt
+  }
+
+  async getDelegation(delegate: string): Promise<IssuerDelegation | null> {
+    const delegation = mockBlockchain.contract.getDelegation(delegate)
+    return delegation ? fromContractDelegation(delegation, mockBlockchain.metadata.get(delegate)) : null
+  }
+
+  async listDelegations(): Promise<IssuerDelegation[]> {
+    return mockBlockchain.contract
+      .getAllDelegations()
+      .map(d => fromContractDelegation(d, mockBlockchain.metadata.get(d.delegateAddress)))
+  }
+
+  async getAccreditationChain(university: string): Promise<AccreditationChain> {
+    const { contract } = mockBlockchain
+    const accreditation = contract.getAccreditation(university)
+    return buildAccreditationChain(university, {
+      contractOwner: contract.getContractOwner(),
+      authorized: contract.verifyIssuanceAuthority(university),
+      accreditation: accreditation ? fromContractAccreditation(accreditation) : null,
+      accreditors: contract.getAccreditors(),
+    })
+  }
+
+  async registerIssuerProfile(
+    metadata: IssuerMetadata,
+    publicKey: string,
+    signature: string,
+    sender: string
+  ): Promise<LedgerReceipt> {
+    this.autoAuthorize(sender)
+
+    mockBlockchain.contract.registerIssuerMetadata(metadata, publicKey, signature, { sender })
+    const receipt = this.nextReceipt()
+    this.notify()
+    return receipt
+  }
+
+  async approveIssuerProfile(university: string, metadataHash: string, sender: string): Promise<LedgerReceipt> {
+    mockBlockchain.contract.approveIssuerMetadata(university, metadataHash, { sender })
+    const receipt = this.nextReceipt()
+    this.notify()
+    return receipt
+  }
+
+  async getIssuerProfile(university: string): Promise<IssuerProfile | null> {
+    const profile = mockBlockchain.contract.getIssuerProfile(university)
+    return profile ? fromContractIssuerProfile(profile) : null
+  }
+
+  async listIssuerProfiles(): Promise<IssuerProfile[]> {
+    return mockBlockchain.contract.getAllIssuerProfiles().map(fromContractIssuerProfile)
+  }
+
+  async isNullifierUsed(nullifier: string): Promise<boolean> {
+    return mockBlockchain.isNullifierUsed(nullifier)
+  }
+
+  async submitVerificationProof(proof: VerificationProof): Promise<VerificationOutcome> {
+    const outcome = outcomeFromContract(
+      proof.certificateHash,
+      mockBlockchain.getDiploma(proof.certificateHash)?.issuerAddress,
+      () => mockBlockchain.contract.submitVerificationProof(proof)
+    )
+    if (outcome.isValid) this.notify()
+    return outcome
+  }
+
+  async submitBatchVerificationProof(
+    proof: VerificationProof,
+    inclusion: BatchInclusionProof
+  ): Promise<VerificationOutcome> {
+    const outcome = outcomeFromContract(
+      proof.certificateHash,
+      mockBlockchain.getBatchAnchor(inclusion.merkleRoot)?.issuerAddress,
+      () => mockBlockchain.contract.submitBatchVerificationProof(proof, inclusion)
+    )
+    if (outcome.isValid) this.notify()
+    return outcome
+  }
+
+  async getDiplomaSet(): Promise<DiplomaSetMember[]> {
+    return mockBlockchain.contract.getDiplomaSet()
+  }
+
+  async presentAnonymously(
+    presentation: AnonymousPresentation,
+    witness: AnonymousPresentationWitness
+  ): Promise<LedgerReceipt> {
+    mockBlockchain.contract.presentAnonymously(presentation, witness)
+    const receipt = this.nextReceipt()
+    mockBlockchain.metadata.set(presentation.nonce, {
+      transactionHash: receipt.transactionHash,
+      blockHeight: receipt.blockHeight,
+    })
+    this.notify()
+    return receipt
+  }
+
+  async getAnonymousPresentation(nonce: string): Promise<AnonymousPresentationRecord | null> {
+    const presentation = mockBlockchain.contract.getAnonymousPresentation(nonce)
+    return presentation ? { ...mockBlockchain.metadata.get(nonce), ...presentation } : null
+  }
+
+  async list(query?: LedgerQuery): Promise<LedgerDiplomaRecord[]> {
+    return filterLedgerRecords(
+      mockBlockchain.getAllDiplomas().map(d => this.toRecord(d)),
+      query
+    )
+  }
+
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  private toRecord(stored: any): LedgerDiplomaRecord {
+    return {
+      certificateHash: stored.certificateHash,
+      issuerAddress: stored.issuerAddress,
+      issuanceTimestamp: stored.issuanceTimestamp,
+      status: diplomaStatusFromCode(stored.status),
+      studentDataCommitment: stored.studentDataCommitment,
+      degreeTypeHash: stored.degreeTypeHash,
+      departmentHash: stored.departmentHash,
+      hashAlgorithm: stored.hashAlgorithm,
+      transactionHash: stored.transactionHash,
+      blockHeight: stored.blockHeight,
+      holderPublicKey: stored.holderPublicKey || undefined,
+      expiresAt: stored.expiresAt || undefined,
+      supersedes: stored.supersedes || undefined,
+      supersededBy: stored.supersededBy || undefined,
+      issuedBy: stored.issuedBy || undefined,
+      statusHistory: fromContractStatusHistory(
+        mockBlockchain.contract.getStatusHistory(stored.certificateHash)
+      ),
+      degreeType: stored.degreeType,
+      studentId: stored.studentId,
+    }
+  }
+
+  // Dev convenience: the owner authorizes an unknown sender on first use,
+  // unless it removed that sender earlier
+  private autoAuthorize(sender: string): void {
+    if (
+      configLoader.getContractParameters().autoAuthorizeIssuers &&
+      !mockBlockchain.removedIssuers.has(sender) &&
+      !mockBlockchain.isAuthorizedIssuer(sender) &&
+      !mockBlockchain.contract.getDelegation(sender)
+    ) {
+      mockBlockchain.addAuthorizedIssuer(sender, mockBlockchain.contract.getContractOwner())
+    }
+  }
+
+  private nextReceipt(): LedgerReceipt {
+    this.blockHeight++
+    return {
+      transactionHash: `0x${Math.random().toString(16).slice(2)}`,
+      blockHeight: this.blockHeight,
+      timestamp: Date.now(),
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener())
+  }
+}
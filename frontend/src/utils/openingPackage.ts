@@ -0,0 +1,423 @@
+/**
+ * Commitment Opening Packages
+ * Everything a student needs to re-open their on-chain `studentDataCommitment`.
+ *
+ * The issuer builds the package at issuance, seals it to the student's holder
+ * key (ECDH P-256 -> HKDF-SHA-256 -> AES-256-GCM) and drops it in the
+ * student's inbox. Only the sealed form ever leaves the issuer's browser.
+ */
+
+import { encodeStudentData, type StudentDataFields } from './canonical'
+import {
+  CURRENT_HASH_ALGORITHM,
+  fromBase64,
+  fromHex,
+  randomHex,
+  sha256,
+  toBase64,
+  toHex,
+  type HashAlgorithm,
+} from './crypto'
+import { holderKeyId, importHolderPublicKey } from './holderKeys'
+import type { BatchInclusionProof } from './ledgerBackend'
+import { verifyBatchInclusion } from './merkleBatch'
+import { predicateLeaves, provePredicates, type Predicate, type PredicateProof } from './predicateProofs'
+import {
+  DISCLOSABLE_ATTRIBUTES,
+  attributeCommitment,
+  attributeTree,
+  diplomaAttributes,
+  discloseAttributes,
+  type AttributeDisclosure,
+  type AttributeSalts,
+  type AttributeValues,
+  type DisclosableAttribute,
+} from './selectiveDisclosure'
+import {
+  discloseCourses,
+  proveCourses,
+  transcriptLeaf,
+  type CourseDisclosure,
+  type CoursePredicate,
+  type CourseProof,
+  type TranscriptCourse,
+} from './transcriptProofs'
+
+const INBOX_STORAGE_KEY = '__privatediploma_opening_inbox'
+const SEAL_INFO = 'privatediploma/opening-package/v1'
+
+export const SEAL_ALGORITHM = 'ECDH-P256+HKDF-SHA256+AES-256-GCM'
+
+/**
+ * Plaintext opening of a student data commitment
+ * Version 1 commits to all fields in one hash; version 2 commits to each
+ * disclosable attribute separately (see selectiveDisclosure); version 3 adds
+ * the predicate leaves (see predicateProofs); version 4 adds the transcript
+ * leaf (see transcriptProofs).
+ */
+export interface CommitmentOpening {
+  version: 1 | 2 | 3 | 4
+  fields: StudentDataFields
+  salt: string
+  /** Version 2 and up: one salt per attribute leaf */
+  attributeSalts?: AttributeSalts
+  /** Version 3 and up: secret the predicate and transcript chains and salts derive from */
+  predicateSecret?: string
+  /** Version 4 only: per-course credits and marks, possibly none */
+  transcript?: TranscriptCourse[]
+  certificateHash: string
+  studentDataCommitment: string
+  issuerAddress: string
+  hashAlgorithm: HashAlgorithm
+  issuedAt: number
+  /** Set for a diploma issued in a batch: its leaf and path to the anchored root */
+  batch?: BatchInclusionProof
+}
+
+/**
+ * Opening package encrypted to one holder key
+ * `certificateHash` stays in the clear so the inbox can be indexed.
+ */
+export interface SealedOpeningPackage {
+  version: 1
+  algorithm: typeof SEAL_ALGORITHM
+  recipientKeyId: string
+  ephemeralPublicKey: string
+  iv: string
+  ciphertext: string
+  certificateHash: string
+  deliveredAt: number
+}
+
+/**
+ * Fresh 32-byte commitment salt
+ */
+export function generateCommitmentSalt(): string {
+  return randomHex(32)
+}
+
+/**
+ * studentDataCommitment = SHA-256(SHA-256(canonical student data) || salt)
+ */
+export async function computeStudentDataCommitment(
+  fields: StudentDataFields,
+  salt: string
+): Promise<string> {
+  const dataHash = '0x' + await sha256(encodeStudentData(fields))
+  return '0x' + await sha256(dataHash + salt)
+}
+
+/**
+ * Version 2 studentDataCommitment: the attribute tree's root, whose last leaf
+ * is the version 1 commitment over the same fields and salt
+ * Passing a predicate secret gives the version 3 root, and a transcript as
+ * well the version 4 root.
+ */
+export async function computeAttributeCommitment(
+  fields: StudentDataFields,
+  salt: string,
+  attributeSalts: AttributeSalts,
+  predicateSecret?: string,
+  transcript?: TranscriptCourse[]
+): Promise<string> {
+  const values = diplomaAttributes(fields)
+  return attributeCommitment(
+    values,
+    attributeSalts,
+    await computeStudentDataCommitment(fields, salt),
+    trailingLeaves(values, predicateSecret, transcript)
+  )
+}
+
+/**
+ * Leaves between the attributes and the record leaf: predicate leaves from
+ * version 3, then the transcript leaf from version 4
+ */
+function trailingLeaves(
+  values: AttributeValues,
+  predicateSecret?: string,
+  transcript?: TranscriptCourse[]
+): string[] {
+  if (!predicateSecret) {
+    return []
+  }
+  return [
+    ...predicateLeaves(values, predicateSecret),
+    ...(transcript ? [transcriptLeaf(transcript, predicateSecret)] : []),
+  ]
+}
+
+function openingLeaves(opening: CommitmentOpening): string[] {
+  return trailingLeaves(
+    diplomaAttributes(opening.fields),
+    opening.predicateSecret,
+    opening.version === 4 ? opening.transcript : undefined
+  )
+}
+
+const AMEND_TO_DISCLOSE =
+  'This diploma was issued before attributes could be disclosed one by one; ask your university to amend it'
+
+const AMEND_TO_PROVE =
+  'This diploma was issued before predicates could be proven over it; ask your university to amend it'
+
+const AMEND_FOR_TRANSCRIPT =
+  'This diploma was issued before course marks were committed one by one; ask your university to amend it'
+
+/**
+ * Reveal `names` from an opening
+ * Throws for a version 1 opening, which has no attribute-level commitment.
+ */
+export async function discloseFromOpening(
+  opening: CommitmentOpening,
+  names: DisclosableAttribute[]
+): Promise<AttributeDisclosure[]> {
+  if (names.length === 0) {
+    return []
+  }
+  if (opening.version < 2 || !opening.attributeSalts) {
+    throw new Error(AMEND_TO_DISCLOSE)
+  }
+  const values = diplomaAttributes(opening.fields)
+  return discloseAttributes(
+    values,
+    opening.attributeSalts,
+    await computeStudentDataCommitment(opening.fields, opening.salt),
+    names,
+    openingLeaves(opening)
+  )
+}
+
+/**
+ * Prove `predicates` from an opening
+ * Throws for an opening before version 3, or when a predicate does not hold.
+ */
+export async function proveFromOpening(
+  opening: CommitmentOpening,
+  predicates: Predicate[]
+): Promise<PredicateProof[]> {
+  if (predicates.length === 0) {
+    return []
+  }
+  if (opening.version < 3 || !opening.attributeSalts || !opening.predicateSecret) {
+    throw new Error(AMEND_TO_PROVE)
+  }
+  return provePredicates(
+    diplomaAttributes(opening.fields),
+    opening.attributeSalts,
+    await computeStudentDataCommitment(opening.fields, opening.salt),
+    opening.predicateSecret,
+    predicates,
+    opening.version === 4 && opening.transcript ? [transcriptLeaf(opening.transcript, opening.predicateSecret)] : []
+  )
+}
+
+/**
+ * Path of a version 4 opening's transcript leaf to its commitment
+ */
+async function transcriptAnchorPath(opening: CommitmentOpening) {
+  const leaves = openingLeaves(opening)
+  const { paths } = attributeTree(
+    diplomaAttributes(opening.fields),
+    opening.attributeSalts!,
+    await computeStudentDataCommitment(opening.fields, opening.salt),
+    leaves
+  )
+  return paths[DISCLOSABLE_ATTRIBUTES.length + leaves.length - 1]
+}
+
+/**
+ * Reveal the transcript courses named in `courses` from an opening
+ * Throws for an opening before version 4, or a course it does not list.
+ */
+export async function discloseCoursesFromOpening(
+  opening: CommitmentOpening,
+  courses: string[]
+): Promise<CourseDisclosure[]> {
+  if (courses.length === 0) {
+    return []
+  }
+  if (opening.version < 4 || !opening.attributeSalts || !opening.predicateSecret || !opening.transcript) {
+    throw new Error(AMEND_FOR_TRANSCRIPT)
+  }
+  return discloseCourses(opening.transcript, opening.predicateSecret, courses, await transcriptAnchorPath(opening))
+}
+
+/**
+ * Prove course `predicates` from an opening
+ * Throws for an opening before version 4, or when a predicate does not hold.
+ */
+export async function proveCoursesFromOpening(
+  opening: CommitmentOpening,
+  predicates: CoursePredicate[]
+): Promise<CourseProof[]> {
+  if (predicates.length === 0) {
+    return []
+  }
+  if (opening.version < 4 || !opening.attributeSalts || !opening.predicateSecret || !opening.transcript) {
+    throw new Error(AMEND_FOR_TRANSCRIPT)
+  }
+  return proveCourses(opening.transcript, opening.predicateSecret, predicates, await transcriptAnchorPath(opening))
+}
+
+/**
+ * Check that an opening actually opens its commitment
+ * A batch opening must also carry a consistent path to its root.
+ */
+export async function verifyOpening(opening: CommitmentOpening): Promise<boolean> {
+  if (opening.hashAlgorithm !== CURRENT_HASH_ALGORITHM) {
+    return false
+  }
+  if (
+    opening.batch &&
+    (opening.batch.leaf.certificateHash !== opening.certificateHash ||
+      opening.batch.leaf.studentDataCommitment !== opening.studentDataCommitment ||
+      !verifyBatchInclusion(opening.batch))
+  ) {
+    return false
+  }
+  if (
+    (opening.version >= 2 && !opening.attributeSalts) ||
+    (opening.version >= 3 && !opening.predicateSecret) ||
+    (opening.version === 4 && !opening.transcript)
+  ) {
+    return false
+  }
+  const recomputed =
+    opening.version >= 2
+      ? await computeAttributeCommitment(
+          opening.fields,
+          opening.salt,
+          opening.attributeSalts!,
+          opening.version >= 3 ? opening.predicateSecret : undefined,
+          opening.version === 4 ? opening.transcript : undefined
+        )
+      : await computeStudentDataCommitment(opening.fields, opening.salt)
+  return recomputed === opening.studentDataCommitment
+}
+
+/**
+ * Encrypt an opening to a holder's public key
+ */
+export async function sealOpening(
+  opening: CommitmentOpening,
+  recipientPublicKeyHex: string
+): Promise<SealedOpeningPackage> {
+  const recipientKey = await importHolderPublicKey(recipientPublicKeyHex)
+  const ephemeral = await crypto.subtle.generateKey(
+    { name: 'ECDH', namedCurve: 'P-256' },
+    true,
+    ['deriveBits']
+  )
+  const ephemeralPublicKey = toHex(
+    new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey))
+  )
+  const key = await deriveSealKey(ephemeral.privateKey, recipientKey, ephemeralPublicKey)
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(opening.certificateHash) },
+    key,
+    new TextEncoder().encode(JSON.stringify(opening))
+  )
+
+  return {
+    version: 1,
+    algorithm: SEAL_ALGORITHM,
+    recipientKeyId: await holderKeyId(recipientPublicKeyHex),
+    ephemeralPublicKey,
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+    certificateHash: opening.certificateHash,
+    deliveredAt: Date.now(),
+  }
+}
+
+/**
+ * Decrypt a sealed package with the holder's ECDH private key
+ * Throws if the package was not sealed to this key or was tampered with.
+ */
+export async function unsealOpening(
+  sealed: SealedOpeningPackage,
+  holderPrivateKey: CryptoKey
+): Promise<CommitmentOpening> {
+  const ephemeralKey = await importHolderPublicKey(sealed.ephemeralPublicKey)
+  const key = await deriveSealKey(holderPrivateKey, ephemeralKey, sealed.ephemeralPublicKey)
+  const plaintext = await crypto.subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: fromBase64(sealed.iv),
+      additionalData: new TextEncoder().encode(sealed.certificateHash),
+    },
+    key,
+    fromBase64(sealed.ciphertext)
+  )
+  const opening = JSON.parse(new TextDecoder().decode(plaintext)) as CommitmentOpening
+  if (opening.certificateHash !== sealed.certificateHash) {
+    throw new Error('Opening package does not match its certificate')
+  }
+  return opening
+}
+
+async function deriveSealKey(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey,
+  ephemeralPublicKeyHex: string
+): Promise<CryptoKey> {
+  const sharedSecret = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256)
+  const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: fromHex(ephemeralPublicKeyHex),
+      info: new TextEncoder().encode(SEAL_INFO),
+    },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * Holder inbox
+ * Sealed packages waiting to be collected, keyed by recipient key id.
+ * Stands in for the issuer-to-student delivery channel.
+ */
+class OpeningInbox {
+  private load(): SealedOpeningPackage[] {
+    try {
+      return JSON.parse(localStorage.getItem(INBOX_STORAGE_KEY) || '[]')
+    } catch (error) {
+      console.error('Failed to load opening inbox:', error)
+      return []
+    }
+  }
+
+  private save(packages: SealedOpeningPackage[]): void {
+    localStorage.setItem(INBOX_STORAGE_KEY, JSON.stringify(packages))
+  }
+
+  deliver(sealed: SealedOpeningPackage): void {
+    const packages = this.load().filter(
+      p => !(p.recipientKeyId === sealed.recipientKeyId && p.certificateHash === sealed.certificateHash)
+    )
+    packages.push(sealed)
+    this.save(packages)
+    console.log('📬 Opening package delivered for', sealed.certificateHash.slice(0, 16) + '...')
+  }
+
+  listFor(recipientKeyId: string): SealedOpeningPackage[] {
+    return this.load().filter(p => p.recipientKeyId === recipientKeyId)
+  }
+
+  remove(recipientKeyId: string, certificateHash: string): void {
+    this.save(
+      this.load().filter(
+        p => !(p.recipientKeyId === recipientKeyId && p.certificateHash === certificateHash)
+      )
+    )
+  }
+}
+
+export const openingInbox = new OpeningInbox()
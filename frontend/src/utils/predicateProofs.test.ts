@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest'
+import { canonicalize, type StudentDataFields } from './canonical'
+import { randomHex, sha256Sync } from './crypto'
+import {
+  generatePredicateSecret,
+  hashChain,
+  predicateLeaves,
+  predicateProofErrors,
+  provePredicates,
+  type DegreeCategory,
+  type Predicate,
+  type PredicateProof,
+} from './predicateProofs'
+import {
+  DISCLOSABLE_ATTRIBUTES,
+  attributeCommitment,
+  attributeTree,
+  diplomaAttributes,
+  generateAttributeSalts,
+} from './selectiveDisclosure'
+
+const STUDENT: StudentDataFields = {
+  studentId: 'S001',
+  studentName: 'Ada Lovelace',
+  degreeType: 'MSc Data Science',
+  department: 'Computing',
+  issueDate: '2025-06-30',
+  universityAddress: 'addr_university',
+  marks: { GPA: '3.90' },
+}
+
+describe('predicate proofs', () => {
+  const values = diplomaAttributes(STUDENT)
+  const salts = generateAttributeSalts()
+  const recordCommitment = '0x' + randomHex(32)
+  const secret = generatePredicateSecret()
+  const commitment = attributeCommitment(values, salts, recordCommitment, predicateLeaves(values, secret))
+
+  const prove = (...predicates: Predicate[]) => provePredicates(values, salts, recordCommitment, secret, predicates)
+  const relabel = (proof: PredicateProof, predicate: Predicate): PredicateProof => ({ ...proof, predicate })
+
+  describe('ranges', () => {
+    it('proves bounds the value meets, including the value itself', () => {
+      const proofs = prove(
+        { attribute: 'gpa', op: 'gte', value: 3.5 },
+        { attribute: 'gpa', op: 'gte', value: 3.9 },
+        { attribute: 'gpa', op: 'lte', value: 3.9 },
+        { attribute: 'graduationYear', op: 'lte', value: 2030 }
+      )
+      expect(predicateProofErrors(commitment, proofs)).toEqual([])
+    })
+
+    it('refuses to prove a bound the value misses', () => {
+      expect(() => prove({ attribute: 'gpa', op: 'gte', value: 3.91 })).toThrow('GPA at least 3.91')
+      expect(() => prove({ attribute: 'graduationYear', op: 'lte', value: 2024 })).toThrow()
+    })
+
+    it('rejects a proof relabeled with a tighter bound', () => {
+      const [atLeast] = prove({ attribute: 'gpa', op: 'gte', value: 3.5 })
+      expect(predicateProofErrors(commitment, [relabel(atLeast, { attribute: 'gpa', op: 'gte', value: 3.95 })])).toHaveLength(1)
+      const [atMost] = prove({ attribute: 'gpa', op: 'lte', value: 3.95 })
+      expect(predicateProofErrors(commitment, [relabel(atMost, { attribute: 'gpa', op: 'lte', value: 3.5 })])).toHaveLength(1)
+    })
+
+    it('rejects a lower-bound proof presented as an upper bound', () => {
+      const [atLeast] = prove({ attribute: 'gpa', op: 'gte', value: 3.9 })
+      expect(predicateProofErrors(commitment, [relabel(atLeast, { attribute: 'gpa', op: 'lte', value: 3.9 })])).toHaveLength(1)
+    })
+
+    it('leaves the holder no link for a bound above the value', () => {
+      // Proving the exact value reveals the chain seed; every link the
+      // holder can compute lies forward of it
+      const [exact] = prove({ attribute: 'graduationYear', op: 'gte', value: 2025 })
+      const above: Predicate = { attribute: 'graduationYear', op: 'gte', value: 2026 }
+      for (let steps = 0; steps <= 2025 - 1900; steps++) {
+        const forged = { ...exact, predicate: above, witness: hashChain(exact.witness, steps) }
+        expect(predicateProofErrors(commitment, [forged])).toHaveLength(1)
+      }
+    })
+
+    it('rounds an off-grid value against the holder', () => {
+      // 3.456 sits between the 0.01 steps 3.45 and 3.46
+      const offGrid = diplomaAttributes({ ...STUDENT, marks: { GPA: '3.456' } })
+      const offGridCommitment = attributeCommitment(offGrid, salts, recordCommitment, predicateLeaves(offGrid, secret))
+      const proveOffGrid = (...predicates: Predicate[]) =>
+        provePredicates(offGrid, salts, recordCommitment, secret, predicates)
+
+      expect(() => proveOffGrid({ attribute: 'gpa', op: 'gte', value: 3.46 })).toThrow('GPA at least 3.46')
+      expect(() => proveOffGrid({ attribute: 'gpa', op: 'lte', value: 3.45 })).toThrow('GPA at most 3.45')
+      const proofs = proveOffGrid(
+        { attribute: 'gpa', op: 'gte', value: 3.45 },
+        { attribute: 'gpa', op: 'lte', value: 3.46 }
+      )
+      expect(predicateProofErrors(offGridCommitment, proofs)).toEqual([])
+
+      const [atLeast] = proofs
+      expect(
+        predicateProofErrors(offGridCommitment, [relabel(atLeast, { attribute: 'gpa', op: 'gte', value: 3.46 })])
+      ).toHaveLength(1)
+    })
+
+    it('cannot prove anything about an unrecorded value', () => {
+      const noGpa = diplomaAttributes({ ...STUDENT, marks: {} })
+      expect(() =>
+        provePredicates(noGpa, salts, recordCommitment, secret, [{ attribute: 'gpa', op: 'gte', value: 0 }])
+      ).toThrow()
+    })
+  })
+
+  describe('degree category sets', () => {
+    it('proves membership of a set containing the category', () => {
+      const proofs = prove({ attribute: 'degreeCategory', op: 'in', value: ['master', 'doctorate'] })
+      expect(predicateProofErrors(commitment, proofs)).toEqual([])
+    })
+
+    it('refuses a set without the category', () => {
+      expect(() => prove({ attribute: 'degreeCategory', op: 'in', value: ['bachelor', 'doctorate'] })).toThrow()
+    })
+
+    it('rejects a proof relabeled with another set', () => {
+      const [proof] = prove({ attribute: 'degreeCategory', op: 'in', value: ['master', 'doctorate'] })
+      const relabeled = relabel(proof, { attribute: 'degreeCategory', op: 'in', value: ['doctorate'] })
+      expect(predicateProofErrors(commitment, [relabeled])).toHaveLength(1)
+    })
+
+    it("rejects the holder's own salt for a set without the category", () => {
+      // The holder can derive every membership salt from their secret, but
+      // the leaf for a set without their category records a non-member
+      const { paths } = attributeTree(values, salts, recordCommitment, predicateLeaves(values, secret))
+      const openMask = (value: DegreeCategory[], mask: number): PredicateProof => ({
+        predicate: { attribute: 'degreeCategory', op: 'in', value },
+        witness: sha256Sync(
+          canonicalize({ domain: 'privatediploma/predicate-seed/v1', secret, attribute: 'degreeCategory', purpose: String(mask) })
+        ),
+        // Tree order: attributes, four range leaves, then one leaf per mask from 1
+        path: paths[DISCLOSABLE_ATTRIBUTES.length + 4 + mask - 1],
+      })
+      expect(predicateProofErrors(commitment, [openMask(['master'], 0b0010)])).toEqual([])
+      expect(predicateProofErrors(commitment, [openMask(['bachelor', 'doctorate'], 0b0101)])).toHaveLength(1)
+    })
+  })
+})
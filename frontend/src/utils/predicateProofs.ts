@@ -0,0 +1,351 @@
+/**
+ * Predicate Proofs
+ * Prove a statement about a committed attribute without disclosing it:
+ * "GPA at least 3.5", "graduated 2020 or later", "holds a Master's or a
+ * Doctorate".
+ *
+ * Range predicates use hash chains. At issuance each numeric attribute gets
+ * two chains from secret seeds, and their ends are leaves of the attribute
+ * tree: the ascending anchor H^(x - min)(up seed) and the descending anchor
+ * H^(max - x)(down seed). To show x >= t the holder reveals the link
+ * H^(x - t)(up seed); hashing it t - min more times must land on the anchor.
+ * Nobody can walk a chain backwards, so a holder with x < t has no link to
+ * reveal. x <= t works the same way down the other chain. A link is
+ * pseudorandom and says nothing about x beyond the predicate.
+ *
+ * Set membership works over the fixed list of degree categories. The tree
+ * holds one salted leaf per non-empty subset of categories, recording
+ * whether the diploma's category is in it; opening the leaf of the
+ * requested subset shows membership and nothing else.
+ *
+ * Mirrors the contract's verifyPredicate circuit.
+ */
+
+import { canonicalize } from './canonical'
+import { randomHex, sha256Sync } from './crypto'
+import type { MerkleStep } from './ledgerBackend'
+import {
+  DISCLOSABLE_ATTRIBUTES,
+  attributeRootFromPath,
+  attributeTree,
+  type AttributeSalts,
+  type AttributeValues,
+} from './selectiveDisclosure'
+
+const CHAIN_DOMAIN = 'privatediploma/predicate-chain/v1:'
+const SEED_DOMAIN = 'privatediploma/predicate-seed/v1'
+const RANGE_LEAF_DOMAIN = 'privatediploma/predicate-range/v1'
+const MEMBER_LEAF_DOMAIN = 'privatediploma/predicate-member/v1'
+
+/**
+ * Attributes range predicates can be proven over
+ * Values are committed in steps of 1 / scale within [min, max]; values
+ * outside the range, or not recorded, cannot satisfy any predicate.
+ */
+export const RANGE_ATTRIBUTES = {
+  gpa: { label: 'GPA', min: 0, max: 10, scale: 100 },
+  graduationYear: { label: 'Graduation year', min: 1900, max: 2100, scale: 1 },
+} as const
+
+export type RangeAttribute = keyof typeof RANGE_ATTRIBUTES
+
+export const DEGREE_CATEGORIES = ['bachelor', 'master', 'doctorate', 'other'] as const
+
+export type DegreeCategory = (typeof DEGREE_CATEGORIES)[number]
+
+export const DEGREE_CATEGORY_LABELS: Record<DegreeCategory, string> = {
+  bachelor: "Bachelor's",
+  master: "Master's",
+  doctorate: 'Doctorate',
+  other: 'Other',
+}
+
+/**
+ * A statement the employer asks the candidate to prove
+ * `gte` / `lte` bound a range attribute; `in` asks for one of a set of degree
+ * categories. A range with both ends is two predicates.
+ */
+export type Predicate =
+  | { attribute: RangeAttribute; op: 'gte' | 'lte'; value: number }
+  | { attribute: 'degreeCategory'; op: 'in'; value: DegreeCategory[] }
+
+/**
+ * Proof of one predicate
+ * `witness` is the revealed chain link for a range predicate and the leaf
+ * salt for a membership predicate.
+ */
+export interface PredicateProof {
+  predicate: Predicate
+  witness: string
+  path: MerkleStep[]
+}
+
+type ChainDirection = 'up' | 'down'
+
+/** One 32-byte secret; every chain seed and membership salt derives from it */
+export function generatePredicateSecret(): string {
+  return randomHex(32)
+}
+
+/**
+ * Category of a degree type, from its wording
+ */
+export function degreeCategory(degreeType: string): DegreeCategory {
+  const normalized = degreeType.trim().toLowerCase()
+  if (/\b(doctor|ph\.?\s?d)/.test(normalized)) return 'doctorate'
+  if (/^(master|m\.?\s?(sc|a|eng|ba)\b)/.test(normalized)) return 'master'
+  if (/^(bachelor|b\.?\s?(sc|a|eng)\b)/.test(normalized)) return 'bachelor'
+  return 'other'
+}
+
+/** Bitmask of a category set, in DEGREE_CATEGORIES order */
+function categoryMask(categories: DegreeCategory[]): number {
+  return DEGREE_CATEGORIES.reduce((mask, category, idx) => (categories.includes(category) ? mask | (1 << idx) : mask), 0)
+}
+
+type RangePredicate = Extract<Predicate, { op: 'gte' | 'lte' }>
+
+/**
+ * Chain steps from `min` to `value`, rounded onto the 1 / scale grid;
+ * null when it cannot be committed
+ */
+function rangeSteps(attribute: RangeAttribute, value: unknown, rounding: 'floor' | 'ceil'): number | null {
+  const { min, max, scale } = RANGE_ATTRIBUTES[attribute]
+  const numeric = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+  if (typeof numeric !== 'number' || !Number.isFinite(numeric) || numeric < min || numeric > max) {
+    return null
+  }
+  const exact = (numeric - min) * scale
+  // Values on the grid only miss it by float error (3.46 * 100)
+  const nearest = Math.round(exact)
+  if (Math.abs(exact - nearest) < 1e-6) return nearest
+  return rounding === 'floor' ? Math.floor(exact) : Math.ceil(exact)
+}
+
+/**
+ * Steps of a committed value on the chain proving `op` bounds
+ * Off-grid values round against the holder: down for lower bounds, up for
+ * upper bounds.
+ */
+function valueSteps(attribute: RangeAttribute, value: unknown, op: RangePredicate['op']): number | null {
+  return rangeSteps(attribute, value, op === 'gte' ? 'floor' : 'ceil')
+}
+
+/** Steps of a bound, rounded the other way: up for `gte`, down for `lte` */
+function thresholdSteps(predicate: RangePredicate): number | null {
+  return rangeSteps(predicate.attribute, predicate.value, predicate.op === 'gte' ? 'ceil' : 'floor')
+}
+
+function chainSteps(attribute: RangeAttribute): number {
+  const { min, max, scale } = RANGE_ATTRIBUTES[attribute]
+  return Math.round((max - min) * scale)
+}
+
+/**
+ * Hash `link` forward `steps` times along a predicate chain
+ */
+export function hashChain(link: string, steps: number): string {
+  let current = link
+  for (let i = 0; i < steps; i++) {
+    current = sha256Sync(CHAIN_DOMAIN + current)
+  }
+  return current
+}
+
+function derivedSecret(secret: string, attribute: string, purpose: string): string {
+  return sha256Sync(canonicalize({ domain: SEED_DOMAIN, secret, attribute, purpose }))
+}
+
+function rangeLeafHash(attribute: RangeAttribute, direction: ChainDirection, anchor: string): string {
+  return '0x' + sha256Sync(canonicalize({ domain: RANGE_LEAF_DOMAIN, attribute, direction, anchor }))
+}
+
+function memberLeafHash(mask: number, member: boolean, salt: string): string {
+  return '0x' + sha256Sync(canonicalize({ domain: MEMBER_LEAF_DOMAIN, attribute: 'degreeCategory', mask, member, salt }))
+}
+
+interface PredicateLeaf {
+  /** `gpa/up`, `degreeCategory/5`, ... */
+  key: string
+  hash: string
+}
+
+function predicateLeafEntries(values: AttributeValues, secret: string): PredicateLeaf[] {
+  const range = (Object.keys(RANGE_ATTRIBUTES) as RangeAttribute[]).flatMap(attribute => {
+    return (['up', 'down'] as const).map(direction => {
+      const steps = valueSteps(attribute, values[attribute], direction === 'up' ? 'gte' : 'lte')
+      const seed = derivedSecret(secret, attribute, direction)
+      // An unrecorded value gets an anchor no link hashes to
+      const anchor =
+        steps === null
+          ? derivedSecret(secret, attribute, `${direction}/absent`)
+          : hashChain(seed, direction === 'up' ? steps : chainSteps(attribute) - steps)
+      return { key: `${attribute}/${direction}`, hash: rangeLeafHash(attribute, direction, anchor) }
+    })
+  })
+
+  const category = degreeCategory(String(values.degreeType ?? ''))
+  const membership = Array.from({ length: (1 << DEGREE_CATEGORIES.length) - 1 }, (_, idx) => {
+    const mask = idx + 1
+    const member = (mask & categoryMask([category])) !== 0
+    return {
+      key: `degreeCategory/${mask}`,
+      hash: memberLeafHash(mask, member, derivedSecret(secret, 'degreeCategory', String(mask))),
+    }
+  })
+
+  return [...range, ...membership]
+}
+
+/**
+ * Predicate leaves of the version 3 attribute tree, in tree order
+ */
+export function predicateLeaves(values: AttributeValues, secret: string): string[] {
+  return predicateLeafEntries(values, secret).map(leaf => leaf.hash)
+}
+
+function leafKey(predicate: Predicate): string {
+  if (predicate.attribute === 'degreeCategory') {
+    return `degreeCategory/${categoryMask(predicate.value)}`
+  }
+  return `${predicate.attribute}/${predicate.op === 'gte' ? 'up' : 'down'}`
+}
+
+/**
+ * Whether committed values satisfy a predicate
+ */
+export function predicateHolds(values: AttributeValues, predicate: Predicate): boolean {
+  if (predicate.attribute === 'degreeCategory') {
+    return predicate.value.includes(degreeCategory(String(values.degreeType ?? '')))
+  }
+  const steps = valueSteps(predicate.attribute, values[predicate.attribute], predicate.op)
+  const threshold = thresholdSteps(predicate)
+  if (steps === null || threshold === null) return false
+  return predicate.op === 'gte' ? steps >= threshold : steps <= threshold
+}
+
+/**
+ * Prove `predicates` over a version 3 attribute tree
+ * `trailingLeaves` follow the predicate leaves in later versions (the
+ * version 4 transcript anchor). Throws, naming the predicate, when the
+ * diploma does not satisfy one.
+ */
+export function provePredicates(
+  values: AttributeValues,
+  salts: AttributeSalts,
+  recordCommitment: string,
+  secret: string,
+  predicates: Predicate[],
+  trailingLeaves: string[] = []
+): PredicateProof[] {
+  if (predicates.length === 0) {
+    return []
+  }
+  const entries = predicateLeafEntries(values, secret)
+  const { paths } = attributeTree(values, salts, recordCommitment, [
+    ...entries.map(leaf => leaf.hash),
+    ...trailingLeaves,
+  ])
+
+  return predicates.map(predicate => {
+    if (!predicateHolds(values, predicate)) {
+      throw new Error(`Your diploma does not satisfy "${describePredicate(predicate)}"`)
+    }
+    const key = leafKey(predicate)
+    const path = paths[DISCLOSABLE_ATTRIBUTES.length + entries.findIndex(leaf => leaf.key === key)]
+
+    if (predicate.attribute === 'degreeCategory') {
+      return { predicate, witness: derivedSecret(secret, 'degreeCategory', String(categoryMask(predicate.value))), path }
+    }
+    const direction = predicate.op === 'gte' ? 'up' : 'down'
+    const steps = valueSteps(predicate.attribute, values[predicate.attribute], predicate.op)!
+    const threshold = thresholdSteps(predicate)!
+    const link = hashChain(
+      derivedSecret(secret, predicate.attribute, direction),
+      direction === 'up' ? steps - threshold : threshold - steps
+    )
+    return { predicate, witness: link, path }
+  })
+}
+
+/**
+ * Leaf a predicate proof claims to open
+ * The verifier finishes the chain itself, so the holder never names the
+ * anchor.
+ */
+function provenLeafHash(proof: PredicateProof): string | null {
+  const { predicate, witness } = proof
+  if (predicate.attribute === 'degreeCategory') {
+    return memberLeafHash(categoryMask(predicate.value), true, witness)
+  }
+  const threshold = thresholdSteps(predicate)
+  if (threshold === null) return null
+  const anchor =
+    predicate.op === 'gte'
+      ? hashChain(witness, threshold)
+      : hashChain(witness, chainSteps(predicate.attribute) - threshold)
+  return rangeLeafHash(predicate.attribute, predicate.op === 'gte' ? 'up' : 'down', anchor)
+}
+
+/**
+ * Why `proofs` do not prove their predicates against `commitment`; empty
+ * when every one does
+ */
+export function predicateProofErrors(commitment: string, proofs: PredicateProof[]): string[] {
+  return proofs.flatMap(proof => {
+    const leaf = provenLeafHash(proof)
+    return leaf !== null && attributeRootFromPath(leaf, proof.path) === commitment
+      ? []
+      : [`Proof of "${describePredicate(proof.predicate)}" does not match the diploma's commitment`]
+  })
+}
+
+/**
+ * Stable identity of a predicate, for matching proofs to requests
+ */
+export function predicateId(predicate: Predicate): string {
+  if (predicate.attribute === 'degreeCategory') {
+    return `degreeCategory in ${categoryMask(predicate.value)}`
+  }
+  return `${predicate.attribute} ${predicate.op} ${thresholdSteps(predicate)}`
+}
+
+export function describePredicate(predicate: Predicate): string {
+  if (predicate.attribute === 'degreeCategory') {
+    return `Degree is ${predicate.value.map(category => DEGREE_CATEGORY_LABELS[category]).join(' or ')}`
+  }
+  const { label } = RANGE_ATTRIBUTES[predicate.attribute]
+  return `${label} ${predicate.op === 'gte' ? 'at least' : 'at most'} ${predicate.value}`
+}
+
+/**
+ * What is wrong with a predicate read from a file, phrased to follow its
+ * name; null when it is well formed
+ */
+export function predicateShapeError(value: any): string | null {
+  if (!value || typeof value !== 'object') {
+    return 'must be an object'
+  }
+  if (value.attribute === 'degreeCategory') {
+    if (value.op !== 'in') return 'must use "in" for degree categories'
+    if (
+      !Array.isArray(value.value) ||
+      value.value.length === 0 ||
+      !value.value.every((category: unknown) => DEGREE_CATEGORIES.includes(category as DegreeCategory))
+    ) {
+      return `must list at least one of ${DEGREE_CATEGORIES.join(', ')}`
+    }
+    return null
+  }
+  if (!Object.keys(RANGE_ATTRIBUTES).includes(value.attribute)) {
+    return `must name one of ${[...Object.keys(RANGE_ATTRIBUTES), 'degreeCategory'].join(', ')}`
+  }
+  if (value.op !== 'gte' && value.op !== 'lte') {
+    return 'must use "gte" or "lte" for a range'
+  }
+  if (rangeSteps(value.attribute, value.value, 'floor') === null || typeof value.value !== 'number') {
+    const { min, max } = RANGE_ATTRIBUTES[value.attribute as RangeAttribute]
+    return `must bound a number from ${min} to ${max}`
+  }
+  return null
+}
@@ -5,6 +5,44 @@
 
 import { configLoader } from './config';
 import { midnightWalletManager } from './midnightWallet';
+import { CURRENT_HASH_ALGORITHM } from './crypto';
+import {
+  REVOCATION_REASON_CODES,
+  buildAccreditationChain,
+  filterLedgerRecords,
+  type AccreditationChain,
+  type AccreditationChange,
+  type AccreditorRecord,
+  type AnonymousPresentation,
+  type AnonymousPresentationRecord,
+  type AnonymousPresentationWitness,
+  type BatchAnchorRecord,
+  type BatchInclusionProof,
+  type DelegationRequest,
+  type DiplomaSetMember,
+  type DiplomaStatus,
+  type DiplomaStatusChange,
+  type IssueDiplomaRequest,
+  type IssuerAccreditation,
+  type IssuerChange,
+  type IssuerDelegation,
+  type IssuerMetadata,
+  type IssuerProfile,
+  type LedgerBackend,
+  type LedgerDiplomaRecord,
+  type LedgerQuery,
+  type LedgerReceipt,
+  type RevocationRequest,
+  type VerificationProof,
+} from './ledgerBackend';
+import { holderKeyFor, holderPresentationMessage, verifyHolderSignature } from './holderSignature';
+import { verifyBatchInclusion } from './merkleBatch';
+import {
+  verificationFailed,
+  verificationPassed,
+  type VerificationOutcome,
+} from './verificationOutcome';
+import { nullifierEpoch, verifierNullifierValid } from './verifierNullifier';
 
 export interface DiplomaTransaction {
   txHash: string;
@@ -24,7 +62,18 @@ export interface BlockchainDiploma {
   studentDataCommitment: string;
   issuerAddress: string;
   issuanceBlock: number;
-  status: 'active' | 'revoked';
+  issuanceTimestamp: number;
+  degreeTypeHash: string;
+  departmentHash: string;
+  holderPublicKey: string;
+  /** 0 = never expires */
+  expiresAt: number;
+  /** Empty unless the diploma corrects, or was corrected by, another */
+  supersedes: string;
+  supersededBy: string;
+  /** Department that issued it under delegation; empty if the university did */
+  issuedBy: string;
+  status: 'active' | 'revoked' | 'superseded';
 }
 
 class ProductionBlockchainManager {
@@ -164,9 +213,44 @@ class ProductionBlockchainManager {
 
   /**
    * REVOKE DIPLOMA ON-CHAIN
-   * Marks diploma as revoked on blockchain
+   * Marks diploma as revoked on blockchain, with a reason and effective date
    */
-  async revokeDiploma(certificateHash: string): Promise<DiplomaTransaction> {
+  async revokeDiploma(
+    certificateHash: string,
+    revocation: RevocationRequest
+  ): Promise<DiplomaTransaction> {
+    const reason = REVOCATION_REASON_CODES[revocation.reason];
+    const effectiveAt = revocation.effectiveAt ?? Math.floor(Date.now() / 1000);
+
+    // In production:
+    // Call contract.revokeDiploma(certificateHash, reason, effectiveAt)
+    console.log('🚫 Revoking diploma on-chain:', certificateHash, { reason, effectiveAt });
+    return this.submitStatusChange(certificateHash);
+  }
+
+  /**
+   * REINSTATE DIPLOMA ON-CHAIN
+   * Returns a revoked diploma to valid; the contract refuses superseded ones
+   */
+  async reinstateDiploma(certificateHash: string): Promise<DiplomaTransaction> {
+    // In production:
+    // Call contract.reinstateDiploma(certificateHash)
+    console.log('♻️ Reinstating diploma on-chain:', certificateHash);
+    return this.submitStatusChange(certificateHash);
+  }
+
+  /**
+   * GET STATUS HISTORY
+   * Every issuance, revocation and reinstatement of a diploma, oldest first
+   */
+  async getStatusHistory(certificateHash: string): Promise<DiplomaStatusChange[]> {
+    // In production:
+    // return contract.getStatusHistory(certificateHash)
+    console.log('🔎 Fetching status history:', certificateHash);
+    return [];
+  }
+
+  private async submitStatusChange(certificateHash: string): Promise<DiplomaTransaction> {
     if (!configLoader.isBlockchainEnabled()) {
       return {
         txHash: `0x${Math.random().toString(16).slice(2)}`,
@@ -184,11 +268,6 @@ class ProductionBlockchainManager {
         throw new Error('Wallet not connected');
       }
 
-      console.log('🚫 Revoking diploma on-chain:', certificateHash);
-
-      // In production:
-      // Call contract.revokeDiploma(certificateHash)
-
       return {
         txHash: `0x${Math.random().toString(16).slice(2)}`,
         status: 'pending',
@@ -198,7 +277,7 @@ class ProductionBlockchainManager {
         universityAddress: wallet.address,
       };
     } catch (error) {
-      console.error('❌ Revocation failed:', error);
+      console.error('❌ Status change failed:', error);
       throw error;
     }
   }
@@ -241,6 +320,456 @@ class ProductionBlockchainManager {
     }
   }
 
+  /**
+   * SUBMIT ISSUANCE CIRCUIT
+   * Calls issueDiploma with the public inputs only (no witness data)
+   */
+  async submitIssuance(request: IssueDiplomaRequest): Promise<DiplomaTransaction> {
+    const wallet = midnightWalletManager.getAccount();
+    if (configLoader.isBlockchainEnabled() && !wallet) {
+      throw new Error('Wallet not connected');
+    }
+
+    console.log('📝 Submitting issueDiploma circuit:', request.certificateHash);
+
+    // In production:
+    // await contract.callTx.issueDiploma(
+    //   request.certificateHash, request.studentDataCommitment,
+    //   request.degreeTypeHash, request.departmentHash, request.issuanceTimestamp,
+    //   request.holderPublicKey, request.expiresAt ?? 0
+    // )
+
+    const tx: DiplomaTransaction = {
+      txHash: `0x${Math.random().toString(16).slice(2)}`,
+      status: 'pending',
+      timestamp: Date.now(),
+      studentId: request.studentId || '',
+      certificateHash: request.certificateHash,
+      universityAddress: wallet?.address || '',
+    };
+
+    this.pollTransactionStatus(tx);
+
+    return tx;
+  }
+
+  /**
+   * SUBMIT AMENDMENT CIRCUIT
+   * Calls amendDiploma; the contract supersedes previousHash with the new record
+   */
+  async submitAmendment(
+    previousHash: string,
+    request: IssueDiplomaRequest
+  ): Promise<DiplomaTransaction> {
+    const wallet = midnightWalletManager.getAccount();
+    if (configLoader.isBlockchainEnabled() && !wallet) {
+      throw new Error('Wallet not connected');
+    }
+
+    console.log('📝 Submitting amendDiploma circuit:', previousHash, '→', request.certificateHash);
+
+    // In production:
+    // await contract.callTx.amendDiploma(
+    //   previousHash, request.certificateHash, request.studentDataCommitment,
+    //   request.degreeTypeHash, request.departmentHash, request.issuanceTimestamp,
+    //   request.holderPublicKey, request.expiresAt ?? 0
+    // )
+
+    const tx: DiplomaTransaction = {
+      txHash: `0x${Math.random().toString(16).slice(2)}`,
+      status: 'pending',
+      timestamp: Date.now(),
+      studentId: request.studentId || '',
+      certificateHash: request.certificateHash,
+      universityAddress: wallet?.address || '',
+    };
+
+    this.pollTransactionStatus(tx);
+
+    return tx;
+  }
+
+  /**
+   * SUBMIT BATCH ANCHOR CIRCUIT
+   * Calls anchorBatch with a cohort's Merkle root; one transaction per batch
+   */
+  async submitBatchAnchor(merkleRoot: string, leafCount: number): Promise<DiplomaTransaction> {
+    const wallet = midnightWalletManager.getAccount();
+    if (configLoader.isBlockchainEnabled() && !wallet) {
+      throw new Error('Wallet not connected');
+    }
+
+    console.log('📝 Submitting anchorBatch circuit:', merkleRoot, `(${leafCount} diplomas)`);
+
+    // In production:
+    // await contract.callTx.anchorBatch(merkleRoot, leafCount)
+
+    const tx: DiplomaTransaction = {
+      txHash: `0x${Math.random().toString(16).slice(2)}`,
+      status: 'pending',
+      timestamp: Date.now(),
+      studentId: '',
+      certificateHash: merkleRoot,
+      universityAddress: wallet?.address || '',
+    };
+
+    this.pollTransactionStatus(tx);
+
+    return tx;
+  }
+
+  /**
+   * GET BATCH ANCHOR FROM BLOCKCHAIN
+   */
+  async getBatchAnchor(merkleRoot: string): Promise<BatchAnchorRecord | null> {
+    // In production:
+    // return contract.getBatchAnchor(merkleRoot)
+    console.log('📖 Fetching batch anchor from blockchain:', merkleRoot);
+    return null; // Not found in demo mode
+  }
+
+  /**
+   * CHECK ISSUER AUTHORIZATION
+   */
+  async isAuthorizedIssuer(address: string): Promise<boolean> {
+    if (!configLoader.isBlockchainEnabled()) {
+      return true;
+    }
+
+    // In production:
+    // return contract.verifyIssuanceAuthority(address)
+    console.log('🔎 Checking issuance authority:', address);
+    return false;
+  }
+
+  /**
+   * GET CONTRACT OWNER
+   */
+  async getContractOwner(): Promise<string> {
+    // In production:
+    // return contract.getContractOwner()
+    return configLoader.getContractParameters().owner;
+  }
+
+  /**
+   * LIST AUTHORIZED ISSUERS
+   */
+  async getAuthorizedIssuers(): Promise<string[]> {
+    // In production:
+    // return contract.getAuthorizedIssuers()
+    console.log('📖 Fetching authorized issuers from blockchain');
+    return []; // None known in demo mode
+  }
+
+  /**
+   * SUBMIT ISSUER CHANGE CIRCUIT
+   * Calls addAuthorizedIssuer or removeAuthorizedIssuer; owner wallet only
+   */
+  async submitIssuerChange(university: string, change: IssuerChange): Promise<DiplomaTransaction> {
+    const wallet = midnightWalletManager.getAccount();
+    if (configLoader.isBlockchainEnabled() && !wallet) {
+      throw new Error('Wallet not connected');
+    }
+
+    const circuit = change === 'add' ? 'addAuthorizedIssuer' : 'removeAuthorizedIssuer';
+    console.log(`📝 Submitting ${circuit} circuit:`, university);
+
+    // In production:
+    // await contract.callTx[circuit](university)
+
+    const tx: DiplomaTransaction = {
+      txHash: `0x${Math.random().toString(16).slice(2)}`,
+      status: 'pending',
+      timestamp: Date.now(),
+      studentId: '',
+      certificateHash: '',
+      universityAddress: university,
+    };
+
+    this.pollTransactionStatus(tx);
+
+    return tx;
+  }
+
+  /**
+   * SUBMIT ACCREDITOR APPOINTMENT CIRCUIT
+   * Calls appointAccreditor (name and jurisdiction given) or removeAccreditor;
+   * owner wallet only
+   */
+  async submitAccreditorChange(
+    accreditor: string,
+    appointment: { name: string; jurisdiction: string } | null
+  ): Promise<DiplomaTransaction> {
+    const wallet = midnightWalletManager.getAccount();
+    if (configLoader.isBlockchainEnabled() && !wallet) {
+      throw new Error('Wallet not connected');
+    }
+
+    const circuit = appointment ? 'appointAccreditor' : 'removeAccreditor';
+    console.log(`📝 Submitting ${circuit} circuit:`, accreditor);
+
+    // In production:
+    // appointment
+    //   ? await contract.callTx.appointAccreditor(accreditor, appointment.name, appointment.jurisdiction)
+    //   : await contract.callTx.removeAccreditor(accreditor)
+
+    const tx: DiplomaTransaction = {
+      txHash: `0x${Math.random().toString(16).slice(2)}`,
+      status: 'pending',
+      timestamp: Date.now(),
+      studentId: '',
+      certificateHash: '',
+      universityAddress: '',
+    };
+
+    this.pollTransactionStatus(tx);
+
+    return tx;
+  }
+
+  /**
+   * SUBMIT ACCREDITATION CIRCUIT
+   * Calls accreditIssuer or suspendIssuer; accreditor wallet only
+   */
+  async submitAccreditationChange(university: string, change: AccreditationChange): Promise<DiplomaTransaction> {
+    const wallet = midnightWalletManager.getAccount();
+    if (configLoader.isBlockchainEnabled() && !wallet) {
+      throw new Error('Wallet not connected');
+    }
+
+    const circuit = change === 'accredit' ? 'accreditIssuer' : 'suspendIssuer';
+    console.log(`📝 Submitting ${circuit} circuit:`, university);
+
+    // In production:
+    // await contract.callTx[circuit](university)
+
+    const tx: DiplomaTransaction = {
+      txHash: `0x${Math.random().toString(16).slice(2)}`,
+      status: 'pending',
+      timestamp: Date.now(),
+      studentId: '',
+      certificateHash: '',
+      universityAddress: university,
+    };
+
+    this.pollTransactionStatus(tx);
+
+    return tx;
+  }
+
+  /**
+   * SUBMIT DELEGATION CIRCUIT
+   * Calls grantDelegation (scope given) or revokeDelegation; university
+   * wallet only
+   */
+  async submitDelegationChange(
+    delegate: string,
+    grant: Omit<DelegationRequest, 'delegateAddress'> | null
+  ): Promise<DiplomaTransaction> {
+    const wallet = midnightWalletManager.getAccount();
+    if (configLoader.isBlockchainEnabled() && !wallet) {
+      throw new Error('Wallet not connected');
+    }
+
+    const circuit = grant ? 'grantDelegation' : 'revokeDelegation';
+    console.log(`📝 Submitting ${circuit} circuit:`, delegate);
+
+    // In production:
+    // grant
+    //   ? await contract.callTx.grantDelegation(
+    //       delegate, grant.degreeTypeHashes, grant.departmentHashes, grant.expiresAt
+    //     )
+    //   : await contract.callTx.revokeDelegation(delegate)
+
+    const tx: DiplomaTransaction = {
+      txHash: `0x${Math.random().toString(16).slice(2)}`,
+      status: 'pending',
+      timestamp: Date.now(),
+      studentId: '',
+      certificateHash: '',
+      universityAddress: wallet?.address || '',
+    };
+
+    this.pollTransactionStatus(tx);
+
+    return tx;
+  }
+
+  /**
+   * LIST DELEGATIONS
+   */
+  async getDelegations(): Promise<IssuerDelegation[]> {
+    // In production:
+    // return contract.getAllDelegations()
+    console.log('📖 Fetching delegations from blockchain');
+    return []; // None known in demo mode
+  }
+
+  /**
+   * LIST ACCREDITORS
+   */
+  async getAccreditors(): Promise<AccreditorRecord[]> {
+    // In production:
+    // return contract.getAccreditors()
+    console.log('📖 Fetching accreditors from blockchain');
+    return []; // None known in demo mode
+  }
+
+  /**
+   * LIST ACCREDITATIONS
+   */
+  async getAccreditations(): Promise<IssuerAccreditation[]> {
+    // In production:
+    // return contract.getAllAccreditations()
+    console.log('📖 Fetching accreditations from blockchain');
+    return []; // None known in demo mode
+  }
+
+  /**
+   * SUBMIT ISSUER METADATA CIRCUIT
+   * Calls registerIssuerMetadata from the university wallet
+   */
+  async submitIssuerMetadata(
+    metadata: IssuerMetadata,
+    publicKey: string,
+    signature: string
+  ): Promise<DiplomaTransaction> {
+    const wallet = midnightWalletManager.getAccount();
+    if (configLoader.isBlockchainEnabled() && !wallet) {
+      throw new Error('Wallet not connected');
+    }
+
+    console.log('📝 Submitting registerIssuerMetadata circuit:', metadata.name);
+
+    // In production:
+    // await contract.callTx.registerIssuerMetadata(metadata, publicKey, signature)
+
+    const tx: DiplomaTransaction = {
+      txHash: `0x${Math.random().toString(16).slice(2)}`,
+      status: 'pending',
+      timestamp: Date.now(),
+      studentId: '',
+      certificateHash: '',
+      universityAddress: wallet?.address || '',
+    };
+
+    this.pollTransactionStatus(tx);
+
+    return tx;
+  }
+
+  /**
+   * SUBMIT ISSUER APPROVAL CIRCUIT
+   * Calls approveIssuerMetadata; owner wallet only
+   */
+  async submitIssuerApproval(university: string, metadataHash: string): Promise<DiplomaTransaction> {
+    const wallet = midnightWalletManager.getAccount();
+    if (configLoader.isBlockchainEnabled() && !wallet) {
+      throw new Error('Wallet not connected');
+    }
+
+    console.log('📝 Submitting approveIssuerMetadata circuit:', university);
+
+    // In production:
+    // await contract.callTx.approveIssuerMetadata(university, metadataHash)
+
+    const tx: DiplomaTransaction = {
+      txHash: `0x${Math.random().toString(16).slice(2)}`,
+      status: 'pending',
+      timestamp: Date.now(),
+      studentId: '',
+      certificateHash: metadataHash,
+      universityAddress: university,
+    };
+
+    this.pollTransactionStatus(tx);
+
+    return tx;
+  }
+
+  /**
+   * GET ISSUER PROFILE FROM BLOCKCHAIN
+   */
+  async getIssuerProfile(university: string): Promise<IssuerProfile | null> {
+    // In production:
+    // return contract.getIssuerProfile(university)
+    console.log('📖 Fetching issuer profile from blockchain:', university);
+    return null; // Not found in demo mode
+  }
+
+  /**
+   * LIST ISSUER PROFILES
+   */
+  async getIssuerProfiles(): Promise<IssuerProfile[]> {
+    // In production:
+    // return contract.getAllIssuerProfiles()
+    console.log('📖 Fetching issuer profiles from blockchain');
+    return []; // None known in demo mode
+  }
+
+  /**
+   * CHECK NULLIFIER
+   */
+  async isNullifierUsed(nullifier: string): Promise<boolean> {
+    // In production:
+    // return contract.isNullifierUsed(nullifier)
+    console.log('🔎 Checking nullifier:', nullifier);
+    return false;
+  }
+
+  /**
+   * GET DIPLOMA SET
+   */
+  async getDiplomaSet(): Promise<DiplomaSetMember[]> {
+    // In production:
+    // return contract.getDiplomaSet()
+    console.log('📖 Fetching diploma set from blockchain');
+    return []; // None known in demo mode
+  }
+
+  /**
+   * SUBMIT ANONYMOUS PRESENTATION CIRCUIT
+   * Calls presentAnonymously from the holder wallet; the witness is only
+   * passed to the local proof server
+   */
+  async submitAnonymousPresentation(
+    presentation: AnonymousPresentation,
+    witness: AnonymousPresentationWitness
+  ): Promise<DiplomaTransaction> {
+    const wallet = midnightWalletManager.getAccount();
+    if (configLoader.isBlockchainEnabled() && !wallet) {
+      throw new Error('Wallet not connected');
+    }
+
+    console.log('📝 Submitting presentAnonymously circuit:', presentation.nonce);
+
+    // In production:
+    // await contract.callTx.presentAnonymously(presentation, witness)
+
+    const tx: DiplomaTransaction = {
+      txHash: `0x${Math.random().toString(16).slice(2)}`,
+      status: 'pending',
+      timestamp: Date.now(),
+      studentId: '',
+      certificateHash: '',
+      universityAddress: '',
+    };
+
+    this.pollTransactionStatus(tx);
+
+    return tx;
+  }
+
+  /**
+   * GET ANONYMOUS PRESENTATION FROM BLOCKCHAIN
+   */
+  async getAnonymousPresentation(nonce: string): Promise<AnonymousPresentationRecord | null> {
+    // In production:
+    // return contract.getAnonymousPresentation(nonce)
+    console.log('📖 Fetching anonymous presentation from blockchain:', nonce);
+    return null; // Not found in demo mode
+  }
+
   /**
    * ESTIMATE GAS for diploma issuance
    */
@@ -321,3 +850,361 @@ class ProductionBlockchainManager {
 // Export singleton
 export const productionBlockchain = new ProductionBlockchainManager();
 export default productionBlockchain;
+
+/**
+ * LedgerBackend adapter over the production Midnight contract
+ * Reads come from contract state; writes are signed by the connected wallet
+ */
+export class ProductionLedgerBackend implements LedgerBackend {
+  readonly kind = 'production' as const;
+  private listeners: Set<() => void> = new Set();
+
+  constructor(private manager: ProductionBlockchainManager = productionBlockchain) {}
+
+  async issue(request: IssueDiplomaRequest, _sender: string): Promise<LedgerReceipt> {
+    const tx = await this.manager.submitIssuance(request);
+    this.notify();
+    return this.toReceipt(tx);
+  }
+
+  async amend(
+    previousHash: string,
+    request: IssueDiplomaRequest,
+    _sender: string
+  ): Promise<LedgerReceipt> {
+    const tx = await this.manager.submitAmendment(previousHash, request);
+    this.notify();
+    return this.toReceipt(tx);
+  }
+
+  async revoke(
+    certificateHash: string,
+    _sender: string,
+    revocation: RevocationRequest
+  ): Promise<LedgerReceipt> {
+    const tx = await this.manager.revokeDiploma(certificateHash, revocation);
+    this.notify();
+    return this.toReceipt(tx);
+  }
+
+  async reinstate(certificateHash: string, _sender: string): Promise<LedgerReceipt> {
+    const tx = await this.manager.reinstateDiploma(certificateHash);
+    this.notify();
+    return this.toReceipt(tx);
+  }
+
+  async getStatusHistory(certificateHash: string): Promise<DiplomaStatusChange[]> {
+    return this.manager.getStatusHistory(certificateHash);
+  }
+
+  async anchorBatch(merkleRoot: string, leafCount: number, _sender: string): Promise<LedgerReceipt> {
+    const tx = await this.manager.submitBatchAnchor(merkleRoot, leafCount);
+    this.notify();
+    return this.toReceipt(tx);
+  }
+
+  async getBatchAnchor(merkleRoot: string): Promise<BatchAnchorRecord | null> {
+    return this.manager.getBatchAnchor(merkleRoot);
+  }
+
+  async getRecord(certificateHash: string): Promise<LedgerDiplomaRecord | null> {
+    const diploma = await this.manager.getDiploma(certificateHash);
+    return diploma ? this.toRecord(diploma) : null;
+  }
+
+  async getStatus(certificateHash: string): Promise<DiplomaStatus | null> {
+    const record = await this.getRecord(certificateHash);
+    return record ? record.status : null;
+  }
+
+  async isAuthorizedIssuer(address: string): Promise<boolean> {
+    return this.manager.isAuthorizedIssuer(address);
+  }
+
+  async getContractOwner(): Promise<string> {
+    return this.manager.getContractOwner();
+  }
+
+  async listAuthorizedIssuers(): Promise<string[]> {
+    return this.manager.getAuthorizedIssuers();
+  }
+
+  async authorizeIssuer(university: string, _sender: string): Promise<LedgerReceipt> {
+    const tx = await this.manager.submitIssuerChange(university, 'add');
+    this.notify();
+    return this.toReceipt(tx);
+  }
+
+  async deauthorizeIssuer(university: string, _sender: string): Promise<LedgerReceipt> {
+    const tx = await this.manager.submitIssuerChange(university, 'remove');
+    this.notify();
+    return this.toReceipt(tx);
+  }
+
+  async appointAccreditor(
+    accreditor: string,
+    name: string,
+    jurisdiction: string,
+    _sender: string
+  ): Promise<LedgerReceipt> {
+    const tx = await this.manager.submitAccreditorChange(accreditor, { name, jurisdiction });
+    this.notify();
+    return this.toReceipt(tx);
+  }
+
+  async removeAccreditor(accreditor: string, _sender: string): Promise<LedgerReceipt> {
+    const tx = await this.manager.submitAccreditorChange(accreditor, null);
+    this.notify();
+    return this.toReceipt(tx);
+  }
+
+  async listAccreditors(): Promise<AccreditorRecord[]> {
+    return this.manager.getAccreditors();
+  }
+
+  async accreditIssuer(university: string, _sender: string): Promise<LedgerReceipt> {
+    const tx = await this.manager.submitAccreditationChange(university, 'accredit');
+    this.notify();
+    return this.toReceipt(tx);
+  }
+
+  async suspendIssuer(university: string, _sender: string): Promise<LedgerReceipt> {
+    const tx = await this.manager.submitAccreditationChange(university, 'suspend');
+    this.notify();
+    return this.toReceipt(tx);
+  }
+
+  async listAccreditations(): Promise<IssuerAccreditation[]> {
+    return this.manager.getAccreditations();
+  }
+
+  async grantDelegation(request: DelegationRequest, _sender: string): Promise<LedgerReceipt> {
+    const { delegateAddress, ...grant } = request;
+    const tx = await this.manager.submitDelegationChange(delegateAddress, grant);
+    this.notify();
+    return this.toReceipt(tx);
+  }
+
+  async revokeDelegation(delegate: string, _sender: string): Promise<LedgerReceipt> {
+    const tx = await this.manager.submitDelegationChange(delegate, null);
+    this.notify();
+    return this.toReceipt(tx);
+  }
+
+  async getDelegation(delegate: string): Promise<IssuerDelegation | null> {
+    const delegations = await this.manager.getDelegations();
+    return delegations.find(d => d.delegateAddress === delegate) ?? null;
+  }
+
+  async listDelegations(): Promise<IssuerDelegation[]> {
+    return this.manager.getDelegations();
+  }
+
+  async getAccreditationChain(university: string): Promise<AccreditationChain> {
+    const [contractOwner, authorized, accreditations, accreditors] = await Promise.all([
+      this.manager.getContractOwner(),
+      this.manager.isAuthorizedIssuer(university),
+      this.manager.getAccreditations(),
+      this.manager.getAccreditors(),
+    ]);
+    return buildAccreditationChain(university, {
+      contractOwner,
+      authorized,
+      accreditation: accreditations.find(a => a.issuerAddress === university) ?? null,
+      accreditors,
+    });
+  }
+
+  async registerIssuerProfile(
+    metadata: IssuerMetadata,
+    publicKey: string,
+    signature: string,
+    _sender: string
+  ): Promise<LedgerReceipt> {
+    const tx = await this.manager.submitIssuerMetadata(metadata, publicKey, signature);
+    this.notify();
+    return this.toReceipt(tx);
+  }
+
+  async approveIssuerProfile(university: string, metadataHash: string, _sender: string): Promise<LedgerReceipt> {
+    const tx = await this.manager.submitIssuerApproval(university, metadataHash);
+    this.notify();
+    return this.toReceipt(tx);
+  }
+
+  async getIssuerProfile(university: string): Promise<IssuerProfile | null> {
+    return this.manager.getIssuerProfile(university);
+  }
+
+  async listIssuerProfiles(): Promise<IssuerProfile[]> {
+    return this.manager.getIssuerProfiles();
+  }
+
+  async isNullifierUsed(nullifier: string): Promise<boolean> {
+    return this.manager.isNullifierUsed(nullifier);
+  }
+
+  async submitVerificationProof(proof: VerificationProof): Promise<VerificationOutcome> {
+    // A reverted transaction does not say which assert failed, so replay
+    // verifyDegree's checks against public state first, in contract order
+    const { certificateHash } = proof;
+    const record = await this.getRecord(certificateHash);
+    if (!record) return verificationFailed('NOT_FOUND', certificateHash);
+    if (!(await this.isAuthorizedIssuer(record.issuerAddress))) {
+      return verificationFailed('ISSUER_NOT_AUTHORIZED', certificateHash);
+    }
+    if (record.status === 'superseded') return verificationFailed('SUPERSEDED', certificateHash);
+    if (record.status !== 'valid') return verificationFailed('REVOKED', certificateHash);
+    const rejected = await this.checkPresentation(proof, {
+      studentDataCommitment: record.studentDataCommitment,
+      holderPublicKey: record.holderPublicKey ?? '',
+      expiresAt: record.expiresAt ?? 0,
+    });
+    if (rejected) return rejected;
+
+    const result = await this.manager.verifyDiploma(certificateHash, proof);
+    if (!result.isValid) {
+      return verificationFailed('MALFORMED_PROOF', certificateHash, ['Rejected by the contract']);
+    }
+    this.notify();
+    return verificationPassed(certificateHash, record.issuerAddress);
+  }
+
+  async submitBatchVerificationProof(
+    proof: VerificationProof,
+    inclusion: BatchInclusionProof
+  ): Promise<VerificationOutcome> {
+    // Same replay of the contract's checks as submitVerificationProof, in
+    // verifyBatchDegree's order
+    const { certificateHash } = proof;
+    const anchor = await this.getBatchAnchor(inclusion.merkleRoot);
+    if (!anchor) return verificationFailed('NOT_IN_BATCH', certificateHash);
+    if (!(await this.isAuthorizedIssuer(anchor.issuerAddress))) {
+      return verificationFailed('ISSUER_NOT_AUTHORIZED', certificateHash);
+    }
+    if (inclusion.leaf.certificateHash !== certificateHash || !verifyBatchInclusion(inclusion)) {
+      return verificationFailed('NOT_IN_BATCH', certificateHash);
+    }
+    const rejected = await this.checkPresentation(proof, inclusion.leaf);
+    if (rejected) return rejected;
+
+    const result = await this.manager.verifyDiploma(certificateHash, { proof, inclusion });
+    if (!result.isValid) {
+      return verificationFailed('MALFORMED_PROOF', certificateHash, ['Rejected by the contract']);
+    }
+    this.notify();
+    return verificationPassed(certificateHash, anchor.issuerAddress);
+  }
+
+  async getDiplomaSet(): Promise<DiplomaSetMember[]> {
+    return this.manager.getDiplomaSet();
+  }
+
+  async presentAnonymously(
+    presentation: AnonymousPresentation,
+    witness: AnonymousPresentationWitness
+  ): Promise<LedgerReceipt> {
+    const tx = await this.manager.submitAnonymousPresentation(presentation, witness);
+    this.notify();
+    return this.toReceipt(tx);
+  }
+
+  async getAnonymousPresentation(nonce: string): Promise<AnonymousPresentationRecord | null> {
+    return this.manager.getAnonymousPresentation(nonce);
+  }
+
+  async list(query: LedgerQuery = {}): Promise<LedgerDiplomaRecord[]> {
+    // The contract indexes diplomas by issuer only
+    if (!query.issuerAddress) {
+      return [];
+    }
+    const diplomas = await this.manager.getDiplomasByIssuer(query.issuerAddress);
+    return filterLedgerRecords(diplomas.map(d => this.toRecord(d)), query);
+  }
+
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * The expiry, commitment, holder and nullifier checks shared by both
+   * verification circuits; null when they all pass
+   */
+  private async checkPresentation(
+    proof: VerificationProof,
+    diploma: { studentDataCommitment: string; holderPublicKey: string; expiresAt: number }
+  ): Promise<VerificationOutcome | null> {
+    const { certificateHash } = proof;
+    if (diploma.expiresAt && Math.floor(Date.now() / 1000) >= diploma.expiresAt) {
+      return verificationFailed('EXPIRED', certificateHash);
+    }
+    if (proof.proofCommitment !== diploma.studentDataCommitment) {
+      return verificationFailed('COMMITMENT_MISMATCH', certificateHash);
+    }
+    if (!diploma.holderPublicKey) {
+      return verificationFailed('HOLDER_KEY_UNBOUND', certificateHash);
+    }
+    if (
+      !verifyHolderSignature(
+        holderKeyFor(diploma.holderPublicKey, 'signing'),
+        holderPresentationMessage(proof),
+        proof.holderSignature
+      )
+    ) {
+      return verificationFailed('HOLDER_SIGNATURE_INVALID', certificateHash);
+    }
+    if (proof.epoch !== nullifierEpoch()) {
+      return verificationFailed('NULLIFIER_EPOCH_STALE', certificateHash);
+    }
+    if (
+      !verifierNullifierValid(
+        holderKeyFor(diploma.holderPublicKey, 'nullifier'),
+        { certificateHash, verifierId: proof.verifierId, epoch: proof.epoch },
+        proof.nullifier,
+        proof.nullifierProof
+      )
+    ) {
+      return verificationFailed('NULLIFIER_INVALID', certificateHash);
+    }
+    if (await this.isNullifierUsed(proof.nullifier)) {
+      return verificationFailed('NULLIFIER_REUSED', certificateHash);
+    }
+    return null;
+  }
+
+  private toRecord(diploma: BlockchainDiploma): LedgerDiplomaRecord {
+    return {
+      certificateHash: diploma.certificateHash,
+      issuerAddress: diploma.issuerAddress,
+      issuanceTimestamp: diploma.issuanceTimestamp,
+      status:
+        diploma.status === 'active' ? 'valid' : diploma.status === 'superseded' ? 'superseded' : 'revoked',
+      studentDataCommitment: diploma.studentDataCommitment,
+      degreeTypeHash: diploma.degreeTypeHash,
+      departmentHash: diploma.departmentHash,
+      // The contract does not store the algorithm; on-chain diplomas are SHA-256 only
+      hashAlgorithm: CURRENT_HASH_ALGORITHM,
+      transactionHash: '',
+      blockHeight: diploma.issuanceBlock,
+      holderPublicKey: diploma.holderPublicKey || undefined,
+      expiresAt: diploma.expiresAt || undefined,
+      supersedes: diploma.supersedes || undefined,
+      supersededBy: diploma.supersededBy || undefined,
+      issuedBy: diploma.issuedBy || undefined,
+      studentId: diploma.studentId,
+    };
+  }
+
+  private toReceipt(tx: DiplomaTransaction): LedgerReceipt {
+    return {
+      transactionHash: tx.txHash,
+      blockHeight: tx.blockNumber || 0,
+      timestamp: tx.timestamp,
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { randomHex } from './crypto'
+import {
+  LEGACY_PROOF_ERROR,
+  PROOF_ENVELOPE_TYPE,
+  PROOF_ENVELOPE_VERSION,
+  validateProofEnvelope,
+} from './proofEnvelope'
+
+function envelopeFields() {
+  return {
+    version: PROOF_ENVELOPE_VERSION,
+    type: PROOF_ENVELOPE_TYPE,
+    issuer: 'addr_university',
+    certificateHash: '0x' + randomHex(32),
+    commitment: '0x' + randomHex(32),
+    nullifier: '0x' + randomHex(32),
+    nonce: '0x' + randomHex(32),
+    holderSignature: randomHex(64),
+    verifierId: 'verifier-1',
+    epoch: 20_254,
+    nullifierProof: randomHex(129),
+  }
+}
+
+describe('validateProofEnvelope', () => {
+  it('accepts a complete envelope', () => {
+    const fields = envelopeFields()
+    expect(validateProofEnvelope(fields)).toEqual({ valid: true, envelope: fields })
+  })
+
+  it('rejects pre-envelope proof files as legacy', () => {
+    // StudentDashboard's old share payload
+    const legacy = {
+      certificateHash: '0x' + randomHex(32),
+      proofCommitment: '0x' + randomHex(32),
+      nullifier: '0x' + randomHex(32),
+      issuerAddress: 'addr_university',
+      timestamp: Date.now(),
+    }
+    expect(validateProofEnvelope(legacy)).toEqual({ valid: false, errors: [LEGACY_PROOF_ERROR] })
+  })
+
+  it('reports every missing field of an envelope', () => {
+    const { holderSignature, nullifierProof, ...partial } = envelopeFields()
+    const validation = validateProofEnvelope(partial)
+    expect(validation.valid).toBe(false)
+    expect(!validation.valid && validation.errors).toEqual([
+      'Missing required field "holderSignature"',
+      'Missing required field "nullifierProof"',
+    ])
+  })
+})
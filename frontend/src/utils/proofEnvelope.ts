@@ -0,0 +1,567 @@
+/**
+ * Proof Envelope
+ * The one file format for diploma proofs shared with verifiers.
+ *
+ * Every producer (StudentDashboard, ZKProofGenerator, the SDK client in
+ * index.ts) emits a ProofEnvelope and every consumer runs it through
+ * validateProofEnvelope first. Files written before the envelope existed
+ * are recognized and rejected as legacy (they carry no holder signature);
+ * any other problem is reported field by field.
+ *
+ * An anonymous presentation is proven on the ledger by the candidate, so what
+ * they hand over is only a receipt pointing at it (AnonymousPresentationReceipt).
+ */
+
+import { diplomaSetTree, scopedNullifier } from './anonymousPresentation'
+import { holderKeys } from './holderKeys'
+import { holderPresentationMessage } from './holderSignature'
+import type {
+  AnonymousPresentation,
+  AnonymousPresentationWitness,
+  BatchInclusionProof,
+  DiplomaSetMember,
+  LedgerReceipt,
+  VerificationProof,
+} from './ledgerBackend'
+import {
+  discloseCoursesFromOpening,
+  discloseFromOpening,
+  proveCoursesFromOpening,
+  proveFromOpening,
+  type CommitmentOpening,
+} from './openingPackage'
+import { predicateShapeError, type PredicateProof } from './predicateProofs'
+import {
+  DISCLOSABLE_ATTRIBUTES,
+  requestedAttributes,
+  type AttributeDisclosure,
+} from './selectiveDisclosure'
+import {
+  coursePredicateShapeError,
+  courseShapeError,
+  type CourseDisclosure,
+  type CourseProof,
+} from './transcriptProofs'
+import { requestNonce, type VerificationRequest } from './verificationSession'
+import { deriveVerifierNullifier, nullifierEpoch } from './verifierNullifier'
+
+export const PROOF_ENVELOPE_TYPE = 'privatediploma/proof'
+export const PROOF_ENVELOPE_VERSION = 1
+export const ANONYMOUS_RECEIPT_TYPE = 'privatediploma/anonymous-presentation'
+
+/** Why a pre-envelope proof file is rejected */
+export const LEGACY_PROOF_ERROR =
+  'This proof file predates holder signatures and cannot be verified; ask the candidate to answer your request with a new proof'
+
+export interface ProofEnvelope {
+  version: typeof PROOF_ENVELOPE_VERSION
+  type: typeof PROOF_ENVELOPE_TYPE
+  /** Address of the issuing university, as recorded on the ledger */
+  issuer: string
+  certificateHash: string
+  /** Opens to the ledger's studentDataCommitment (contract: proofCommitment) */
+  commitment: string
+  /** Scoped to `verifierId` and `epoch`; see verifierNullifier */
+  nullifier: string
+  /** requestNonce of the verification request this proof answers */
+  nonce: string
+  holderSignature: string
+  verifierId: string
+  epoch: number
+  nullifierProof: string
+  /** For a batch-issued diploma: its leaf and path to the anchored root */
+  batch?: BatchInclusionProof
+  /** Attributes the request asked for, each with its path to `commitment` */
+  disclosures?: AttributeDisclosure[]
+  /** Proofs of the request's predicates, each against `commitment` */
+  predicateProofs?: PredicateProof[]
+  /** Transcript courses the request asked for, each with its paths to `commitment` */
+  courseDisclosures?: CourseDisclosure[]
+  /** Proofs of the request's course predicates, each against `commitment` */
+  courseProofs?: CourseProof[]
+  requestId?: string
+  createdAt?: string
+}
+
+/**
+ * What a candidate hands over after presenting anonymously
+ * Names no certificate or issuer; the verifier reads the presentation the
+ * ledger recorded under `nonce`.
+ */
+export interface AnonymousPresentationReceipt {
+  version: 1
+  type: typeof ANONYMOUS_RECEIPT_TYPE
+  requestId: string
+  nonce: string
+  transactionHash: string
+  createdAt: string
+}
+
+export type ProofEnvelopeValidation =
+  | { valid: true; envelope: ProofEnvelope }
+  | { valid: false; errors: string[] }
+
+const HEX = /^(0x)?[0-9a-fA-F]+$/
+const SIGNATURE_HEX = /^[0-9a-fA-F]{128}$/
+const NULLIFIER_PROOF_HEX = /^[0-9a-fA-F]{258}$/
+
+/**
+ * Build and sign an envelope for one credential and verification request
+ */
+export async function createProofEnvelope(params: {
+  opening: CommitmentOpening
+  holderAddress: string
+  request: VerificationRequest
+}): Promise<ProofEnvelope> {
+  const { opening, holderAddress, request } = params
+  // Fails before signing if the opening cannot reveal what was asked for
+  const disclosures = await discloseFromOpening(opening, requestedAttributes(request.requestedClaims))
+  const predicateProofs = await proveFromOpening(opening, request.predicates ?? [])
+  const courseDisclosures = await discloseCoursesFromOpening(opening, request.courses ?? [])
+  const courseProofs = await proveCoursesFromOpening(opening, request.coursePredicates ?? [])
+  const scope = {
+    certificateHash: opening.certificateHash,
+    verifierId: request.verifierId,
+    epoch: nullifierEpoch(),
+  }
+  const { nullifier, nullifierProof } = deriveVerifierNullifier(
+    await holderKeys.getNullifierSecretKey(holderAddress),
+    scope
+  )
+  const proof = {
+    certificateHash: opening.certificateHash,
+    proofCommitment: opening.studentDataCommitment,
+    nullifier,
+    nonce: await requestNonce(request),
+  }
+  const holderSignature = await holderKeys.sign(holderAddress, holderPresentationMessage(proof))
+
+  return envelopeFromVerificationProof(
+    { ...proof, holderSignature, verifierId: scope.verifierId, epoch: scope.epoch, nullifierProof },
+    opening.issuerAddress,
+    {
+      requestId: request.requestId,
+      batch: opening.batch,
+      disclosures,
+      predicateProofs,
+      courseDisclosures,
+      courseProofs,
+    }
+  )
+}
+
+/**
+ * Public inputs and private witness of an anonymous presentation of one
+ * credential for one verification request
+ * `diplomaSet` is the ledger's current set (LedgerBackend.getDiplomaSet); the
+ * membership path is built against its root.
+ */
+export async function createAnonymousPresentation(params: {
+  opening: CommitmentOpening
+  holderAddress: string
+  request: VerificationRequest
+  diplomaSet: DiplomaSetMember[]
+}): Promise<{ presentation: AnonymousPresentation; witness: AnonymousPresentationWitness }> {
+  const { opening, holderAddress, request, diplomaSet } = params
+  const disclosures = await discloseFromOpening(opening, requestedAttributes(request.requestedClaims))
+  const predicateProofs = await proveFromOpening(opening, request.predicates ?? [])
+  const courseDisclosures = await discloseCoursesFromOpening(opening, request.courses ?? [])
+  const courseProofs = await proveCoursesFromOpening(opening, request.coursePredicates ?? [])
+
+  const tree = diplomaSetTree(diplomaSet)
+  const idx = tree.members.findIndex(m => m.certificateHash === opening.certificateHash)
+  if (idx < 0) {
+    throw new Error(
+      'This diploma cannot be presented anonymously: it is not valid, its issuer is not authorized, it was issued in a batch or it is not bound to your holder key'
+    )
+  }
+  const holderSecretKey = await holderKeys.getNullifierSecretKey(holderAddress)
+
+  return {
+    presentation: {
+      diplomaSetRoot: tree.root,
+      verifierId: request.verifierId,
+      nonce: await requestNonce(request),
+      scopedNullifier: scopedNullifier(holderSecretKey, request.verifierId),
+      disclosures: disclosures.map(({ name, value }) => ({ name, value })),
+      predicates: predicateProofs.map(p => p.predicate),
+      courses: courseDisclosures.map(d => d.course),
+      coursePredicates: courseProofs.map(p => p.predicate),
+    },
+    witness: {
+      member: tree.members[idx],
+      path: tree.paths[idx],
+      holderSecretKey,
+      disclosures,
+      predicateProofs,
+      courseDisclosures,
+      courseProofs,
+    },
+  }
+}
+
+export function anonymousPresentationReceipt(
+  request: VerificationRequest,
+  nonce: string,
+  receipt: LedgerReceipt
+): AnonymousPresentationReceipt {
+  return {
+    version: 1,
+    type: ANONYMOUS_RECEIPT_TYPE,
+    requestId: request.requestId,
+    nonce,
+    transactionHash: receipt.transactionHash,
+    createdAt: new Date(receipt.timestamp).toISOString(),
+  }
+}
+
+/**
+ * Is a parsed proof file an anonymous presentation receipt?
+ */
+export function isAnonymousPresentationReceipt(value: unknown): value is AnonymousPresentationReceipt {
+  const raw = value as Record<string, unknown> | null
+  return (
+    !!raw &&
+    typeof raw === 'object' &&
+    raw.type === ANONYMOUS_RECEIPT_TYPE &&
+    raw.version === 1 &&
+    typeof raw.nonce === 'string' &&
+    HEX.test(raw.nonce) &&
+    typeof raw.requestId === 'string'
+  )
+}
+
+/**
+ * Wrap the contract's VerificationProof struct in an envelope
+ */
+export function envelopeFromVerificationProof(
+  proof: VerificationProof,
+  issuer: string,
+  extra: {
+    requestId?: string
+    batch?: BatchInclusionProof
+    disclosures?: AttributeDisclosure[]
+    predicateProofs?: PredicateProof[]
+    courseDisclosures?: CourseDisclosure[]
+    courseProofs?: CourseProof[]
+  } = {}
+): ProofEnvelope {
+  return {
+    version: PROOF_ENVELOPE_VERSION,
+    type: PROOF_ENVELOPE_TYPE,
+    issuer,
+    certificateHash: proof.certificateHash,
+    commitment: proof.proofCommitment,
+    nullifier: proof.nullifier,
+    nonce: proof.nonce,
+    holderSignature: proof.holderSignature,
+    verifierId: proof.verifierId,
+    epoch: proof.epoch,
+    nullifierProof: proof.nullifierProof,
+    ...(extra.batch ? { batch: extra.batch } : {}),
+    ...(extra.disclosures?.length ? { disclosures: extra.disclosures } : {}),
+    ...(extra.predicateProofs?.length ? { predicateProofs: extra.predicateProofs } : {}),
+    ...(extra.courseDisclosures?.length ? { courseDisclosures: extra.courseDisclosures } : {}),
+    ...(extra.courseProofs?.length ? { courseProofs: extra.courseProofs } : {}),
+    ...(extra.requestId ? { requestId: extra.requestId } : {}),
+    createdAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * The contract's VerificationProof carried by an envelope
+ */
+export function toVerificationProof(envelope: ProofEnvelope): VerificationProof {
+  return {
+    certificateHash: envelope.certificateHash,
+    proofCommitment: envelope.commitment,
+    nullifier: envelope.nullifier,
+    nonce: envelope.nonce,
+    holderSignature: envelope.holderSignature,
+    verifierId: envelope.verifierId,
+    epoch: envelope.epoch,
+    nullifierProof: envelope.nullifierProof,
+  }
+}
+
+export function serializeProofEnvelope(envelope: ProofEnvelope | AnonymousPresentationReceipt): string {
+  return JSON.stringify(envelope, null, 2)
+}
+
+/**
+ * Whether a parsed proof file predates the envelope
+ * Shapes: StudentDashboard's share payload, ZKProofGenerator's download and
+ * the bare contract VerificationProof. None carries the holder signature and
+ * verifier-scoped nullifier the contract now requires, so they cannot be
+ * verified, only recognized.
+ */
+export function isLegacyProof(value: Record<string, unknown>): boolean {
+  return value.version === undefined && value.type === undefined
+}
+
+/**
+ * Validate a parsed proof file
+ * Collects every problem instead of stopping at the first.
+ */
+export function validateProofEnvelope(value: unknown): ProofEnvelopeValidation {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { valid: false, errors: ['Proof must be a JSON object'] }
+  }
+
+  const candidate = value as Record<string, any>
+  if (isLegacyProof(candidate)) {
+    return { valid: false, errors: [LEGACY_PROOF_ERROR] }
+  }
+  const errors: string[] = []
+
+  if (candidate.version !== PROOF_ENVELOPE_VERSION) {
+    errors.push(`Unsupported proof version ${JSON.stringify(candidate.version)} (expected ${PROOF_ENVELOPE_VERSION})`)
+  }
+  if (candidate.type !== PROOF_ENVELOPE_TYPE) {
+    errors.push(`"type" must be "${PROOF_ENVELOPE_TYPE}"`)
+  }
+
+  const requireString = (field: string, pattern?: RegExp, format?: string) => {
+    const fieldValue = candidate[field]
+    if (fieldValue === undefined || fieldValue === null || fieldValue === '') {
+      errors.push(`Missing required field "${field}"`)
+    } else if (typeof fieldValue !== 'string') {
+      errors.push(`"${field}" must be a string`)
+    } else if (pattern && !pattern.test(fieldValue)) {
+      errors.push(`"${field}" must be ${format}`)
+    }
+  }
+
+  requireString('issuer')
+  requireString('certificateHash', HEX, 'a hex string')
+  requireString('commitment', HEX, 'a hex string')
+  requireString('nullifier', HEX, 'a hex string')
+  requireString('nonce', HEX, 'a hex string')
+  requireString('holderSignature', SIGNATURE_HEX, 'a 64-byte ECDSA P-256 signature in hex (r || s)')
+  requireString('verifierId')
+  requireString('nullifierProof', NULLIFIER_PROOF_HEX, 'a 129-byte holder-keyed hash proof in hex')
+  if (candidate.epoch === undefined || candidate.epoch === null) {
+    errors.push('Missing required field "epoch"')
+  } else if (!Number.isSafeInteger(candidate.epoch) || candidate.epoch < 0) {
+    errors.push('"epoch" must be a non-negative integer')
+  }
+
+  if (candidate.batch !== undefined) {
+    errors.push(...batchInclusionErrors(candidate.batch))
+  }
+  if (candidate.disclosures !== undefined) {
+    errors.push(...disclosureShapeErrors(candidate.disclosures))
+  }
+  if (candidate.predicateProofs !== undefined) {
+    errors.push(...predicateProofShapeErrors(candidate.predicateProofs))
+  }
+  if (candidate.courseDisclosures !== undefined) {
+    errors.push(...courseDisclosureShapeErrors(candidate.courseDisclosures))
+  }
+  if (candidate.courseProofs !== undefined) {
+    errors.push(...courseProofShapeErrors(candidate.courseProofs))
+  }
+  if (candidate.requestId !== undefined && typeof candidate.requestId !== 'string') {
+    errors.push('"requestId" must be a string')
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors }
+  }
+
+  const envelope: ProofEnvelope = {
+    version: PROOF_ENVELOPE_VERSION,
+    type: PROOF_ENVELOPE_TYPE,
+    issuer: candidate.issuer,
+    certificateHash: candidate.certificateHash,
+    commitment: candidate.commitment,
+    nullifier: candidate.nullifier,
+    nonce: candidate.nonce,
+    holderSignature: candidate.holderSignature,
+    verifierId: candidate.verifierId,
+    epoch: candidate.epoch,
+    nullifierProof: candidate.nullifierProof,
+    ...(candidate.batch ? { batch: candidate.batch } : {}),
+    ...(candidate.disclosures?.length ? { disclosures: candidate.disclosures } : {}),
+    ...(candidate.predicateProofs?.length ? { predicateProofs: candidate.predicateProofs } : {}),
+    ...(candidate.courseDisclosures?.length ? { courseDisclosures: candidate.courseDisclosures } : {}),
+    ...(candidate.courseProofs?.length ? { courseProofs: candidate.courseProofs } : {}),
+    ...(candidate.requestId ? { requestId: candidate.requestId } : {}),
+    ...(typeof candidate.createdAt === 'string' ? { createdAt: candidate.createdAt } : {}),
+  }
+  return { valid: true, envelope }
+}
+
+/**
+ * Shape errors of an envelope's `batch` field
+ * Whether the path actually reaches an anchored root is the ledger's call.
+ */
+function batchInclusionErrors(batch: any): string[] {
+  if (!batch || typeof batch !== 'object' || Array.isArray(batch)) {
+    return ['"batch" must be an object']
+  }
+  const errors: string[] = []
+  if (typeof batch.merkleRoot !== 'string' || !HEX.test(batch.merkleRoot)) {
+    errors.push('"batch.merkleRoot" must be a hex string')
+  }
+  const leaf = batch.leaf
+  if (!leaf || typeof leaf !== 'object') {
+    errors.push('"batch.leaf" must be an object')
+  } else {
+    for (const field of ['certificateHash', 'studentDataCommitment', 'degreeTypeHash', 'departmentHash', 'holderPublicKey']) {
+      if (typeof leaf[field] !== 'string') errors.push(`"batch.leaf.${field}" must be a string`)
+    }
+    for (const field of ['issuanceTimestamp', 'expiresAt']) {
+      if (!Number.isInteger(leaf[field])) errors.push(`"batch.leaf.${field}" must be an integer`)
+    }
+  }
+  if (!isMerklePath(batch.path)) {
+    errors.push('"batch.path" must be a list of { sibling, siblingOnLeft } steps')
+  }
+  return errors
+}
+
+/**
+ * Shape errors of an envelope's `disclosures` field
+ * Whether each one opens the commitment is checked by the verifier.
+ */
+function disclosureShapeErrors(disclosures: any): string[] {
+  if (!Array.isArray(disclosures)) {
+    return ['"disclosures" must be a list']
+  }
+  const errors: string[] = []
+  disclosures.forEach((disclosure: any, idx: number) => {
+    const at = `"disclosures[${idx}]`
+    if (!disclosure || typeof disclosure !== 'object') {
+      errors.push(`${at}" must be an object`)
+      return
+    }
+    if (!DISCLOSABLE_ATTRIBUTES.includes(disclosure.name)) {
+      errors.push(`${at}.name" must be one of ${DISCLOSABLE_ATTRIBUTES.join(', ')}`)
+    }
+    if (!(disclosure.value === null || ['string', 'number'].includes(typeof disclosure.value))) {
+      errors.push(`${at}.value" must be a string, number or null`)
+    }
+    if (typeof disclosure.salt !== 'string' || !HEX.test(disclosure.salt)) {
+      errors.push(`${at}.salt" must be a hex string`)
+    }
+    if (!isMerklePath(disclosure.path)) {
+      errors.push(`${at}.path" must be a list of { sibling, siblingOnLeft } steps`)
+    }
+  })
+  return errors
+}
+
+/**
+ * Shape errors of an envelope's `predicateProofs` field
+ */
+function predicateProofShapeErrors(proofs: any): string[] {
+  if (!Array.isArray(proofs)) {
+    return ['"predicateProofs" must be a list']
+  }
+  const errors: string[] = []
+  proofs.forEach((proof: any, idx: number) => {
+    const at = `"predicateProofs[${idx}]`
+    if (!proof || typeof proof !== 'object') {
+      errors.push(`${at}" must be an object`)
+      return
+    }
+    const problem = predicateShapeError(proof.predicate)
+    if (problem) {
+      errors.push(`${at}.predicate" ${problem}`)
+    }
+    if (typeof proof.witness !== 'string' || !HEX.test(proof.witness)) {
+      errors.push(`${at}.witness" must be a hex string`)
+    }
+    if (!isMerklePath(proof.path)) {
+      errors.push(`${at}.path" must be a list of { sibling, siblingOnLeft } steps`)
+    }
+  })
+  return errors
+}
+
+/**
+ * Shape errors of an envelope's `courseDisclosures` field
+ */
+function courseDisclosureShapeErrors(disclosures: any): string[] {
+  if (!Array.isArray(disclosures)) {
+    return ['"courseDisclosures" must be a list']
+  }
+  const errors: string[] = []
+  disclosures.forEach((disclosure: any, idx: number) => {
+    const at = `"courseDisclosures[${idx}]`
+    if (!disclosure || typeof disclosure !== 'object') {
+      errors.push(`${at}" must be an object`)
+      return
+    }
+    const problem = courseShapeError(disclosure.course)
+    if (problem) {
+      errors.push(`${at}.course" ${problem}`)
+    }
+    if (typeof disclosure.salt !== 'string' || !HEX.test(disclosure.salt)) {
+      errors.push(`${at}.salt" must be a hex string`)
+    }
+    errors.push(...transcriptPathErrors(disclosure, at))
+  })
+  return errors
+}
+
+/**
+ * Shape errors of an envelope's `courseProofs` field
+ */
+function courseProofShapeErrors(proofs: any): string[] {
+  if (!Array.isArray(proofs)) {
+    return ['"courseProofs" must be a list']
+  }
+  const errors: string[] = []
+  proofs.forEach((proof: any, idx: number) => {
+    const at = `"courseProofs[${idx}]`
+    if (!proof || typeof proof !== 'object') {
+      errors.push(`${at}" must be an object`)
+      return
+    }
+    const problem = coursePredicateShapeError(proof.predicate)
+    if (problem) {
+      errors.push(`${at}.predicate" ${problem}`)
+    }
+    if (typeof proof.witness !== 'string' || !HEX.test(proof.witness)) {
+      errors.push(`${at}.witness" must be a hex string`)
+    }
+    errors.push(...transcriptPathErrors(proof, at))
+  })
+  return errors
+}
+
+function transcriptPathErrors(item: any, at: string): string[] {
+  return (['path', 'anchorPath'] as const)
+    .filter(field => !isMerklePath(item[field]))
+    .map(field => `${at}.${field}" must be a list of { sibling, siblingOnLeft } steps`)
+}
+
+function isMerklePath(path: any): boolean {
+  return (
+    Array.isArray(path) &&
+    path.every(
+      (step: any) =>
+        step && typeof step.sibling === 'string' && HEX.test(step.sibling) && typeof step.siblingOnLeft === 'boolean'
+    )
+  )
+}
+
+/**
+ * Parse a proof file; throws with every validation error in the message
+ */
+export function parseProofEnvelope(text: string): ProofEnvelope {
+  let value: unknown
+  try {
+    value = JSON.parse(text)
+  } catch {
+    throw new Error('Proof file is not valid JSON')
+  }
+
+  const result = validateProofEnvelope(value)
+  if (!result.valid) {
+    throw new Error(`Invalid proof: ${result.errors.join('; ')}`)
+  }
+  return result.envelope
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import { randomHex } from './crypto'
+import { HOLDER_KEY_PURPOSES, deriveHolderSecretKey, holderPublicKeyOf } from './holderSignature'
+import {
+  applyColumnMapping,
+  parseRoster,
+  suggestColumnMapping,
+  validateRoster,
+  type RosterImportJob,
+  type RosterRow,
+} from './rosterImport'
+
+function holderKey(): string {
+  const master = randomHex(32)
+  return HOLDER_KEY_PURPOSES.map(purpose => holderPublicKeyOf(deriveHolderSecretKey(master, purpose))).join('')
+}
+
+function rosterRows(students: [studentId: string, degreeType: string][]): RosterRow[] {
+  const csv = [
+    'Student ID,Name,Degree,Department,Public Key',
+    ...students.map(([id, degree]) => `${id},Student ${id},${degree},Computing,${holderKey()}`),
+  ].join('\n')
+  const table = parseRoster(csv)
+  return applyColumnMapping(table, suggestColumnMapping(table.headers))
+}
+
+describe('validateRoster duplicates', () => {
+  it('flags a repeated student and degree, ignoring case and spacing', async () => {
+    const rows = rosterRows([
+      ['S001', 'BSc Computer Science'],
+      ['S002', 'BSc Computer Science'],
+      ['s001', 'bsc computer science '],
+    ])
+    const checks = await validateRoster(rows, [])
+    expect(checks.map(c => c.status)).toEqual(['ready', 'ready', 'duplicate'])
+    expect(checks[2].errors).toEqual(['Same student and degree as row 1'])
+  })
+
+  it('allows the same student with another degree', async () => {
+    const rows = rosterRows([
+      ['S001', 'BSc Computer Science'],
+      ['S001', 'MSc Data Science'],
+    ])
+    const checks = await validateRoster(rows, [])
+    expect(checks.map(c => c.status)).toEqual(['ready', 'ready'])
+  })
+
+  it('flags rows that match a valid diploma on the ledger, but not a revoked one', async () => {
+    const rows = rosterRows([
+      ['S001', 'BSc Computer Science'],
+      ['S002', 'BSc Computer Science'],
+    ])
+    const checks = await validateRoster(rows, [
+      { studentId: 'S001', degreeType: 'BSc Computer Science', status: 'valid' },
+      { studentId: 'S002', degreeType: 'BSc Computer Science', status: 'revoked' },
+    ])
+    expect(checks.map(c => c.status)).toEqual(['duplicate', 'ready'])
+    expect(checks[0].errors).toEqual(['A valid diploma for this student and degree is already on the ledger'])
+  })
+
+  it('reports rows an earlier run issued as issued, and later copies as duplicates', async () => {
+    const rows = rosterRows([
+      ['S001', 'BSc Computer Science'],
+      ['S001', 'BSc Computer Science'],
+    ])
+    const job: RosterImportJob = {
+      jobId: 'job-1',
+      issuerAddress: 'addr_university',
+      fileName: 'roster.csv',
+      totalRows: 2,
+      createdAt: 0,
+      updatedAt: 0,
+      results: [{ rowNumber: 1, studentId: 'S001', status: 'issued', at: 0 }],
+    }
+    // The ledger record row 1 created must not make row 1 its own duplicate
+    const checks = await validateRoster(
+      rows,
+      [{ studentId: 'S001', degreeType: 'BSc Computer Science', status: 'valid' }],
+      job
+    )
+    expect(checks.map(c => c.status)).toEqual(['issued', 'duplicate'])
+    expect(checks[1].errors).toEqual(['Same student and degree as row 1'])
+  })
+})
@@ -0,0 +1,577 @@
+/**
+ * Graduation Roster Import
+ * Issue a whole graduating class from one CSV or JSON roster.
+ *
+ * A roster is parsed into a raw table, its columns are mapped onto diploma
+ * fields, and every row is validated (required fields, holder key, expiry,
+ * duplicates within the roster and against the issuer's ledger) before
+ * anything is submitted. Submission runs in batches through the caller's
+ * issuance function and records a result per row in a job keyed by the
+ * roster's content hash, so re-opening the same file after an interruption
+ * resumes where it stopped. Jobs store results only, never student data.
+ */
+
+import { sha256 } from './crypto'
+import { importHolderPublicKey } from './holderKeys'
+
+const JOB_STORAGE_KEY = '__privatediploma_roster_jobs'
+
+export const DEFAULT_BATCH_SIZE = 25
+
+/** Diploma fields a roster column can map onto */
+export type RosterField =
+  | 'studentId'
+  | 'studentName'
+  | 'degreeType'
+  | 'department'
+  | 'studentPublicKey'
+  | 'grade'
+  | 'expiryDate'
+  | 'mark'
+  | 'ignore'
+
+export const ROSTER_FIELD_LABELS: Record<RosterField, string> = {
+  studentId: 'Student ID',
+  studentName: 'Student name',
+  degreeType: 'Degree type',
+  department: 'Department',
+  studentPublicKey: 'Student public key',
+  grade: 'Grade',
+  expiryDate: 'Expiry date',
+  mark: 'Mark (committed under the column name)',
+  ignore: 'Ignore',
+}
+
+export const REQUIRED_ROSTER_FIELDS: RosterField[] = [
+  'studentId',
+  'studentName',
+  'degreeType',
+  'department',
+  'studentPublicKey',
+]
+
+/** Normalized header names recognised for each field */
+const FIELD_ALIASES: Partial<Record<RosterField, string[]>> = {
+  studentId: ['studentid', 'id', 'studentnumber', 'matriculationnumber', 'matricno'],
+  studentName: ['studentname', 'name', 'fullname'],
+  degreeType: ['degreetype', 'degree', 'program', 'programme'],
+  department: ['department', 'dept', 'faculty'],
+  studentPublicKey: ['studentpublickey', 'publickey', 'holderkey', 'holderpublickey'],
+  grade: ['grade', 'classification', 'honours'],
+  expiryDate: ['expirydate', 'expires', 'expiresat', 'validuntil'],
+}
+
+/** Column header -> field */
+export type ColumnMapping = Record<string, RosterField>
+
+export interface RosterTable {
+  headers: string[]
+  rows: string[][]
+}
+
+/** One student as read from the roster through a column mapping */
+export interface RosterRow {
+  /** 1-based position among the roster's data rows */
+  rowNumber: number
+  studentId: string
+  studentName: string
+  degreeType: string
+  department: string
+  studentPublicKey: string
+  grade: string
+  /** YYYY-MM-DD, or null for a diploma that never expires */
+  expiryDate: string | null
+  marks: Record<string, string>
+}
+
+export type RosterRowStatus = 'ready' | 'invalid' | 'duplicate' | 'issued'
+
+export interface RosterRowCheck {
+  row: RosterRow
+  status: RosterRowStatus
+  errors: string[]
+}
+
+/** An existing diploma a roster row may duplicate */
+export interface IssuedDiplomaKey {
+  studentId?: string
+  degreeType?: string
+  status: string
+}
+
+export interface RosterRowResult {
+  rowNumber: number
+  studentId: string
+  status: 'issued' | 'failed' | 'skipped'
+  certificateHash?: string
+  transactionHash?: string
+  error?: string
+  at: number
+}
+
+/**
+ * Progress of one roster, identified by its content hash
+ */
+export interface RosterImportJob {
+  jobId: string
+  issuerAddress: string
+  fileName: string
+  totalRows: number
+  createdAt: number
+  updatedAt: number
+  results: RosterRowResult[]
+}
+
+/**
+ * Parse a CSV (RFC 4180) or JSON roster
+ * JSON rosters are an array of flat objects; their keys become the headers.
+ * Throws with a message describing the problem.
+ */
+export function parseRoster(text: string): RosterTable {
+  const trimmed = text.replace(/^﻿/, '').trim()
+  if (trimmed.length === 0) {
+    throw new Error('Roster is empty')
+  }
+  return trimmed.startsWith('[') ? parseJsonRoster(trimmed) : parseCsvRoster(trimmed)
+}
+
+function parseJsonRoster(text: string): RosterTable {
+  let value: unknown
+  try {
+    value = JSON.parse(text)
+  } catch {
+    throw new Error('Roster is not valid JSON')
+  }
+  if (!Array.isArray(value) || value.some(entry => !entry || typeof entry !== 'object' || Array.isArray(entry))) {
+    throw new Error('A JSON roster must be an array of objects')
+  }
+
+  const headers: string[] = []
+  for (const entry of value as Record<string, unknown>[]) {
+    Object.keys(entry).forEach(key => {
+      if (!headers.includes(key)) headers.push(key)
+    })
+  }
+  const rows = (value as Record<string, unknown>[]).map(entry =>
+    headers.map(header => (entry[header] === undefined || entry[header] === null ? '' : String(entry[header])))
+  )
+  return { headers, rows }
+}
+
+function parseCsvRoster(text: string): RosterTable {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field.length === 0) {
+      quoted = true
+    } else if (char === ',') {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (quoted) {
+    throw new Error('Roster has an unterminated quoted field')
+  }
+  record.push(field)
+  records.push(record)
+
+  const [headers, ...rows] = records.filter(r => r.some(cell => cell.trim().length > 0))
+  if (!headers) {
+    throw new Error('Roster has no header row')
+  }
+  return {
+    headers: headers.map(h => h.trim()),
+    rows: rows.map(r => headers.map((_, idx) => (r[idx] ?? '').trim())),
+  }
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+/**
+ * Guess a mapping from header names; unrecognised columns are ignored
+ */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const taken = new Set<RosterField>()
+  return Object.fromEntries(
+    headers.map(header => {
+      const normalized = normalizeHeader(header)
+      const field = (Object.keys(FIELD_ALIASES) as RosterField[]).find(
+        f => !taken.has(f) && FIELD_ALIASES[f]!.includes(normalized)
+      )
+      if (field) taken.add(field)
+      return [header, field ?? 'ignore']
+    })
+  )
+}
+
+/**
+ * Mapping problems that block the import: missing or repeated fields
+ */
+export function checkColumnMapping(mapping: ColumnMapping): string[] {
+  const errors: string[] = []
+  const fields = Object.values(mapping)
+  for (const field of REQUIRED_ROSTER_FIELDS) {
+    if (!fields.includes(field)) {
+      errors.push(`No column is mapped to ${ROSTER_FIELD_LABELS[field]}`)
+    }
+  }
+  for (const field of Object.keys(ROSTER_FIELD_LABELS) as RosterField[]) {
+    if (field !== 'mark' && field !== 'ignore' && fields.filter(f => f === field).length > 1) {
+      errors.push(`More than one column is mapped to ${ROSTER_FIELD_LABELS[field]}`)
+    }
+  }
+  return errors
+}
+
+export function applyColumnMapping(table: RosterTable, mapping: ColumnMapping): RosterRow[] {
+  return table.rows.map((cells, idx) => {
+    const row: RosterRow = {
+      rowNumber: idx + 1,
+      studentId: '',
+      studentName: '',
+      degreeType: '',
+      department: '',
+      studentPublicKey: '',
+      grade: '',
+      expiryDate: null,
+      marks: {},
+    }
+    table.headers.forEach((header, col) => {
+      const value = (cells[col] ?? '').trim()
+      const field = mapping[header] ?? 'ignore'
+      if (field === 'mark') {
+        if (value) row.marks[header] = value
+      } else if (field === 'expiryDate') {
+        row.expiryDate = value || null
+      } else if (field !== 'ignore') {
+        row[field] = value
+      }
+    })
+    return row
+  })
+}
+
+function duplicateKey(studentId: string, degreeType: string): string {
+  return `${studentId.trim().toLowerCase()}\u0000${degreeType.trim().toLowerCase()}`
+}
+
+/**
+ * Validate every row
+ * A row duplicates another when both have the same student ID and degree
+ * type; the first occurrence in the roster wins. Rows an earlier run of the
+ * same job already issued are reported as issued, not as duplicates of the
+ * ledger records they created.
+ */
+export async function validateRoster(
+  rows: RosterRow[],
+  issued: IssuedDiplomaKey[],
+  job: RosterImportJob | null = null,
+  now: Date = new Date()
+): Promise<RosterRowCheck[]> {
+  const issuedByJob = new Set(
+    (job?.results ?? []).filter(r => r.status === 'issued').map(r => r.rowNumber)
+  )
+  const onLedger = new Set(
+    issued
+      .filter(d => d.status === 'valid' && d.studentId && d.degreeType)
+      .map(d => duplicateKey(d.studentId!, d.degreeType!))
+  )
+  const firstRow = new Map<string, number>()
+  const today = now.toISOString().split('T')[0]
+
+  const checks: RosterRowCheck[] = []
+  for (const row of rows) {
+    if (issuedByJob.has(row.rowNumber)) {
+      firstRow.set(duplicateKey(row.studentId, row.degreeType), row.rowNumber)
+      checks.push({ row, status: 'issued', errors: [] })
+      continue
+    }
+
+    const errors: string[] = []
+    for (const field of REQUIRED_ROSTER_FIELDS) {
+      if (!row[field as keyof RosterRow]) {
+        errors.push(`${ROSTER_FIELD_LABELS[field]} is missing`)
+      }
+    }
+    if (row.studentPublicKey) {
+      try {
+        await importHolderPublicKey(row.studentPublicKey)
+      } catch {
+        errors.push('Student public key is not a valid holder key')
+      }
+    }
+    if (row.expiryDate !== null) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(row.expiryDate) || Number.isNaN(Date.parse(row.expiryDate))) {
+        errors.push('Expiry date must be YYYY-MM-DD')
+      } else if (row.expiryDate < today) {
+        errors.push('Expiry date is in the past')
+      }
+    }
+    if (errors.length > 0) {
+      checks.push({ row, status: 'invalid', errors })
+      continue
+    }
+
+    const key = duplicateKey(row.studentId, row.degreeType)
+    if (firstRow.has(key)) {
+      checks.push({
+        row,
+        status: 'duplicate',
+        errors: [`Same student and degree as row ${firstRow.get(key)}`],
+      })
+    } else if (onLedger.has(key)) {
+      firstRow.set(key, row.rowNumber)
+      checks.push({
+        row,
+        status: 'duplicate',
+        errors: ['A valid diploma for this student and degree is already on the ledger'],
+      })
+    } else {
+      firstRow.set(key, row.rowNumber)
+      checks.push({ row, status: 'ready', errors: [] })
+    }
+  }
+  return checks
+}
+
+/**
+ * Job id of a roster: the issuer plus the hash of the file's content
+ */
+export async function rosterJobId(issuerAddress: string, text: string): Promise<string> {
+  return (await sha256(`${issuerAddress}\u0000${text}`)).slice(0, 32)
+}
+
+/**
+ * Issue the ready rows in batches of `batchSize`
+ * Rows in a batch are submitted together; every settled row is recorded on
+ * the job immediately. `shouldStop` is checked between batches so a pause
+ * never abandons a submitted row.
+ */
+export async function runRosterImport(options: {
+  jobId: string
+  rows: RosterRow[]
+  batchSize?: number
+  issueRow: (row: RosterRow) => Promise<{ certificateHash: string; transactionHash: string }>
+  onResult?: (result: RosterRowResult) => void
+  shouldStop?: () => boolean
+}): Promise<RosterRowResult[]> {
+  const { jobId, rows, issueRow, onResult, shouldStop } = options
+  const batchSize = Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE)
+  const results: RosterRowResult[] = []
+
+  for (let start = 0; start < rows.length; start += batchSize) {
+    if (shouldStop?.()) break
+
+    const batch = rows.slice(start, start + batchSize)
+    await Promise.all(
+      batch.map(async row => {
+        let result: RosterRowResult
+        try {
+          const { certificateHash, transactionHash } = await issueRow(row)
+          result = {
+            rowNumber: row.rowNumber,
+            studentId: row.studentId,
+            status: 'issued',
+            certificateHash,
+            transactionHash,
+            at: Date.now(),
+          }
+        } catch (error) {
+          result = {
+            rowNumber: row.rowNumber,
+            studentId: row.studentId,
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Issuance failed',
+            at: Date.now(),
+          }
+        }
+        rosterJobs.recordResult(jobId, result)
+        results.push(result)
+        onResult?.(result)
+      })
+    )
+  }
+  return results
+}
+
+/**
+ * Issue the ready rows as one Merkle batch
+ * The whole cohort shares a single anchor transaction, so the rows settle
+ * together: all issued under the anchor's transaction or all failed.
+ */
+export async function runRosterBatchImport(options: {
+  jobId: string
+  rows: RosterRow[]
+  issueBatch: (rows: RosterRow[]) => Promise<{ certificateHashes: string[]; transactionHash: string }>
+  onResult?: (result: RosterRowResult) => void
+}): Promise<RosterRowResult[]> {
+  const { jobId, rows, issueBatch, onResult } = options
+  if (rows.length === 0) return []
+
+  let results: RosterRowResult[]
+  try {
+    const { certificateHashes, transactionHash } = await issueBatch(rows)
+    results = rows.map((row, idx) => ({
+      rowNumber: row.rowNumber,
+      studentId: row.studentId,
+      status: 'issued',
+      certificateHash: certificateHashes[idx],
+      transactionHash,
+      at: Date.now(),
+    }))
+  } catch (error) {
+    results = rows.map(row => ({
+      rowNumber: row.rowNumber,
+      studentId: row.studentId,
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Batch anchoring failed',
+      at: Date.now(),
+    }))
+  }
+  for (const result of results) {
+    rosterJobs.recordResult(jobId, result)
+    onResult?.(result)
+  }
+  return results
+}
+
+function csvCell(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Per-row report of a roster: every row with its final status
+ * Rows never submitted (invalid or duplicate) are reported as skipped.
+ */
+export function buildRosterReport(
+  checks: RosterRowCheck[],
+  job: RosterImportJob | null
+): RosterRowResult[] {
+  const latest = new Map((job?.results ?? []).map(r => [r.rowNumber, r]))
+  return checks.map(check =>
+    latest.get(check.row.rowNumber) ??
+    ({
+      rowNumber: check.row.rowNumber,
+      studentId: check.row.studentId,
+      status: 'skipped',
+      error: check.status === 'ready' ? 'Not submitted' : check.errors.join('; '),
+      at: job?.updatedAt ?? Date.now(),
+    } satisfies RosterRowResult)
+  )
+}
+
+export function rosterReportCsv(results: RosterRowResult[]): string {
+  const header = ['row', 'studentId', 'status', 'certificateHash', 'transactionHash', 'error', 'at']
+  const lines = results.map(r =>
+    [
+      r.rowNumber,
+      r.studentId,
+      r.status,
+      r.certificateHash,
+      r.transactionHash,
+      r.error,
+      new Date(r.at).toISOString(),
+    ]
+      .map(csvCell)
+      .join(',')
+  )
+  return [header.join(','), ...lines].join('\r\n') + '\r\n'
+}
+
+/**
+ * Issuer-side store of roster jobs
+ * A row's latest result replaces earlier ones, so a failed row that succeeds
+ * on resume is reported as issued.
+ */
+class RosterJobStore {
+  private load(): RosterImportJob[] {
+    try {
+      return JSON.parse(localStorage.getItem(JOB_STORAGE_KEY) || '[]')
+    } catch (error) {
+      console.error('Failed to load roster jobs:', error)
+      return []
+    }
+  }
+
+  private save(jobs: RosterImportJob[]): void {
+    localStorage.setItem(JOB_STORAGE_KEY, JSON.stringify(jobs))
+  }
+
+  get(jobId: string): RosterImportJob | null {
+    return this.load().find(j => j.jobId === jobId) || null
+  }
+
+  /**
+   * The existing job for a roster, or a new one
+   */
+  open(jobId: string, issuerAddress: string, fileName: string, totalRows: number): RosterImportJob {
+    const existing = this.get(jobId)
+    if (existing) return existing
+
+    const now = Date.now()
+    const job: RosterImportJob = {
+      jobId,
+      issuerAddress,
+      fileName,
+      totalRows,
+      createdAt: now,
+      updatedAt: now,
+      results: [],
+    }
+    this.save([...this.load(), job])
+    return job
+  }
+
+  recordResult(jobId: string, result: RosterRowResult): void {
+    this.save(
+      this.load().map(job =>
+        job.jobId === jobId
+          ? {
+              ...job,
+              updatedAt: result.at,
+              results: [...job.results.filter(r => r.rowNumber !== result.rowNumber), result],
+            }
+          : job
+      )
+    )
+  }
+
+  /**
+   * Jobs started by an issuer, most recently active first
+   */
+  list(issuerAddress: string): RosterImportJob[] {
+    return this.load()
+      .filter(j => j.issuerAddress === issuerAddress)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+  }
+
+  remove(jobId: string): void {
+    this.save(this.load().filter(j => j.jobId !== jobId))
+  }
+}
+
+export const rosterJobs = new RosterJobStore()
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import type { StudentDataFields } from './canonical'
+import { randomHex } from './crypto'
+import {
+  attributeCommitment,
+  diplomaAttributes,
+  disclosureErrors,
+  discloseAttributes,
+  generateAttributeSalts,
+} from './selectiveDisclosure'
+
+const STUDENT: StudentDataFields = {
+  studentId: 'S001',
+  studentName: 'Ada Lovelace',
+  degreeType: 'BSc Computer Science',
+  department: 'Computing',
+  issueDate: '2025-06-30',
+  universityAddress: 'addr_university',
+  marks: { grade: 'First', GPA: '3.90', Algorithms: 92 },
+}
+
+describe('selective disclosure', () => {
+  const values = diplomaAttributes(STUDENT)
+  const salts = generateAttributeSalts()
+  const recordCommitment = '0x' + randomHex(32)
+  const commitment = attributeCommitment(values, salts, recordCommitment)
+
+  it('reads the disclosable attributes from the student data', () => {
+    expect(values).toEqual({
+      degreeType: 'BSc Computer Science',
+      department: 'Computing',
+      graduationYear: 2025,
+      honors: 'First',
+      gpa: 3.9,
+    })
+  })
+
+  it('opens the commitment with only the requested attributes', () => {
+    const disclosures = discloseAttributes(values, salts, recordCommitment, ['gpa', 'degreeType'])
+    expect(disclosures.map(d => [d.name, d.value])).toEqual([
+      ['degreeType', 'BSc Computer Science'],
+      ['gpa', 3.9],
+    ])
+    expect(disclosureErrors(commitment, disclosures)).toEqual([])
+  })
+
+  it('rejects a changed value or salt', () => {
+    const [gpa] = discloseAttributes(values, salts, recordCommitment, ['gpa'])
+    expect(disclosureErrors(commitment, [{ ...gpa, value: 4 }])).toEqual([
+      "Disclosed GPA does not match the diploma's commitment",
+    ])
+    expect(disclosureErrors(commitment, [{ ...gpa, salt: randomHex(32) }])).toHaveLength(1)
+  })
+
+  it("rejects one attribute's value presented under another's name", () => {
+    const [department] = discloseAttributes(values, salts, recordCommitment, ['department'])
+    expect(disclosureErrors(commitment, [{ ...department, name: 'degreeType' }])).toHaveLength(1)
+  })
+
+  it('rejects a disclosure against another diploma', () => {
+    const other = attributeCommitment(values, generateAttributeSalts(), recordCommitment)
+    expect(disclosureErrors(other, discloseAttributes(values, salts, recordCommitment, ['honors']))).toHaveLength(1)
+  })
+
+  it('rejects an attribute disclosed twice', () => {
+    const [honors] = discloseAttributes(values, salts, recordCommitment, ['honors'])
+    expect(disclosureErrors(commitment, [honors, honors])).toEqual(['Honours / classification is disclosed twice'])
+  })
+})
@@ -0,0 +1,187 @@
+/**
+ * Selective Disclosure
+ * Attribute-level commitments, so a student can reveal single diploma
+ * attributes instead of all or nothing.
+ *
+ * A version 2 `studentDataCommitment` is the root of a small Merkle tree. Each
+ * disclosable attribute is one leaf, salted on its own, so revealing a leaf
+ * says nothing about its siblings. The last leaf wraps the version 1
+ * commitment over the full student data; it keeps name, ID and marks bound
+ * to the root but is never opened. A presentation carries the requested
+ * attributes with their salts and paths; the verifier recomputes the root
+ * and the ledger checks that root against the diploma's record as before.
+ *
+ * Version 3 adds the predicate leaves of predicateProofs between the
+ * attributes and the record leaf; version 4 adds the transcript leaf of
+ * transcriptProofs after them.
+ */
+
+import { canonicalize, normalizeMarks, type StudentDataFields } from './canonical'
+import { randomHex, sha256Sync } from './crypto'
+import type { MerkleStep } from './ledgerBackend'
+import { buildMerkleTree, merkleRootFromPath } from './merkleBatch'
+import type { RequestedClaim } from './verificationSession'
+
+const ATTRIBUTE_LEAF_DOMAIN = 'privatediploma/attribute-leaf/v1'
+const RECORD_LEAF_DOMAIN = 'privatediploma/attribute-record/v1'
+const ATTRIBUTE_NODE_DOMAIN = 'privatediploma/attribute-node/v1'
+
+/** Leaf order of the attribute tree; the record leaf follows the last one */
+export const DISCLOSABLE_ATTRIBUTES = ['degreeType', 'department', 'graduationYear', 'honors', 'gpa'] as const
+
+export type DisclosableAttribute = (typeof DISCLOSABLE_ATTRIBUTES)[number]
+
+/** null = the issuer recorded no value (e.g. no GPA) */
+export type AttributeValue = string | number | null
+
+export type AttributeValues = Record<DisclosableAttribute, AttributeValue>
+
+/** One 32-byte salt per attribute leaf */
+export type AttributeSalts = Record<DisclosableAttribute, string>
+
+export const ATTRIBUTE_LABELS: Record<DisclosableAttribute, string> = {
+  degreeType: 'Degree type',
+  department: 'Department',
+  graduationYear: 'Graduation year',
+  honors: 'Honours / classification',
+  gpa: 'GPA',
+}
+
+/** The verification request claim that asks for each attribute */
+export const ATTRIBUTE_CLAIMS: Record<DisclosableAttribute, RequestedClaim> = {
+  degreeType: 'degree-type',
+  department: 'department',
+  graduationYear: 'graduation-year',
+  honors: 'honors',
+  gpa: 'gpa',
+}
+
+/**
+ * One revealed attribute: its value, salt and path to the commitment
+ */
+export interface AttributeDisclosure {
+  name: DisclosableAttribute
+  value: AttributeValue
+  salt: string
+  path: MerkleStep[]
+}
+
+export function generateAttributeSalts(): AttributeSalts {
+  return Object.fromEntries(DISCLOSABLE_ATTRIBUTES.map(name => [name, randomHex(32)])) as AttributeSalts
+}
+
+/**
+ * The attribute values committed for a diploma's student data
+ * Honours come from the `grade` mark and GPA from a mark named `gpa` in any
+ * case (roster columns keep their header), both as normalized for the
+ * full-record commitment.
+ */
+export function diplomaAttributes(fields: StudentDataFields): AttributeValues {
+  const marks = normalizeMarks(fields.marks)
+  const gpaKey = Object.keys(marks).find(key => key.toLowerCase() === 'gpa')
+  const graduationYear = Number(fields.issueDate.slice(0, 4))
+  return {
+    degreeType: fields.degreeType.normalize('NFC'),
+    department: fields.department.normalize('NFC'),
+    graduationYear: Number.isInteger(graduationYear) ? graduationYear : null,
+    honors: marks.grade ?? null,
+    gpa: gpaKey ? marks[gpaKey] : null,
+  }
+}
+
+/**
+ * Leaf hash of one salted attribute
+ */
+export function attributeLeafHash(name: DisclosableAttribute, value: AttributeValue, salt: string): string {
+  return '0x' + sha256Sync(canonicalize({ domain: ATTRIBUTE_LEAF_DOMAIN, name, value, salt }))
+}
+
+function recordLeafHash(recordCommitment: string): string {
+  return '0x' + sha256Sync(canonicalize({ domain: RECORD_LEAF_DOMAIN, commitment: recordCommitment }))
+}
+
+/**
+ * The attribute tree; paths follow leaf order (attributes, predicate leaves,
+ * transcript leaf, record leaf)
+ */
+export function attributeTree(
+  values: AttributeValues,
+  salts: AttributeSalts,
+  recordCommitment: string,
+  predicateLeaves: string[] = []
+) {
+  return buildMerkleTree(
+    [
+      ...DISCLOSABLE_ATTRIBUTES.map(name => attributeLeafHash(name, values[name], salts[name])),
+      ...predicateLeaves,
+      recordLeafHash(recordCommitment),
+    ],
+    ATTRIBUTE_NODE_DOMAIN
+  )
+}
+
+/**
+ * Root of a path from one of the attribute tree's leaves
+ */
+export function attributeRootFromPath(leafHash: string, path: MerkleStep[]): string {
+  return merkleRootFromPath(leafHash, path, ATTRIBUTE_NODE_DOMAIN)
+}
+
+/**
+ * Root over the salted attributes and the full-record commitment
+ */
+export function attributeCommitment(
+  values: AttributeValues,
+  salts: AttributeSalts,
+  recordCommitment: string,
+  predicateLeaves: string[] = []
+): string {
+  return attributeTree(values, salts, recordCommitment, predicateLeaves).root
+}
+
+/**
+ * Disclosures of `names`, each with its path to the root
+ */
+export function discloseAttributes(
+  values: AttributeValues,
+  salts: AttributeSalts,
+  recordCommitment: string,
+  names: DisclosableAttribute[],
+  predicateLeaves: string[] = []
+): AttributeDisclosure[] {
+  const { paths } = attributeTree(values, salts, recordCommitment, predicateLeaves)
+  return DISCLOSABLE_ATTRIBUTES.flatMap((name, idx) =>
+    names.includes(name) ? [{ name, value: values[name], salt: salts[name], path: paths[idx] }] : []
+  )
+}
+
+/**
+ * Why `disclosures` do not open `commitment`; empty when every one does
+ */
+export function disclosureErrors(commitment: string, disclosures: AttributeDisclosure[]): string[] {
+  const errors: string[] = []
+  const seen = new Set<DisclosableAttribute>()
+  for (const disclosure of disclosures) {
+    if (seen.has(disclosure.name)) {
+      errors.push(`${ATTRIBUTE_LABELS[disclosure.name]} is disclosed twice`)
+      continue
+    }
+    seen.add(disclosure.name)
+    const leaf = attributeLeafHash(disclosure.name, disclosure.value, disclosure.salt)
+    if (attributeRootFromPath(leaf, disclosure.path) !== commitment) {
+      errors.push(`Disclosed ${ATTRIBUTE_LABELS[disclosure.name]} does not match the diploma's commitment`)
+    }
+  }
+  return errors
+}
+
+/**
+ * Attributes a verification request asks the candidate to reveal
+ */
+export function requestedAttributes(claims: RequestedClaim[]): DisclosableAttribute[] {
+  return DISCLOSABLE_ATTRIBUTES.filter(name => claims.includes(ATTRIBUTE_CLAIMS[name]))
+}
+
+export function formatAttributeValue(value: AttributeValue): string {
+  return value === null ? 'Not recorded' : String(value)
+}
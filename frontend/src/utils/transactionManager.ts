@@ -4,6 +4,17 @@
  */
 
 import { midnightWalletManager } from './midnightWallet';
+import { CURRENT_HASH_ALGORITHM, sha256, toHex, type HashAlgorithm } from './crypto';
+import type { StudentDataFields } from './canonical';
+import {
+  computeAttributeCommitment,
+  generateCommitmentSalt,
+  type CommitmentOpening,
+} from './openingPackage';
+import { generatePredicateSecret } from './predicateProofs';
+import { generateAttributeSalts, type AttributeSalts } from './selectiveDisclosure';
+import { normalizeTranscript, type TranscriptCourse } from './transcriptProofs';
+import type { IssuerChange } from './ledgerBackend';
 
 export interface TransactionConfig {
   rpcUrl: string;
@@ -19,6 +30,10 @@ export interface DiplomaWitness {
   department: string;
   issueDate: string;
   universityAddress: string;
+  /** Per-subject marks committed alongside the grade */
+  marks?: Record<string, string>;
+  /** Per-course credits and marks, committed in the transcript tree */
+  transcript?: TranscriptCourse[];
 }
 
 export interface ZKProofData {
@@ -35,6 +50,22 @@ export interface TransactionResult {
   gasUsed?: string;
   timestamp: number;
   certificateHash?: string;
+  studentDataCommitment?: string;
+  hashAlgorithm?: HashAlgorithm;
+  // Issuer-side only: seal to the student with sealOpening, never persist in clear
+  opening?: CommitmentOpening;
+}
+
+/**
+ * A diploma's public inputs and opening, built without submitting anything
+ * Used for batch issuance, where only the Merkle root is sent on-chain.
+ */
+export interface PreparedDiploma {
+  certificateHash: string;
+  studentDataCommitment: string;
+  hashAlgorithm: HashAlgorithm;
+  // Issuer-side only: seal to the student with sealOpening, never persist in clear
+  opening: CommitmentOpening;
 }
 
 export interface GasEstimate {
@@ -67,28 +98,25 @@ class TransactionManager {
 
     try {
       // Step 1: Generate commitment from witness data (privacy-preserving hash)
-      const commitment = await this.generateCommitment(witness);
+      const prepared = await this.prepareDiplomaCommitment(witness);
+      const commitment = prepared.studentDataCommitment;
       console.log('✓ Generated commitment:', commitment);
 
-      // Step 2: Create nullifier for revocation tracking
-      const nullifier = await this.generateNullifier(witness, commitment);
-      console.log('✓ Generated nullifier:', nullifier);
-
-      // Step 3: Estimate gas fees
+      // Step 2: Estimate gas fees
       const gasEstimate = await this.estimateGasForIssuance(commitment);
       console.log('✓ Gas estimate:', gasEstimate);
 
-      // Step 4: Get wallet account
+      // Step 3: Get wallet account
       const account = midnightWalletManager.getAccount();
       if (!account) {
         throw new Error('Wallet not connected. Please connect your wallet first.');
       }
 
-      // Step 5: Prepare transaction data (only commitment goes on-chain)
+      // Step 4: Prepare transaction data (only hashes go on-chain)
       const txData = {
         from: account.address,
         to: this.config.contractAddress,
-        data: this.encodeIssuanceData(commitment, nullifier),
+        data: this.encodeIssuanceData(prepared.certificateHash, commitment),
         gas: gasEstimate.gasLimit,
         gasPrice: gasEstimate.gasPrice,
         value: '0',
@@ -96,25 +124,25 @@ class TransactionManager {
       };
 
       console.log('🔐 Transaction data prepared (witness stays private):', {
+        certificateHash: prepared.certificateHash.slice(0, 16) + '...',
         commitment: commitment.slice(0, 16) + '...',
-        nullifier: nullifier.slice(0, 16) + '...',
         gas: gasEstimate.gasLimit,
       });
 
-      // Step 6: Sign transaction with wallet
+      // Step 5: Sign transaction with wallet
       const signedTx = await this.signTransaction(txData);
       console.log('✓ Transaction signed');
 
-      // Step 7: Submit to Midnight Network
+      // Step 6: Submit to Midnight Network
       const txHash = await this.broadcastTransaction(signedTx);
       console.log('✓ Transaction broadcast:', txHash);
 
-      // Step 8: Create transaction result
+      // Step 7: Create transaction result
       const result: TransactionResult = {
         txHash,
         status: 'pending',
         timestamp: Date.now(),
-        certificateHash: commitment,
+        ...prepared,
       };
 
       return result;
@@ -124,6 +152,126 @@ class TransactionManager {
     }
   }
 
+  /**
+   * Build a diploma's commitment, certificate hash and opening locally
+   * Nothing is signed or broadcast.
+   */
+  async prepareDiplomaCommitment(witness: DiplomaWitness): Promise<PreparedDiploma> {
+    const { commitment, fields, salt, attributeSalts, predicateSecret, transcript } =
+      await this.generateCommitment(witness);
+
+    // certificateHash = Hash(universityID + studentID + timestamp), as in the contract
+    const certificateHash = await this.hashData(
+      `${witness.universityAddress}${witness.studentId}${witness.issueDate}`
+    );
+
+    return {
+      certificateHash,
+      studentDataCommitment: commitment,
+      hashAlgorithm: CURRENT_HASH_ALGORITHM,
+      opening: {
+        version: 4,
+        fields,
+        salt,
+        attributeSalts,
+        predicateSecret,
+        transcript,
+        certificateHash,
+        studentDataCommitment: commitment,
+        issuerAddress: witness.universityAddress,
+        hashAlgorithm: CURRENT_HASH_ALGORITHM,
+        issuedAt: Date.now(),
+      },
+    };
+  }
+
+  /**
+   * BATCH ANCHOR TRANSACTION
+   * Submit one cohort's Merkle root in place of one issuance per diploma
+   */
+  async submitBatchAnchorTransaction(
+    merkleRoot: string,
+    leafCount: number
+  ): Promise<TransactionResult> {
+    console.log('📝 Submitting batch anchor transaction...');
+
+    try {
+      const gasEstimate = await this.estimateGasForIssuance(merkleRoot);
+
+      const account = midnightWalletManager.getAccount();
+      if (!account) {
+        throw new Error('Wallet not connected. Please connect your wallet first.');
+      }
+
+      const txData = {
+        from: account.address,
+        to: this.config.contractAddress,
+        data: this.encodeBatchAnchorData(merkleRoot, leafCount),
+        gas: gasEstimate.gasLimit,
+        gasPrice: gasEstimate.gasPrice,
+        value: '0',
+        nonce: await this.getNonce(account.address),
+      };
+
+      const signedTx = await this.signTransaction(txData);
+      const txHash = await this.broadcastTransaction(signedTx);
+      console.log('✓ Batch anchor broadcast:', txHash, `(${leafCount} diplomas)`);
+
+      return {
+        txHash,
+        status: 'pending',
+        timestamp: Date.now(),
+      };
+    } catch (error) {
+      console.error('❌ Batch anchor transaction failed:', error);
+      throw new Error(`Transaction failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * ISSUER CHANGE TRANSACTION
+   * Authorize or deauthorize a university; the contract accepts it only
+   * from the owner's wallet
+   */
+  async submitIssuerChangeTransaction(
+    change: IssuerChange,
+    university: string
+  ): Promise<TransactionResult> {
+    console.log(`📝 Submitting issuer ${change} transaction...`);
+
+    try {
+      const gasEstimate = await this.estimateGasForIssuance(university);
+
+      const account = midnightWalletManager.getAccount();
+      if (!account) {
+        throw new Error('Wallet not connected. Please connect your wallet first.');
+      }
+
+      const txData = {
+        from: account.address,
+        to: this.config.contractAddress,
+        data: this.encodeIssuerChangeData(change, university),
+        gas: gasEstimate.gasLimit,
+        gasPrice: gasEstimate.gasPrice,
+        value: '0',
+        nonce: await this.getNonce(account.address),
+      };
+
+      const signedTx = await this.signTransaction(txData);
+      const txHash = await this.broadcastTransaction(signedTx);
+      console.log(`✓ Issuer ${change} broadcast:`, txHash, university);
+
+      return {
+        txHash,
+        status: 'pending',
+        timestamp: Date.now(),
+      };
+    } catch (error) {
+      console.error('❌ Issuer change transaction failed:', error);
+      throw new Error(`Transaction failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * VERIFICATION TRANSACTION
    * Verify diploma using ZK-proof without revealing student data
@@ -379,72 +527,73 @@ class TransactionManager {
 
   /**
    * Generate commitment from witness data (one-way hash)
-   * This goes on-chain, but reveals nothing about the witness
+   * This goes on-chain, but reveals nothing about the witness. Each
+   * disclosable attribute is salted separately so the student can later
+   * reveal it alone. The fields and salts are returned so they can be
+   * handed to the student.
    */
-  private async generateCommitment(witness: DiplomaWitness): Promise<string> {
-    // Concatenate witness fields
-    const witnessStr = JSON.stringify({
-      id: witness.studentId,
-      name: witness.studentName,
-      degree: witness.degreeType,
-      grade: witness.grade,
-      dept: witness.department,
-      date: witness.issueDate,
-      uni: witness.universityAddress,
-    });
-
-    // Generate commitment using hash function
-    const commitment = await this.hashData(witnessStr);
-    
-    // Add random salt for additional privacy
-    const salt = this.generateSalt();
-    const finalCommitment = await this.hashData(commitment + salt);
+  private async generateCommitment(
+    witness: DiplomaWitness
+  ): Promise<{
+    commitment: string;
+    fields: StudentDataFields;
+    salt: string;
+    attributeSalts: AttributeSalts;
+    predicateSecret: string;
+    transcript: TranscriptCourse[];
+  }> {
+    const fields: StudentDataFields = {
+      studentId: witness.studentId,
+      studentName: witness.studentName,
+      degreeType: witness.degreeType,
+      department: witness.department,
+      issueDate: witness.issueDate,
+      universityAddress: witness.universityAddress,
+      marks: { ...witness.marks, grade: witness.grade },
+    };
+    const salt = generateCommitmentSalt();
+    const attributeSalts = generateAttributeSalts();
+    const predicateSecret = generatePredicateSecret();
+    const transcript = normalizeTranscript(witness.transcript ?? []);
+    const commitment = await computeAttributeCommitment(fields, salt, attributeSalts, predicateSecret, transcript);
 
-    return finalCommitment;
+    return { commitment, fields, salt, attributeSalts, predicateSecret, transcript };
   }
 
   /**
-   * Generate nullifier for revocation tracking
+   * Hash data using SHA-256 (privacy-preserving)
    */
-  private async generateNullifier(
-    witness: DiplomaWitness,
-    commitment: string
-  ): Promise<string> {
-    const nullifierInput = `${witness.studentId}:${commitment}:${Date.now()}`;
-    return this.hashData(nullifierInput);
+  private async hashData(data: string): Promise<string> {
+    return '0x' + await sha256(data);
   }
 
+  // ==================== ENCODING UTILITIES ====================
+
   /**
-   * Hash data using SHA-256 (privacy-preserving)
+   * Encode issuance data for contract call
    */
-  private async hashData(data: string): Promise<string> {
-    // Simple hash implementation
-    let hash = 0;
-    for (let i = 0; i < data.length; i++) {
-      const char = data.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
-    }
-    return '0x' + Math.abs(hash).toString(16).padStart(64, '0');
+  private encodeIssuanceData(certificateHash: string, commitment: string): string {
+    // Function signature: issueDiploma(bytes32 certificateHash, bytes32 commitment)
+    const functionSig = '0x1234abcd'; // Mock function signature
+    return functionSig + certificateHash.slice(2) + commitment.slice(2);
   }
 
   /**
-   * Generate random salt for commitment
+   * Encode batch anchor data for contract call
    */
-  private generateSalt(): string {
-    return Math.random().toString(36).substring(2, 15) + 
-           Math.random().toString(36).substring(2, 15);
+  private encodeBatchAnchorData(merkleRoot: string, leafCount: number): string {
+    // Function signature: anchorBatch(bytes32 merkleRoot, uint32 leafCount)
+    const functionSig = '0x5678ef01'; // Mock function signature
+    return functionSig + merkleRoot.slice(2) + leafCount.toString(16).padStart(8, '0');
   }
 
-  // ==================== ENCODING UTILITIES ====================
-
   /**
-   * Encode issuance data for contract call
+   * Encode issuer change data for contract call
    */
-  private encodeIssuanceData(commitment: string, nullifier: string): string {
-    // Function signature: issueDiploma(bytes32 commitment, bytes32 nullifier)
-    const functionSig = '0x1234abcd'; // Mock function signature
-    return functionSig + commitment.slice(2) + nullifier.slice(2);
+  private encodeIssuerChangeData(change: IssuerChange, university: string): string {
+    // Function signature: addAuthorizedIssuer(address) / removeAuthorizedIssuer(address)
+    const functionSig = change === 'add' ? '0x9a1b2c3d' : '0x4d3c2b1a'; // Mock function signatures
+    return functionSig + toHex(new TextEncoder().encode(university));
   }
 
   /**
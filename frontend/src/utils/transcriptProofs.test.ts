@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'vitest'
+import type { StudentDataFields } from './canonical'
+import { randomHex } from './crypto'
+import { generatePredicateSecret, hashChain, predicateLeaves } from './predicateProofs'
+import {
+  DISCLOSABLE_ATTRIBUTES,
+  attributeTree,
+  diplomaAttributes,
+  generateAttributeSalts,
+} from './selectiveDisclosure'
+import {
+  MARK_RANGE,
+  courseDisclosureErrors,
+  courseHolds,
+  coursePredicateShapeError,
+  courseProofErrors,
+  discloseCourses,
+  proveCourses,
+  transcriptLeaf,
+  type CourseProof,
+  type CoursePredicate,
+  type TranscriptCourse,
+} from './transcriptProofs'
+
+const STUDENT: StudentDataFields = {
+  studentId: 'S001',
+  studentName: 'Ada Lovelace',
+  degreeType: 'BSc Computer Science',
+  department: 'Computing',
+  issueDate: '2025-06-30',
+  universityAddress: 'addr_university',
+  marks: { GPA: '3.90' },
+}
+
+const TRANSCRIPT: TranscriptCourse[] = [
+  { course: 'Algorithms', credits: 15, mark: 92 },
+  { course: 'Compilers', credits: 15, mark: 89.96 },
+  { course: 'Databases', credits: 10, mark: '71.5' },
+  { course: 'Ethics', credits: 5, mark: 'Pass' },
+  { course: 'Robotics', credits: 10, mark: 105 },
+]
+
+/** A version 4 diploma over `courses`: its commitment and the transcript leaf's path */
+function diploma(courses: TranscriptCourse[], secret: string) {
+  const values = diplomaAttributes(STUDENT)
+  const leaves = [...predicateLeaves(values, secret), transcriptLeaf(courses, secret)]
+  const { root, paths } = attributeTree(values, generateAttributeSalts(), '0x' + randomHex(32), leaves)
+  return { commitment: root, anchorPath: paths[DISCLOSABLE_ATTRIBUTES.length + leaves.length - 1] }
+}
+
+describe('transcript proofs', () => {
+  const secret = generatePredicateSecret()
+  const { commitment, anchorPath } = diploma(TRANSCRIPT, secret)
+
+  const disclose = (...names: string[]) => discloseCourses(TRANSCRIPT, secret, names, anchorPath)
+  const prove = (...predicates: CoursePredicate[]) => proveCourses(TRANSCRIPT, secret, predicates, anchorPath)
+  const relabel = (proof: CourseProof, predicate: CoursePredicate): CourseProof => ({ ...proof, predicate })
+
+  describe('disclosures', () => {
+    it('opens the commitment with only the requested courses', () => {
+      const disclosures = disclose('Databases', ' Algorithms ')
+      expect(disclosures.map(d => d.course)).toEqual([
+        { course: 'Databases', credits: 10, mark: 71.5 },
+        { course: 'Algorithms', credits: 15, mark: 92 },
+      ])
+      expect(courseDisclosureErrors(commitment, disclosures)).toEqual([])
+    })
+
+    it('refuses a course the transcript does not list', () => {
+      expect(() => disclose('Astronomy')).toThrow('Your transcript does not list "Astronomy"')
+    })
+
+    it("rejects one course's record relabelled with another's name", () => {
+      const [algorithms] = disclose('Algorithms')
+      const relabelled = { ...algorithms, course: { ...algorithms.course, course: 'Compilers' } }
+      expect(courseDisclosureErrors(commitment, [relabelled])).toEqual([
+        "Disclosed course Compilers does not match the diploma's commitment",
+      ])
+    })
+
+    it('rejects a changed mark', () => {
+      const [compilers] = disclose('Compilers')
+      expect(courseDisclosureErrors(commitment, [{ ...compilers, course: { ...compilers.course, mark: 90 } }])).toHaveLength(1)
+    })
+
+    it("rejects a course moved to another diploma's commitment", () => {
+      const other = diploma(TRANSCRIPT, generatePredicateSecret())
+      expect(courseDisclosureErrors(other.commitment, disclose('Algorithms'))).toHaveLength(1)
+      const [moved] = disclose('Algorithms')
+      expect(courseDisclosureErrors(other.commitment, [{ ...moved, anchorPath: other.anchorPath }])).toHaveLength(1)
+    })
+
+    it('rejects a course disclosed twice', () => {
+      const [algorithms] = disclose('Algorithms')
+      expect(courseDisclosureErrors(commitment, [algorithms, algorithms])).toEqual(['Algorithms is disclosed twice'])
+    })
+
+    it('discloses a mark no predicate can be proven over', () => {
+      expect(courseDisclosureErrors(commitment, disclose('Ethics', 'Robotics'))).toEqual([])
+    })
+  })
+
+  describe('predicates', () => {
+    it('proves bounds the mark meets, including the mark itself', () => {
+      const proofs = prove(
+        { course: 'Algorithms', op: 'gte', value: 90 },
+        { course: 'Algorithms', op: 'gte', value: 92 },
+        { course: 'Algorithms', op: 'lte', value: 92 },
+        { course: 'Databases', op: 'lte', value: 75 }
+      )
+      expect(courseProofErrors(commitment, proofs)).toEqual([])
+    })
+
+    it('refuses to prove a bound the mark misses', () => {
+      expect(() => prove({ course: 'Algorithms', op: 'gte', value: 92.1 })).toThrow('Algorithms mark at least 92.1')
+      expect(() => prove({ course: 'Databases', op: 'lte', value: 70 })).toThrow()
+    })
+
+    it('rejects a forged witness', () => {
+      const [proof] = prove({ course: 'Algorithms', op: 'gte', value: 90 })
+      expect(courseProofErrors(commitment, [{ ...proof, witness: randomHex(32) }])).toEqual([
+        `Proof of "Algorithms mark at least 90" does not match the diploma's commitment`,
+      ])
+    })
+
+    it('leaves the holder no link for a bound above the mark', () => {
+      // Proving the exact mark reveals the chain seed; every link the holder
+      // can compute lies forward of it, and further links only overshoot more
+      const [exact] = prove({ course: 'Algorithms', op: 'gte', value: 92 })
+      const above: CoursePredicate = { course: 'Algorithms', op: 'gte', value: 92.1 }
+      for (let steps = 0; steps <= 20; steps++) {
+        const forged = { ...relabel(exact, above), witness: hashChain(exact.witness, steps) }
+        expect(courseProofErrors(commitment, [forged])).toHaveLength(1)
+      }
+    })
+
+    it('rejects a proof relabelled with a tighter bound or another course', () => {
+      const [atLeast] = prove({ course: 'Algorithms', op: 'gte', value: 90 })
+      expect(courseProofErrors(commitment, [relabel(atLeast, { course: 'Algorithms', op: 'gte', value: 95 })])).toHaveLength(1)
+      expect(courseProofErrors(commitment, [relabel(atLeast, { course: 'Algorithms', op: 'lte', value: 90 })])).toHaveLength(1)
+      expect(courseProofErrors(commitment, [relabel(atLeast, { course: 'Compilers', op: 'gte', value: 90 })])).toHaveLength(1)
+    })
+
+    it("rejects a proof moved to another diploma's commitment", () => {
+      const other = diploma(TRANSCRIPT, generatePredicateSecret())
+      const [proof] = prove({ course: 'Algorithms', op: 'gte', value: 90 })
+      expect(courseProofErrors(other.commitment, [proof])).toHaveLength(1)
+      expect(courseProofErrors(other.commitment, [{ ...proof, anchorPath: other.anchorPath }])).toHaveLength(1)
+    })
+
+    it('rounds an off-grid mark against the holder', () => {
+      // 89.96 sits between the 0.1 steps 89.9 and 90
+      expect(() => prove({ course: 'Compilers', op: 'gte', value: 90 })).toThrow('Compilers mark at least 90')
+      expect(() => prove({ course: 'Compilers', op: 'lte', value: 89.9 })).toThrow('Compilers mark at most 89.9')
+      const proofs = prove(
+        { course: 'Compilers', op: 'gte', value: 89.9 },
+        { course: 'Compilers', op: 'lte', value: 90 }
+      )
+      expect(courseProofErrors(commitment, proofs)).toEqual([])
+
+      const [atLeast] = proofs
+      expect(courseProofErrors(commitment, [relabel(atLeast, { course: 'Compilers', op: 'gte', value: 90 })])).toHaveLength(1)
+    })
+
+    it('rounds an off-grid bound against the holder', () => {
+      expect(courseHolds(TRANSCRIPT, { course: 'Algorithms', op: 'gte', value: 91.95 })).toBe(true)
+      expect(courseHolds(TRANSCRIPT, { course: 'Algorithms', op: 'gte', value: 92.05 })).toBe(false)
+      expect(courseHolds(TRANSCRIPT, { course: 'Algorithms', op: 'lte', value: 92.05 })).toBe(true)
+      expect(courseHolds(TRANSCRIPT, { course: 'Algorithms', op: 'lte', value: 91.95 })).toBe(false)
+    })
+
+    it('cannot prove anything about a mark outside MARK_RANGE', () => {
+      for (const course of ['Robotics', 'Ethics']) {
+        expect(courseHolds(TRANSCRIPT, { course, op: 'gte', value: MARK_RANGE.min })).toBe(false)
+        expect(courseHolds(TRANSCRIPT, { course, op: 'lte', value: MARK_RANGE.max })).toBe(false)
+        expect(() => prove({ course, op: 'lte', value: MARK_RANGE.max })).toThrow()
+      }
+      const below: TranscriptCourse[] = [{ course: 'Algorithms', credits: 15, mark: -1 }]
+      expect(courseHolds(below, { course: 'Algorithms', op: 'lte', value: 50 })).toBe(false)
+    })
+
+    it('refuses a bound outside MARK_RANGE', () => {
+      const bound = `must bound a mark from ${MARK_RANGE.min} to ${MARK_RANGE.max}`
+      expect(coursePredicateShapeError({ course: 'Algorithms', op: 'lte', value: MARK_RANGE.max + 1 })).toBe(bound)
+      expect(coursePredicateShapeError({ course: 'Algorithms', op: 'gte', value: MARK_RANGE.min - 1 })).toBe(bound)
+      expect(courseHolds(TRANSCRIPT, { course: 'Robotics', op: 'lte', value: 110 })).toBe(false)
+    })
+  })
+})
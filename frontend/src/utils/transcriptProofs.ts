@@ -0,0 +1,403 @@
+/**
+ * Transcript Proofs
+ * Per-course marks committed next to the diploma, so a student can reveal a
+ * single course or prove "passed Algorithms with at least 90" without
+ * showing the rest of their transcript.
+ *
+ * Every course contributes three leaves to a transcript tree: the salted
+ * course record (name, credits, mark) and the two range anchors of its mark,
+ * built with the hash chains of predicateProofs. The transcript root is
+ * wrapped in one leaf of the version 4 attribute tree, between the predicate
+ * leaves and the record leaf. A course disclosure or course proof therefore
+ * carries two paths: from its leaf to the transcript root, and from the
+ * transcript leaf to the commitment.
+ *
+ * Leaves are sorted by course name; salts and chain seeds derive from the
+ * opening's predicate secret. A course proof names its course, so the
+ * verifier learns the student took it; marks that are not numbers, or lie
+ * outside MARK_RANGE, can be disclosed but satisfy no predicate.
+ */
+
+import { canonicalize } from './canonical'
+import { sha256Sync } from './crypto'
+import type { MerkleStep } from './ledgerBackend'
+import { buildMerkleTree, merkleRootFromPath } from './merkleBatch'
+import { hashChain } from './predicateProofs'
+import { attributeRootFromPath } from './selectiveDisclosure'
+
+const COURSE_LEAF_DOMAIN = 'privatediploma/transcript-course/v1'
+const COURSE_RANGE_DOMAIN = 'privatediploma/transcript-range/v1'
+const TRANSCRIPT_NODE_DOMAIN = 'privatediploma/transcript-node/v1'
+const TRANSCRIPT_LEAF_DOMAIN = 'privatediploma/transcript-root/v1'
+const TRANSCRIPT_SEED_DOMAIN = 'privatediploma/transcript-seed/v1'
+
+const NUMERIC_MARK = /^-?\d+(\.\d+)?$/
+
+/** Marks range proofs can be made over, in steps of 1 / scale */
+export const MARK_RANGE = { min: 0, max: 100, scale: 10 } as const
+
+/** Root of a transcript with no courses */
+export const EMPTY_TRANSCRIPT_ROOT = '0x' + '0'.repeat(64)
+
+/**
+ * One course of a transcript
+ * Numeric marks are committed as numbers; anything else (a letter grade,
+ * "Pass") as text.
+ */
+export interface TranscriptCourse {
+  course: string
+  credits: number
+  mark: string | number
+}
+
+/**
+ * A bound on one course's mark the employer asks the candidate to prove
+ */
+export interface CoursePredicate {
+  course: string
+  op: 'gte' | 'lte'
+  value: number
+}
+
+/**
+ * One revealed course
+ * `path` leads to the transcript root, `anchorPath` from the transcript leaf
+ * to the commitment.
+ */
+export interface CourseDisclosure {
+  course: TranscriptCourse
+  salt: string
+  path: MerkleStep[]
+  anchorPath: MerkleStep[]
+}
+
+/**
+ * Proof of one course predicate; `witness` is the revealed chain link
+ */
+export interface CourseProof {
+  predicate: CoursePredicate
+  witness: string
+  path: MerkleStep[]
+  anchorPath: MerkleStep[]
+}
+
+type ChainDirection = 'up' | 'down'
+
+/** Course names compare NFC-normalized and trimmed */
+export function normalizeCourseName(name: string): string {
+  return name.normalize('NFC').trim()
+}
+
+/**
+ * Course names NFC-normalized and trimmed, numeric marks as numbers, sorted
+ * by name
+ * Throws on a course without a name, negative credits or a name used twice.
+ */
+export function normalizeTranscript(courses: TranscriptCourse[]): TranscriptCourse[] {
+  const normalized = courses.map(({ course, credits, mark }) => {
+    const name = normalizeCourseName(course)
+    if (!name) {
+      throw new Error('Every transcript course needs a name')
+    }
+    if (!Number.isFinite(credits) || credits < 0) {
+      throw new Error(`Credits for "${name}" must be a non-negative number`)
+    }
+    const text = typeof mark === 'number' ? null : mark.trim()
+    return {
+      course: name,
+      credits,
+      mark: text === null ? mark : NUMERIC_MARK.test(text) ? Number(text) : text.normalize('NFC'),
+    }
+  })
+  const names = normalized.map(c => c.course)
+  const repeated = names.find((name, idx) => names.indexOf(name) !== idx)
+  if (repeated) {
+    throw new Error(`"${repeated}" appears twice in the transcript`)
+  }
+  return normalized.sort((a, b) => (a.course < b.course ? -1 : a.course > b.course ? 1 : 0))
+}
+
+/**
+ * Chain steps from MARK_RANGE.min to `mark`, rounded onto the 1 / scale grid;
+ * null when it cannot be committed
+ */
+function markSteps(mark: unknown, rounding: 'floor' | 'ceil'): number | null {
+  const { min, max, scale } = MARK_RANGE
+  if (typeof mark !== 'number' || !Number.isFinite(mark) || mark < min || mark > max) {
+    return null
+  }
+  const exact = (mark - min) * scale
+  // Marks on the grid only miss it by float error (72.3 * 10)
+  const nearest = Math.round(exact)
+  if (Math.abs(exact - nearest) < 1e-6) return nearest
+  return rounding === 'floor' ? Math.floor(exact) : Math.ceil(exact)
+}
+
+/**
+ * Steps of a committed mark on the chain proving `op` bounds
+ * Off-grid marks round against the holder: down for lower bounds, up for
+ * upper bounds.
+ */
+function valueSteps(mark: unknown, op: CoursePredicate['op']): number | null {
+  return markSteps(mark, op === 'gte' ? 'floor' : 'ceil')
+}
+
+/** Steps of a bound, rounded the other way: up for `gte`, down for `lte` */
+function thresholdSteps(predicate: CoursePredicate): number | null {
+  return markSteps(predicate.value, predicate.op === 'gte' ? 'ceil' : 'floor')
+}
+
+const CHAIN_STEPS = Math.round((MARK_RANGE.max - MARK_RANGE.min) * MARK_RANGE.scale)
+
+function derivedSecret(secret: string, course: string, purpose: string): string {
+  return sha256Sync(canonicalize({ domain: TRANSCRIPT_SEED_DOMAIN, secret, course, purpose }))
+}
+
+function courseLeafHash(course: TranscriptCourse, salt: string): string {
+  return '0x' + sha256Sync(
+    canonicalize({
+      domain: COURSE_LEAF_DOMAIN,
+      course: course.course,
+      credits: course.credits,
+      mark: course.mark,
+      salt,
+    })
+  )
+}
+
+function rangeLeafHash(course: string, direction: ChainDirection, anchor: string): string {
+  return '0x' + sha256Sync(canonicalize({ domain: COURSE_RANGE_DOMAIN, course, direction, anchor }))
+}
+
+/**
+ * Leaf of the attribute tree wrapping a transcript root
+ */
+function transcriptLeafHash(root: string): string {
+  return '0x' + sha256Sync(canonicalize({ domain: TRANSCRIPT_LEAF_DOMAIN, root }))
+}
+
+interface TranscriptLeaf {
+  /** `Algorithms`, `Algorithms/up`, ... */
+  key: string
+  hash: string
+}
+
+function transcriptLeafEntries(courses: TranscriptCourse[], secret: string): TranscriptLeaf[] {
+  return normalizeTranscript(courses).flatMap(course => {
+    const anchors = (['up', 'down'] as const).map(direction => {
+      const steps = valueSteps(course.mark, direction === 'up' ? 'gte' : 'lte')
+      const seed = derivedSecret(secret, course.course, direction)
+      // A mark outside the range gets an anchor no link hashes to
+      const anchor =
+        steps === null
+          ? derivedSecret(secret, course.course, `${direction}/absent`)
+          : hashChain(seed, direction === 'up' ? steps : CHAIN_STEPS - steps)
+      return { key: `${course.course}/${direction}`, hash: rangeLeafHash(course.course, direction, anchor) }
+    })
+    return [
+      { key: course.course, hash: courseLeafHash(course, derivedSecret(secret, course.course, 'salt')) },
+      ...anchors,
+    ]
+  })
+}
+
+function transcriptTree(courses: TranscriptCourse[], secret: string) {
+  const entries = transcriptLeafEntries(courses, secret)
+  if (entries.length === 0) {
+    return { entries, root: EMPTY_TRANSCRIPT_ROOT, paths: [] as MerkleStep[][] }
+  }
+  return { entries, ...buildMerkleTree(entries.map(leaf => leaf.hash), TRANSCRIPT_NODE_DOMAIN) }
+}
+
+/**
+ * The transcript leaf of the version 4 attribute tree
+ */
+export function transcriptLeaf(courses: TranscriptCourse[], secret: string): string {
+  return transcriptLeafHash(transcriptTree(courses, secret).root)
+}
+
+function findCourse(courses: TranscriptCourse[], name: string): TranscriptCourse | undefined {
+  return normalizeTranscript(courses).find(c => c.course === normalizeCourseName(name))
+}
+
+/**
+ * Whether a transcript satisfies a course predicate
+ */
+export function courseHolds(courses: TranscriptCourse[], predicate: CoursePredicate): boolean {
+  const steps = valueSteps(findCourse(courses, predicate.course)?.mark, predicate.op)
+  const threshold = thresholdSteps(predicate)
+  if (steps === null || threshold === null) return false
+  return predicate.op === 'gte' ? steps >= threshold : steps <= threshold
+}
+
+/**
+ * Disclosures of the courses named in `names`
+ * `anchorPath` is the transcript leaf's path in the attribute tree. Throws
+ * for a course the transcript does not list.
+ */
+export function discloseCourses(
+  courses: TranscriptCourse[],
+  secret: string,
+  names: string[],
+  anchorPath: MerkleStep[]
+): CourseDisclosure[] {
+  if (names.length === 0) {
+    return []
+  }
+  const { entries, paths } = transcriptTree(courses, secret)
+  return names.map(name => {
+    const course = findCourse(courses, name)
+    if (!course) {
+      throw new Error(`Your transcript does not list "${name}"`)
+    }
+    return {
+      course,
+      salt: derivedSecret(secret, course.course, 'salt'),
+      path: paths[entries.findIndex(leaf => leaf.key === course.course)],
+      anchorPath,
+    }
+  })
+}
+
+/**
+ * Prove `predicates` over a transcript
+ * Throws, naming the predicate, when the transcript does not satisfy one.
+ */
+export function proveCourses(
+  courses: TranscriptCourse[],
+  secret: string,
+  predicates: CoursePredicate[],
+  anchorPath: MerkleStep[]
+): CourseProof[] {
+  if (predicates.length === 0) {
+    return []
+  }
+  const { entries, paths } = transcriptTree(courses, secret)
+  return predicates.map(predicate => {
+    const course = findCourse(courses, predicate.course)
+    if (!course) {
+      throw new Error(`Your transcript does not list "${predicate.course}"`)
+    }
+    if (!courseHolds(courses, predicate)) {
+      throw new Error(`Your transcript does not satisfy "${describeCoursePredicate(predicate)}"`)
+    }
+    const direction = predicate.op === 'gte' ? 'up' : 'down'
+    const steps = valueSteps(course.mark, predicate.op)!
+    const threshold = thresholdSteps(predicate)!
+    const witness = hashChain(
+      derivedSecret(secret, course.course, direction),
+      direction === 'up' ? steps - threshold : threshold - steps
+    )
+    return {
+      predicate,
+      witness,
+      path: paths[entries.findIndex(leaf => leaf.key === `${course.course}/${direction}`)],
+      anchorPath,
+    }
+  })
+}
+
+/**
+ * Commitment reached from a transcript leaf through both paths
+ */
+function commitmentFromPaths(leafHash: string, path: MerkleStep[], anchorPath: MerkleStep[]): string {
+  const root = merkleRootFromPath(leafHash, path, TRANSCRIPT_NODE_DOMAIN)
+  return attributeRootFromPath(transcriptLeafHash(root), anchorPath)
+}
+
+/**
+ * Why `disclosures` do not open `commitment`; empty when every one does
+ */
+export function courseDisclosureErrors(commitment: string, disclosures: CourseDisclosure[]): string[] {
+  const errors: string[] = []
+  const seen = new Set<string>()
+  for (const disclosure of disclosures) {
+    const name = disclosure.course.course
+    if (seen.has(name)) {
+      errors.push(`${name} is disclosed twice`)
+      continue
+    }
+    seen.add(name)
+    const leaf = courseLeafHash(disclosure.course, disclosure.salt)
+    if (commitmentFromPaths(leaf, disclosure.path, disclosure.anchorPath) !== commitment) {
+      errors.push(`Disclosed course ${name} does not match the diploma's commitment`)
+    }
+  }
+  return errors
+}
+
+/**
+ * Why `proofs` do not prove their predicates against `commitment`; empty
+ * when every one does
+ * The verifier finishes the chain itself, so the holder never names the
+ * anchor.
+ */
+export function courseProofErrors(commitment: string, proofs: CourseProof[]): string[] {
+  return proofs.flatMap(proof => {
+    const { predicate, witness } = proof
+    const threshold = thresholdSteps(predicate)
+    if (threshold !== null) {
+      const direction = predicate.op === 'gte' ? 'up' : 'down'
+      const anchor = hashChain(witness, direction === 'up' ? threshold : CHAIN_STEPS - threshold)
+      const leaf = rangeLeafHash(normalizeCourseName(predicate.course), direction, anchor)
+      if (commitmentFromPaths(leaf, proof.path, proof.anchorPath) === commitment) {
+        return []
+      }
+    }
+    return [`Proof of "${describeCoursePredicate(predicate)}" does not match the diploma's commitment`]
+  })
+}
+
+/**
+ * Stable identity of a course predicate, for matching proofs to requests
+ */
+export function coursePredicateId(predicate: CoursePredicate): string {
+  return `${normalizeCourseName(predicate.course)} ${predicate.op} ${thresholdSteps(predicate)}`
+}
+
+export function describeCoursePredicate(predicate: CoursePredicate): string {
+  return `${predicate.course} mark ${predicate.op === 'gte' ? 'at least' : 'at most'} ${predicate.value}`
+}
+
+export function formatCourse(course: TranscriptCourse): string {
+  return `${course.mark} (${course.credits} credits)`
+}
+
+/**
+ * What is wrong with a course predicate read from a file, phrased to follow
+ * its name; null when it is well formed
+ */
+export function coursePredicateShapeError(value: any): string | null {
+  if (!value || typeof value !== 'object') {
+    return 'must be an object'
+  }
+  if (typeof value.course !== 'string' || value.course.trim() === '') {
+    return 'must name a course'
+  }
+  if (value.op !== 'gte' && value.op !== 'lte') {
+    return 'must use "gte" or "lte"'
+  }
+  if (typeof value.value !== 'number' || markSteps(value.value, 'floor') === null) {
+    return `must bound a mark from ${MARK_RANGE.min} to ${MARK_RANGE.max}`
+  }
+  return null
+}
+
+/**
+ * What is wrong with a course read from a file; null when it is well formed
+ */
+export function courseShapeError(value: any): string | null {
+  if (!value || typeof value !== 'object') {
+    return 'must be an object'
+  }
+  if (typeof value.course !== 'string' || value.course.trim() === '') {
+    return 'must name a course'
+  }
+  if (typeof value.credits !== 'number' || !Number.isFinite(value.credits)) {
+    return 'must give its credits as a number'
+  }
+  if (!['string', 'number'].includes(typeof value.mark)) {
+    return 'must give its mark as a string or number'
+  }
+  return null
+}
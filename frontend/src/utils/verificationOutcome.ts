@@ -0,0 +1,218 @@
+/**
+ * Verification Outcome
+ * The one result type every verification path returns.
+ *
+ * A failed verification carries a discrete reason code instead of free
+ * text, so the UI can tell a replayed proof from a revoked degree. Ledger
+ * adapters produce outcomes from the contract's assertion codes; the
+ * verifier page adds the checks that happen before the ledger is consulted
+ * (proof file format and request binding).
+ */
+
+import { ContractAssertionError, type ContractAssertionCode } from './contractSimulator'
+
+export type VerificationReasonCode =
+  | 'NOT_FOUND'
+  | 'NOT_IN_BATCH'
+  | 'REVOKED'
+  | 'SUPERSEDED'
+  | 'EXPIRED'
+  | 'NULLIFIER_REUSED'
+  | 'NULLIFIER_EPOCH_STALE'
+  | 'NULLIFIER_INVALID'
+  | 'COMMITMENT_MISMATCH'
+  | 'HOLDER_KEY_UNBOUND'
+  | 'HOLDER_SIGNATURE_INVALID'
+  | 'ISSUER_NOT_AUTHORIZED'
+  | 'MALFORMED_PROOF'
+  | 'CHALLENGE_MISMATCH'
+  | 'DISCLOSURE_INVALID'
+  | 'PREDICATE_UNPROVEN'
+  | 'PRESENTATION_NOT_FOUND'
+
+/**
+ * What a failure says about the candidate:
+ * credential - the diploma itself is not (or no longer) good
+ * replay - a genuine proof presented again or to the wrong verifier
+ * proof - the proof is broken or was not made by the holder
+ */
+export type VerificationReasonCategory = 'credential' | 'replay' | 'proof'
+
+export interface VerificationOutcome {
+  isValid: boolean
+  /** Why verification failed; null when it succeeded */
+  reason: VerificationReasonCode | null
+  message: string
+  certificateHash: string
+  issuerAddress?: string
+  verifiedAt: number
+  /** Supporting detail, e.g. every schema error of a malformed proof */
+  details?: string[]
+}
+
+export const VERIFICATION_REASONS: Record<
+  VerificationReasonCode,
+  { title: string; description: string; category: VerificationReasonCategory }
+> = {
+  NOT_FOUND: {
+    title: 'Diploma not found',
+    description: 'No diploma with this certificate hash was ever issued on the ledger.',
+    category: 'credential',
+  },
+  NOT_IN_BATCH: {
+    title: 'Not in an anchored batch',
+    description: 'The diploma is not part of any batch its issuer anchored on the ledger.',
+    category: 'credential',
+  },
+  REVOKED: {
+    title: 'Diploma revoked',
+    description: 'The issuing university has revoked this diploma.',
+    category: 'credential',
+  },
+  SUPERSEDED: {
+    title: 'Diploma superseded',
+    description: 'The issuer has replaced this diploma with a corrected version.',
+    category: 'credential',
+  },
+  EXPIRED: {
+    title: 'Diploma expired',
+    description: 'The diploma has passed the expiry date its issuer set.',
+    category: 'credential',
+  },
+  NULLIFIER_REUSED: {
+    title: 'Proof already used',
+    description:
+      'The candidate already proved this diploma to you in the current epoch. Nullifiers allow one proof per verifier and epoch.',
+    category: 'replay',
+  },
+  NULLIFIER_EPOCH_STALE: {
+    title: 'Proof from an earlier epoch',
+    description: 'The proof was made for an earlier nullifier epoch. Ask the candidate for a fresh proof.',
+    category: 'replay',
+  },
+  NULLIFIER_INVALID: {
+    title: 'Nullifier invalid',
+    description: "The proof's nullifier was not derived from the holder's key for this verifier and epoch.",
+    category: 'proof',
+  },
+  COMMITMENT_MISMATCH: {
+    title: 'Commitment mismatch',
+    description: 'The proof does not open the student data commitment recorded at issuance.',
+    category: 'proof',
+  },
+  HOLDER_KEY_UNBOUND: {
+    title: 'Diploma not bound to a holder',
+    description:
+      'The diploma was issued before diplomas were bound to a holder key, so no proof can be signed for it. The student must ask the issuer to amend it with their holder key.',
+    category: 'credential',
+  },
+  HOLDER_SIGNATURE_INVALID: {
+    title: 'Not signed by the holder',
+    description: 'The proof is not signed with the key this diploma was issued to.',
+    category: 'proof',
+  },
+  ISSUER_NOT_AUTHORIZED: {
+    title: 'Issuer not authorized',
+    description: 'The university that issued this diploma is not an authorized issuer.',
+    category: 'credential',
+  },
+  MALFORMED_PROOF: {
+    title: 'Malformed proof',
+    description: 'The proof file is not a valid PrivateDiploma proof.',
+    category: 'proof',
+  },
+  CHALLENGE_MISMATCH: {
+    title: 'Request mismatch',
+    description: 'The proof does not answer an open verification request of yours.',
+    category: 'replay',
+  },
+  DISCLOSURE_INVALID: {
+    title: 'Disclosed attributes invalid',
+    description:
+      'The proof does not disclose every attribute you asked for, or a disclosed value is not the one committed at issuance.',
+    category: 'proof',
+  },
+  PREDICATE_UNPROVEN: {
+    title: 'Requested conditions not proven',
+    description:
+      'The proof does not answer every condition you asked for (such as a minimum GPA), or a condition proof does not match the diploma committed at issuance.',
+    category: 'proof',
+  },
+  PRESENTATION_NOT_FOUND: {
+    title: 'Presentation not on the ledger',
+    description:
+      'No anonymous presentation answering this request was recorded on the ledger, or it answers another verifier.',
+    category: 'proof',
+  },
+}
+
+/** verifyDegree and verifyBatchDegree asserts and the reason each one reports */
+const ASSERTION_REASONS: Partial<Record<ContractAssertionCode, VerificationReasonCode>> = {
+  DIPLOMA_NOT_FOUND: 'NOT_FOUND',
+  BATCH_NOT_FOUND: 'NOT_IN_BATCH',
+  INCLUSION_PROOF_INVALID: 'NOT_IN_BATCH',
+  ISSUER_NOT_AUTHORIZED: 'ISSUER_NOT_AUTHORIZED',
+  DIPLOMA_SUPERSEDED: 'SUPERSEDED',
+  DIPLOMA_REVOKED: 'REVOKED',
+  DIPLOMA_EXPIRED: 'EXPIRED',
+  PROOF_COMMITMENT_MISMATCH: 'COMMITMENT_MISMATCH',
+  HOLDER_KEY_UNBOUND: 'HOLDER_KEY_UNBOUND',
+  HOLDER_SIGNATURE_INVALID: 'HOLDER_SIGNATURE_INVALID',
+  NULLIFIER_EPOCH_STALE: 'NULLIFIER_EPOCH_STALE',
+  NULLIFIER_INVALID: 'NULLIFIER_INVALID',
+  NULLIFIER_ALREADY_USED: 'NULLIFIER_REUSED',
+}
+
+export function reasonFromAssertion(code: ContractAssertionCode): VerificationReasonCode {
+  return ASSERTION_REASONS[code] ?? 'MALFORMED_PROOF'
+}
+
+export function verificationPassed(
+  certificateHash: string,
+  issuerAddress?: string,
+  message = 'Diploma verified successfully through Midnight Network'
+): VerificationOutcome {
+  return {
+    isValid: true,
+    reason: null,
+    message,
+    certificateHash,
+    ...(issuerAddress ? { issuerAddress } : {}),
+    verifiedAt: Date.now(),
+  }
+}
+
+export function verificationFailed(
+  reason: VerificationReasonCode,
+  certificateHash: string,
+  details?: string[]
+): VerificationOutcome {
+  return {
+    isValid: false,
+    reason,
+    message: VERIFICATION_REASONS[reason].title,
+    certificateHash,
+    verifiedAt: Date.now(),
+    ...(details && details.length > 0 ? { details } : {}),
+  }
+}
+
+/**
+ * Run a contract verification and turn a failed assert into its outcome
+ * Errors other than contract asserts are rethrown.
+ */
+export function outcomeFromContract(
+  certificateHash: string,
+  issuerAddress: string | undefined,
+  verify: () => unknown
+): VerificationOutcome {
+  try {
+    verify()
+  } catch (error) {
+    if (error instanceof ContractAssertionError) {
+      return verificationFailed(reasonFromAssertion(error.code), certificateHash, [error.message])
+    }
+    throw error
+  }
+  return verificationPassed(certificateHash, issuerAddress)
+}
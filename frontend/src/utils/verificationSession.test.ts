@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  DEFAULT_REQUEST_TTL_MS,
+  isRequestExpired,
+  parseVerificationRequest,
+  requestNonce,
+  verificationSessions,
+} from './verificationSession'
+
+const VERIFIER = 'addr_employer'
+const NOW = 1_750_000_000_000
+
+describe('verification sessions', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    vi.useFakeTimers()
+    vi.setSystemTime(NOW)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('is open until the request expires', async () => {
+    const session = await verificationSessions.create(VERIFIER, ['diploma-valid'])
+    expect(session.request.expiresAt).toBe(NOW + DEFAULT_REQUEST_TTL_MS)
+    expect(verificationSessions.statusOf(session, NOW + DEFAULT_REQUEST_TTL_MS - 1)).toBe('open')
+    expect(verificationSessions.statusOf(session, NOW + DEFAULT_REQUEST_TTL_MS)).toBe('expired')
+    expect(isRequestExpired(session.request, NOW + DEFAULT_REQUEST_TTL_MS)).toBe(true)
+  })
+
+  it('still finds an expired request by its nonce, as expired', async () => {
+    const { nonce } = await verificationSessions.create(VERIFIER, ['diploma-valid'], 60_000)
+    vi.setSystemTime(NOW + 60_000)
+    const session = verificationSessions.findByNonce(VERIFIER, nonce)
+    expect(session).not.toBeNull()
+    expect(verificationSessions.statusOf(session!)).toBe('expired')
+  })
+
+  it('reports a replayed nonce as completed once the request was used', async () => {
+    const { request, nonce } = await verificationSessions.create(VERIFIER, ['diploma-valid'])
+    verificationSessions.complete(request.requestId, '0xabc')
+
+    const replayed = verificationSessions.findByNonce(VERIFIER, nonce)
+    expect(replayed?.certificateHash).toBe('0xabc')
+    expect(verificationSessions.statusOf(replayed!)).toBe('completed')
+    // Completion outlasts expiry, so a used request is never offered as open
+    expect(verificationSessions.statusOf(replayed!, NOW + 2 * DEFAULT_REQUEST_TTL_MS)).toBe('completed')
+  })
+
+  it("finds a nonce only among the verifier's own requests", async () => {
+    const { nonce } = await verificationSessions.create(VERIFIER, ['diploma-valid'])
+    expect(verificationSessions.findByNonce('addr_other_employer', nonce)).toBeNull()
+  })
+
+  it('binds the nonce to every field of the request', async () => {
+    const { request, nonce } = await verificationSessions.create(VERIFIER, ['diploma-valid', 'gpa'], 60_000, [
+      { attribute: 'gpa', op: 'gte', value: 3.5 },
+    ])
+    expect(await requestNonce(parseVerificationRequest(JSON.stringify(request)))).toBe(nonce)
+
+    const altered = [
+      { ...request, requestId: 'another-request' },
+      { ...request, verifierId: 'addr_other_employer' },
+      { ...request, challenge: '0x00' },
+      { ...request, requestedClaims: ['diploma-valid' as const] },
+      { ...request, predicates: [{ attribute: 'gpa' as const, op: 'gte' as const, value: 3 }] },
+      { ...request, courses: ['Algorithms'] },
+      { ...request, expiresAt: request.expiresAt + 60_000 },
+    ]
+    for (const other of altered) {
+      const otherNonce = await requestNonce(other)
+      expect(otherNonce).not.toBe(nonce)
+      expect(verificationSessions.findByNonce(VERIFIER, otherNonce)).toBeNull()
+    }
+  })
+})
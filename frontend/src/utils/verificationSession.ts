@@ -0,0 +1,256 @@
+/**
+ * Verification Sessions
+ * Employer-initiated challenge–response for diploma presentations.
+ *
+ * The employer creates a VerificationRequest (verifier id, random challenge,
+ * requested claims, expiry) and hands it to the candidate. The candidate's
+ * proof carries `nonce = requestNonce(request)`, which the holder signature
+ * covers, so a proof only verifies against the one open request it was made
+ * for and only until that request expires or is completed.
+ */
+
+import { hashCanonical } from './canonical'
+import { randomHex } from './crypto'
+import { predicateShapeError, type Predicate } from './predicateProofs'
+import { coursePredicateShapeError, type CoursePredicate } from './transcriptProofs'
+
+const SESSION_STORAGE_KEY = '__privatediploma_verification_requests'
+const NONCE_DOMAIN = 'privatediploma/verification-request/v1'
+
+export const DEFAULT_REQUEST_TTL_MS = 30 * 60 * 1000
+
+/**
+ * Claims an employer can ask a candidate to prove
+ * All but the first two ask the candidate to disclose one diploma attribute
+ * (see selectiveDisclosure).
+ */
+export type RequestedClaim =
+  | 'diploma-valid'
+  | 'issuer-authorized'
+  | 'degree-type'
+  | 'department'
+  | 'graduation-year'
+  | 'honors'
+  | 'gpa'
+
+export const REQUESTED_CLAIM_LABELS: Record<RequestedClaim, string> = {
+  'diploma-valid': 'Holds a valid, unrevoked diploma',
+  'issuer-authorized': 'Diploma issued by an authorized university',
+  'degree-type': 'Degree type',
+  department: 'Department',
+  'graduation-year': 'Graduation year',
+  honors: 'Honours / classification',
+  gpa: 'GPA',
+}
+
+/**
+ * What the employer sends to the candidate
+ */
+export interface VerificationRequest {
+  version: 1
+  type: 'privatediploma/verification-request'
+  requestId: string
+  verifierId: string
+  challenge: string
+  requestedClaims: RequestedClaim[]
+  /** Statements to prove about undisclosed attributes (see predicateProofs) */
+  predicates?: Predicate[]
+  /** Transcript courses to disclose, by name (see transcriptProofs) */
+  courses?: string[]
+  /** Bounds to prove on undisclosed course marks */
+  coursePredicates?: CoursePredicate[]
+  createdAt: number
+  expiresAt: number
+}
+
+export type VerificationSessionStatus = 'open' | 'completed' | 'expired'
+
+/**
+ * Employer-side record of an issued request
+ */
+export interface VerificationSession {
+  request: VerificationRequest
+  nonce: string
+  completedAt?: number
+  certificateHash?: string
+}
+
+/**
+ * The proof nonce a request expects
+ */
+export async function requestNonce(request: VerificationRequest): Promise<string> {
+  return '0x' + await hashCanonical({
+    domain: NONCE_DOMAIN,
+    requestId: request.requestId,
+    verifierId: request.verifierId,
+    challenge: request.challenge,
+    requestedClaims: request.requestedClaims,
+    // Absent for requests without predicates or courses, so their nonces are unchanged
+    ...(request.predicates?.length ? { predicates: request.predicates } : {}),
+    ...(request.courses?.length ? { courses: request.courses } : {}),
+    ...(request.coursePredicates?.length ? { coursePredicates: request.coursePredicates } : {}),
+    expiresAt: request.expiresAt,
+  })
+}
+
+export function isRequestExpired(request: VerificationRequest, now: number = Date.now()): boolean {
+  return now >= request.expiresAt
+}
+
+/**
+ * Parse and validate a request pasted or uploaded by the candidate
+ * Throws with a message describing the first problem found.
+ */
+export function parseVerificationRequest(text: string): VerificationRequest {
+  let value: any
+  try {
+    value = JSON.parse(text)
+  } catch {
+    throw new Error('Verification request is not valid JSON')
+  }
+
+  if (!value || typeof value !== 'object') {
+    throw new Error('Verification request must be a JSON object')
+  }
+  if (value.type !== 'privatediploma/verification-request' || value.version !== 1) {
+    throw new Error('Not a PrivateDiploma verification request (expected version 1)')
+  }
+  for (const field of ['requestId', 'verifierId', 'challenge'] as const) {
+    if (typeof value[field] !== 'string' || value[field].length === 0) {
+      throw new Error(`Verification request is missing "${field}"`)
+    }
+  }
+  if (
+    !Array.isArray(value.requestedClaims) ||
+    value.requestedClaims.some((c: unknown) => !(typeof c === 'string' && c in REQUESTED_CLAIM_LABELS))
+  ) {
+    throw new Error('Verification request has unknown requested claims')
+  }
+  if (value.predicates !== undefined) {
+    if (!Array.isArray(value.predicates)) {
+      throw new Error('Verification request predicates must be a list')
+    }
+    value.predicates.forEach((predicate: unknown, idx: number) => {
+      const problem = predicateShapeError(predicate)
+      if (problem) throw new Error(`Verification request predicate ${idx + 1} ${problem}`)
+    })
+  }
+  if (
+    value.courses !== undefined &&
+    (!Array.isArray(value.courses) ||
+      value.courses.some((course: unknown) => typeof course !== 'string' || course.trim() === ''))
+  ) {
+    throw new Error('Verification request courses must be a list of course names')
+  }
+  if (value.coursePredicates !== undefined) {
+    if (!Array.isArray(value.coursePredicates)) {
+      throw new Error('Verification request course predicates must be a list')
+    }
+    value.coursePredicates.forEach((predicate: unknown, idx: number) => {
+      const problem = coursePredicateShapeError(predicate)
+      if (problem) throw new Error(`Verification request course predicate ${idx + 1} ${problem}`)
+    })
+  }
+  if (!Number.isFinite(value.createdAt) || !Number.isFinite(value.expiresAt)) {
+    throw new Error('Verification request is missing its creation or expiry time')
+  }
+
+  return {
+    version: 1,
+    type: 'privatediploma/verification-request',
+    requestId: value.requestId,
+    verifierId: value.verifierId,
+    challenge: value.challenge,
+    requestedClaims: value.requestedClaims,
+    ...(value.predicates?.length ? { predicates: value.predicates } : {}),
+    ...(value.courses?.length ? { courses: value.courses } : {}),
+    ...(value.coursePredicates?.length ? { coursePredicates: value.coursePredicates } : {}),
+    createdAt: value.createdAt,
+    expiresAt: value.expiresAt,
+  }
+}
+
+/**
+ * Employer-side store of issued requests
+ * Requests are single use: a successful verification completes them.
+ */
+class VerificationSessionStore {
+  private load(): VerificationSession[] {
+    try {
+      return JSON.parse(localStorage.getItem(SESSION_STORAGE_KEY) || '[]')
+    } catch (error) {
+      console.error('Failed to load verification requests:', error)
+      return []
+    }
+  }
+
+  private save(sessions: VerificationSession[]): void {
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(sessions))
+  }
+
+  async create(
+    verifierId: string,
+    requestedClaims: RequestedClaim[],
+    ttlMs: number = DEFAULT_REQUEST_TTL_MS,
+    predicates: Predicate[] = [],
+    transcript: { courses?: string[]; coursePredicates?: CoursePredicate[] } = {}
+  ): Promise<VerificationSession> {
+    const { courses = [], coursePredicates = [] } = transcript
+    const createdAt = Date.now()
+    const request: VerificationRequest = {
+      version: 1,
+      type: 'privatediploma/verification-request',
+      requestId: randomHex(16),
+      verifierId,
+      challenge: '0x' + randomHex(32),
+      requestedClaims,
+      ...(predicates.length ? { predicates } : {}),
+      ...(courses.length ? { courses } : {}),
+      ...(coursePredicates.length ? { coursePredicates } : {}),
+      createdAt,
+      expiresAt: createdAt + ttlMs,
+    }
+    const session: VerificationSession = { request, nonce: await requestNonce(request) }
+    this.save([...this.load(), session])
+    console.log('📨 Verification request created:', request.requestId)
+    return session
+  }
+
+  statusOf(session: VerificationSession, now: number = Date.now()): VerificationSessionStatus {
+    if (session.completedAt) return 'completed'
+    return isRequestExpired(session.request, now) ? 'expired' : 'open'
+  }
+
+  /**
+   * Requests issued by a verifier, newest first
+   */
+  list(verifierId: string): VerificationSession[] {
+    return this.load()
+      .filter(s => s.request.verifierId === verifierId)
+      .sort((a, b) => b.request.createdAt - a.request.createdAt)
+  }
+
+  /**
+   * The request a proof nonce was made for, whatever its status
+   */
+  findByNonce(verifierId: string, nonce: string): VerificationSession | null {
+    return this.list(verifierId).find(s => s.nonce === nonce) || null
+  }
+
+  /** `certificateHash` is omitted for anonymous presentations, which name none */
+  complete(requestId: string, certificateHash?: string): void {
+    this.save(
+      this.load().map(s =>
+        s.request.requestId === requestId
+          ? { ...s, completedAt: Date.now(), ...(certificateHash ? { certificateHash } : {}) }
+          : s
+      )
+    )
+  }
+
+  remove(requestId: string): void {
+    this.save(this.load().filter(s => s.request.requestId !== requestId))
+  }
+}
+
+export const verificationSessions = new VerificationSessionStore()
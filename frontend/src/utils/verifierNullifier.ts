@@ -0,0 +1,80 @@
+/**
+ * Verifier-Scoped Nullifiers
+ * One nullifier per holder, diploma, verifier and epoch.
+ *
+ * A proof's nullifier is the holder-keyed hash (see holderSignature) of the
+ * certificate hash, the verifier id and the current epoch. Only the holder can
+ * compute it, and only one value exists per input, so the contract's spent set
+ * lets a student prove a diploma to the same verifier at most once per epoch,
+ * while two verifiers see unrelated values. The proof travels with the
+ * nullifier and the contract checks it against the diploma's holder key.
+ *
+ * The contract only accepts nullifiers of the current epoch, so the spent set
+ * never needs older ones: it is emptied when the first proof of a new epoch
+ * arrives.
+ */
+
+import { canonicalize } from './canonical'
+import { holderKeyedHashOutput, proveHolderKeyedHash, verifyHolderKeyedHash } from './holderSignature'
+
+const NULLIFIER_DOMAIN = 'privatediploma/verifier-nullifier/v1'
+
+/** Length of a nullifier epoch; the contract divides `tx.blocknumber` by it */
+export const NULLIFIER_EPOCH_SECONDS = 7 * 24 * 60 * 60
+
+/** The public inputs a nullifier is derived from */
+export interface NullifierScope {
+  certificateHash: string
+  verifierId: string
+  epoch: number
+}
+
+export interface VerifierNullifier {
+  nullifier: string
+  /** Holder-keyed hash proof, checked by the contract (hex) */
+  nullifierProof: string
+}
+
+/**
+ * Epoch of a unix timestamp (seconds)
+ */
+export function nullifierEpoch(unixSeconds: number = Math.floor(Date.now() / 1000)): number {
+  return Math.floor(unixSeconds / NULLIFIER_EPOCH_SECONDS)
+}
+
+function nullifierInput(scope: NullifierScope): string {
+  return canonicalize({
+    domain: NULLIFIER_DOMAIN,
+    certificateHash: scope.certificateHash,
+    verifierId: scope.verifierId,
+    epoch: scope.epoch,
+  })
+}
+
+/**
+ * H(holder secret, certificateHash, verifierId, epoch), with its proof
+ */
+export function deriveVerifierNullifier(holderSecretKey: string, scope: NullifierScope): VerifierNullifier {
+  const nullifierProof = proveHolderKeyedHash(holderSecretKey, nullifierInput(scope))
+  return { nullifier: '0x' + holderKeyedHashOutput(nullifierProof), nullifierProof }
+}
+
+/**
+ * Was `nullifier` derived for `scope` with the secret of `holderPublicKey`?
+ * Never throws.
+ */
+export function verifierNullifierValid(
+  holderPublicKey: string,
+  scope: NullifierScope,
+  nullifier: string,
+  nullifierProof: string
+): boolean {
+  try {
+    return (
+      verifyHolderKeyedHash(holderPublicKey, nullifierInput(scope), nullifierProof) &&
+      nullifier.replace(/^0x/, '').toLowerCase() === holderKeyedHashOutput(nullifierProof)
+    )
+  } catch {
+    return false
+  }
+}
@@ -6,6 +6,9 @@ interface ImportMetaEnv {
   readonly VITE_CONTRACT_ADDRESS: string
   readonly VITE_ENABLE_BLOCKCHAIN: string
   readonly VITE_MIDNIGHT_RPC_URL: string
+  readonly VITE_LEDGER_BACKEND?: 'mock' | 'local' | 'production'
+  readonly VITE_CONTRACT_OWNER?: string
+  readonly VITE_AUTO_AUTHORIZE_ISSUERS?: string
 }
 
 interface ImportMeta {
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config'
+
+// Kept apart from vite.config.ts so test runs skip the dev-server plugins
+export default defineConfig({
+  test: {
+    include: ['frontend/src/**/*.test.ts'],
+    environment: 'happy-dom',
+    env: { VITE_CONTRACT_OWNER: 'addr_test_contract_owner' },
+  },
+})